@@ -0,0 +1,49 @@
+CREATE TABLE IF NOT EXISTS "relayAttempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"attemptIdentifier" text NOT NULL,
+	"bountyId" integer NOT NULL,
+	"amb" text NOT NULL,
+	"fromChainId" text NOT NULL,
+	"toChainId" text NOT NULL,
+	"chainId" text NOT NULL,
+	"isDelivery" boolean NOT NULL,
+	"priority" boolean NOT NULL,
+	"status" text NOT NULL,
+	"error" text,
+	"evaluation" jsonb,
+	"transactionId" integer,
+	"gasEstimate" text,
+	"gasUsed" text,
+	"effectiveGasPrice" text,
+	"value" text,
+	"feePaid" text,
+	"fiatCost" double precision,
+	"rewardClaimed" text,
+	"submittedAt" timestamp NOT NULL,
+	CONSTRAINT "relayAttempts_attemptIdentifier_chainId_unique" UNIQUE("attemptIdentifier","chainId")
+);
+--> statement-breakpoint
+ALTER TABLE "bounties" ADD COLUMN "gasSpentOnDestination" text;--> statement-breakpoint
+ALTER TABLE "bounties" ADD COLUMN "gasSpentOnSource" text;--> statement-breakpoint
+ALTER TABLE "bounties" ADD COLUMN "destinationRelayerReward" text;--> statement-breakpoint
+ALTER TABLE "bounties" ADD COLUMN "sourceRelayerReward" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "blockHash" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "blockNumber" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "relayAttempts" ADD CONSTRAINT "relayAttempts_bountyId_bounties_id_fk" FOREIGN KEY ("bountyId") REFERENCES "bounties"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "relayAttempts" ADD CONSTRAINT "relayAttempts_transactionId_transactions_id_fk" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+UPDATE "bounties" SET "bountyIdentifier" = lower("bountyIdentifier") WHERE "bountyIdentifier" <> lower("bountyIdentifier");--> statement-breakpoint
+UPDATE "transactions" SET "transactionHash" = lower("transactionHash") WHERE "transactionHash" <> lower("transactionHash");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bounties_bountyIdentifier_idx" ON "bounties" ("bountyIdentifier");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bounties_fromChainId_idx" ON "bounties" ("fromChainId");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bounties_toChainId_idx" ON "bounties" ("toChainId");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bounties_bountyStatus_idx" ON "bounties" ("bountyStatus");
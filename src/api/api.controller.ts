@@ -0,0 +1,13 @@
+import { Controller, Get } from "@nestjs/common";
+import { getOpenApiDocument } from "./api.openapi";
+
+
+@Controller()
+export class ApiController {
+    private readonly openApiDocument = getOpenApiDocument();
+
+    @Get('openapi.json')
+    getOpenApiDocument(): Record<string, any> {
+        return this.openApiDocument;
+    }
+}
@@ -0,0 +1,106 @@
+import { EVALUATOR_API_ENDPOINTS } from "src/evaluator/evaluator.schema";
+import { HEALTH_API_ENDPOINTS } from "src/health/health.schema";
+import { METRICS_API_ENDPOINTS } from "src/metrics/metrics.schema";
+import { PRICING_API_ENDPOINTS } from "src/pricing/pricing.schema";
+import { STORE_API_ENDPOINTS } from "src/store/store.schema";
+import { SUBMITTER_API_ENDPOINTS } from "src/submitter/submitter.schema";
+import { API_VALIDATION_ERROR_RESPONSE_SCHEMA } from "./api.schema";
+import { ApiEndpoint } from "./api.types";
+
+
+const OPENAPI_VERSION = '3.0.3';
+const API_TITLE = 'Generalised Relayer API';
+const API_VERSION = '1.0.0';
+
+export const API_ENDPOINTS: ApiEndpoint[] = [
+    ...STORE_API_ENDPOINTS,
+    ...SUBMITTER_API_ENDPOINTS,
+    ...EVALUATOR_API_ENDPOINTS,
+    ...PRICING_API_ENDPOINTS,
+    ...HEALTH_API_ENDPOINTS,
+    ...METRICS_API_ENDPOINTS,
+];
+
+
+// OpenAPI document
+// ************************************************************************************************
+
+export function getOpenApiDocument(
+    endpoints: ApiEndpoint[] = API_ENDPOINTS,
+): Record<string, any> {
+    const paths: Record<string, Record<string, any>> = {};
+
+    for (const endpoint of endpoints) {
+        paths[endpoint.path] ??= {};
+        paths[endpoint.path]![endpoint.method] = getOpenApiOperation(endpoint);
+    }
+
+    return {
+        openapi: OPENAPI_VERSION,
+        info: {
+            title: API_TITLE,
+            version: API_VERSION,
+        },
+        paths,
+        components: {
+            schemas: {
+                ValidationError: API_VALIDATION_ERROR_RESPONSE_SCHEMA,
+            },
+        },
+    };
+}
+
+function getOpenApiOperation(endpoint: ApiEndpoint): Record<string, any> {
+    const parameters: Record<string, any>[] = [];
+
+    for (const [name, schema] of Object.entries(endpoint.params ?? {})) {
+        parameters.push({
+            name,
+            in: 'path',
+            required: true,
+            schema,
+        });
+    }
+
+    const query = endpoint.query;
+    for (const [name, schema] of Object.entries(query?.properties ?? {})) {
+        parameters.push({
+            name,
+            in: 'query',
+            required: query?.required?.includes(name) ?? false,
+            schema,
+        });
+    }
+
+    const operation: Record<string, any> = {
+        tags: [endpoint.tag],
+        summary: endpoint.summary,
+        parameters,
+        responses: {
+            '200': { description: 'Success.' },
+        },
+    };
+
+    if (endpoint.body != undefined) {
+        operation['requestBody'] = {
+            required: true,
+            content: {
+                'application/json': { schema: endpoint.body },
+            },
+        };
+    }
+
+    // Requests with parameters or a body are schema validated.
+    if (parameters.length > 0 || endpoint.body != undefined) {
+        operation['responses']['400'] = {
+            description: 'Invalid request.',
+            content: {
+                'application/json': {
+                    schema: { $ref: '#/components/schemas/ValidationError' },
+                },
+            },
+        };
+    }
+
+    return operation;
+}
@@ -0,0 +1,143 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv"
+import { ArgumentMetadata, BadRequestException, PipeTransform } from "@nestjs/common";
+import { WsException } from "@nestjs/websockets";
+import { BYTES_32_HEX_EXPR, EVM_ADDRESS_EXPR } from "src/config/config.schema";
+import { ApiSchema, ApiValidationErrorDetail, ApiValidationErrorResponse } from "./api.types";
+
+
+// Common API schemas
+// ************************************************************************************************
+
+export const NON_EMPTY_STRING_API_SCHEMA = {
+    type: "string",
+    minLength: 1,
+}
+
+export const CHAIN_ID_API_SCHEMA = {
+    type: "string",
+    pattern: "^[0-9]+$",
+    description: "Chain id (decimal string).",
+}
+
+export const ADDRESS_API_SCHEMA = {
+    type: "string",
+    pattern: EVM_ADDRESS_EXPR,
+}
+
+export const BYTES_32_API_SCHEMA = {
+    type: "string",
+    pattern: BYTES_32_HEX_EXPR,
+}
+
+export const UINT_API_SCHEMA = {
+    type: "string",
+    pattern: "^([0-9]+|0x[0-9a-fA-F]+)$",
+    description: "Unsigned integer (decimal or '0x' prefixed hexadecimal string).",
+}
+
+export const TIMESTAMP_API_SCHEMA = {
+    type: "integer",
+    minimum: 0,
+    description: "Timestamp in milliseconds.",
+}
+
+export const API_VALIDATION_ERROR_RESPONSE_SCHEMA = {
+    type: "object",
+    properties: {
+        statusCode: { type: "integer" },
+        error: { type: "string" },
+        message: { type: "string" },
+        details: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    path: { type: "string" },
+                    message: { type: "string" },
+                },
+                required: ["path", "message"],
+            },
+        },
+    },
+    required: ["statusCode", "error", "message", "details"],
+}
+
+
+
+// Request validation
+// ************************************************************************************************
+
+// ! Query and path parameters are always received as strings: 'coerceTypes' converts them to the
+// ! types declared on the schemas (e.g. 'integer'), and 'useDefaults' sets the declared defaults.
+const API_VALIDATOR = new Ajv({
+    strict: true,
+    allErrors: true,
+    coerceTypes: true,
+    useDefaults: true,
+});
+
+function formatValidationErrors(
+    errors: ErrorObject[] | null | undefined,
+): ApiValidationErrorDetail[] {
+    return (errors ?? []).map((error) => {
+        // Report the offending property name of the 'required'/'additionalProperties' errors.
+        const property = error.params['missingProperty'] ?? error.params['additionalProperty'];
+        return {
+            path: property != undefined
+                ? `${error.instancePath}/${property}`
+                : error.instancePath,
+            message: error.message ?? 'invalid value',
+        };
+    });
+}
+
+// Validate (and coerce) the request data with the given schema. Invalid requests are rejected
+// with a 400 response that describes the offending fields.
+export class ApiSchemaValidationPipe implements PipeTransform {
+    private readonly validator: ValidateFunction;
+
+    constructor(schema: ApiSchema) {
+        this.validator = API_VALIDATOR.compile(schema);
+    }
+
+    transform(value: any, metadata: ArgumentMetadata): any {
+        // ! Coerced/defaulted values are set on the given value (i.e. only on object properties).
+        if (this.validator(value)) {
+            return value;
+        }
+
+        const target = metadata.type == 'param'
+            ? `path parameter '${metadata.data}'`
+            : metadata.type;
+
+        const response: ApiValidationErrorResponse = {
+            statusCode: 400,
+            error: 'Bad Request',
+            message: `Invalid request ${target}.`,
+            details: formatValidationErrors(this.validator.errors),
+        };
+        throw new BadRequestException(response);
+    }
+}
+
+// Websocket counterpart of the `ApiSchemaValidationPipe`, for the websocket message bodies. A
+// missing body is validated as an empty object.
+export class ApiWsSchemaValidationPipe implements PipeTransform {
+    private readonly validator: ValidateFunction;
+
+    constructor(schema: ApiSchema) {
+        this.validator = API_VALIDATOR.compile(schema);
+    }
+
+    transform(value: any): any {
+        const body = value ?? {};
+        if (this.validator(body)) {
+            return body;
+        }
+
+        throw new WsException({
+            message: `Invalid message body.`,
+            details: formatValidationErrors(this.validator.errors),
+        });
+    }
+}
@@ -0,0 +1,36 @@
+// API types
+// ************************************************************************************************
+
+// ! The API schemas are used both to validate the requests (with ajv) and to generate the OpenAPI
+// ! document. Only the JSON schema keywords that are shared by both specifications may be used
+// ! (i.e. no '$id'/'$ref').
+export type ApiSchema = Record<string, any>;
+
+export interface ApiObjectSchema extends ApiSchema {
+    type: 'object';
+    properties: Record<string, ApiSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+}
+
+export interface ApiEndpoint {
+    method: 'get' | 'post' | 'delete';
+    path: string;                           // OpenAPI path format (e.g. '/messages/{messageIdentifier}')
+    tag: string;
+    summary: string;
+    params?: Record<string, ApiSchema>;     // Path parameters
+    query?: ApiObjectSchema;
+    body?: ApiObjectSchema;
+}
+
+export interface ApiValidationErrorDetail {
+    path: string;       // JSON pointer to the invalid field (e.g. '/limit').
+    message: string;
+}
+
+export interface ApiValidationErrorResponse {
+    statusCode: 400;
+    error: 'Bad Request';
+    message: string;
+    details: ApiValidationErrorDetail[];
+}
@@ -8,11 +8,18 @@ import { PersisterModule } from './store/persister/persister.module';
 import { StoreModule } from './store/store.module';
 import { MonitorModule } from './monitor/monitor.module';
 import { PricingModule } from './pricing/pricing.module';
+import { ApiModule } from './api/api.module';
+import { AuthModule } from './auth/auth.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
 
 @Module({
     imports: [
         ConfigModule,
         LoggerModule,
+        AuthModule,
+        HealthModule,
+        MetricsModule,
         MonitorModule,
         GetterModule,
         CollectorModule,
@@ -20,6 +27,7 @@ import { PricingModule } from './pricing/pricing.module';
         SubmitterModule,
         PersisterModule,
         StoreModule,
+        ApiModule,
     ],
 })
 export class AppModule {}
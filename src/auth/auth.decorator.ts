@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { AUTH_SCOPE_METADATA_KEY, AuthScope } from './auth.types';
+
+// Set the scope required to access a route/websocket event (see `AUTH_DEFAULT_SCOPE`).
+export const RequireScope = (scope: AuthScope) => SetMetadata(AUTH_SCOPE_METADATA_KEY, scope);
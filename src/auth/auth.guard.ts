@@ -0,0 +1,71 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { AuthService } from './auth.service';
+import { AUTH_DEFAULT_SCOPE, AUTH_SCOPE_METADATA_KEY, AuthPrincipal, AuthScope } from './auth.types';
+
+// Verify that the caller of the HTTP route/websocket event holds the required scope (see the
+// `RequireScope` decorator).
+// ! The guard is applied globally to the HTTP routes, but must be explicitly set on the websocket
+// ! gateways (with `@UseGuards(AuthGuard)`).
+@Injectable()
+export class AuthGuard implements CanActivate {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly authService: AuthService,
+    ) {}
+
+    canActivate(context: ExecutionContext): boolean {
+        const scope = this.reflector.getAllAndOverride<AuthScope | undefined>(
+            AUTH_SCOPE_METADATA_KEY,
+            [context.getHandler(), context.getClass()],
+        ) ?? AUTH_DEFAULT_SCOPE;
+
+        const action = `${context.getClass().name}.${context.getHandler().name}`;
+
+        if (context.getType() == 'ws') {
+            const client = context.switchToWs().getClient();
+            const principal = this.authService.getConnectionPrincipal(client);
+            const granted = principal != undefined && this.authService.hasScope(principal, scope);
+            if (principal != undefined) {
+                this.authService.audit(principal, action, granted, {}, scope);
+            }
+            if (!granted) {
+                throw new WsException(`Missing the '${scope}' scope.`);
+            }
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest();
+        const details = {
+            method: request.method,
+            path: request.path,
+            ip: request.ip,
+        };
+
+        let principal: AuthPrincipal;
+        try {
+            principal = this.authService.authenticateRequest({
+                method: request.method,
+                url: request.originalUrl,
+                headers: request.headers,
+                rawBody: request.rawBody,
+                ip: request.ip,
+            });
+        } catch (error) {
+            this.authService.auditFailedAuthentication(action, error, details, scope);
+            throw error;
+        }
+
+        const granted = this.authService.hasScope(principal, scope);
+        this.authService.audit(principal, action, granted, details, scope);
+
+        if (!granted) {
+            throw principal.authenticated
+                ? new ForbiddenException(`Missing the '${scope}' scope.`)
+                : new UnauthorizedException(`Missing the '${scope}' scope (API key required).`);
+        }
+
+        return true;
+    }
+}
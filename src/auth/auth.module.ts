@@ -0,0 +1,18 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+
+@Global()
+@Module({
+    providers: [
+        AuthService,
+        AuthGuard,
+        {
+            provide: APP_GUARD,
+            useExisting: AuthGuard,
+        },
+    ],
+    exports: [AuthService, AuthGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,175 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { AuthConfig } from 'src/config/config.types';
+import { ConfigService } from 'src/config/config.service';
+import { LoggerService } from 'src/logger/logger.service';
+import { AuthService } from './auth.service';
+import { AUTH_API_KEY_HEADER, AUTH_SIGNATURE_HEADER, AUTH_TIMESTAMP_HEADER, AuthRequest } from './auth.types';
+
+const HMAC_MAX_AGE = 60_000;
+
+const READ_KEY = 'read-key';
+const HMAC_KEY = 'hmac-key';
+const HMAC_SECRET = 'hmac-secret';
+
+const AUTH_CONFIG: AuthConfig = {
+    enabled: true,
+    publicScopes: ['read'],
+    hmacMaxAge: HMAC_MAX_AGE,
+    keys: [
+        { name: 'reader', key: READ_KEY, scopes: ['read'] },
+        { name: 'operator', key: HMAC_KEY, scopes: ['prioritise'], hmacSecret: HMAC_SECRET },
+    ],
+};
+
+function getSignature(
+    timestamp: number,
+    method: string,
+    url: string,
+    body: string,
+    secret = HMAC_SECRET,
+): string {
+    return createHmac('sha256', secret)
+        .update(`${timestamp}.${method}.${url}.${body}`)
+        .digest('hex');
+}
+
+describe('AuthService', () => {
+    let authService: AuthService;
+
+    beforeEach(() => {
+        const configService = { globalConfig: { auth: AUTH_CONFIG } } as unknown as ConfigService;
+        const loggerService = {
+            info: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        } as unknown as LoggerService;
+
+        authService = new AuthService(configService, loggerService);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Build a request signed with the given parameters (which default to the request ones).
+    const getSignedRequest = (
+        overrides: Partial<{
+            timestamp: number;
+            method: string;
+            url: string;
+            body: string;
+            secret: string;
+        }> = {},
+    ): AuthRequest => {
+        const timestamp = Date.now();
+        const method = 'POST';
+        const url = '/prioritiseAMBMessage?chainId=1';
+        const body = '{"messageIdentifier":"0x01"}';
+
+        return {
+            method,
+            url,
+            rawBody: Buffer.from(body),
+            headers: {
+                [AUTH_API_KEY_HEADER]: HMAC_KEY,
+                [AUTH_TIMESTAMP_HEADER]: String(overrides.timestamp ?? timestamp),
+                [AUTH_SIGNATURE_HEADER]: getSignature(
+                    overrides.timestamp ?? timestamp,
+                    overrides.method ?? method,
+                    overrides.url ?? url,
+                    overrides.body ?? body,
+                    overrides.secret,
+                ),
+            },
+        };
+    };
+
+    const expectUnauthorized = (request: AuthRequest, message: string) => {
+        expect(() => authService.authenticateRequest(request)).toThrow(UnauthorizedException);
+        expect(() => authService.authenticateRequest(request)).toThrow(message);
+    };
+
+    it('accepts the requests with a valid signature', () => {
+        expect(authService.authenticateRequest(getSignedRequest())).toEqual({
+            name: 'operator',
+            authenticated: true,
+            scopes: ['prioritise'],
+        });
+    });
+
+    it('accepts the 0x prefixed signatures', () => {
+        const request = getSignedRequest();
+        request.headers[AUTH_SIGNATURE_HEADER] = `0x${request.headers[AUTH_SIGNATURE_HEADER]}`;
+
+        expect(authService.authenticateRequest(request).authenticated).toBe(true);
+    });
+
+    it('rejects the signatures that do not cover the request', () => {
+        expectUnauthorized(getSignedRequest({ method: 'GET' }), 'Invalid request signature.');
+        expectUnauthorized(getSignedRequest({ url: '/prioritiseAMBMessage' }), 'Invalid request signature.');
+        expectUnauthorized(getSignedRequest({ body: '{}' }), 'Invalid request signature.');
+        expectUnauthorized(getSignedRequest({ secret: 'other-secret' }), 'Invalid request signature.');
+
+        // Signature of a different length.
+        const request = getSignedRequest();
+        request.headers[AUTH_SIGNATURE_HEADER] = 'abcd';
+        expectUnauthorized(request, 'Invalid request signature.');
+    });
+
+    it('rejects the signatures with an expired timestamp', () => {
+        const expiredRequest = getSignedRequest({ timestamp: Date.now() - HMAC_MAX_AGE - 1000 });
+        expectUnauthorized(expiredRequest, 'Invalid or expired request signature timestamp.');
+
+        const futureRequest = getSignedRequest({ timestamp: Date.now() + HMAC_MAX_AGE + 1000 });
+        expectUnauthorized(futureRequest, 'Invalid or expired request signature timestamp.');
+
+        // A signature replayed once the maximum age has elapsed.
+        const request = getSignedRequest();
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + HMAC_MAX_AGE + 1000);
+        expectUnauthorized(request, 'Invalid or expired request signature timestamp.');
+    });
+
+    it('rejects the replayed signatures', () => {
+        const request = getSignedRequest();
+        expect(authService.authenticateRequest(request).authenticated).toBe(true);
+
+        expectUnauthorized(request, 'Replayed request signature.');
+
+        // The 0x prefixed form of the same signature.
+        request.headers[AUTH_SIGNATURE_HEADER] = `0x${request.headers[AUTH_SIGNATURE_HEADER]}`;
+        expectUnauthorized(request, 'Replayed request signature.');
+    });
+
+    it('rejects the unsigned requests of the keys that require a signature', () => {
+        const request = getSignedRequest();
+        delete request.headers[AUTH_SIGNATURE_HEADER];
+
+        expectUnauthorized(request, 'Missing request signature');
+    });
+
+    it('does not require a signature for the keys without an HMAC secret', () => {
+        const principal = authService.authenticateRequest({
+            method: 'GET',
+            url: '/getAMBMessages',
+            headers: { authorization: `Bearer ${READ_KEY}` },
+        });
+
+        expect(principal).toEqual({ name: 'reader', authenticated: true, scopes: ['read'] });
+    });
+
+    it('grants the public scopes to the requests without an API key', () => {
+        const principal = authService.authenticateRequest({
+            method: 'GET',
+            url: '/getAMBMessages',
+            headers: {},
+        });
+
+        expect(principal).toEqual({ name: 'anonymous', authenticated: false, scopes: ['read'] });
+        expectUnauthorized(
+            { method: 'GET', url: '/getAMBMessages', headers: { [AUTH_API_KEY_HEADER]: 'unknown' } },
+            'Invalid API key.',
+        );
+    });
+});
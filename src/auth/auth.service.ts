@@ -0,0 +1,300 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { ConfigService } from 'src/config/config.service';
+import { LoggerService } from 'src/logger/logger.service';
+import { tryErrorToString } from 'src/common/utils';
+import { AUTH_ADMIN_SCOPE, AUTH_API_KEY_HEADER, AUTH_API_KEY_QUERY_PARAMETER, AUTH_SCOPES, AUTH_SIGNATURE_HEADER, AUTH_TIMESTAMP_HEADER, AuthKey, AuthPrincipal, AuthRequest, AuthScope } from './auth.types';
+
+const HMAC_MAX_AGE_DEFAULT = 5 * 60 * 1000;
+
+const ANONYMOUS_PRINCIPAL_NAME = 'anonymous';
+
+
+// ! NOTE
+// ! If enabled, the requests to the HTTP API and the websocket connections are authenticated with
+// ! the configured API keys (provided with the 'x-api-key' header, as a 'Bearer' token or, for
+// ! websocket connections only, with the 'apiKey' query parameter). Requests without an API key
+// ! are granted the configured `publicScopes` only.
+// !
+// ! Keys with an `hmacSecret` must additionally sign every request: the 'x-relayer-signature'
+// ! header must hold the hex encoded HMAC-SHA256 of '<timestamp>.<METHOD>.<url>.<body>' (where
+// ! the 'timestamp' is the value of the 'x-relayer-timestamp' header in milliseconds, and 'url'
+// ! includes the query string). Every signature is accepted only once within its validity period
+// ! (i.e. `hmacMaxAge`) to prevent replays. The used signatures are kept in memory, hence the
+// ! replay protection does not span several relayer processes.
+
+@Injectable()
+export class AuthService {
+    readonly enabled: boolean;
+
+    private readonly publicScopes: AuthScope[];
+    private readonly hmacMaxAge: number;
+    private readonly keys = new Map<string, AuthKey>();     // Indexed by the key hash
+
+    private readonly connectionPrincipals = new WeakMap<object, AuthPrincipal | null>();
+
+    // The used request signatures, mapped to their expiry timestamps (in insertion order).
+    private readonly usedSignatures = new Map<string, number>();
+
+    constructor(
+        configService: ConfigService,
+        private readonly loggerService: LoggerService,
+    ) {
+        const authConfig = configService.globalConfig.auth;
+
+        this.enabled = authConfig.enabled ?? false;
+        this.publicScopes = (authConfig.publicScopes ?? []) as AuthScope[];
+        this.hmacMaxAge = authConfig.hmacMaxAge ?? HMAC_MAX_AGE_DEFAULT;
+
+        for (const keyConfig of authConfig.keys ?? []) {
+            const keyHash = this.hashKey(keyConfig.key);
+            if (this.keys.has(keyHash)) {
+                throw new Error(`Invalid auth configuration: duplicate key for '${keyConfig.name}'.`);
+            }
+
+            this.keys.set(keyHash, {
+                name: keyConfig.name,
+                scopes: keyConfig.scopes as AuthScope[],
+                hmacSecret: keyConfig.hmacSecret,
+            });
+        }
+
+        if (this.enabled) {
+            this.loggerService.info(
+                {
+                    publicScopes: this.publicScopes,
+                    keys: Array.from(this.keys.values()).map((key) => ({
+                        name: key.name,
+                        scopes: key.scopes,
+                        hmac: key.hmacSecret != undefined,
+                    })),
+                },
+                `API authentication enabled.`,
+            );
+        }
+    }
+
+
+
+    // Authentication
+    // ********************************************************************************************
+
+    // Authenticate the given request. Throws an 'UnauthorizedException' if the provided
+    // credentials are invalid.
+    authenticateRequest(
+        request: AuthRequest,
+        allowQueryKey = false,
+    ): AuthPrincipal {
+        if (!this.enabled) {
+            return {
+                name: ANONYMOUS_PRINCIPAL_NAME,
+                authenticated: false,
+                scopes: [...AUTH_SCOPES],
+            };
+        }
+
+        const apiKey = this.getRequestApiKey(request, allowQueryKey);
+        if (apiKey == undefined) {
+            return {
+                name: ANONYMOUS_PRINCIPAL_NAME,
+                authenticated: false,
+                scopes: this.publicScopes,
+            };
+        }
+
+        const key = this.keys.get(this.hashKey(apiKey));
+        if (key == undefined) {
+            throw new UnauthorizedException('Invalid API key.');
+        }
+
+        if (key.hmacSecret != undefined) {
+            this.verifyRequestSignature(request, key.hmacSecret);
+        }
+
+        return {
+            name: key.name,
+            authenticated: true,
+            scopes: key.scopes,
+        };
+    }
+
+    hasScope(principal: AuthPrincipal, scope: AuthScope): boolean {
+        return principal.scopes.includes(scope)
+            || principal.scopes.includes(AUTH_ADMIN_SCOPE);
+    }
+
+    private getRequestApiKey(
+        request: AuthRequest,
+        allowQueryKey: boolean,
+    ): string | undefined {
+        const headerKey = this.getHeader(request, AUTH_API_KEY_HEADER);
+        if (headerKey != undefined) {
+            return headerKey;
+        }
+
+        const authorization = this.getHeader(request, 'authorization');
+        if (authorization?.startsWith('Bearer ')) {
+            return authorization.slice('Bearer '.length).trim();
+        }
+
+        if (allowQueryKey) {
+            const url = new URL(request.url, 'http://localhost');
+            return url.searchParams.get(AUTH_API_KEY_QUERY_PARAMETER) ?? undefined;
+        }
+
+        return undefined;
+    }
+
+    private verifyRequestSignature(request: AuthRequest, hmacSecret: string): void {
+        const timestamp = this.getHeader(request, AUTH_TIMESTAMP_HEADER);
+        const signature = this.getHeader(request, AUTH_SIGNATURE_HEADER);
+        if (timestamp == undefined || signature == undefined) {
+            throw new UnauthorizedException(
+                `Missing request signature ('${AUTH_TIMESTAMP_HEADER}' and '${AUTH_SIGNATURE_HEADER}' headers).`
+            );
+        }
+
+        const parsedTimestamp = Number(timestamp);
+        if (
+            !Number.isInteger(parsedTimestamp)
+            || Math.abs(Date.now() - parsedTimestamp) > this.hmacMaxAge
+        ) {
+            throw new UnauthorizedException('Invalid or expired request signature timestamp.');
+        }
+
+        const expectedSignature = createHmac('sha256', hmacSecret)
+            .update(`${timestamp}.${request.method.toUpperCase()}.${request.url}.`)
+            .update(request.rawBody ?? Buffer.alloc(0))
+            .digest();
+
+        const providedSignature = Buffer.from(signature.replace(/^0x/, ''), 'hex');
+        if (
+            providedSignature.length != expectedSignature.length
+            || !timingSafeEqual(providedSignature, expectedSignature)
+        ) {
+            throw new UnauthorizedException('Invalid request signature.');
+        }
+
+        this.registerSignatureUse(expectedSignature.toString('hex'), parsedTimestamp + this.hmacMaxAge);
+    }
+
+    private registerSignatureUse(signature: string, expiry: number): void {
+        const now = Date.now();
+
+        // Forget the expired signatures (the entries are approximately sorted by expiry).
+        for (const [usedSignature, usedSignatureExpiry] of this.usedSignatures) {
+            if (usedSignatureExpiry >= now) {
+                break;
+            }
+            this.usedSignatures.delete(usedSignature);
+        }
+
+        if (this.usedSignatures.has(signature)) {
+            throw new UnauthorizedException('Replayed request signature.');
+        }
+        this.usedSignatures.set(signature, expiry);
+    }
+
+    private getHeader(request: AuthRequest, name: string): string | undefined {
+        const value = request.headers[name];
+        return Array.isArray(value) ? value[0] : value;
+    }
+
+    // ! Keys are compared by their hashes to prevent timing attacks on the key lookup.
+    private hashKey(key: string): string {
+        return createHash('sha256').update(key).digest('hex');
+    }
+
+
+
+    // Websocket connections
+    // ********************************************************************************************
+
+    // Authenticate a websocket connection with its upgrade request. Returns `null` if the
+    // connection is rejected. The result is cached for the lifetime of the connection (every
+    // gateway is notified of every connection).
+    authenticateConnection(client: object, request: AuthRequest): AuthPrincipal | null {
+        if (this.connectionPrincipals.has(client)) {
+            return this.connectionPrincipals.get(client)!;
+        }
+
+        const principal = this.getConnectionPrincipalFromRequest(request);
+        this.connectionPrincipals.set(client, principal);
+        return principal;
+    }
+
+    getConnectionPrincipal(client: object): AuthPrincipal | undefined {
+        return this.connectionPrincipals.get(client) ?? undefined;
+    }
+
+    private getConnectionPrincipalFromRequest(request: AuthRequest): AuthPrincipal | null {
+        let principal: AuthPrincipal;
+        try {
+            principal = this.authenticateRequest(request, true);
+        } catch (error) {
+            this.auditFailedAuthentication('ws:connect', error, { ip: request.ip });
+            return null;
+        }
+
+        if (this.enabled && principal.scopes.length == 0) {
+            this.audit(principal, 'ws:connect', false, { ip: request.ip });
+            return null;
+        }
+
+        this.audit(principal, 'ws:connect', true, { ip: request.ip });
+        return principal;
+    }
+
+
+
+    // Audit
+    // ********************************************************************************************
+
+    // Log an access denied because the provided credentials could not be verified.
+    auditFailedAuthentication(
+        action: string,
+        error: unknown,
+        details: Record<string, any> = {},
+        scope?: AuthScope,
+    ): void {
+        this.audit(
+            { name: ANONYMOUS_PRINCIPAL_NAME, authenticated: false, scopes: [] },
+            action,
+            false,
+            { ...details, reason: tryErrorToString(error) },
+            scope,
+        );
+    }
+
+    // Log the access to an API action. Denied accesses and accesses to non-read actions are
+    // logged with 'warn'/'info' levels; read accesses with the 'debug' level.
+    audit(
+        principal: AuthPrincipal,
+        action: string,
+        granted: boolean,
+        details: Record<string, any> = {},
+        scope?: AuthScope,
+    ): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        const log = {
+            audit: true,
+            principal: principal.name,
+            authenticated: principal.authenticated,
+            action,
+            scope,
+            granted,
+            ...details,
+        };
+
+        if (!granted) {
+            this.loggerService.warn(log, `API access denied.`);
+        } else if (scope != undefined && scope != 'read') {
+            this.loggerService.info(log, `API access granted.`);
+        } else {
+            this.loggerService.debug(log, `API access granted.`);
+        }
+    }
+}
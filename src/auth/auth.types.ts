@@ -0,0 +1,43 @@
+// Auth types
+// ************************************************************************************************
+
+export type AuthScope = 'read' | 'prioritise' | 'admin';
+
+export const AUTH_SCOPES: AuthScope[] = ['read', 'prioritise', 'admin'];
+
+// ! The 'admin' scope grants access to every route.
+export const AUTH_ADMIN_SCOPE: AuthScope = 'admin';
+
+// Scope required by the routes/events that do not specify one.
+export const AUTH_DEFAULT_SCOPE: AuthScope = 'read';
+
+export const AUTH_SCOPE_METADATA_KEY = 'authScope';
+
+// Request headers
+export const AUTH_API_KEY_HEADER = 'x-api-key';
+export const AUTH_TIMESTAMP_HEADER = 'x-relayer-timestamp';
+export const AUTH_SIGNATURE_HEADER = 'x-relayer-signature';
+
+// Query parameter that may be used to provide the API key on websocket connections (browsers
+// cannot set custom headers on websocket requests).
+export const AUTH_API_KEY_QUERY_PARAMETER = 'apiKey';
+
+export interface AuthPrincipal {
+    name: string;               // The configured key name ('anonymous' for unauthenticated requests)
+    authenticated: boolean;
+    scopes: AuthScope[];
+}
+
+export interface AuthRequest {
+    method: string;
+    url: string;                // The request path, including the query string
+    headers: Record<string, string | string[] | undefined>;
+    rawBody?: Buffer;
+    ip?: string;
+}
+
+export interface AuthKey {
+    name: string;
+    scopes: AuthScope[];
+    hmacSecret?: string;
+}
@@ -0,0 +1,36 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { IncomingMessage } from 'http';
+import { AuthService } from './auth.service';
+
+// Policy violation close code (RFC 6455).
+const WS_POLICY_VIOLATION_CLOSE_CODE = 1008;
+
+// Websocket adapter that authenticates the connections with their upgrade request. The
+// authenticated principal is used by the `AuthGuard` to authorise the websocket events.
+export class AuthWsAdapter extends WsAdapter {
+    constructor(
+        app: INestApplicationContext,
+        private readonly authService: AuthService,
+    ) {
+        super(app);
+    }
+
+    override bindClientConnect(server: any, callback: (...args: any[]) => void): void {
+        server.on('connection', (client: any, request: IncomingMessage) => {
+            const principal = this.authService.authenticateConnection(client, {
+                method: request.method ?? 'GET',
+                url: request.url ?? '/',
+                headers: request.headers,
+                ip: request.socket.remoteAddress,
+            });
+
+            if (principal == null) {
+                client.close(WS_POLICY_VIOLATION_CLOSE_CODE, 'Unauthorized');
+                return;
+            }
+
+            callback(client, request);
+        });
+    }
+}
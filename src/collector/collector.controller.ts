@@ -3,12 +3,16 @@ import { ConfigService } from 'src/config/config.service';
 import { LoggerService } from 'src/logger/logger.service';
 import { MonitorService } from 'src/monitor/monitor.service';
 import { SubmitterService } from 'src/submitter/submitter.service';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 export interface CollectorModuleInterface {
     configService: ConfigService;
     monitorService: MonitorService;
     loggerService: LoggerService;
     submitterService: SubmitterService;
+    healthService: HealthService;
+    metricsService: MetricsService;
 }
 
 @Controller()
@@ -18,6 +22,8 @@ export class CollectorController implements OnModuleInit {
         private readonly monitorService: MonitorService,
         private readonly loggerService: LoggerService,
         private readonly submitterService: SubmitterService,
+        private readonly healthService: HealthService,
+        private readonly metricsService: MetricsService,
     ) {}
 
     /**
@@ -35,6 +41,8 @@ export class CollectorController implements OnModuleInit {
             monitorService: this.monitorService,
             loggerService: this.loggerService,
             submitterService: this.submitterService,
+            healthService: this.healthService,
+            metricsService: this.metricsService,
         };
 
         for (const amb of ambs) {
@@ -29,6 +29,8 @@ import { ConfigService } from '../../config/config.service';
 import { ChainConfig } from '../../config/config.types';
 import { LoggerOptions } from 'pino';
 import { MonitorService } from '../../monitor/monitor.service';
+import { HealthService } from '../../health/health.service';
+import { MetricsService } from '../../metrics/metrics.service';
 
 interface GlobalLayerZeroConfig {
     retryInterval: number;
@@ -52,6 +54,8 @@ export interface LayerZeroWorkerData {
     incentivesAddress: string;
     receiverAddress: string;
     monitorPort: MessagePort;
+    healthPort: MessagePort;
+    metricsPort: MessagePort;
     loggerOptions: LoggerOptions;
     incentivesAddresses: Record<string, string>;
     layerZeroChainIdMap: Record<string, string>;
@@ -107,6 +111,8 @@ function loadGlobalLayerZeroConfig(configService: ConfigService): GlobalLayerZer
  * 
  * @param configService - Service to fetch configuration settings.
  * @param monitorService - Service to monitor and manage workers.
+ * @param healthService - Service to report the worker health.
+ * @param metricsService - Service to report the worker metrics.
  * @param loggerService - Service to log information and errors.
  * @param chainConfig - Configuration settings for a specific chain.
  * @param globalConfig - Global configuration settings for Layer Zero.
@@ -115,6 +121,8 @@ function loadGlobalLayerZeroConfig(configService: ConfigService): GlobalLayerZer
 async function loadWorkerData(
     configService: ConfigService,
     monitorService: MonitorService,
+    healthService: HealthService,
+    metricsService: MetricsService,
     loggerService: LoggerService,
     chainConfig: ChainConfig,
     globalConfig: GlobalLayerZeroConfig,
@@ -148,6 +156,8 @@ async function loadWorkerData(
             incentivesAddress: incentivesAddress.toLowerCase(),
             receiverAddress: receiverAddress.toLowerCase(),
             monitorPort: port,
+            healthPort: healthService.attachToHealth({ type: 'collector', name: 'layer-zero', chainId }),
+            metricsPort: metricsService.attachToMetrics(),
             loggerOptions: loggerService.loggerOptions,
             incentivesAddresses: globalConfig.incentivesAddresses,
             layerZeroChainIdMap: globalConfig.layerZeroChainIdMap,
@@ -164,14 +174,14 @@ async function loadWorkerData(
  * @param moduleInterface - Interface for the collector module.
  */
 export default async (moduleInterface: CollectorModuleInterface) => {
-    const { configService, monitorService, loggerService } = moduleInterface;
+    const { configService, monitorService, healthService, metricsService, loggerService } = moduleInterface;
     const globalLayerZeroConfig = loadGlobalLayerZeroConfig(configService);
 
     const workers: Record<string, Worker | null> = {};
     const workersData: LayerZeroWorkerData[] = [];
 
     for (const [, chainConfig] of configService.chainsConfig) {
-        const workerData = await loadWorkerData(configService, monitorService, loggerService, chainConfig, globalLayerZeroConfig);
+        const workerData = await loadWorkerData(configService, monitorService, healthService, metricsService, loggerService, chainConfig, globalLayerZeroConfig);
         if (workerData) {
             workersData.push(workerData);
         }
@@ -182,7 +192,7 @@ export default async (moduleInterface: CollectorModuleInterface) => {
         return;
     }
 
-    initializeWorkers(workersData, workers, loggerService);
+    initializeWorkers(workersData, workers, healthService, loggerService);
 
     setInterval(() => logStatus(workers, loggerService), STATUS_LOG_INTERVAL);
 };
@@ -192,19 +202,25 @@ export default async (moduleInterface: CollectorModuleInterface) => {
  * 
  * @param workersData - Array of worker data to initialize.
  * @param workers - Record to keep track of active workers.
+ * @param healthService - Service to report the worker health.
  * @param loggerService - Service to log information and errors.
  */
 function initializeWorkers(
     workersData: LayerZeroWorkerData[],
     workers: Record<string, Worker | null>,
+    healthService: HealthService,
     loggerService: LoggerService,
 ) {
     for (const workerData of workersData) {
         const worker = new Worker(join(__dirname, 'layer-zero.worker.js'), {
             workerData: workerData,
-            transferList: [workerData.monitorPort],
+            transferList: [workerData.monitorPort, workerData.healthPort, workerData.metricsPort],
         });
         workers[workerData.chainId] = worker;
+        healthService.registerWorker(
+            { type: 'collector', name: 'layer-zero', chainId: workerData.chainId },
+            worker,
+        );
 
         worker.on('error', (error) => loggerService.fatal(error, 'Error on Layer Zero Worker.'));
         worker.on('exit', (exitCode) => {
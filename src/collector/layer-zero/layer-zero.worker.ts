@@ -41,6 +41,9 @@ import { ParsePayload } from 'src/payload/decode.payload';
 import { LayerZeroEnpointV2Interface, PacketSentEvent } from 'src/contracts/LayerZeroEnpointV2';
 import { STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
 import { calculatePayloadHash, decodeHeader, decodePacket } from './layer-zero.utils';
+import { RelayPolicy } from 'src/store/relay-policy/relay-policy.lib';
+import { HealthInterface } from 'src/health/health.interface';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
 
 const ON_PACKET_SENT_PROCESSED_CHANNEL = 'packet_sent_processed';
 const ON_PACKET_SENT_PROCESSED_DELAY = 30 * 1000;
@@ -66,6 +69,7 @@ class LayerZeroWorker {
     private readonly resolver: Resolver;
     private readonly provider: JsonRpcProvider;
     private readonly logger: pino.Logger;
+    private readonly relayPolicy: RelayPolicy;
 
     private readonly messageEscrowContract: IncentivizedMessageEscrow;
     private readonly destinationImplementationCache: Record<string, Record<string, string>> = {};   // Map fromApplication + toChainId => destinationImplementation
@@ -87,6 +91,8 @@ class LayerZeroWorker {
 
     private currentStatus: MonitorStatus | null = null;
     private monitor: MonitorInterface;
+    private readonly health: HealthInterface;
+    private readonly metrics: MetricsInterface;
 
     private fromBlock: number = 0;
 
@@ -103,6 +109,7 @@ class LayerZeroWorker {
             this.provider,
             this.logger,
         );
+        this.relayPolicy = new RelayPolicy(this.store, this.logger);
 
         this.bridgeAddress = this.config.bridgeAddress;
         this.receiverAddress = this.config.receiverAddress;
@@ -126,6 +133,11 @@ class LayerZeroWorker {
         );
 
         this.monitor = this.startListeningToMonitor(this.config.monitorPort);
+        this.health = new HealthInterface(this.config.healthPort);
+        this.metrics = new MetricsInterface(
+            this.config.metricsPort,
+            { amb: 'layer-zero', chain_id: this.chainId },
+        );
 
         this.initiateIntervalStatusLog();
     }
@@ -215,12 +227,15 @@ class LayerZeroWorker {
             `LayerZero collector worker started.`,
         );
 
+        await this.relayPolicy.init();
         await this.listenForProcessedPackets();
 
         this.fromBlock = await this.getStartingBlock();
         const stopBlock = this.config.stoppingBlock ?? Infinity;
 
         while (true) {
+            this.health.reportActivity(this.fromBlock - 1);
+
             try {
                 let toBlock = this.currentStatus?.blockNumber;
                 if (!toBlock || this.fromBlock > toBlock) {
@@ -238,6 +253,11 @@ class LayerZeroWorker {
                     toBlock = this.fromBlock + this.config.maxBlocks;
                 }
                 await this.queryAndProcessEvents(this.fromBlock, toBlock);
+                this.metrics.increment(
+                    'relayer_blocks_scanned_total',
+                    { worker: 'collector' },
+                    toBlock - this.fromBlock + 1,
+                );
                 this.logger.debug(
                     { fromBlock: this.fromBlock, toBlock },
                     `Scanning LayerZero events.`,
@@ -257,6 +277,8 @@ class LayerZeroWorker {
             await wait(this.config.processingInterval);
         }
         this.monitor.close();
+        this.health.close();
+        this.metrics.close();
         await this.store.quit();
     }
 
@@ -517,6 +539,22 @@ class LayerZeroWorker {
             'Collected message.',
         );
 
+        const isAllowed = await this.relayPolicy.isAllowed(
+            {
+                messageIdentifier,
+                amb: 'layer-zero',
+                fromChainId,
+                toChainId,
+                incentivesPayload: packet.message,
+            },
+            'collection',
+            'collector',
+            this.chainId,
+        );
+        if (!isAllowed) {
+            return;
+        }
+
         const transactionBlockNumber = await this.resolver.getTransactionBlockNumber(log.blockNumber);
         
 
@@ -556,6 +594,7 @@ class LayerZeroWorker {
             this.chainId,
             ambMessage,
         );
+        this.metrics.increment('relayer_amb_messages_collected_total');
 
         await this.store.setAdditionalAMBData<LayerZeroPayloadData>(
             'layer-zero',
@@ -687,6 +726,7 @@ class LayerZeroWorker {
                 this.layerZeroChainIdMap[decodedHeader.dstEid]!,
                 ambProof,
             );
+            this.metrics.increment('relayer_amb_proofs_collected_total', { chain_id: toChainId });
         } else {
             this.logger.debug(
                 {
@@ -11,6 +11,8 @@ import { ConfigService } from 'src/config/config.service';
 import { ChainConfig } from 'src/config/config.types';
 import { LoggerOptions } from 'pino';
 import { MonitorService } from 'src/monitor/monitor.service';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 interface GlobalMockConfig {
     retryInterval: number;
@@ -31,6 +33,8 @@ export interface MockWorkerData {
     incentivesAddress: string;
     privateKey: string;
     monitorPort: MessagePort;
+    healthPort: MessagePort;
+    metricsPort: MessagePort;
     loggerOptions: LoggerOptions;
 }
 
@@ -61,6 +65,8 @@ function loadGlobalMockConfig(configService: ConfigService): GlobalMockConfig {
 async function loadWorkerData(
     configService: ConfigService,
     monitorService: MonitorService,
+    healthService: HealthService,
+    metricsService: MetricsService,
     loggerService: LoggerService,
     chainConfig: ChainConfig,
     globalConfig: GlobalMockConfig,
@@ -87,12 +93,14 @@ async function loadWorkerData(
         incentivesAddress,
         privateKey: globalConfig.privateKey,
         monitorPort: await monitorService.attachToMonitor(chainId),
+        healthPort: healthService.attachToHealth({ type: 'collector', name: 'mock', chainId }),
+        metricsPort: metricsService.attachToMetrics(),
         loggerOptions: loggerService.loggerOptions,
     };
 }
 
 export default async (moduleInterface: CollectorModuleInterface) => {
-    const { configService, monitorService, loggerService } = moduleInterface;
+    const { configService, monitorService, healthService, metricsService, loggerService } = moduleInterface;
 
     const globalMockConfig = loadGlobalMockConfig(configService);
 
@@ -102,6 +110,8 @@ export default async (moduleInterface: CollectorModuleInterface) => {
         const workerData = await loadWorkerData(
             configService,
             monitorService,
+            healthService,
+            metricsService,
             loggerService,
             chainConfig,
             globalMockConfig,
@@ -109,9 +119,10 @@ export default async (moduleInterface: CollectorModuleInterface) => {
 
         const worker = new Worker(join(__dirname, 'mock.worker.js'), {
             workerData,
-            transferList: [workerData.monitorPort]
+            transferList: [workerData.monitorPort, workerData.healthPort, workerData.metricsPort]
         });
         workers[workerData.chainId] = worker;
+        healthService.registerWorker({ type: 'collector', name: 'mock', chainId }, worker);
 
         worker.on('error', (error) =>
             loggerService.fatal(error, 'Error on mock collector service worker.'),
@@ -15,6 +15,9 @@ import { IncentivizedMockEscrowInterface, MessageEvent } from 'src/contracts/Inc
 import { MonitorInterface, MonitorStatus } from 'src/monitor/monitor.interface';
 import { Resolver, loadResolver } from 'src/resolvers/resolver';
 import { STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
+import { RelayPolicy } from 'src/store/relay-policy/relay-policy.lib';
+import { HealthInterface } from 'src/health/health.interface';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
 
 
 /**
@@ -30,6 +33,8 @@ import { STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
  * @param workerData.incentivesAddress The address of the Generalised Incentive implementation for the AMB.
  * @param workerData.privateKey The key used to sign the relayed messages.
  * @param workerData.monitorPort Port for communication with the 'monitor' service.
+ * @param workerData.healthPort Port to report the worker activity to the 'health' service.
+ * @param workerData.metricsPort Port to report the worker metrics to the 'metrics' service.
  * @param workerData.loggerOptions Logger related config to spawn a pino logger with.
  * @dev Custom additional configuration parameters should be set on config.example.yaml for future reference.
  */
@@ -50,9 +55,12 @@ class MockCollectorWorker {
     private readonly store: Store;
     private readonly provider: JsonRpcProvider;
     private readonly logger: pino.Logger;
+    private readonly relayPolicy: RelayPolicy;
 
     private currentStatus: MonitorStatus | null = null;
     private monitor: MonitorInterface;
+    private readonly health: HealthInterface;
+    private readonly metrics: MetricsInterface;
 
     private fromBlock: number = 0;
 
@@ -82,6 +90,9 @@ class MockCollectorWorker {
             this.logger
         );
 
+        // Load the relay policy to skip the blocked messages.
+        this.relayPolicy = new RelayPolicy(this.store, this.logger);
+
         // Define the parameters for the rpc logs queries and message signing.
         this.incentivesAddress = this.config.incentivesAddress;
         this.incentivesAddressBytes32 = zeroPadValue(this.incentivesAddress, 32);
@@ -90,6 +101,11 @@ class MockCollectorWorker {
 
         // Start listening to the monitor service (get the latest block data).
         this.monitor = this.startListeningToMonitor(this.config.monitorPort);
+        this.health = new HealthInterface(this.config.healthPort);
+        this.metrics = new MetricsInterface(
+            this.config.metricsPort,
+            { amb: 'mock', chain_id: this.chainId },
+        );
 
         this.initiateIntervalStatusLog();
     }
@@ -146,12 +162,16 @@ class MockCollectorWorker {
             `Mock collector worker started.`,
         );
 
+        await this.relayPolicy.init();
+
         // Get the effective starting and stopping blocks.
         this.fromBlock = await this.getStartingBlock();
 
         const stopBlock = this.config.stoppingBlock ?? Infinity;
 
         while (true) {
+            this.health.reportActivity(this.fromBlock - 1);
+
             try {
                 let toBlock = this.currentStatus?.blockNumber;
                 if (!toBlock || this.fromBlock > toBlock) {
@@ -179,6 +199,11 @@ class MockCollectorWorker {
                 );
 
                 await this.queryAndProcessEvents(this.fromBlock, toBlock);
+                this.metrics.increment(
+                    'relayer_blocks_scanned_total',
+                    { worker: 'collector' },
+                    toBlock - this.fromBlock + 1,
+                );
 
                 if (toBlock >= stopBlock) {
                     this.logger.info(
@@ -200,6 +225,8 @@ class MockCollectorWorker {
 
         // Cleanup worker
         this.monitor.close();
+        this.health.close();
+        this.metrics.close();
         await this.store.quit();
     }
 
@@ -316,6 +343,22 @@ class MockCollectorWorker {
         // Derive the message identifier
         const decodedMessage = decodeMockMessage(message);
 
+        const isAllowed = await this.relayPolicy.isAllowed(
+            {
+                messageIdentifier: decodedMessage.messageIdentifier,
+                amb: 'mock',
+                fromChainId: decodedMessage.sourceChain,
+                toChainId: decodedMessage.destinationChain,
+                incentivesPayload: decodedMessage.payload,
+            },
+            'collection',
+            'collector',
+            this.chainId,
+        );
+        if (!isAllowed) {
+            return;
+        }
+
         const transactionBlockNumber = await this.resolver.getTransactionBlockNumber(
             log.blockNumber
         );
@@ -344,6 +387,7 @@ class MockCollectorWorker {
             this.chainId,
             ambMessage
         );
+        this.metrics.increment('relayer_amb_messages_collected_total');
 
         // Encode and sign the message for delivery.
         // This is the proof which enables us to submit the transaciton later.
@@ -377,6 +421,7 @@ class MockCollectorWorker {
 
         // Submit the proofs to any listeners. If there is a submitter, it will process the proof and submit it.
         await this.store.setAMBProof(destinationChainId, ambPayload);
+        this.metrics.increment('relayer_amb_proofs_collected_total', { chain_id: destinationChainId });
     }
 
 
@@ -11,6 +11,8 @@ import { LoggerService, STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
 import { Worker, MessagePort } from 'worker_threads';
 import { CollectorModuleInterface } from '../collector.controller';
 import { MonitorService } from 'src/monitor/monitor.service';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 interface GlobalPolymerConfig {
     retryInterval: number;
@@ -29,6 +31,8 @@ export interface PolymerWorkerData {
     maxBlocks: number | null;
     incentivesAddress: string;
     monitorPort: MessagePort;
+    healthPort: MessagePort;
+    metricsPort: MessagePort;
     loggerOptions: LoggerOptions;
     polymerAddress: string;
     polymerChannels: { [channel: string]: string }
@@ -59,6 +63,8 @@ function loadGlobalPolymerConfig(
 async function loadWorkerData(
     configService: ConfigService,
     monitorService: MonitorService,
+    healthService: HealthService,
+    metricsService: MetricsService,
     loggerService: LoggerService,
     chainConfig: ChainConfig,
     globalConfig: GlobalPolymerConfig,
@@ -104,12 +110,14 @@ async function loadWorkerData(
         polymerAddress,
         polymerChannels,
         monitorPort: await monitorService.attachToMonitor(chainId),
+        healthPort: healthService.attachToHealth({ type: 'collector', name: 'polymer', chainId }),
+        metricsPort: metricsService.attachToMetrics(),
         loggerOptions: loggerService.loggerOptions,
     };
 }
 
 export default async (moduleInterface: CollectorModuleInterface) => {
-    const { configService, monitorService, loggerService } = moduleInterface;
+    const { configService, monitorService, healthService, metricsService, loggerService } = moduleInterface;
 
     const globalPolymerConfig = loadGlobalPolymerConfig(configService);
 
@@ -119,6 +127,8 @@ export default async (moduleInterface: CollectorModuleInterface) => {
         const workerData = await loadWorkerData(
             configService,
             monitorService,
+            healthService,
+            metricsService,
             loggerService,
             chainConfig,
             globalPolymerConfig,
@@ -127,9 +137,10 @@ export default async (moduleInterface: CollectorModuleInterface) => {
         if (workerData) {
             const worker = new Worker(join(__dirname, 'polymer.worker.js'), {
                 workerData,
-                transferList: [workerData.monitorPort]
+                transferList: [workerData.monitorPort, workerData.healthPort, workerData.metricsPort]
             });
             workers[workerData.chainId] = worker;
+            healthService.registerWorker({ type: 'collector', name: 'polymer', chainId }, worker);
 
             worker.on('error', (error) =>
                 loggerService.fatal(
@@ -10,6 +10,9 @@ import { IbcEventEmitterInterface, SendPacketEvent } from 'src/contracts/IbcEven
 import { MonitorInterface, MonitorStatus } from 'src/monitor/monitor.interface';
 import { Resolver, loadResolver } from 'src/resolvers/resolver';
 import { STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
+import { RelayPolicy } from 'src/store/relay-policy/relay-policy.lib';
+import { HealthInterface } from 'src/health/health.interface';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
 
 const abi = AbiCoder.defaultAbiCoder();
 
@@ -28,9 +31,12 @@ class PolymerCollectorSnifferWorker {
     private readonly store: Store;
     private readonly provider: JsonRpcProvider;
     private readonly logger: pino.Logger;
+    private readonly relayPolicy: RelayPolicy;
 
     private currentStatus: MonitorStatus | null = null;
     private monitor: MonitorInterface;
+    private readonly health: HealthInterface;
+    private readonly metrics: MetricsInterface;
 
     private fromBlock: number = 0;
 
@@ -48,6 +54,7 @@ class PolymerCollectorSnifferWorker {
             this.provider,
             this.logger
         );
+        this.relayPolicy = new RelayPolicy(this.store, this.logger);
 
         // Define the parameters for the rpc logs queries
         this.incentivesAddress = this.config.incentivesAddress;
@@ -59,6 +66,11 @@ class PolymerCollectorSnifferWorker {
         ];
 
         this.monitor = this.startListeningToMonitor(this.config.monitorPort);
+        this.health = new HealthInterface(this.config.healthPort);
+        this.metrics = new MetricsInterface(
+            this.config.metricsPort,
+            { amb: 'polymer', chain_id: this.chainId },
+        );
 
         this.initiateIntervalStatusLog();
     }
@@ -111,11 +123,14 @@ class PolymerCollectorSnifferWorker {
             `Polymer collector sniffer worker started.`,
         );
 
+        await this.relayPolicy.init();
 
         this.fromBlock = await this.getStartingBlock();
         const stopBlock = this.config.stoppingBlock ?? Infinity;
 
         while (true) {
+            this.health.reportActivity(this.fromBlock - 1);
+
             try {
                 let toBlock = this.currentStatus?.blockNumber;
                 if (!toBlock || this.fromBlock > toBlock) {
@@ -141,6 +156,11 @@ class PolymerCollectorSnifferWorker {
                 );
 
                 await this.queryAndProcessEvents(this.fromBlock, toBlock);
+                this.metrics.increment(
+                    'relayer_blocks_scanned_total',
+                    { worker: 'collector' },
+                    toBlock - this.fromBlock + 1,
+                );
 
                 if (toBlock >= stopBlock) {
                     this.logger.info(
@@ -162,6 +182,8 @@ class PolymerCollectorSnifferWorker {
 
         // Cleanup worker
         this.monitor.close();
+        this.health.close();
+        this.metrics.close();
         await this.store.quit();
     }
 
@@ -291,6 +313,22 @@ class PolymerCollectorSnifferWorker {
 
         const messageIdentifier = '0x' + packet.slice(2, 2 + 32 * 2);
 
+        const isAllowed = await this.relayPolicy.isAllowed(
+            {
+                messageIdentifier,
+                amb: 'polymer',
+                fromChainId: this.chainId,
+                toChainId: destinationChain,
+                incentivesPayload: packet,
+            },
+            'collection',
+            'collector',
+            this.chainId,
+        );
+        if (!isAllowed) {
+            return;
+        }
+
         const transactionBlockNumber = await this.resolver.getTransactionBlockNumber(
             log.blockNumber
         );
@@ -315,6 +353,7 @@ class PolymerCollectorSnifferWorker {
         // Set the collect message  on-chain. This is not the proof but the raw message.
         // It can be used by plugins to facilitate other jobs.
         await this.store.setAMBMessage(this.chainId, ambMessage);
+        this.metrics.increment('relayer_amb_messages_collected_total');
 
         this.logger.info(
             {
@@ -1,25 +1,35 @@
 import { join } from 'path';
 import { Worker } from 'worker_threads';
 import { LoggerService, STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
-import { WormholeConfig } from './wormhole.types';
+import { WormholeConfig, WormholeRelayerEngineWorkerData } from './wormhole.types';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 export function initiateRelayerEngineWorker(
     wormholeConfig: WormholeConfig,
+    healthService: HealthService,
+    metricsService: MetricsService,
     loggerService: LoggerService,
 ): void {
     loggerService.info('Starting the wormhole relayer engine...');
 
-    const workerData = wormholeConfig;
-    if (workerData.wormholeChainConfigs.size == 0) {
+    if (wormholeConfig.wormholeChainConfigs.size == 0) {
         loggerService.warn(
             'Skipping relayer engine worker initialization: no Wormhole chain configs found',
         );
         return;
     }
 
+    const workerData: WormholeRelayerEngineWorkerData = {
+        ...wormholeConfig,
+        metricsPort: metricsService.attachToMetrics(),
+    };
+
     const worker = new Worker(join(__dirname, 'wormhole-engine.worker.js'), {
         workerData,
+        transferList: [workerData.metricsPort]
     });
+    healthService.registerWorker({ type: 'collector', name: 'wormhole-engine' }, worker);
     let workerRunning = true;
 
     worker.on('error', (error) =>
@@ -9,6 +9,7 @@ import { add0X } from 'src/common/utils';
 import { workerData } from 'worker_threads';
 import { Store } from 'src/store/store.lib';
 import { AMBProof } from 'src/store/store.types';
+import { RelayPolicy } from 'src/store/relay-policy/relay-policy.lib';
 import pino, { LoggerOptions } from 'pino';
 import {
     WormholeChainId,
@@ -18,6 +19,7 @@ import { fetchVAAs } from './api-utils';
 import { Redis } from 'ioredis';
 import winston from 'winston';
 import { PinoLoggerTransport } from './winston-pino-logger-transport';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
 
 // NOTE: the Wormhole relayer engine is only able of scanning new VAAs. For old VAA recovery
 // the 'wormhole-recovery' worker is used.
@@ -35,12 +37,16 @@ class WormholeEngineWorker {
 
     private readonly logger: pino.Logger;
     private readonly store: Store;
+    private readonly relayPolicy: RelayPolicy;
+    private readonly metrics: MetricsInterface;
 
     constructor() {
         this.config = workerData as WormholeRelayerEngineWorkerData;
 
         this.logger = this.initializeLogger(this.config.loggerOptions);
         this.store = new Store();
+        this.relayPolicy = new RelayPolicy(this.store, this.logger);
+        this.metrics = new MetricsInterface(this.config.metricsPort, { amb: 'wormhole' });
     }
 
     // Initialization helpers
@@ -104,6 +110,8 @@ class WormholeEngineWorker {
     // Main handler
     // ********************************************************************************************
     async run(): Promise<void> {
+        await this.relayPolicy.init();
+
         //Listening to multiple chains for messages
         const engine = await this.loadWormholeRelayerEngine();
         const chainsAndAddresses = this.getChainsAndAddresses();
@@ -223,6 +231,22 @@ class WormholeEngineWorker {
             return;
         }
 
+        const isAllowed = await this.relayPolicy.isAllowed(
+            {
+                messageIdentifier: wormholeInfo.messageIdentifier,
+                amb: 'wormhole',
+                fromChainId: sourceChainId,
+                toChainId: destinationChainId,
+                incentivesPayload: wormholeInfo.payload,
+            },
+            'collection',
+            'collector',
+            destinationChainId,
+        );
+        if (!isAllowed) {
+            return;
+        }
+
         const ambProof: AMBProof = {
             messageIdentifier: wormholeInfo.messageIdentifier,
 
@@ -240,6 +264,7 @@ class WormholeEngineWorker {
         );
 
         await this.store.setAMBProof(destinationChainId, ambProof);
+        this.metrics.increment('relayer_amb_proofs_collected_total', { chain_id: destinationChainId });
     }
 }
 
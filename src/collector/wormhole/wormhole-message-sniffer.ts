@@ -7,11 +7,15 @@ import {
 } from './wormhole.types';
 import { tryErrorToString } from 'src/common/utils';
 import { MonitorService } from 'src/monitor/monitor.service';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 async function loadMessageSnifferWorkerData(
     chainId: string,
     wormholeConfig: WormholeConfig,
     monitorService: MonitorService,
+    healthService: HealthService,
+    metricsService: MetricsService,
 ): Promise<WormholeMessageSnifferWorkerData | null> {
     const wormholeChainConfig = wormholeConfig.wormholeChainConfigs.get(chainId);
     if (wormholeChainConfig == undefined) {
@@ -24,6 +28,8 @@ async function loadMessageSnifferWorkerData(
         ...wormholeChainConfig,
         wormholeChainIdMap: wormholeConfig.wormholeChainIdMap,
         monitorPort,
+        healthPort: healthService.attachToHealth({ type: 'collector', name: 'wormhole-message-sniffer', chainId }),
+        metricsPort: metricsService.attachToMetrics(),
         loggerOptions: wormholeConfig.loggerOptions,
     };
 }
@@ -31,6 +37,8 @@ async function loadMessageSnifferWorkerData(
 export async function initiateMessageSnifferWorkers(
     wormholeConfig: WormholeConfig,
     monitorService: MonitorService,
+    healthService: HealthService,
+    metricsService: MetricsService,
     loggerService: LoggerService,
 ): Promise<void> {
     loggerService.info('Starting the wormhole message sniffer workers...');
@@ -42,7 +50,9 @@ export async function initiateMessageSnifferWorkers(
         const workerData = await loadMessageSnifferWorkerData(
             chainId,
             wormholeConfig,
-            monitorService
+            monitorService,
+            healthService,
+            metricsService,
         );
 
         if (workerData) {
@@ -50,10 +60,11 @@ export async function initiateMessageSnifferWorkers(
                 join(__dirname, 'wormhole-message-sniffer.worker.js'),
                 {
                     workerData,
-                    transferList: [workerData.monitorPort]
+                    transferList: [workerData.monitorPort, workerData.healthPort, workerData.metricsPort]
                 },
             );
             workers[chainId] = worker;
+            healthService.registerWorker({ type: 'collector', name: 'wormhole-message-sniffer', chainId }, worker);
 
             worker.on('error', (error) =>
                 loggerService.fatal(
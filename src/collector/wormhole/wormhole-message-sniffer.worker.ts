@@ -17,6 +17,9 @@ import { MonitorInterface, MonitorStatus } from 'src/monitor/monitor.interface';
 import { Resolver, loadResolver } from 'src/resolvers/resolver';
 import { STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
 import { AMBMessage } from 'src/store/store.types';
+import { RelayPolicy } from 'src/store/relay-policy/relay-policy.lib';
+import { HealthInterface } from 'src/health/health.interface';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
 
 class WormholeMessageSnifferWorker {
     private readonly store: Store;
@@ -33,10 +36,14 @@ class WormholeMessageSnifferWorker {
 
     private readonly resolver: Resolver;
 
+    private readonly relayPolicy: RelayPolicy;
+
     private readonly destinationImplementationCache: Record<string, Record<string, string>> = {};   // Map fromApplication + toChainId => destinationImplementation
 
     private currentStatus: MonitorStatus | null = null;
     private monitor: MonitorInterface;
+    private readonly health: HealthInterface;
+    private readonly metrics: MetricsInterface;
 
     private fromBlock: number = 0;
 
@@ -57,6 +64,7 @@ class WormholeMessageSnifferWorker {
             this.provider,
             this.logger
         );
+        this.relayPolicy = new RelayPolicy(this.store, this.logger);
 
         this.wormholeContract = this.initializeWormholeContract(
             this.config.wormholeAddress,
@@ -69,6 +77,11 @@ class WormholeMessageSnifferWorker {
         );
 
         this.monitor = this.startListeningToMonitor(this.config.monitorPort);
+        this.health = new HealthInterface(this.config.healthPort);
+        this.metrics = new MetricsInterface(
+            this.config.metricsPort,
+            { amb: 'wormhole', chain_id: this.chainId },
+        );
 
         this.initiateIntervalStatusLog();
     }
@@ -133,10 +146,14 @@ class WormholeMessageSnifferWorker {
             `Wormhole worker started.`,
         );
 
+        await this.relayPolicy.init();
+
         this.fromBlock = await this.getStartingBlock();
         const stopBlock = this.config.stoppingBlock ?? Infinity;
 
         while (true) {
+            this.health.reportActivity(this.fromBlock - 1);
+
             let toBlock = this.currentStatus?.blockNumber;
             if (!toBlock || this.fromBlock > toBlock) {
                 await wait(this.config.processingInterval);
@@ -176,6 +193,12 @@ class WormholeMessageSnifferWorker {
                 }
             }
 
+            this.metrics.increment(
+                'relayer_blocks_scanned_total',
+                { worker: 'collector' },
+                toBlock - this.fromBlock + 1,
+            );
+
             if (toBlock >= stopBlock) {
                 this.logger.info(
                     { stopBlock: toBlock },
@@ -191,6 +214,8 @@ class WormholeMessageSnifferWorker {
 
         // Cleanup worker
         this.monitor.close();
+        this.health.close();
+        this.metrics.close();
         await this.store.quit();
     }
 
@@ -289,6 +314,22 @@ class WormholeMessageSnifferWorker {
             return;
         }
 
+        const isAllowed = await this.relayPolicy.isAllowed(
+            {
+                messageIdentifier: decodedWormholeMessage.messageIdentifier,
+                amb: 'wormhole',
+                fromChainId: this.chainId,
+                toChainId: destinationChain,
+                incentivesPayload: decodedWormholeMessage.payload,
+            },
+            'collection',
+            'collector',
+            this.chainId,
+        );
+        if (!isAllowed) {
+            return;
+        }
+
         const channelId = defaultAbiCoder.encode(
             ['uint256'],
             [destinationWormholeChainId],
@@ -326,6 +367,7 @@ class WormholeMessageSnifferWorker {
             this.chainId,
             ambMessage,
         );
+        this.metrics.increment('relayer_amb_messages_collected_total');
     }
 
 
@@ -3,10 +3,13 @@ import { Worker } from 'worker_threads';
 import { LoggerService, STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
 import { WormholeConfig, WormholeRecoveryWorkerData } from './wormhole.types';
 import { tryErrorToString } from 'src/common/utils';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 function loadRecoveryWorkerData(
     chainId: string,
     wormholeConfig: WormholeConfig,
+    metricsService: MetricsService,
 ): WormholeRecoveryWorkerData | null {
     const wormholeChainConfig = wormholeConfig.wormholeChainConfigs.get(chainId);
     if (wormholeChainConfig == undefined) {
@@ -23,12 +26,15 @@ function loadRecoveryWorkerData(
         ...wormholeChainConfig,
         startingBlock,
         wormholeChainIdMap: wormholeConfig.wormholeChainIdMap,
+        metricsPort: metricsService.attachToMetrics(),
         loggerOptions: wormholeConfig.loggerOptions,
     };
 }
 
 export function initiateRecoveryWorkers(
     wormholeConfig: WormholeConfig,
+    healthService: HealthService,
+    metricsService: MetricsService,
     loggerService: LoggerService,
 ): void {
     loggerService.info('Starting the wormhole recovery workers...');
@@ -37,16 +43,18 @@ export function initiateRecoveryWorkers(
 
     for (const [chainId] of wormholeConfig.wormholeChainConfigs) {
         // Spawn a worker for every Wormhole implementation
-        const workerData = loadRecoveryWorkerData(chainId, wormholeConfig);
+        const workerData = loadRecoveryWorkerData(chainId, wormholeConfig, metricsService);
 
         if (workerData) {
             const worker = new Worker(
                 join(__dirname, 'wormhole-recovery.worker.js'),
                 {
                     workerData,
+                    transferList: [workerData.metricsPort]
                 },
             );
             workers[chainId] = worker;
+            healthService.registerWorker({ type: 'collector', name: 'wormhole-recovery', chainId }, worker);
 
             worker.on('error', (error) =>
                 loggerService.fatal(
@@ -8,6 +8,7 @@ import {
 import { decodeWormholeMessage } from './wormhole.utils';
 import { add0X, defaultAbiCoder, getDestinationImplementation, tryErrorToString, wait } from 'src/common/utils';
 import { AMBMessage, AMBProof } from 'src/store/store.types';
+import { RelayPolicy } from 'src/store/relay-policy/relay-policy.lib';
 import { ParsePayload } from 'src/payload/decode.payload';
 import {
     IncentivizedMessageEscrow,
@@ -17,6 +18,7 @@ import { WormholeRecoveryWorkerData } from './wormhole.types';
 import { JsonRpcProvider } from 'ethers6';
 import { fetchVAAs } from './api-utils';
 import { Resolver, loadResolver } from 'src/resolvers/resolver';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
 
 interface RecoveredVAAData {
     vaa: ParsedVaaWithBytes,
@@ -37,6 +39,10 @@ class WormholeRecoveryWorker {
 
     private readonly resolver: Resolver;
 
+    private readonly relayPolicy: RelayPolicy;
+
+    private readonly metrics: MetricsInterface;
+
     private readonly destinationImplementationCache: Record<string, Record<string, string>> = {};   // Map fromApplication + toChainId => destinationImplementation
 
     constructor() {
@@ -55,10 +61,15 @@ class WormholeRecoveryWorker {
             this.provider,
             this.logger
         );
+        this.relayPolicy = new RelayPolicy(this.store, this.logger);
         this.messageEscrowContract = this.initializeMessageEscrow(
             this.config.incentivesAddress,
             this.provider,
         );
+        this.metrics = new MetricsInterface(
+            this.config.metricsPort,
+            { amb: 'wormhole', chain_id: this.chainId },
+        );
     }
 
     // Initialization helpers
@@ -107,6 +118,8 @@ class WormholeRecoveryWorker {
             `Wormhole recovery worker started.`,
         );
 
+        await this.relayPolicy.init();
+
         const timestamps = await this.getTimestampsFromBlockNumbers(
             this.config.startingBlock,
             this.config.stoppingBlock,
@@ -131,14 +144,20 @@ class WormholeRecoveryWorker {
                 );
             }
         }
+
+        this.metrics.close();
     }
 
     private async processVAA(recoveredVAAData: RecoveredVAAData): Promise<void> {
-        await this.processVAAMessage(recoveredVAAData);
+        const isCollected = await this.processVAAMessage(recoveredVAAData);
+        if (!isCollected) {
+            return; // The message has been rejected by the relay policy.
+        }
         await this.processVAAProof(recoveredVAAData);
     }
 
-    private async processVAAMessage(recoveredVAAData: RecoveredVAAData): Promise<void> {
+    // Returns whether the message has been collected.
+    private async processVAAMessage(recoveredVAAData: RecoveredVAAData): Promise<boolean> {
         // The following effectively runs the same logic as the 'wormhole.service.ts' worker. When
         // recovering VAAs, both this and the 'wormhole.service.ts' are executed to prevent VAAs from
         // being missed in some edge cases (when recovering right before the latest blocks).
@@ -178,6 +197,22 @@ class WormholeRecoveryWorker {
             throw new Error('Could not decode VAA payload.');
         }
 
+        const isAllowed = await this.relayPolicy.isAllowed(
+            {
+                messageIdentifier: decodedWormholeMessage.messageIdentifier,
+                amb: 'wormhole',
+                fromChainId: sourceChain,
+                toChainId: destinationChain,
+                incentivesPayload: decodedWormholeMessage.payload,
+            },
+            'collection',
+            'collector',
+            this.chainId,
+        );
+        if (!isAllowed) {
+            return false;
+        }
+
         const channelId = defaultAbiCoder.encode(
             ['uint256'],
             [decodedWormholeMessage.destinationWormholeChainId],
@@ -228,6 +263,9 @@ class WormholeRecoveryWorker {
             this.chainId,
             ambMessage,
         );
+        this.metrics.increment('relayer_amb_messages_collected_total');
+
+        return true;
     }
 
     private async processVAAProof(recoveredVAAData: RecoveredVAAData): Promise<void> {
@@ -271,6 +309,7 @@ class WormholeRecoveryWorker {
         );
 
         await this.store.setAMBProof(destinationChain, ambPayload);
+        this.metrics.increment('relayer_amb_proofs_collected_total', { chain_id: destinationChain });
     }
 
     private async getTimestampsFromBlockNumbers(
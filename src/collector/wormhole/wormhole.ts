@@ -143,13 +143,13 @@ function loadWormholeChainConfig(
 }
 
 export default async (moduleInterface: CollectorModuleInterface) => {
-    const { configService, monitorService, loggerService } = moduleInterface;
+    const { configService, monitorService, healthService, metricsService, loggerService } = moduleInterface;
 
     const wormholeConfig = loadWormholeConfig(configService, loggerService);
 
-    initiateRelayerEngineWorker(wormholeConfig, loggerService);
+    initiateRelayerEngineWorker(wormholeConfig, healthService, metricsService, loggerService);
 
-    await initiateMessageSnifferWorkers(wormholeConfig, monitorService, loggerService);
+    await initiateMessageSnifferWorkers(wormholeConfig, monitorService, healthService, metricsService, loggerService);
 
-    initiateRecoveryWorkers(wormholeConfig, loggerService);
+    initiateRecoveryWorkers(wormholeConfig, healthService, metricsService, loggerService);
 };
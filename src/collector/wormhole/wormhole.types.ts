@@ -29,11 +29,15 @@ export interface WormholeChainConfig {
   wormholeAddress: string;
 }
 
-export interface WormholeRelayerEngineWorkerData extends WormholeConfig {}
+export interface WormholeRelayerEngineWorkerData extends WormholeConfig {
+  metricsPort: MessagePort;
+}
 
 export interface WormholeMessageSnifferWorkerData extends WormholeChainConfig {
   wormholeChainIdMap: Map<WormholeChainId, string>;
   monitorPort: MessagePort;
+  healthPort: MessagePort;
+  metricsPort: MessagePort;
   loggerOptions: LoggerOptions;
 }
 
@@ -41,5 +45,6 @@ export interface WormholeRecoveryWorkerData extends WormholeChainConfig {
   isTestnet: boolean;
   startingBlock: number;
   wormholeChainIdMap: Map<WormholeChainId, string>;
+  metricsPort: MessagePort;
   loggerOptions: LoggerOptions;
 }
@@ -79,10 +79,14 @@ const GLOBAL_SCHEMA = {
         monitor: { $ref: "monitor-schema" },
         getter: { $ref: "getter-schema" },
         pricing: { $ref: "pricing-schema" },
-        evaluator: { $ref: "evaluator-schema" },
+        evaluator: { $ref: "evaluator-global-schema" },
         submitter: { $ref: "submitter-schema" },
         persister: { $ref: "persister-schema" },
+        retention: { $ref: "retention-schema" },
         wallet: { $ref: "wallet-schema" },
+        auth: { $ref: "auth-schema" },
+        health: { $ref: "health-schema" },
+        sponsorships: { $ref: "sponsorships-schema" },
     },
     required: [],
     additionalProperties: false
@@ -150,23 +154,109 @@ export const PRICING_SCHEMA = {
     additionalProperties: true  // Allow for provider-specific configurations
 }
 
+const EVALUATION_PARAMETERS_PROPERTIES = {
+    unrewardedDeliveryGas: { $ref: "gas-field-schema" },
+    verificationDeliveryGas: { $ref: "gas-field-schema" },
+    minDeliveryReward: { $ref: "positive-number-schema" },
+    relativeMinDeliveryReward: { $ref: "positive-number-schema" },
+    unrewardedAckGas: { $ref: "gas-field-schema" },
+    verificationAckGas: { $ref: "gas-field-schema" },
+    minAckReward: { $ref: "positive-number-schema" },
+    relativeMinAckReward: { $ref: "positive-number-schema" },
+    profitabilityFactor: { $ref: "positive-number-schema" },
+    gasCorrectionMinSamples: { $ref: "positive-number-schema" },
+    deliveryGasPriceEstimate: { $ref: "gas-price-estimate-schema" },
+    ackLossGasPriceEstimate: { $ref: "gas-price-estimate-schema" },
+    ackGasPriceEstimate: { $ref: "gas-price-estimate-schema" },
+}
+
+const GAS_PRICE_ESTIMATE_SCHEMA = {
+    $id: "gas-price-estimate-schema",
+    type: "object",
+    properties: {
+        percentile: {
+            type: "number",
+            minimum: 0,
+            maximum: 100
+        },
+        horizon: { $ref: "positive-non-zero-integer-schema" },
+    },
+    minProperties: 1,
+    additionalProperties: false
+}
+
 const EVALUATOR_SCHEMA = {
     $id: "evaluator-schema",
     type: "object",
     properties: {
-        unrewardedDeliveryGas: { $ref: "gas-field-schema" },
-        verificationDeliveryGas: { $ref: "gas-field-schema" },
-        minDeliveryReward: { $ref: "positive-number-schema" },
-        relativeMinDeliveryReward: { $ref: "positive-number-schema" },
-        unrewardedAckGas: { $ref: "gas-field-schema" },
-        verificationAckGas: { $ref: "gas-field-schema" },
-        minAckReward: { $ref: "positive-number-schema" },
-        relativeMinAckReward: { $ref: "positive-number-schema" },
-        profitabilityFactor: { $ref: "positive-number-schema" },
+        ...EVALUATION_PARAMETERS_PROPERTIES,
+        strategies: {
+            type: "array",
+            items: { $ref: "evaluation-strategy-schema" },
+        },
+    },
+    additionalProperties: false
+}
+
+// The route overrides can only be specified on the global config.
+const EVALUATOR_GLOBAL_SCHEMA = {
+    $id: "evaluator-global-schema",
+    type: "object",
+    properties: {
+        ...EVALUATOR_SCHEMA.properties,
+        routes: {
+            type: "array",
+            items: { $ref: "evaluator-route-schema" },
+        },
     },
     additionalProperties: false
 }
 
+const EVALUATOR_ROUTE_SCHEMA = {
+    $id: "evaluator-route-schema",
+    type: "object",
+    properties: {
+        fromChainId: { $ref: "chain-id-schema" },
+        toChainId: { $ref: "chain-id-schema" },
+        amb: { $ref: "non-empty-string-schema" },
+        ...EVALUATION_PARAMETERS_PROPERTIES,
+    },
+    required: ["fromChainId", "toChainId"],
+    additionalProperties: false
+}
+
+const EVALUATION_STRATEGY_SCHEMA = {
+    $id: "evaluation-strategy-schema",
+    type: "object",
+    properties: {
+        strategy: { $ref: "non-empty-string-schema" },
+        fromChainId: { $ref: "chain-id-schema" },
+        toChainId: { $ref: "chain-id-schema" },
+        toApplication: { $ref: "address-field-schema" },
+    },
+    required: ["strategy"],
+    additionalProperties: true  // Allow for strategy-specific configurations
+}
+
+const SPONSORSHIPS_SCHEMA = {
+    $id: "sponsorships-schema",
+    type: "array",
+    items: {
+        type: "object",
+        properties: {
+            name: { $ref: "non-empty-string-schema" },
+            sourceApplication: { $ref: "address-field-schema" },
+            toApplication: { $ref: "address-field-schema" },
+            fromChainId: { $ref: "chain-id-schema" },
+            toChainId: { $ref: "chain-id-schema" },
+            dailyBudget: { $ref: "positive-number-schema" },
+            monthlyBudget: { $ref: "positive-number-schema" },
+        },
+        required: ["name"],
+        additionalProperties: false
+    }
+}
+
 const SUBMITTER_SCHEMA = {
     $id: "submitter-schema",
     type: "object",
@@ -198,6 +288,73 @@ const PERSISTER_SCHEMA = {
     additionalProperties: false
 }
 
+const RETENTION_SCHEMA = {
+    $id: "retention-schema",
+    type: "object",
+    properties: {
+        enabled: {
+            type: "boolean"
+        },
+        interval: { $ref: "positive-non-zero-integer-schema" },
+        claimedRetention: { $ref: "positive-number-schema" },
+        expiredRetention: { $ref: "positive-number-schema" },
+        orphanRetention: { $ref: "positive-number-schema" },
+    },
+    additionalProperties: false
+}
+
+const AUTH_SCOPES_SCHEMA = {
+    $id: "auth-scopes-schema",
+    type: "array",
+    items: {
+        type: "string",
+        enum: ["read", "prioritise", "admin"]
+    }
+}
+
+const AUTH_SCHEMA = {
+    $id: "auth-schema",
+    type: "object",
+    properties: {
+        enabled: {
+            type: "boolean"
+        },
+        publicScopes: { $ref: "auth-scopes-schema" },
+        hmacMaxAge: { $ref: "positive-non-zero-integer-schema" },
+        keys: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    name: { $ref: "non-empty-string-schema" },
+                    key: {
+                        type: "string",
+                        minLength: 16
+                    },
+                    scopes: { $ref: "auth-scopes-schema" },
+                    hmacSecret: {
+                        type: "string",
+                        minLength: 16
+                    },
+                },
+                required: ["name", "key", "scopes"],
+                additionalProperties: false
+            }
+        },
+    },
+    additionalProperties: false
+}
+
+const HEALTH_SCHEMA = {
+    $id: "health-schema",
+    type: "object",
+    properties: {
+        maxWorkerInactivity: { $ref: "positive-non-zero-integer-schema" },
+        maxBlockLag: { $ref: "positive-number-schema" },
+    },
+    additionalProperties: false
+}
+
 const WALLET_SCHEMA = {
     $id: "wallet-schema",
     type: "object",
@@ -228,6 +385,18 @@ const WALLET_SCHEMA = {
             minimum: 0,
             maximum: 100
         },
+        feeHistoryBlockCount: {
+            type: "number",
+            exclusiveMinimum: 0,
+            maximum: 1024,
+            multipleOf: 1
+        },
+        feeHistoryRewardPercentile: {
+            type: "number",
+            minimum: 0,
+            maximum: 100
+        },
+        feeHistoryCacheDuration: { $ref: "positive-number-schema" },
     },
     additionalProperties: false
 }
@@ -294,9 +463,18 @@ export function getConfigValidator(): AnyValidateFunction<unknown> {
     ajv.addSchema(MONITOR_SCHEMA);
     ajv.addSchema(GETTER_SCHEMA);
     ajv.addSchema(PRICING_SCHEMA);
+    ajv.addSchema(GAS_PRICE_ESTIMATE_SCHEMA);
     ajv.addSchema(EVALUATOR_SCHEMA);
+    ajv.addSchema(EVALUATOR_GLOBAL_SCHEMA);
+    ajv.addSchema(EVALUATOR_ROUTE_SCHEMA);
+    ajv.addSchema(EVALUATION_STRATEGY_SCHEMA);
+    ajv.addSchema(SPONSORSHIPS_SCHEMA);
     ajv.addSchema(SUBMITTER_SCHEMA);
     ajv.addSchema(PERSISTER_SCHEMA);
+    ajv.addSchema(RETENTION_SCHEMA);
+    ajv.addSchema(AUTH_SCOPES_SCHEMA);
+    ajv.addSchema(AUTH_SCHEMA);
+    ajv.addSchema(HEALTH_SCHEMA);
     ajv.addSchema(WALLET_SCHEMA);
     ajv.addSchema(AMBS_SCHEMA);
     ajv.addSchema(CHAINS_SCHEMA);
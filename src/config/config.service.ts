@@ -3,7 +3,7 @@ import { readFileSync } from 'fs';
 import * as yaml from 'js-yaml';
 import dotenv from 'dotenv';
 import { PRICING_SCHEMA, getConfigValidator } from './config.schema';
-import { GlobalConfig, ChainConfig, AMBConfig, GetterGlobalConfig, SubmitterGlobalConfig, PersisterConfig, WalletGlobalConfig, GetterConfig, SubmitterConfig, WalletConfig, MonitorConfig, MonitorGlobalConfig, PricingGlobalConfig, EvaluatorGlobalConfig, PricingConfig, EvaluatorConfig } from './config.types';
+import { GlobalConfig, ChainConfig, AMBConfig, GetterGlobalConfig, SubmitterGlobalConfig, PersisterConfig, RetentionConfig, AuthConfig, HealthConfig, WalletGlobalConfig, GetterConfig, SubmitterConfig, WalletConfig, MonitorConfig, MonitorGlobalConfig, PricingGlobalConfig, EvaluatorGlobalConfig, PricingConfig, EvaluatorConfig, SponsorshipConfig, EvaluatorRouteConfig } from './config.types';
 import { JsonRpcProvider } from 'ethers6';
 import { loadPrivateKeyLoader } from './privateKeyLoaders/privateKeyLoader';
 
@@ -120,7 +120,11 @@ export class ConfigService {
             evaluator: this.formatEvaluatorGlobalConfig(rawGlobalConfig.evaluator),
             submitter: this.formatSubmitterGlobalConfig(rawGlobalConfig.submitter),
             persister: this.formatPersisterGlobalConfig(rawGlobalConfig.persister),
+            retention: this.formatRetentionGlobalConfig(rawGlobalConfig.retention),
             wallet: this.formatWalletGlobalConfig(rawGlobalConfig.wallet),
+            auth: this.formatAuthGlobalConfig(rawGlobalConfig.auth),
+            health: this.formatHealthGlobalConfig(rawGlobalConfig.health),
+            sponsorships: this.formatSponsorshipsGlobalConfig(rawGlobalConfig.sponsorships),
         };
     }
 
@@ -251,9 +255,76 @@ export class ConfigService {
         if (config.verificationAckGas != undefined) {
             config.verificationAckGas = BigInt(config.verificationAckGas);
         }
+        if (config.strategies != undefined) {
+            config.strategies = config.strategies.map((rawRule: any) => {
+                const rule = { ...rawRule };
+                if (rule.fromChainId != undefined) {
+                    rule.fromChainId = rule.fromChainId.toString();
+                }
+                if (rule.toChainId != undefined) {
+                    rule.toChainId = rule.toChainId.toString();
+                }
+                if (rule.toApplication != undefined) {
+                    rule.toApplication = rule.toApplication.toLowerCase();
+                }
+                return rule;
+            });
+        }
+        if (config.routes != undefined) {
+            const routeKeys = new Set<string>();
+            config.routes = config.routes.map((rawRouteConfig: any) => {
+                const routeConfig = this.formatEvaluatorRouteConfig(rawRouteConfig);
+                const routeKey = `${routeConfig.fromChainId}:${routeConfig.toChainId}:${routeConfig.amb ?? '*'}`;
+                if (routeKeys.has(routeKey)) {
+                    throw new Error(
+                        `Invalid configuration: duplicate evaluator route '${routeKey}'.`,
+                    );
+                }
+                routeKeys.add(routeKey);
+                return routeConfig;
+            });
+        }
         return config as EvaluatorGlobalConfig;
     }
 
+    private formatEvaluatorRouteConfig(rawConfig: any): EvaluatorRouteConfig {
+        const config: any = this.formatEvaluatorGlobalConfig(rawConfig);
+        config.fromChainId = config.fromChainId.toString();
+        config.toChainId = config.toChainId.toString();
+        return config as EvaluatorRouteConfig;
+    }
+
+    private formatSponsorshipsGlobalConfig(rawConfig: any): SponsorshipConfig[] {
+        const sponsorships: SponsorshipConfig[] = [];
+        for (const rawSponsorship of rawConfig ?? []) {
+            const sponsorship = { ...rawSponsorship };
+            if (sponsorships.some((entry) => entry.name == sponsorship.name)) {
+                throw new Error(
+                    `Invalid configuration: duplicate sponsorship name '${sponsorship.name}'.`,
+                );
+            }
+            if (sponsorship.dailyBudget == undefined && sponsorship.monthlyBudget == undefined) {
+                throw new Error(
+                    `Invalid configuration: sponsorship '${sponsorship.name}' has no 'dailyBudget' nor 'monthlyBudget'.`,
+                );
+            }
+            if (sponsorship.sourceApplication != undefined) {
+                sponsorship.sourceApplication = sponsorship.sourceApplication.toLowerCase();
+            }
+            if (sponsorship.toApplication != undefined) {
+                sponsorship.toApplication = sponsorship.toApplication.toLowerCase();
+            }
+            if (sponsorship.fromChainId != undefined) {
+                sponsorship.fromChainId = sponsorship.fromChainId.toString();
+            }
+            if (sponsorship.toChainId != undefined) {
+                sponsorship.toChainId = sponsorship.toChainId.toString();
+            }
+            sponsorships.push(sponsorship);
+        }
+        return sponsorships;
+    }
+
     private formatSubmitterGlobalConfig(rawConfig: any): SubmitterGlobalConfig {
         return { ...rawConfig } as SubmitterGlobalConfig;
     }
@@ -262,6 +333,18 @@ export class ConfigService {
         return { ...rawConfig } as PersisterConfig;
     }
 
+    private formatRetentionGlobalConfig(rawConfig: any): RetentionConfig {
+        return { ...rawConfig } as RetentionConfig;
+    }
+
+    private formatAuthGlobalConfig(rawConfig: any): AuthConfig {
+        return { ...rawConfig } as AuthConfig;
+    }
+
+    private formatHealthGlobalConfig(rawConfig: any): HealthConfig {
+        return { ...rawConfig } as HealthConfig;
+    }
+
     private formatWalletGlobalConfig(rawConfig: any): WalletGlobalConfig {
         const config = { ...rawConfig };
         if (config.lowGasBalanceWarning != undefined) {
@@ -8,7 +8,11 @@ export interface GlobalConfig {
   evaluator: EvaluatorGlobalConfig;
   submitter: SubmitterGlobalConfig;
   persister: PersisterConfig;
+  retention: RetentionConfig;
   wallet: WalletGlobalConfig;
+  auth: AuthConfig;
+  health: HealthConfig;
+  sponsorships: SponsorshipConfig[];
 }
 
 export type PrivateKeyConfig = string | {
@@ -53,9 +57,46 @@ export interface EvaluatorGlobalConfig {
   minAckReward?: number;
   relativeMinAckReward?: number;
   profitabilityFactor?: number;
+  gasCorrectionMinSamples?: number;
+  deliveryGasPriceEstimate?: GasPriceEstimateConfig;
+  ackLossGasPriceEstimate?: GasPriceEstimateConfig;
+  ackGasPriceEstimate?: GasPriceEstimateConfig;
+  strategies?: EvaluationStrategyRuleConfig[];
+  routes?: EvaluatorRouteConfig[];
 }
 
-export interface EvaluatorConfig extends EvaluatorGlobalConfig {}
+// Gas price estimate based on the fee history sampled by the wallet. If both fields are given,
+// the largest estimate is used.
+export interface GasPriceEstimateConfig {
+  percentile?: number;    // Percentile of the gas prices (base fee + tip) of the sampled blocks.
+  horizon?: number;       // Forecast the gas price the given number of blocks ahead.
+}
+
+export interface EvaluatorRouteConfig extends Omit<EvaluatorGlobalConfig, 'strategies' | 'routes'> {
+  fromChainId: string;
+  toChainId: string;
+  amb?: string;
+}
+
+export interface EvaluationStrategyRuleConfig {
+  strategy: string;
+  fromChainId?: string;
+  toChainId?: string;
+  toApplication?: string;
+  [key: string]: any; // Allow for additional strategy-specific options
+}
+
+export interface EvaluatorConfig extends Omit<EvaluatorGlobalConfig, 'routes'> {}
+
+export interface SponsorshipConfig {
+  name: string;
+  sourceApplication?: string;
+  toApplication?: string;
+  fromChainId?: string;
+  toChainId?: string;
+  dailyBudget?: number;     // Fiat loss allowed per (UTC) day.
+  monthlyBudget?: number;   // Fiat loss allowed per (UTC) month.
+}
 
 export interface SubmitterGlobalConfig {
   enabled?: boolean;
@@ -76,6 +117,33 @@ export interface PersisterConfig {
   postgresString: string;
 }
 
+export interface RetentionConfig {
+  enabled?: boolean;
+  interval?: number;
+  claimedRetention?: number;
+  expiredRetention?: number;
+  orphanRetention?: number;
+}
+
+export interface AuthConfig {
+  enabled?: boolean;
+  publicScopes?: string[];
+  hmacMaxAge?: number;
+  keys?: AuthKeyConfig[];
+}
+
+export interface HealthConfig {
+  maxWorkerInactivity?: number;
+  maxBlockLag?: number;
+}
+
+export interface AuthKeyConfig {
+  name: string;
+  key: string;
+  scopes: string[];
+  hmacSecret?: string;
+}
+
 export interface WalletGlobalConfig {
   retryInterval?: number;
   processingInterval?: number;
@@ -91,6 +159,9 @@ export interface WalletGlobalConfig {
   maxAllowedGasPrice?: bigint;
   gasPriceAdjustmentFactor?: number;
   priorityAdjustmentFactor?: number;
+  feeHistoryBlockCount?: number;
+  feeHistoryRewardPercentile?: number;
+  feeHistoryCacheDuration?: number;
 }
 
 export interface WalletConfig extends WalletGlobalConfig {
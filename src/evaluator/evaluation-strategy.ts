@@ -0,0 +1,89 @@
+import pino from "pino";
+import { EvaluationParameters } from "./evaluator.types";
+
+export const EVALUATION_STRATEGY_DEFAULT = 'default';
+
+export interface EvaluationStrategyConfig {
+    strategy: string;
+    [key: string]: any; // Allow for additional strategy-specific options
+}
+
+// The delivery evaluation figures on which the relay decision is based.
+export interface DeliveryEvaluationData {
+    evaluationConfig: EvaluationParameters;
+    deliveryFiatCost: number;
+    deliveryFiatReward: number;
+    securedDeliveryFiatReward: number;
+    securedDeliveryFiatProfit: number;
+    securedDeliveryRelativeProfit: number;
+}
+
+// The ack evaluation figures on which the relay decision is based.
+export interface AckEvaluationData {
+    evaluationConfig: EvaluationParameters;
+    ackCost: bigint;                // ! In source chain gas value
+    adjustedAckReward: bigint;      // ! In source chain gas value
+    ackFiatProfit: number;
+    ackRelativeProfit: number;
+}
+
+export function loadEvaluationStrategy<Config extends EvaluationStrategyConfig>(
+    config: Config,
+    logger: pino.Logger
+): EvaluationStrategy<Config> {
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const module = require(`./strategies/${config.strategy}`);
+    const strategyClass: typeof BaseEvaluationStrategy = module.default;
+    return new strategyClass(
+        config,
+        logger,
+    ) as unknown as EvaluationStrategy<Config>;
+}
+
+export async function loadEvaluationStrategyAsync<Config extends EvaluationStrategyConfig>(
+    config: Config,
+    logger: pino.Logger
+): Promise<EvaluationStrategy<Config>> {
+
+    const module = await import(`./strategies/${config.strategy}`);
+    const strategyClass: typeof BaseEvaluationStrategy = module.default;
+    return new strategyClass(
+        config,
+        logger,
+    ) as unknown as EvaluationStrategy<Config>;
+}
+
+
+export abstract class EvaluationStrategy<Config extends EvaluationStrategyConfig> {
+    readonly abstract evaluationStrategyType: string;
+
+    constructor(
+        protected readonly config: Config,
+        protected readonly logger: pino.Logger,
+    ) {}
+
+
+
+    // Evaluation functions
+    // ********************************************************************************************
+
+    abstract shouldRelayDelivery(data: DeliveryEvaluationData): boolean;
+
+    abstract shouldRelayAck(data: AckEvaluationData): boolean;
+
+}
+
+// ! The following class should not be used, rather it is only provided for typing purposes.
+export class BaseEvaluationStrategy extends EvaluationStrategy<EvaluationStrategyConfig> {
+    readonly evaluationStrategyType: string = 'baseEvaluationStrategy';
+
+    shouldRelayDelivery(): boolean {
+        throw new Error("Method not implemented.");
+    }
+
+    shouldRelayAck(): boolean {
+        throw new Error("Method not implemented.");
+    }
+
+}
@@ -1,15 +1,35 @@
 import { BadRequestException, Controller, Get, OnModuleInit, Query } from "@nestjs/common";
 import { EvaluatorInterface } from "./evaluator.interface";
 import { EvaluatorService } from "./evaluator.service";
-import { EvaluateAckQuery, EvaluateAckQueryResponse, EvaluateDeliveryQuery, EvaluteDeliveryQueryResponse } from "./evaluator.types";
+import { EvaluateAckQuery, EvaluateAckQueryResponse, EvaluateDeliveryQuery, EvaluteDeliveryQueryResponse, ResolvedEvaluationParameters, ResolvedEvaluationParametersJSON, SponsorshipReport, GasAccuracyReport } from "./evaluator.types";
+import { EVALUATE_ACK_QUERY_SCHEMA, EVALUATE_DELIVERY_QUERY_SCHEMA } from "./evaluator.schema";
+import { ApiSchemaValidationPipe } from "src/api/api.schema";
+import { RequireScope } from "src/auth/auth.decorator";
+import { ConfigService } from "src/config/config.service";
+import { LoggerService } from "src/logger/logger.service";
+import { Store } from "src/store/store.lib";
+import { Sponsorships } from "./sponsorship.lib";
+import { GasAccuracy } from "./gas-accuracy.lib";
 
 @Controller()
 export class EvaluatorController implements OnModuleInit {
     private evaluator!: EvaluatorInterface;
+    private readonly sponsorships: Sponsorships;
+    private readonly gasAccuracy: GasAccuracy;
 
     constructor(
         private readonly evaluatorService: EvaluatorService,
-    ) {}
+        private readonly configService: ConfigService,
+        private readonly loggerService: LoggerService,
+    ) {
+        const store = new Store();
+        this.sponsorships = new Sponsorships(
+            this.configService.globalConfig.sponsorships,
+            store,
+            this.loggerService.logger,
+        );
+        this.gasAccuracy = new GasAccuracy(store, this.loggerService.logger);
+    }
 
     async onModuleInit() {
         await this.initializeEvaluatorInterface();    
@@ -21,18 +41,24 @@ export class EvaluatorController implements OnModuleInit {
     }
 
     @Get('evaluateDelivery')
-    async evaluateDelivery(@Query() query: EvaluateDeliveryQuery): Promise<any> {
-
-        //TODO validate query format
+    async evaluateDelivery(
+        @Query(new ApiSchemaValidationPipe(EVALUATE_DELIVERY_QUERY_SCHEMA)) query: EvaluateDeliveryQuery,
+    ): Promise<EvaluteDeliveryQueryResponse> {
         const result = await this.evaluator.evaluateDelivery(
             query.chainId,
-            query.messageIdentifier,
+            {
+                amb: query.amb,
+                fromChainId: query.fromChainId,
+                incentivesAddress: query.incentivesAddress,
+                messageIdentifier: query.messageIdentifier,
+            },
             {
                 gasEstimate: BigInt(query.gasEstimate),
                 observedGasEstimate: BigInt(query.observedGasEstimate),
                 additionalFeeEstimate: BigInt(query.additionalFeeEstimate),
             },
-            BigInt(query.value)
+            BigInt(query.value),
+            false,  // Do not consume the sponsorship budgets on queries.
         );
 
         if (result.evaluation == undefined) {
@@ -61,6 +87,12 @@ export class EvaluatorController implements OnModuleInit {
             securedDeliveryRelativeProfit: result.evaluation.securedDeliveryRelativeProfit,
             minDeliveryReward: result.evaluation.minDeliveryReward,
             relativeMinDeliveryReward: result.evaluation.relativeMinDeliveryReward,
+            evaluationStrategy: result.evaluation.evaluationStrategy,
+            sponsorship: result.evaluation.sponsorship,
+            sponsoredFiatLoss: result.evaluation.sponsoredFiatLoss,
+            gasCostCorrectionFactor: result.evaluation.gasCostCorrectionFactor,
+            gasRewardCorrectionFactor: result.evaluation.gasRewardCorrectionFactor,
+            evaluationConfig: this.formatEvaluationConfig(result.evaluation.evaluationConfig),
             relayDelivery: result.evaluation.relayDelivery,
         }
 
@@ -68,18 +100,24 @@ export class EvaluatorController implements OnModuleInit {
     }
 
     @Get('evaluateAck')
-    async evaluateAck(@Query() query: EvaluateAckQuery): Promise<any> {
-
-        //TODO validate query format
+    async evaluateAck(
+        @Query(new ApiSchemaValidationPipe(EVALUATE_ACK_QUERY_SCHEMA)) query: EvaluateAckQuery,
+    ): Promise<EvaluateAckQueryResponse> {
         const result = await this.evaluator.evaluateAck(
             query.chainId,
-            query.messageIdentifier,
+            {
+                amb: query.amb,
+                fromChainId: query.chainId,
+                incentivesAddress: query.incentivesAddress,
+                messageIdentifier: query.messageIdentifier,
+            },
             {
                 gasEstimate: BigInt(query.gasEstimate),
                 observedGasEstimate: BigInt(query.observedGasEstimate),
                 additionalFeeEstimate: BigInt(query.additionalFeeEstimate),
             },
-            BigInt(query.value)
+            BigInt(query.value),
+            false,  // Do not consume the sponsorship budgets on queries.
         );
 
         if (result.evaluation == undefined) {
@@ -105,9 +143,39 @@ export class EvaluatorController implements OnModuleInit {
             deliveryCost: result.evaluation.deliveryCost.toString(),
             deliveryReward: result.evaluation.deliveryReward.toString(),
             relayAckForDeliveryBounty: result.evaluation.relayAckForDeliveryBounty,
+            evaluationStrategy: result.evaluation.evaluationStrategy,
+            sponsorship: result.evaluation.sponsorship,
+            sponsoredFiatLoss: result.evaluation.sponsoredFiatLoss,
+            gasCostCorrectionFactor: result.evaluation.gasCostCorrectionFactor,
+            evaluationConfig: this.formatEvaluationConfig(result.evaluation.evaluationConfig),
             relayAck: result.evaluation.relayAck,
         }
 
         return response;
     }
+
+    private formatEvaluationConfig(
+        evaluationConfig: ResolvedEvaluationParameters,
+    ): ResolvedEvaluationParametersJSON {
+        return {
+            ...evaluationConfig,
+            unrewardedDeliveryGas: evaluationConfig.unrewardedDeliveryGas.toString(),
+            verificationDeliveryGas: evaluationConfig.verificationDeliveryGas.toString(),
+            unrewardedAckGas: evaluationConfig.unrewardedAckGas.toString(),
+            verificationAckGas: evaluationConfig.verificationAckGas.toString(),
+        };
+    }
+
+    // Spend of the sponsorships on the current (UTC) day/month.
+    @Get('sponsorships')
+    @RequireScope('admin')
+    async getSponsorships(): Promise<SponsorshipReport[]> {
+        return this.sponsorships.getReports();
+    }
+
+    // Distribution of the errors of the gas estimates, per route and application.
+    @Get('gasAccuracy')
+    async getGasAccuracy(): Promise<GasAccuracyReport[]> {
+        return this.gasAccuracy.getReports();
+    }
 }
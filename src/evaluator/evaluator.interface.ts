@@ -1,4 +1,5 @@
 import { GasEstimateComponents } from "src/resolvers/resolver";
+import { RelayStateIndex } from "src/store/store.types";
 import { MessagePort } from "worker_threads";
 import { EvaluateAckMessage, EvaluateAckResponseMessage, EvaluateDeliveryMessage, EvaluateDeliveryResponseMessage, EvaluatorMessage, EvaluatorMessageType, EvaluatorPortData } from "./evaluator.types";
 
@@ -38,17 +39,19 @@ export class EvaluatorInterface {
 
     async evaluateDelivery(
         chainId: string,
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         gasEstimateComponents: GasEstimateComponents,
         value: bigint,
+        consumeSponsorship: boolean,
     ): Promise<EvaluateDeliveryResponseMessage> {
 
         const message: EvaluateDeliveryMessage = {
             type: EvaluatorMessageType.EvaluateDelivery,
             chainId,
-            messageIdentifier,
+            relayStateIndex,
             gasEstimateComponents,
-            value
+            value,
+            consumeSponsorship,
         };
 
         return this.submitMessage(message);
@@ -56,17 +59,19 @@ export class EvaluatorInterface {
 
     async evaluateAck(
         chainId: string,
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         gasEstimateComponents: GasEstimateComponents,
         value: bigint,
+        consumeSponsorship: boolean,
     ): Promise<EvaluateAckResponseMessage> {
 
         const message: EvaluateAckMessage = {
             type: EvaluatorMessageType.EvaluateAck,
             chainId,
-            messageIdentifier,
+            relayStateIndex,
             gasEstimateComponents,
-            value
+            value,
+            consumeSponsorship,
         };
 
         return this.submitMessage(message);
@@ -0,0 +1,87 @@
+import { ADDRESS_API_SCHEMA, BYTES_32_API_SCHEMA, CHAIN_ID_API_SCHEMA, NON_EMPTY_STRING_API_SCHEMA, UINT_API_SCHEMA } from "src/api/api.schema";
+import { ApiEndpoint, ApiObjectSchema } from "src/api/api.types";
+
+
+// Evaluator API schemas
+// ************************************************************************************************
+
+export const EVALUATE_DELIVERY_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        chainId: CHAIN_ID_API_SCHEMA,
+        amb: NON_EMPTY_STRING_API_SCHEMA,
+        fromChainId: CHAIN_ID_API_SCHEMA,
+        incentivesAddress: ADDRESS_API_SCHEMA,
+        messageIdentifier: BYTES_32_API_SCHEMA,
+        gasEstimate: UINT_API_SCHEMA,
+        observedGasEstimate: UINT_API_SCHEMA,
+        additionalFeeEstimate: UINT_API_SCHEMA,
+        value: UINT_API_SCHEMA,
+    },
+    required: [
+        "chainId",
+        "amb",
+        "fromChainId",
+        "incentivesAddress",
+        "messageIdentifier",
+        "gasEstimate",
+        "observedGasEstimate",
+        "additionalFeeEstimate",
+        "value",
+    ],
+    additionalProperties: false,
+}
+
+export const EVALUATE_ACK_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        chainId: CHAIN_ID_API_SCHEMA,
+        amb: NON_EMPTY_STRING_API_SCHEMA,
+        incentivesAddress: ADDRESS_API_SCHEMA,
+        messageIdentifier: BYTES_32_API_SCHEMA,
+        gasEstimate: UINT_API_SCHEMA,
+        observedGasEstimate: UINT_API_SCHEMA,
+        additionalFeeEstimate: UINT_API_SCHEMA,
+        value: UINT_API_SCHEMA,
+    },
+    required: [
+        "chainId",
+        "amb",
+        "incentivesAddress",
+        "messageIdentifier",
+        "gasEstimate",
+        "observedGasEstimate",
+        "additionalFeeEstimate",
+        "value",
+    ],
+    additionalProperties: false,
+}
+
+export const EVALUATOR_API_ENDPOINTS: ApiEndpoint[] = [
+    {
+        method: "get",
+        path: "/evaluateDelivery",
+        tag: "Evaluator",
+        summary: "Evaluate the profitability of the delivery of a message.",
+        query: EVALUATE_DELIVERY_QUERY_SCHEMA,
+    },
+    {
+        method: "get",
+        path: "/evaluateAck",
+        tag: "Evaluator",
+        summary: "Evaluate the profitability of the ack of a message.",
+        query: EVALUATE_ACK_QUERY_SCHEMA,
+    },
+    {
+        method: "get",
+        path: "/sponsorships",
+        tag: "Evaluator",
+        summary: "Get the budget spend of the sponsorships on the current day/month.",
+    },
+    {
+        method: "get",
+        path: "/gasAccuracy",
+        tag: "Evaluator",
+        summary: "Get the accuracy of the gas estimates per route and application.",
+    },
+];
@@ -4,9 +4,10 @@ import { Worker, MessagePort } from 'worker_threads';
 import { tryErrorToString } from "src/common/utils";
 import { ConfigService } from "src/config/config.service";
 import { LoggerService, STATUS_LOG_INTERVAL } from "src/logger/logger.service";
-import { EvaluatorGetPortResponse, EvaluatorGetPortMessage, EvaluationConfig, EvaluatorWorkerData, EVALUATOR_DEFAULT_MIN_ACK_REWARD, EVALUATOR_DEFAULT_MIN_DELIVERY_REWARD, EVALUATOR_DEFAULT_PROFITABILITY_FACTOR, EVALUATOR_DEFAULT_RELATIVE_MIN_ACK_REWARD, EVALUATOR_DEFAULT_RELATIVE_MIN_DELIVERY_REWARD, EVALUATOR_DEFAULT_UNREWARDED_ACK_GAS, EVALUATOR_DEFAULT_UNREWARDED_DELIVERY_GAS, EVALUATOR_DEFAULT_VERIFICATION_ACK_GAS, EVALUATOR_DEFAULT_VERIFICATION_DELIVERY_GAS } from "./evaluator.types";
+import { EvaluatorGetPortResponse, EvaluatorGetPortMessage, EvaluationConfig, EvaluationParameters, RouteEvaluationConfig, EvaluatorWorkerData, EVALUATOR_DEFAULT_MIN_ACK_REWARD, EVALUATOR_DEFAULT_MIN_DELIVERY_REWARD, EVALUATOR_DEFAULT_PROFITABILITY_FACTOR, EVALUATOR_DEFAULT_RELATIVE_MIN_ACK_REWARD, EVALUATOR_DEFAULT_RELATIVE_MIN_DELIVERY_REWARD, EVALUATOR_DEFAULT_UNREWARDED_ACK_GAS, EVALUATOR_DEFAULT_UNREWARDED_DELIVERY_GAS, EVALUATOR_DEFAULT_VERIFICATION_ACK_GAS, EVALUATOR_DEFAULT_VERIFICATION_DELIVERY_GAS, EVALUATOR_DEFAULT_GAS_CORRECTION_MIN_SAMPLES, EVALUATOR_DEFAULT_GAS_PRICE_ESTIMATE } from "./evaluator.types";
 import { PricingService } from "src/pricing/pricing.service";
 import { WalletService } from "src/wallet/wallet.service";
+import { HealthService } from "src/health/health.service";
 
 
 @Global()
@@ -22,6 +23,7 @@ export class EvaluatorService implements OnModuleInit {
         private readonly configService: ConfigService,
         private readonly pricingService: PricingService,
         private readonly walletService: WalletService,
+        private readonly healthService: HealthService,
         private readonly loggerService: LoggerService,
     ) {
         this.isReady = this.initializeIsReady();
@@ -53,6 +55,7 @@ export class EvaluatorService implements OnModuleInit {
                 workerData.walletPort
             ]
         });
+        this.healthService.registerWorker({ type: 'evaluator' }, this.worker);
 
         this.worker.on('error', (error) => {
             this.loggerService.fatal(
@@ -116,13 +119,49 @@ export class EvaluatorService implements OnModuleInit {
                     ?? globalEvaluatorConfig.profitabilityFactor
                     ?? EVALUATOR_DEFAULT_PROFITABILITY_FACTOR,
 
+                gasCorrectionMinSamples: chainEvaluatorConfig.gasCorrectionMinSamples
+                    ?? globalEvaluatorConfig.gasCorrectionMinSamples
+                    ?? EVALUATOR_DEFAULT_GAS_CORRECTION_MIN_SAMPLES,
+
+                deliveryGasPriceEstimate: chainEvaluatorConfig.deliveryGasPriceEstimate
+                    ?? globalEvaluatorConfig.deliveryGasPriceEstimate
+                    ?? EVALUATOR_DEFAULT_GAS_PRICE_ESTIMATE,
+
+                ackLossGasPriceEstimate: chainEvaluatorConfig.ackLossGasPriceEstimate
+                    ?? globalEvaluatorConfig.ackLossGasPriceEstimate
+                    ?? EVALUATOR_DEFAULT_GAS_PRICE_ESTIMATE,
+
+                ackGasPriceEstimate: chainEvaluatorConfig.ackGasPriceEstimate
+                    ?? globalEvaluatorConfig.ackGasPriceEstimate
+                    ?? EVALUATOR_DEFAULT_GAS_PRICE_ESTIMATE,
+
+                // The chain-specific strategy rules take precedence over the global ones.
+                strategies: [
+                    ...(chainEvaluatorConfig.strategies ?? []),
+                    ...(globalEvaluatorConfig.strategies ?? []),
+                ],
+
             }
 
             evaluationConfigs[chainId] = chainEvaluationConfig;
         }
 
+        const routeEvaluationConfigs: RouteEvaluationConfig[] = [];
+        for (const routeConfig of globalEvaluatorConfig.routes ?? []) {
+            const { fromChainId, toChainId, amb, ...rawParameters } = routeConfig;
+
+            // Only keep the parameters that are overridden.
+            const parameters = Object.fromEntries(
+                Object.entries(rawParameters).filter(([, value]) => value != undefined)
+            ) as Partial<EvaluationParameters>;
+
+            routeEvaluationConfigs.push({ fromChainId, toChainId, amb, parameters });
+        }
+
         return {
             evaluationConfigs,
+            routeEvaluationConfigs,
+            sponsorships: this.configService.globalConfig.sponsorships,
             pricingPort: await this.pricingService.attachToPricing(),
             walletPort: await this.walletService.attachToWallet(),
             loggerOptions: this.loggerService.loggerOptions
@@ -1,5 +1,7 @@
 import { LoggerOptions } from "pino";
+import { EvaluationStrategyRuleConfig, GasPriceEstimateConfig, SponsorshipConfig } from "src/config/config.types";
 import { GasEstimateComponents } from "src/resolvers/resolver";
+import { GasAccuracyKind, RelayStateIndex, SponsorshipPeriodType } from "src/store/store.types";
 import { MessagePort } from "worker_threads";
 
 
@@ -16,13 +18,15 @@ export const EVALUATOR_DEFAULT_VERIFICATION_ACK_GAS = 0n;
 export const EVALUATOR_DEFAULT_MIN_ACK_REWARD = 0;
 export const EVALUATOR_DEFAULT_RELATIVE_MIN_ACK_REWARD = 0;
 export const EVALUATOR_DEFAULT_PROFITABILITY_FACTOR = 1;
+export const EVALUATOR_DEFAULT_GAS_CORRECTION_MIN_SAMPLES = 0;     // Disabled
+export const EVALUATOR_DEFAULT_GAS_PRICE_ESTIMATE = null;           // Use the current gas price
 
 
 
 // Config and Worker Types
 // ************************************************************************************************
 
-export interface EvaluationConfig {
+export interface EvaluationParameters {
 
     unrewardedDeliveryGas: bigint;
     verificationDeliveryGas: bigint;
@@ -35,10 +39,36 @@ export interface EvaluationConfig {
     relativeMinAckReward: number;
 
     profitabilityFactor: number;    
+
+    gasCorrectionMinSamples: number;    // Minimum samples to apply the learned gas corrections ('0' to disable).
+
+    // Fee history based gas price estimates, used if larger than the current gas price.
+    deliveryGasPriceEstimate: GasPriceEstimateConfig | null;    // For the delivery cost.
+    ackLossGasPriceEstimate: GasPriceEstimateConfig | null;     // For the 'maxAckLoss' of deliveries.
+    ackGasPriceEstimate: GasPriceEstimateConfig | null;         // For the ack cost.
+}
+
+export interface EvaluationConfig extends EvaluationParameters {
+    strategies: EvaluationStrategyRuleConfig[];     // Sorted by precedence.
+}
+
+// Overrides of the evaluation parameters for the messages of a route (and optionally of an AMB).
+export interface RouteEvaluationConfig {
+    fromChainId: string;
+    toChainId: string;
+    amb?: string;
+    parameters: Partial<EvaluationParameters>;
+}
+
+// The evaluation parameters resolved for a message.
+export interface ResolvedEvaluationParameters extends EvaluationParameters {
+    routeOverrides: string[];   // Applied overrides ('<fromChainId>:<toChainId>[:<amb>]'), by increasing precedence.
 }
 
 export interface EvaluatorWorkerData {
     evaluationConfigs: Record<string, EvaluationConfig>;
+    routeEvaluationConfigs: RouteEvaluationConfig[];
+    sponsorships: SponsorshipConfig[];
     pricingPort: MessagePort;
     walletPort: MessagePort;
     loggerOptions: LoggerOptions;
@@ -81,9 +111,10 @@ export type EvaluatorMessage = EvaluateDeliveryMessage
 export interface EvaluateDeliveryMessage {
     type: EvaluatorMessageType.EvaluateDelivery;
     chainId: string;
-    messageIdentifier: string;
+    relayStateIndex: RelayStateIndex;
     gasEstimateComponents: GasEstimateComponents;
     value: bigint;
+    consumeSponsorship: boolean;    // Whether to consume the sponsorship budgets if sponsored.
 }
 
 export interface EvaluateDeliveryResponseMessage {
@@ -110,6 +141,12 @@ export interface EvaluateDeliveryResponseMessage {
         securedDeliveryRelativeProfit: number;
         minDeliveryReward: number;
         relativeMinDeliveryReward: number;
+        evaluationStrategy: string;
+        sponsorship: string | null;
+        sponsoredFiatLoss: number | null;
+        gasCostCorrectionFactor: number | null;     // 'null' if no correction has been applied.
+        gasRewardCorrectionFactor: number | null;   // 'null' if no correction has been applied.
+        evaluationConfig: ResolvedEvaluationParameters;
         relayDelivery: boolean;
     } | null;
 }
@@ -117,9 +154,10 @@ export interface EvaluateDeliveryResponseMessage {
 export interface EvaluateAckMessage {
     type: EvaluatorMessageType.EvaluateAck;
     chainId: string;
-    messageIdentifier: string;
+    relayStateIndex: RelayStateIndex;
     gasEstimateComponents: GasEstimateComponents;
     value: bigint;
+    consumeSponsorship: boolean;    // Whether to consume the sponsorship budgets if sponsored.
 }
 
 export interface EvaluateAckResponseMessage {
@@ -143,6 +181,11 @@ export interface EvaluateAckResponseMessage {
         deliveryCost: bigint;
         deliveryReward: bigint;
         relayAckForDeliveryBounty: boolean;
+        evaluationStrategy: string;
+        sponsorship: string | null;
+        sponsoredFiatLoss: number | null;
+        gasCostCorrectionFactor: number | null;     // 'null' if no correction has been applied.
+        evaluationConfig: ResolvedEvaluationParameters;
         relayAck: boolean;
     } | null;
 }
@@ -156,8 +199,28 @@ export interface EmptyResponseMessage {
 // Controller Types
 // ************************************************************************************************
 
+export interface ResolvedEvaluationParametersJSON {
+    unrewardedDeliveryGas: string;
+    verificationDeliveryGas: string;
+    minDeliveryReward: number;
+    relativeMinDeliveryReward: number;
+    unrewardedAckGas: string;
+    verificationAckGas: string;
+    minAckReward: number;
+    relativeMinAckReward: number;
+    profitabilityFactor: number;
+    gasCorrectionMinSamples: number;
+    deliveryGasPriceEstimate: GasPriceEstimateConfig | null;
+    ackLossGasPriceEstimate: GasPriceEstimateConfig | null;
+    ackGasPriceEstimate: GasPriceEstimateConfig | null;
+    routeOverrides: string[];
+}
+
 export interface EvaluateDeliveryQuery {
     chainId: string;
+    amb: string;
+    fromChainId: string;
+    incentivesAddress: string;  // The source GeneralisedIncentives contract address.
     messageIdentifier: string;
     gasEstimate: string;
     observedGasEstimate: string;
@@ -187,11 +250,19 @@ export interface EvaluteDeliveryQueryResponse {
     securedDeliveryRelativeProfit: number;
     minDeliveryReward: number;
     relativeMinDeliveryReward: number;
+    evaluationStrategy: string;
+    sponsorship: string | null;
+    sponsoredFiatLoss: number | null;
+    gasCostCorrectionFactor: number | null;
+    gasRewardCorrectionFactor: number | null;
+    evaluationConfig: ResolvedEvaluationParametersJSON;
     relayDelivery: boolean;
 }
 
 export interface EvaluateAckQuery {
     chainId: string;
+    amb: string;
+    incentivesAddress: string;  // The GeneralisedIncentives contract address of 'chainId'.
     messageIdentifier: string;
     gasEstimate: string;
     observedGasEstimate: string;
@@ -218,5 +289,44 @@ export interface EvaluateAckQueryResponse {
     deliveryCost: string;
     deliveryReward: string;
     relayAckForDeliveryBounty: boolean;
+    evaluationStrategy: string;
+    sponsorship: string | null;
+    sponsoredFiatLoss: number | null;
+    gasCostCorrectionFactor: number | null;
+    evaluationConfig: ResolvedEvaluationParametersJSON;
     relayAck: boolean;
 }
+
+export interface SponsorshipPeriodReport {
+    type: SponsorshipPeriodType;
+    period: string;                 // The (UTC) day/month of the period.
+    budget?: number;
+    spent: number;
+    remaining?: number;
+    relays: number;
+}
+
+export interface SponsorshipReport extends SponsorshipConfig {
+    periods: SponsorshipPeriodReport[];
+}
+
+export interface GasAccuracyErrorBucket {
+    maxError: number | null;        // Upper bound of the bucket ('null' if unbounded).
+    samples: number;
+}
+
+export interface GasAccuracyReport {
+    kind: GasAccuracyKind;
+    fromChainId: string;
+    toChainId: string;
+    application?: string;           // Not set for the report of the whole route.
+    samples: number;
+    meanError: number;
+    errorStdDev: number;
+    minError: number;
+    maxError: number;
+    aggregateError: number;         // Relative error of the summed gas amounts of all the samples.
+    errorDistribution: GasAccuracyErrorBucket[];
+    correctionFactor: number;
+    updatedAt: number;
+}
@@ -1,18 +1,33 @@
 import pino from "pino";
 import { parentPort, workerData, MessagePort, MessageChannel } from "worker_threads";
-import { EvaluateAckResponseMessage, EvaluateDeliveryResponseMessage, EvaluatorGetPortMessage, EvaluatorGetPortResponse, EvaluatorMessage, EvaluatorMessageType, EvaluatorPortData, EvaluatorWorkerData } from "./evaluator.types";
+import { EvaluateAckResponseMessage, EvaluateDeliveryResponseMessage, EvaluationConfig, EvaluatorGetPortMessage, EvaluatorGetPortResponse, EvaluatorMessage, EvaluatorMessageType, EvaluatorPortData, EvaluatorWorkerData, ResolvedEvaluationParameters } from "./evaluator.types";
 import { Store } from "src/store/store.lib";
+import { GasAccuracyKind, RelayStateIndex } from "src/store/store.types";
 import { GasEstimateComponents } from "src/resolvers/resolver";
 import { BytesLike, MaxUint256 } from "ethers6";
 import { WalletInterface } from "src/wallet/wallet.interface";
 import { PricingInterface } from "src/pricing/pricing.interface";
 import { MessageContext, ParsePayload } from "src/payload/decode.payload";
 import { tryErrorToString } from "src/common/utils";
+import { EvaluationStrategyRuleConfig, GasPriceEstimateConfig } from "src/config/config.types";
+import { EVALUATION_STRATEGY_DEFAULT, EvaluationStrategy, EvaluationStrategyConfig, loadEvaluationStrategy } from "./evaluation-strategy";
+import { SponsorshipDecision, SponsorshipMessage, Sponsorships } from "./sponsorship.lib";
+import { GasAccuracy } from "./gas-accuracy.lib";
 
 
 const DECIMAL_BASE = 10_000;
 const DECIMAL_BASE_BIG_INT = BigInt(DECIMAL_BASE);
 
+interface EvaluationStrategyRule {
+    config: EvaluationStrategyRuleConfig;
+    strategy: EvaluationStrategy<EvaluationStrategyConfig>;
+}
+
+interface MessageApplications {
+    sourceApplication?: string;
+    toApplication?: string;
+}
+
 class EvaluatorWorker {
     private readonly config: EvaluatorWorkerData;
 
@@ -23,6 +38,11 @@ class EvaluatorWorker {
     private readonly pricing: PricingInterface;
     private readonly wallet: WalletInterface;
 
+    private readonly defaultStrategy: EvaluationStrategy<EvaluationStrategyConfig>;
+    private readonly strategyRules: Record<string, EvaluationStrategyRule[]>;
+    private readonly sponsorships: Sponsorships;
+    private readonly gasAccuracy: GasAccuracy;
+
     private portsCount = 0;
     private readonly ports: Record<number, MessagePort> = {};
 
@@ -36,6 +56,18 @@ class EvaluatorWorker {
 
         this.logger = this.initializeLogger();
 
+        this.defaultStrategy = loadEvaluationStrategy(
+            { strategy: EVALUATION_STRATEGY_DEFAULT },
+            this.logger,
+        );
+        this.strategyRules = this.initializeStrategyRules();
+        this.sponsorships = new Sponsorships(
+            this.config.sponsorships,
+            this.store,
+            this.logger,
+        );
+        this.gasAccuracy = new GasAccuracy(this.store, this.logger);
+
         this.initializePorts();
     }
 
@@ -50,6 +82,19 @@ class EvaluatorWorker {
         });
     }
 
+    private initializeStrategyRules(): Record<string, EvaluationStrategyRule[]> {
+        const strategyRules: Record<string, EvaluationStrategyRule[]> = {};
+
+        for (const [chainId, evaluationConfig] of Object.entries(this.config.evaluationConfigs)) {
+            strategyRules[chainId] = evaluationConfig.strategies.map((ruleConfig) => ({
+                config: ruleConfig,
+                strategy: loadEvaluationStrategy(ruleConfig, this.logger),
+            }));
+        }
+
+        return strategyRules;
+    }
+
     private initializePorts(): void {
         parentPort!.on('message', (message: EvaluatorGetPortMessage) => {
             const port = this.registerNewPort();
@@ -85,17 +130,31 @@ class EvaluatorWorker {
                 case EvaluatorMessageType.EvaluateDelivery:
                     returnData = await this.evaluateDelivery(
                         data.message.chainId,
-                        data.message.messageIdentifier,
+                        data.message.relayStateIndex,
                         data.message.gasEstimateComponents,
                         data.message.value,
+                        data.message.consumeSponsorship,
+                    );
+                    await this.registerEvaluation(
+                        data.message.chainId,
+                        data.message.relayStateIndex,
+                        'delivery',
+                        returnData.evaluation,
                     );
                     break;
                 case EvaluatorMessageType.EvaluateAck:
                     returnData = await this.evaluateAck(
                         data.message.chainId,
-                        data.message.messageIdentifier,
+                        data.message.relayStateIndex,
                         data.message.gasEstimateComponents,
                         data.message.value,
+                        data.message.consumeSponsorship,
+                    );
+                    await this.registerEvaluation(
+                        data.message.chainId,
+                        data.message.relayStateIndex,
+                        'ack',
+                        returnData.evaluation,
                     );
                     break;
                 default:
@@ -126,13 +185,34 @@ class EvaluatorWorker {
         }
     }
 
+    // Register the evaluation output on the message timeline.
+    private async registerEvaluation(
+        chainId: string,
+        relayStateIndex: RelayStateIndex,
+        evaluationType: 'delivery' | 'ack',
+        evaluation: EvaluateDeliveryResponseMessage['evaluation'] | EvaluateAckResponseMessage['evaluation'],
+    ): Promise<void> {
+        await this.store.addMessageTimelineEvent(relayStateIndex, {
+            type: 'evaluated',
+            source: 'evaluator',
+            chainId,
+            details: {
+                amb: relayStateIndex.amb,
+                evaluationType,
+                evaluation,
+            },
+        });
+    }
+
     
     private async evaluateDelivery(
         chainId: string,
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         gasEstimateComponents: GasEstimateComponents,
-        value: bigint
+        value: bigint,
+        consumeSponsorship: boolean,
     ): Promise<EvaluateDeliveryResponseMessage> {
+        const messageIdentifier = relayStateIndex.messageIdentifier;
 
         const response: EvaluateDeliveryResponseMessage = {
             type: EvaluatorMessageType.EvaluateDeliveryResponse,
@@ -141,8 +221,8 @@ class EvaluatorWorker {
             evaluation: null,
         };
 
-        const evaluationConfig = this.config.evaluationConfigs[chainId];
-        if (evaluationConfig == null) {
+        const chainEvaluationConfig = this.config.evaluationConfigs[chainId];
+        if (chainEvaluationConfig == null) {
             this.logger.info(
                 {
                     chainId,
@@ -154,7 +234,7 @@ class EvaluatorWorker {
             return response;
         }
 
-        const relayState = await this.store.getRelayState(messageIdentifier);
+        const relayState = await this.store.getRelayState(relayStateIndex);
         // TODO ideally the check `relayState.toChainId != chainId` would be performed at this point 
         // for extra precaution, but with the current implementation the `toChainId` field is not
         // available until the message is delivered.
@@ -170,29 +250,67 @@ class EvaluatorWorker {
             return response;
         }
 
+        const evaluationConfig = this.resolveEvaluationParameters(
+            chainEvaluationConfig,
+            relayState.bountyPlacedEvent.fromChainId,
+            chainId,
+            relayStateIndex.amb,
+        );
+
         const {
             gasEstimate,
             observedGasEstimate,
             additionalFeeEstimate
         } = gasEstimateComponents;
         
-        const destinationGasPrice = await this.getGasPrice(chainId);
-        const sourceGasPrice = await this.getGasPrice(relayState.bountyPlacedEvent.fromChainId);
+        const destinationGasPrice = await this.getGasPrice(
+            chainId,
+            evaluationConfig.deliveryGasPriceEstimate,
+        );
+        const sourceGasPrice = await this.getGasPrice(      // Used for the 'maxAckLoss'
+            relayState.bountyPlacedEvent.fromChainId,
+            evaluationConfig.ackLossGasPriceEstimate,
+        );
 
         const bountyPlacedEvent = relayState?.bountyPlacedEvent;
+
+        const getApplications = this.getMessageApplicationsLoader(
+            bountyPlacedEvent.fromChainId,
+            messageIdentifier,
+        );
+
+        const gasCostCorrectionFactor = await this.getGasCorrectionFactor(
+            'deliveryGasUsed',
+            bountyPlacedEvent.fromChainId,
+            chainId,
+            async () => (await getApplications()).toApplication,
+            evaluationConfig.gasCorrectionMinSamples,
+        );
+
+        const gasRewardCorrectionFactor = await this.getGasCorrectionFactor(
+            'deliveryGasSpent',
+            bountyPlacedEvent.fromChainId,
+            chainId,
+            async () => (await getApplications()).toApplication,
+            evaluationConfig.gasCorrectionMinSamples,
+        );
         const priceOfDeliveryGas = relayState.bountyIncreasedEvent?.newDeliveryGasPrice
             ?? bountyPlacedEvent.priceOfDeliveryGas;
         const priceOfAckGas = relayState.bountyIncreasedEvent?.newAckGasPrice
             ?? bountyPlacedEvent.priceOfAckGas;
 
         const deliveryCost = this.calcGasCost(              // ! In destination chain gas value
-            gasEstimate,
+            this.applyGasCorrection(gasEstimate, gasCostCorrectionFactor),
             destinationGasPrice,
             additionalFeeEstimate + value
         );
 
         const deliveryReward = this.calcGasReward(          // ! In source chain gas value
-            observedGasEstimate,
+            this.applyRewardableGasCorrection(
+                observedGasEstimate,
+                evaluationConfig.unrewardedDeliveryGas,
+                gasRewardCorrectionFactor,
+            ),
             evaluationConfig.unrewardedDeliveryGas,
             bountyPlacedEvent.maxGasDelivery,
             priceOfDeliveryGas
@@ -239,11 +357,40 @@ class EvaluatorWorker {
         const securedDeliveryFiatProfit = securedDeliveryFiatReward - deliveryFiatCost;
         const securedDeliveryRelativeProfit = securedDeliveryFiatProfit / deliveryFiatCost;
 
-        const relayDelivery = (
-            securedDeliveryFiatProfit > evaluationConfig.minDeliveryReward ||
-            securedDeliveryRelativeProfit > evaluationConfig.relativeMinDeliveryReward
+        const strategy = await this.getEvaluationStrategy(
+            chainId,
+            bountyPlacedEvent.fromChainId,
+            chainId,
+            getApplications,
         );
 
+        const strategyRelayDelivery = strategy.shouldRelayDelivery({
+            evaluationConfig,
+            deliveryFiatCost,
+            deliveryFiatReward,
+            securedDeliveryFiatReward,
+            securedDeliveryFiatProfit,
+            securedDeliveryRelativeProfit,
+        });
+
+        // Messages rejected by the strategy may still be relayed if sponsored.
+        const sponsorship = strategyRelayDelivery
+            ? null
+            : await this.getSponsorship(
+                {
+                    relayStateIndex,
+                    fromChainId: bountyPlacedEvent.fromChainId,
+                    toChainId: chainId,
+                },
+                getApplications,
+                'delivery',
+                Math.max(0, -securedDeliveryFiatProfit),
+                deliveryFiatCost,
+                consumeSponsorship,
+            );
+
+        const relayDelivery = strategyRelayDelivery || sponsorship != null;
+
         response.evaluation = {
             maxGasDelivery: bountyPlacedEvent.maxGasDelivery,
             maxGasAck: bountyPlacedEvent.maxGasAck,
@@ -264,6 +411,12 @@ class EvaluatorWorker {
             securedDeliveryRelativeProfit,
             minDeliveryReward: evaluationConfig.minDeliveryReward,
             relativeMinDeliveryReward: evaluationConfig.relativeMinDeliveryReward,
+            evaluationStrategy: strategy.evaluationStrategyType,
+            sponsorship: sponsorship?.sponsorship ?? null,
+            sponsoredFiatLoss: sponsorship?.fiatLoss ?? null,
+            gasCostCorrectionFactor,
+            gasRewardCorrectionFactor,
+            evaluationConfig,
             relayDelivery,
         };
         
@@ -272,10 +425,12 @@ class EvaluatorWorker {
 
     private async evaluateAck(
         chainId: string,
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         gasEstimateComponents: GasEstimateComponents,
         value: bigint,
+        consumeSponsorship: boolean,
     ): Promise<EvaluateAckResponseMessage> {
+        const messageIdentifier = relayStateIndex.messageIdentifier;
 
         const response: EvaluateAckResponseMessage = {
             type: EvaluatorMessageType.EvaluateAckResponse,
@@ -284,8 +439,8 @@ class EvaluatorWorker {
             evaluation: null,
         };
 
-        const evaluationConfig = this.config.evaluationConfigs[chainId];
-        if (evaluationConfig == null) {
+        const chainEvaluationConfig = this.config.evaluationConfigs[chainId];
+        if (chainEvaluationConfig == null) {
             this.logger.info(
                 {
                     chainId,
@@ -297,7 +452,7 @@ class EvaluatorWorker {
             return response
         }
 
-        const relayState = await this.store.getRelayState(messageIdentifier);
+        const relayState = await this.store.getRelayState(relayStateIndex);
         if (relayState?.bountyPlacedEvent == null) {
             this.logger.info(
                 {
@@ -338,21 +493,45 @@ class EvaluatorWorker {
         }
         const ackIncentivesPayload = ackAMBMessage?.incentivesPayload;
 
+        // ! The route overrides are only applied if the destination chain of the message is known.
+        const evaluationConfig = this.resolveEvaluationParameters(
+            chainEvaluationConfig,
+            chainId,
+            toChainId,
+            relayStateIndex.amb,
+        );
+
         const {
             gasEstimate,
             observedGasEstimate,
             additionalFeeEstimate
         } = gasEstimateComponents;
 
-        const sourceGasPrice = await this.getGasPrice(chainId);
+        const sourceGasPrice = await this.getGasPrice(
+            chainId,
+            evaluationConfig.ackGasPriceEstimate,
+        );
 
         const priceOfDeliveryGas = relayState.bountyIncreasedEvent?.newDeliveryGasPrice
             ?? bountyPlacedEvent.priceOfDeliveryGas;
         const priceOfAckGas = relayState.bountyIncreasedEvent?.newAckGasPrice
             ?? bountyPlacedEvent.priceOfAckGas;
 
+        const getApplications = this.getMessageApplicationsLoader(
+            chainId,
+            messageIdentifier,
+        );
+
+        const gasCostCorrectionFactor = await this.getGasCorrectionFactor(
+            'ackGasUsed',
+            chainId,
+            toChainId,
+            async () => (await getApplications()).sourceApplication,
+            evaluationConfig.gasCorrectionMinSamples,
+        );
+
         const ackCost = this.calcGasCost(           // ! In source chain gas value
-            gasEstimate,
+            this.applyGasCorrection(gasEstimate, gasCostCorrectionFactor),
             sourceGasPrice,
             additionalFeeEstimate + value
         );
@@ -378,9 +557,20 @@ class EvaluatorWorker {
         if (deliveryCost != 0n) {
 
             // Recalculate the delivery reward using the latest pricing info
-            const usedGasDelivery = ackIncentivesPayload
-                ? await this.getGasUsedForDelivery(ackIncentivesPayload) ?? 0n
-                : 0n;   // 'gasUsed' should not be 'undefined', but if it is, continue as if it was 0
+            const reportedGasDelivery = ackIncentivesPayload
+                ? await this.getGasUsedForDelivery(ackIncentivesPayload)
+                : null;
+            const usedGasDelivery = reportedGasDelivery ?? 0n;  // 'gasUsed' should not be 'undefined', but if it is, continue as if it was 0
+
+            if (reportedGasDelivery != null && toChainId != undefined) {
+                await this.registerDeliveryGasSpentSample(
+                    relayStateIndex,
+                    chainId,
+                    toChainId,
+                    reportedGasDelivery,
+                    getApplications,
+                );
+            }
 
             deliveryReward = this.calcGasReward(    // ! In source chain gas value
                 usedGasDelivery,
@@ -395,12 +585,39 @@ class EvaluatorWorker {
         // delivery.
         const relayAckForDeliveryBounty = deliveryCost != 0n && (ackProfit + deliveryReward > 0n);
 
-        const relayAck = (
-            relayAckForDeliveryBounty ||
-            ackFiatProfit > evaluationConfig.minAckReward ||
-            ackRelativeProfit > evaluationConfig.relativeMinAckReward
+        const strategy = await this.getEvaluationStrategy(
+            chainId,
+            chainId,
+            toChainId,
+            getApplications,
         );
 
+        const strategyRelayAck = relayAckForDeliveryBounty || strategy.shouldRelayAck({
+            evaluationConfig,
+            ackCost,
+            adjustedAckReward,
+            ackFiatProfit,
+            ackRelativeProfit,
+        });
+
+        // Acks rejected by the strategy may still be relayed if sponsored.
+        const sponsorship = strategyRelayAck
+            ? null
+            : await this.getSponsorship(
+                {
+                    relayStateIndex,
+                    fromChainId: chainId,
+                    toChainId,
+                },
+                getApplications,
+                'ack',
+                Math.max(0, -ackFiatProfit),
+                await this.getGasCostFiatPrice(ackCost, chainId),
+                consumeSponsorship,
+            );
+
+        const relayAck = strategyRelayAck || sponsorship != null;
+
         response.evaluation = {
             maxGasDelivery: bountyPlacedEvent.maxGasDelivery,
             maxGasAck: bountyPlacedEvent.maxGasAck,
@@ -418,12 +635,276 @@ class EvaluatorWorker {
             deliveryCost,
             deliveryReward,
             relayAckForDeliveryBounty,
+            evaluationStrategy: strategy.evaluationStrategyType,
+            sponsorship: sponsorship?.sponsorship ?? null,
+            sponsoredFiatLoss: sponsorship?.fiatLoss ?? null,
+            gasCostCorrectionFactor,
+            evaluationConfig,
             relayAck,
         };
         
         return response;
     }
 
+    // Apply the overrides of the message route to the evaluation parameters of the chain. The
+    // AMB-specific overrides take precedence over the generic route ones.
+    private resolveEvaluationParameters(
+        chainEvaluationConfig: EvaluationConfig,
+        fromChainId: string,
+        toChainId: string | undefined,
+        amb: string,
+    ): ResolvedEvaluationParameters {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { strategies, ...chainParameters } = chainEvaluationConfig;
+        const resolvedParameters: ResolvedEvaluationParameters = {
+            ...chainParameters,
+            routeOverrides: [],
+        };
+
+        if (toChainId == undefined) {
+            return resolvedParameters;
+        }
+
+        const routeConfigs = this.config.routeEvaluationConfigs
+            .filter((routeConfig) =>
+                routeConfig.fromChainId == fromChainId
+                && routeConfig.toChainId == toChainId
+                && (routeConfig.amb == undefined || routeConfig.amb == amb)
+            )
+            .sort((a, b) => Number(a.amb != undefined) - Number(b.amb != undefined));
+
+        for (const routeConfig of routeConfigs) {
+            Object.assign(resolvedParameters, routeConfig.parameters);
+            resolvedParameters.routeOverrides.push(
+                routeConfig.amb != undefined
+                    ? `${fromChainId}:${toChainId}:${routeConfig.amb}`
+                    : `${fromChainId}:${toChainId}`
+            );
+        }
+
+        return resolvedParameters;
+    }
+
+    // Get the strategy of the first rule that matches the message route/destination application.
+    private async getEvaluationStrategy(
+        chainId: string,
+        fromChainId: string,
+        toChainId: string | undefined,
+        getApplications: () => Promise<MessageApplications>,
+    ): Promise<EvaluationStrategy<EvaluationStrategyConfig>> {
+        for (const rule of this.strategyRules[chainId] ?? []) {
+            const ruleConfig = rule.config;
+            if (ruleConfig.fromChainId != undefined && ruleConfig.fromChainId != fromChainId) {
+                continue;
+            }
+            if (ruleConfig.toChainId != undefined && ruleConfig.toChainId != toChainId) {
+                continue;
+            }
+            if (
+                ruleConfig.toApplication != undefined
+                && ruleConfig.toApplication != (await getApplications()).toApplication
+            ) {
+                continue;
+            }
+
+            return rule.strategy;
+        }
+
+        return this.defaultStrategy;
+    }
+
+    private async getSponsorship(
+        message: Omit<SponsorshipMessage, keyof MessageApplications>,
+        getApplications: () => Promise<MessageApplications>,
+        evaluationType: 'delivery' | 'ack',
+        fiatLoss: number,
+        fiatCost: number,
+        consumeSponsorship: boolean,
+    ): Promise<SponsorshipDecision | null> {
+        if (this.config.sponsorships.length == 0) {
+            return null;
+        }
+
+        return this.sponsorships.sponsor(
+            {
+                ...message,
+                ...await getApplications(),
+            },
+            evaluationType,
+            fiatLoss,
+            fiatCost,
+            consumeSponsorship,
+        );
+    }
+
+    // The applications of the message are only queried (once) if required by the strategy/
+    // sponsorship rules.
+    private getMessageApplicationsLoader(
+        fromChainId: string,
+        messageIdentifier: string,
+    ): () => Promise<MessageApplications> {
+        let applications: Promise<MessageApplications> | undefined;
+        return () => {
+            applications ??= this.getMessageApplications(fromChainId, messageIdentifier);
+            return applications;
+        };
+    }
+
+    private async getMessageApplications(
+        fromChainId: string,
+        messageIdentifier: string,
+    ): Promise<MessageApplications> {
+        const ambMessage = await this.store.getAMBMessage(fromChainId, messageIdentifier);
+        if (ambMessage == null) {
+            this.logger.info(
+                {
+                    fromChainId,
+                    messageIdentifier,
+                },
+                `Message data not found, unable to match the strategy/sponsorship rules by application.`
+            );
+            return {};
+        }
+
+        try {
+            const payload = ParsePayload(ambMessage.incentivesPayload);
+            if (payload == undefined) {
+                return {};
+            }
+
+            return {
+                sourceApplication: payload.sourceApplicationAddress.toLowerCase(),
+                toApplication: payload.context == MessageContext.CTX_SOURCE_TO_DESTINATION
+                    ? payload.toApplication.toLowerCase()
+                    : undefined,
+            };
+        }
+        catch (error) {
+            this.logger.warn(
+                {
+                    fromChainId,
+                    messageIdentifier,
+                    error: tryErrorToString(error),
+                },
+                `Failed to parse generalised incentives payload for the message applications.`
+            );
+        }
+
+        return {};
+    }
+
+    // Get the learned gas correction factor of the message route/application. The correction is
+    // only returned if it makes the evaluation more conservative (i.e. if it increases the gas
+    // cost or decreases the rewarded gas estimates).
+    private async getGasCorrectionFactor(
+        kind: GasAccuracyKind,
+        fromChainId: string,
+        toChainId: string | undefined,
+        getApplication: () => Promise<string | undefined>,
+        minSamples: number,
+    ): Promise<number | null> {
+        if (minSamples <= 0 || toChainId == undefined) {
+            return null;
+        }
+
+        const correctionFactor = await this.gasAccuracy.getCorrectionFactor(
+            kind,
+            fromChainId,
+            toChainId,
+            await getApplication(),
+            minSamples,
+        );
+        if (correctionFactor == null) {
+            return null;
+        }
+
+        const isConservative = kind == 'deliveryGasSpent'
+            ? correctionFactor < 1
+            : correctionFactor > 1;
+
+        return isConservative ? correctionFactor : null;
+    }
+
+    // Compare the rewardable gas estimate of the delivery submitted by *this* relayer with the
+    // 'gasSpent' reported back on the message ack.
+    private async registerDeliveryGasSpentSample(
+        relayStateIndex: RelayStateIndex,
+        fromChainId: string,
+        toChainId: string,
+        gasSpent: bigint,
+        getApplications: () => Promise<MessageApplications>,
+    ): Promise<void> {
+        try {
+            const deliveryAttempt = (await this.store.getRelayAttempts(relayStateIndex))
+                .find((attempt) => attempt.isDelivery && attempt.status == 'confirmed');
+
+            // The evaluation is missing for priority deliveries.
+            const deliveryEvaluation = deliveryAttempt?.evaluation;
+            if (deliveryEvaluation?.['observedGasEstimate'] == undefined) {
+                return;
+            }
+
+            // Only account the sample once (the ack may be evaluated multiple times).
+            const registered = await this.store.registerGasAccuracySample(
+                relayStateIndex,
+                'deliveryGasSpent',
+            );
+            if (!registered) {
+                return;
+            }
+
+            const observedGasEstimate = BigInt(deliveryEvaluation['observedGasEstimate']);
+            const unrewardedDeliveryGas = BigInt(
+                deliveryEvaluation['evaluationConfig']?.['unrewardedDeliveryGas'] ?? 0
+            );
+
+            await this.gasAccuracy.recordSample({
+                kind: 'deliveryGasSpent',
+                fromChainId,
+                toChainId,
+                application: (await getApplications()).toApplication,
+                estimate: observedGasEstimate > unrewardedDeliveryGas
+                    ? observedGasEstimate - unrewardedDeliveryGas
+                    : 0n,
+                actual: gasSpent,
+            });
+        }
+        catch (error) {
+            this.logger.warn(
+                {
+                    messageIdentifier: relayStateIndex.messageIdentifier,
+                    error: tryErrorToString(error),
+                },
+                `Failed to register the delivery 'gasSpent' accuracy sample.`
+            );
+        }
+    }
+
+    private applyGasCorrection(
+        gas: bigint,
+        correctionFactor: number | null,
+    ): bigint {
+        if (correctionFactor == null) {
+            return gas;
+        }
+
+        return gas * BigInt(Math.round(correctionFactor * DECIMAL_BASE)) / DECIMAL_BASE_BIG_INT;
+    }
+
+    // Apply the correction to the rewardable part of the gas estimate only (i.e. excluding the
+    // 'unrewarded' gas).
+    private applyRewardableGasCorrection(
+        gas: bigint,
+        unrewardedGas: bigint,
+        correctionFactor: number | null,
+    ): bigint {
+        if (gas <= unrewardedGas) {
+            return gas;
+        }
+
+        return unrewardedGas + this.applyGasCorrection(gas - unrewardedGas, correctionFactor);
+    }
+
     private calcGasCost(
         gas: bigint,
         gasPrice: bigint,
@@ -494,7 +975,10 @@ class EvaluatorWorker {
             : 0n;
     }
 
-    private async getGasPrice(chainId: string): Promise<bigint> {
+    private async getGasPrice(
+        chainId: string,
+        gasPriceEstimate: GasPriceEstimateConfig | null,
+    ): Promise<bigint> {
         const feeData = await this.wallet.getFeeData(chainId);
         // If gas fee data is missing or incomplete, default the gas price to an extremely high
         // value.
@@ -505,7 +989,16 @@ class EvaluatorWorker {
             ?? feeData?.maxFeePerGas
             ?? MaxUint256;
 
-        return gasPrice;
+        if (gasPriceEstimate == null) {
+            return gasPrice;
+        }
+
+        // Use the fee history based estimate only if it is larger than the current gas price (i.e.
+        // to account for gas price spikes by the time the transaction is submitted).
+        const estimatedGasPrice = await this.wallet.getGasPriceEstimate(chainId, gasPriceEstimate);
+        return estimatedGasPrice != undefined && estimatedGasPrice > gasPrice
+            ? estimatedGasPrice
+            : gasPrice;
     }
 
     private async getGasCostFiatPrice(amount: bigint, chainId: string): Promise<number> {
@@ -0,0 +1,143 @@
+import pino from 'pino';
+import { Store } from 'src/store/store.lib';
+import { clearTestStore, createTestStore } from 'src/store/store.spec-utils';
+import { GasAccuracy, GasAccuracySample } from './gas-accuracy.lib';
+
+const APPLICATION = '0x000000000000000000000000000000000000000A';
+const OTHER_APPLICATION = '0x000000000000000000000000000000000000000b';
+
+describe('GasAccuracy', () => {
+    let store: Store;
+    let gasAccuracy: GasAccuracy;
+
+    beforeEach(() => {
+        store = createTestStore();
+        gasAccuracy = new GasAccuracy(store, pino({ level: 'silent' }));
+    });
+
+    afterEach(async () => {
+        await store.quit();
+        clearTestStore();
+    });
+
+    const getSample = (
+        estimate: bigint,
+        actual: bigint,
+        application: string | undefined = APPLICATION,
+    ): GasAccuracySample => ({
+        kind: 'deliveryGasUsed',
+        fromChainId: '1',
+        toChainId: '2',
+        application,
+        estimate,
+        actual,
+    });
+
+    const getStats = (application?: string) => store.getGasAccuracyStats(
+        'deliveryGasUsed',
+        '1',
+        '2',
+        application,
+    );
+
+    it('accounts the samples on the route and on the application stats', async () => {
+        await gasAccuracy.recordSample(getSample(100000n, 110000n));
+        await gasAccuracy.recordSample(getSample(100000n, 90000n, OTHER_APPLICATION));
+
+        const routeStats = await getStats();
+        expect(routeStats?.application).toBeUndefined();
+        expect(routeStats).toMatchObject({
+            samples: 2,
+            estimatedGas: 200000,
+            actualGas: 200000,
+            minError: -0.1,
+            maxError: 0.1,
+        });
+        expect(routeStats?.errorSum).toBeCloseTo(0);
+
+        // The application addresses are case insensitive.
+        const applicationStats = await getStats(APPLICATION.toLowerCase());
+        expect(applicationStats).toMatchObject({
+            application: APPLICATION.toLowerCase(),
+            samples: 1,
+            estimatedGas: 100000,
+            actualGas: 110000,
+        });
+        expect(applicationStats?.correctionFactor).toBeCloseTo(1.1);
+        expect(await getStats(OTHER_APPLICATION)).toMatchObject({ samples: 1 });
+    });
+
+    it('does not lose the samples recorded concurrently', async () => {
+        const sampleCount = 10;
+
+        await Promise.all(
+            Array.from(
+                { length: sampleCount },
+                (_, index) => gasAccuracy.recordSample(getSample(100000n, BigInt(100000 + index))),
+            )
+        );
+
+        const routeStats = await getStats();
+        const applicationStats = await getStats(APPLICATION);
+        expect(routeStats?.samples).toBe(sampleCount);
+        expect(applicationStats?.samples).toBe(sampleCount);
+        expect(applicationStats?.actualGas).toBe(routeStats?.actualGas);
+    });
+
+    it('updates the route and the application stats together', async () => {
+        const compareAndSet = store.backend.compareAndSet.bind(store.backend);
+        const spy = jest.spyOn(store.backend, 'compareAndSet').mockImplementation(compareAndSet);
+
+        await gasAccuracy.recordSample(getSample(100000n, 110000n));
+
+        expect(spy).toHaveBeenCalledTimes(1);
+
+        spy.mockRestore();
+    });
+
+    it('ignores the samples without a gas estimate', async () => {
+        await gasAccuracy.recordSample(getSample(0n, 110000n));
+
+        expect(await getStats()).toBeNull();
+        expect(await gasAccuracy.getReports()).toEqual([]);
+    });
+
+    it('uses the application correction factor if it has enough samples', async () => {
+        await gasAccuracy.recordSample(getSample(100000n, 120000n, OTHER_APPLICATION));
+        await gasAccuracy.recordSample(getSample(100000n, 120000n, OTHER_APPLICATION));
+        await gasAccuracy.recordSample(getSample(100000n, 110000n));
+
+        const getCorrectionFactor = (application: string | undefined, minSamples: number) =>
+            gasAccuracy.getCorrectionFactor('deliveryGasUsed', '1', '2', application, minSamples);
+
+        expect(await getCorrectionFactor(APPLICATION, 1)).toBeCloseTo(1.1);
+        expect(await getCorrectionFactor(OTHER_APPLICATION, 2)).toBeCloseTo(1.2);
+
+        // Fall back to the route stats.
+        const routeStats = await getStats();
+        expect(await getCorrectionFactor(APPLICATION, 3)).toBe(routeStats?.correctionFactor);
+        expect(await getCorrectionFactor(undefined, 3)).toBe(routeStats?.correctionFactor);
+
+        expect(await getCorrectionFactor(APPLICATION, 4)).toBeNull();
+        expect(await getCorrectionFactor(APPLICATION, 0)).toBeNull();
+    });
+
+    it('reports the stats of the routes and of their applications', async () => {
+        await gasAccuracy.recordSample(getSample(100000n, 110000n));
+        await gasAccuracy.recordSample(getSample(100000n, 130000n));
+
+        const reports = await gasAccuracy.getReports();
+
+        expect(reports).toHaveLength(2);
+        expect(reports[0]).toMatchObject({ application: undefined, samples: 2 });
+        expect(reports[1]).toMatchObject({ application: APPLICATION.toLowerCase(), samples: 2 });
+
+        const report = reports[0]!;
+        expect(report.meanError).toBeCloseTo(0.2);
+        expect(report.errorStdDev).toBeCloseTo(0.1);
+        expect(report.aggregateError).toBeCloseTo(0.2);
+        expect(
+            report.errorDistribution.reduce((samples, bucket) => samples + bucket.samples, 0)
+        ).toBe(2);
+    });
+});
@@ -0,0 +1,203 @@
+import pino from 'pino';
+import { Store } from 'src/store/store.lib';
+import { GasAccuracyKind, GasAccuracyRouteStats, GasAccuracyStats } from 'src/store/store.types';
+import { GasAccuracyReport } from './evaluator.types';
+
+
+// ! NOTE
+// ! The gas estimates on which the evaluations are based are compared with the actual gas figures
+// ! of the relays (see 'GasAccuracyKind'). Every sample is accounted both on the stats of its
+// ! route and on the stats of the application executed by the relay (i.e. the destination
+// ! application for deliveries and the source application for acks) with a single (atomic) store
+// ! update.
+// !
+// ! The learned correction factor (the moving average of the 'actual / estimate' gas ratio) is
+// ! only applied by the evaluator if enabled via `gasCorrectionMinSamples`, and only if it makes
+// ! the evaluation more conservative.
+
+// Upper bounds of the error buckets (the last bucket is unbounded).
+export const GAS_ACCURACY_ERROR_BUCKETS = [-0.5, -0.25, -0.1, -0.05, 0, 0.05, 0.1, 0.25, 0.5];
+
+const GAS_ACCURACY_CORRECTION_SMOOTHING = 0.1;     // Weight of the latest sample on the correction factor.
+
+export interface GasAccuracySample {
+    kind: GasAccuracyKind;
+    fromChainId: string;
+    toChainId: string;
+    application?: string;
+    estimate: bigint;
+    actual: bigint;
+}
+
+function getErrorBucketIndex(error: number): number {
+    const index = GAS_ACCURACY_ERROR_BUCKETS.findIndex((maxError) => error <= maxError);
+    return index == -1
+        ? GAS_ACCURACY_ERROR_BUCKETS.length
+        : index;
+}
+
+function addSampleToStats(
+    stats: GasAccuracyStats | null,
+    sample: GasAccuracySample,
+    application: string | undefined,
+): GasAccuracyStats {
+    const estimate = Number(sample.estimate);
+    const actual = Number(sample.actual);
+    const ratio = actual / estimate;
+    const error = (actual - estimate) / estimate;
+
+    const newStats: GasAccuracyStats = stats != null
+        ? { ...stats, errorBuckets: [...stats.errorBuckets] }
+        : {
+            kind: sample.kind,
+            fromChainId: sample.fromChainId,
+            toChainId: sample.toChainId,
+            application,
+            samples: 0,
+            estimatedGas: 0,
+            actualGas: 0,
+            errorSum: 0,
+            errorSquaresSum: 0,
+            minError: error,
+            maxError: error,
+            errorBuckets: new Array(GAS_ACCURACY_ERROR_BUCKETS.length + 1).fill(0),
+            correctionFactor: ratio,
+            updatedAt: 0,
+        };
+
+    newStats.samples++;
+    newStats.estimatedGas += estimate;
+    newStats.actualGas += actual;
+    newStats.errorSum += error;
+    newStats.errorSquaresSum += error * error;
+    newStats.minError = Math.min(newStats.minError, error);
+    newStats.maxError = Math.max(newStats.maxError, error);
+    newStats.errorBuckets[getErrorBucketIndex(error)]++;
+    newStats.correctionFactor = stats != null
+        ? stats.correctionFactor * (1 - GAS_ACCURACY_CORRECTION_SMOOTHING)
+            + ratio * GAS_ACCURACY_CORRECTION_SMOOTHING
+        : ratio;
+    newStats.updatedAt = Date.now();
+
+    return newStats;
+}
+
+function addSampleToRouteStats(
+    stats: GasAccuracyRouteStats | null,
+    sample: GasAccuracySample,
+    application: string | undefined,
+): GasAccuracyRouteStats {
+    const applications = { ...stats?.applications };
+    if (application != undefined) {
+        applications[application] = addSampleToStats(
+            applications[application] ?? null,
+            sample,
+            application,
+        );
+    }
+
+    return {
+        route: addSampleToStats(stats?.route ?? null, sample, undefined),
+        applications,
+    };
+}
+
+export class GasAccuracy {
+
+    constructor(
+        private readonly store: Store,
+        private readonly logger: pino.Logger,
+    ) {}
+
+    async recordSample(sample: GasAccuracySample): Promise<void> {
+        if (sample.estimate <= 0n) {
+            return;
+        }
+
+        const application = sample.application?.toLowerCase();
+
+        await this.store.updateGasAccuracyStats(
+            sample.kind,
+            sample.fromChainId,
+            sample.toChainId,
+            (stats) => addSampleToRouteStats(stats, sample, application),
+        );
+
+        this.logger.debug(
+            {
+                ...sample,
+                application,
+            },
+            `Gas accuracy sample recorded.`,
+        );
+    }
+
+    // Get the learned correction factor of the route (i.e. the expected 'actual / estimate' gas
+    // ratio). The application stats take precedence over the route ones if they have enough
+    // samples. Returns 'null' if neither has enough samples.
+    async getCorrectionFactor(
+        kind: GasAccuracyKind,
+        fromChainId: string,
+        toChainId: string,
+        application: string | undefined,
+        minSamples: number,
+    ): Promise<number | null> {
+        if (minSamples <= 0) {
+            return null;
+        }
+
+        const statsApplications = application != undefined
+            ? [application, undefined]
+            : [undefined];
+
+        for (const statsApplication of statsApplications) {
+            const stats = await this.store.getGasAccuracyStats(
+                kind,
+                fromChainId,
+                toChainId,
+                statsApplication,
+            );
+
+            if (stats != null && stats.samples >= minSamples) {
+                return stats.correctionFactor;
+            }
+        }
+
+        return null;
+    }
+
+    async getReports(): Promise<GasAccuracyReport[]> {
+        const allStats = await this.store.getAllGasAccuracyStats();
+
+        return allStats
+            .map((stats) => {
+                const meanError = stats.errorSum / stats.samples;
+                const errorVariance = stats.errorSquaresSum / stats.samples - meanError * meanError;
+
+                return {
+                    kind: stats.kind,
+                    fromChainId: stats.fromChainId,
+                    toChainId: stats.toChainId,
+                    application: stats.application,
+                    samples: stats.samples,
+                    meanError,
+                    errorStdDev: Math.sqrt(Math.max(0, errorVariance)),
+                    minError: stats.minError,
+                    maxError: stats.maxError,
+                    aggregateError: (stats.actualGas - stats.estimatedGas) / stats.estimatedGas,
+                    errorDistribution: stats.errorBuckets.map((samples, index) => ({
+                        maxError: GAS_ACCURACY_ERROR_BUCKETS[index] ?? null,
+                        samples,
+                    })),
+                    correctionFactor: stats.correctionFactor,
+                    updatedAt: stats.updatedAt,
+                };
+            })
+            .sort((a, b) =>
+                a.kind.localeCompare(b.kind)
+                || Number(a.fromChainId) - Number(b.fromChainId)
+                || Number(a.toChainId) - Number(b.toChainId)
+                || (a.application ?? '').localeCompare(b.application ?? '')
+            );
+    }
+}
@@ -0,0 +1,166 @@
+import pino from 'pino';
+import { Store } from 'src/store/store.lib';
+import { clearTestStore, createTestStore, getRelayStateIndex } from 'src/store/store.spec-utils';
+import { RelayStateIndex } from 'src/store/store.types';
+import { SponsorshipMessage, Sponsorships, getSponsorshipPeriods } from './sponsorship.lib';
+
+const SPONSORSHIP = 'test_sponsorship';
+const DAILY_BUDGET = 10;
+const MONTHLY_BUDGET = 100;
+
+describe('Sponsorships', () => {
+    let store: Store;
+    let sponsorships: Sponsorships;
+
+    beforeEach(() => {
+        store = createTestStore();
+        sponsorships = new Sponsorships(
+            [{ name: SPONSORSHIP, dailyBudget: DAILY_BUDGET, monthlyBudget: MONTHLY_BUDGET }],
+            store,
+            pino({ level: 'silent' }),
+        );
+    });
+
+    afterEach(async () => {
+        await store.quit();
+        clearTestStore();
+    });
+
+    const getMessage = (): SponsorshipMessage => ({
+        relayStateIndex: getRelayStateIndex(),
+        fromChainId: '1',
+        toChainId: '2',
+    });
+
+    const getSpend = async () => {
+        const periods = getSponsorshipPeriods();
+        return {
+            daily: await store.getSponsorshipSpend(SPONSORSHIP, periods.daily),
+            monthly: await store.getSponsorshipSpend(SPONSORSHIP, periods.monthly),
+        };
+    };
+
+    const expectSpend = async (spent: number, relays: number) => {
+        const spend = await getSpend();
+        expect(spend.daily.spent).toBeCloseTo(spent);
+        expect(spend.daily.relays).toBe(relays);
+        expect(spend.monthly.spent).toBeCloseTo(spent);
+        expect(spend.monthly.relays).toBe(relays);
+    };
+
+    const getSponsoredMessage = (relayStateIndex: RelayStateIndex) => store.getSponsoredMessage(
+        relayStateIndex,
+        SPONSORSHIP,
+        'delivery',
+    );
+
+    it('reserves the loss of the sponsored messages', async () => {
+        const message = getMessage();
+
+        const decision = await sponsorships.sponsor(message, 'delivery', 4, 10, true);
+
+        expect(decision).toEqual({ sponsorship: SPONSORSHIP, fiatLoss: 4 });
+        await expectSpend(4, 1);
+        expect(await getSponsoredMessage(message.relayStateIndex)).toMatchObject({
+            status: 'reserved',
+            fiatLoss: 4,
+            fiatReward: 6,
+        });
+    });
+
+    it('does not consume the budget if not requested', async () => {
+        const message = getMessage();
+
+        const decision = await sponsorships.sponsor(message, 'delivery', 4, 10, false);
+
+        expect(decision).not.toBeNull();
+        await expectSpend(0, 0);
+        expect(await getSponsoredMessage(message.relayStateIndex)).toBeNull();
+    });
+
+    it('rejects the messages that exceed the budget', async () => {
+        await sponsorships.sponsor(getMessage(), 'delivery', 8, 10, true);
+
+        const message = getMessage();
+        const decision = await sponsorships.sponsor(message, 'delivery', 4, 10, true);
+
+        expect(decision).toBeNull();
+        await expectSpend(8, 1);
+        expect(await getSponsoredMessage(message.relayStateIndex)).toBeNull();
+    });
+
+    it('only consumes the loss difference on re-evaluations', async () => {
+        const message = getMessage();
+        await sponsorships.sponsor(message, 'delivery', 4, 10, true);
+        await sponsorships.sponsor(message, 'delivery', 4, 10, true);
+        await expectSpend(4, 1);
+
+        const decision = await sponsorships.sponsor(message, 'delivery', 6, 12, true);
+
+        expect(decision).toEqual({ sponsorship: SPONSORSHIP, fiatLoss: 6 });
+        await expectSpend(6, 1);
+    });
+
+    it('releases the reservation if the budget does not cover an increased loss', async () => {
+        await sponsorships.sponsor(getMessage(), 'delivery', 5, 10, true);
+
+        const message = getMessage();
+        await sponsorships.sponsor(message, 'delivery', 4, 10, true);
+        await expectSpend(9, 2);
+
+        const decision = await sponsorships.sponsor(message, 'delivery', 6, 12, true);
+
+        expect(decision).toBeNull();
+        await expectSpend(5, 1);
+        expect(await getSponsoredMessage(message.relayStateIndex)).toBeNull();
+    });
+
+    it('settles the reservation with the actual fiat cost of the relay', async () => {
+        const message = getMessage();
+        await sponsorships.sponsor(message, 'delivery', 4, 10, true);
+
+        const fiatLoss = await store.settleSponsoredMessage(
+            message.relayStateIndex,
+            SPONSORSHIP,
+            'delivery',
+            13,
+        );
+
+        // The actual cost minus the part covered by the bounty.
+        expect(fiatLoss).toBeCloseTo(7);
+        await expectSpend(7, 1);
+        expect(await getSponsoredMessage(message.relayStateIndex)).toMatchObject({
+            status: 'settled',
+            fiatLoss: 7,
+        });
+
+        // Settled messages are not charged again.
+        const decision = await sponsorships.sponsor(message, 'delivery', 8, 14, true);
+        expect(decision).not.toBeNull();
+        await expectSpend(7, 1);
+    });
+
+    it('releases the reservation of the failed relays', async () => {
+        const message = getMessage();
+        await sponsorships.sponsor(message, 'delivery', 4, 10, true);
+
+        const released = await store.releaseSponsoredMessage(
+            message.relayStateIndex,
+            SPONSORSHIP,
+            'delivery',
+        );
+
+        expect(released).toBe(true);
+        await expectSpend(0, 0);
+        expect(await getSponsoredMessage(message.relayStateIndex)).toBeNull();
+
+        // Settling/releasing without reservation has no effect.
+        expect(
+            await store.settleSponsoredMessage(message.relayStateIndex, SPONSORSHIP, 'delivery', 10)
+        ).toBeNull();
+        expect(
+            await store.releaseSponsoredMessage(message.relayStateIndex, SPONSORSHIP, 'delivery')
+        ).toBe(false);
+        await expectSpend(0, 0);
+    });
+});
@@ -0,0 +1,291 @@
+import pino from 'pino';
+import { SponsorshipConfig } from 'src/config/config.types';
+import { Store } from 'src/store/store.lib';
+import { RelayStateIndex, SponsoredMessage, SponsorshipPeriodType } from 'src/store/store.types';
+import { SponsorshipReport } from './evaluator.types';
+
+
+// ! NOTE
+// ! Messages that would otherwise be rejected by the evaluation strategy are relayed if they match
+// ! a sponsorship rule with enough budget left to cover the expected fiat loss. The first matching
+// ! rule with enough budget is used. The spend is accounted on both the daily and monthly (UTC)
+// ! periods of the evaluation.
+// !
+// ! The expected loss is reserved on evaluation, and re-evaluations of the message only consume
+// ! the difference with the reserved loss (the reservation is released if the budget left does not
+// ! cover an increased loss). Once the relay is confirmed the reservation is settled with the
+// ! actual fiat cost of the relay, and it is released if the relay fails (see
+// ! `Store.settleSponsoredMessage` and `Store.releaseSponsoredMessage`).
+
+export interface SponsorshipMessage {
+    relayStateIndex: RelayStateIndex;
+    fromChainId: string;
+    toChainId?: string;
+    sourceApplication?: string;
+    toApplication?: string;
+}
+
+export interface SponsorshipDecision {
+    sponsorship: string;
+    fiatLoss: number;
+}
+
+const SPONSORSHIP_PERIOD_TYPES: SponsorshipPeriodType[] = ['daily', 'monthly'];
+
+export function getSponsorshipPeriods(
+    timestamp: number = Date.now()
+): Record<SponsorshipPeriodType, string> {
+    const date = new Date(timestamp).toISOString();
+    return {
+        daily: date.slice(0, 10),       // 'YYYY-MM-DD'
+        monthly: date.slice(0, 7),      // 'YYYY-MM'
+    };
+}
+
+function getSponsorshipBudget(
+    sponsorship: SponsorshipConfig,
+    periodType: SponsorshipPeriodType,
+): number | undefined {
+    return periodType == 'daily'
+        ? sponsorship.dailyBudget
+        : sponsorship.monthlyBudget;
+}
+
+export class Sponsorships {
+
+    constructor(
+        private readonly sponsorships: SponsorshipConfig[],
+        private readonly store: Store,
+        private readonly logger: pino.Logger,
+    ) {}
+
+    matches(sponsorship: SponsorshipConfig, message: SponsorshipMessage): boolean {
+        return (sponsorship.fromChainId == undefined || sponsorship.fromChainId == message.fromChainId)
+            && (sponsorship.toChainId == undefined || sponsorship.toChainId == message.toChainId)
+            && (
+                sponsorship.sourceApplication == undefined
+                || sponsorship.sourceApplication == message.sourceApplication
+            )
+            && (
+                sponsorship.toApplication == undefined
+                || sponsorship.toApplication == message.toApplication
+            );
+    }
+
+    // Find a sponsorship that covers the fiat loss of the message (`fiatCost` is the expected fiat
+    // cost of the relay). The sponsorship budget is only reserved if `consume` is set (otherwise
+    // only the available budget is checked).
+    async sponsor(
+        message: SponsorshipMessage,
+        evaluationType: 'delivery' | 'ack',
+        fiatLoss: number,
+        fiatCost: number,
+        consume: boolean,
+    ): Promise<SponsorshipDecision | null> {
+        for (const sponsorship of this.sponsorships) {
+            if (!this.matches(sponsorship, message)) {
+                continue;
+            }
+
+            const sponsored = consume
+                ? await this.reserveBudget(sponsorship, message, evaluationType, fiatLoss, fiatCost)
+                : await this.hasBudget(sponsorship, fiatLoss);
+
+            if (sponsored) {
+                return {
+                    sponsorship: sponsorship.name,
+                    fiatLoss,
+                };
+            }
+        }
+
+        return null;
+    }
+
+    private async hasBudget(
+        sponsorship: SponsorshipConfig,
+        fiatLoss: number,
+    ): Promise<boolean> {
+        const periods = getSponsorshipPeriods();
+        for (const periodType of SPONSORSHIP_PERIOD_TYPES) {
+            const budget = getSponsorshipBudget(sponsorship, periodType);
+            if (budget == undefined) {
+                continue;
+            }
+
+            const spend = await this.store.getSponsorshipSpend(
+                sponsorship.name,
+                periods[periodType],
+            );
+            if (spend.spent + fiatLoss > budget) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private async reserveBudget(
+        sponsorship: SponsorshipConfig,
+        message: SponsorshipMessage,
+        evaluationType: 'delivery' | 'ack',
+        fiatLoss: number,
+        fiatCost: number,
+    ): Promise<boolean> {
+        const currentPeriods = getSponsorshipPeriods();
+        const reservation = await this.store.updateSponsoredMessage(
+            message.relayStateIndex,
+            sponsorship.name,
+            evaluationType,
+            (sponsoredMessage) => sponsoredMessage?.status == 'settled'
+                ? sponsoredMessage
+                : {
+                    status: 'reserved',
+                    fiatLoss,
+                    fiatReward: fiatCost - fiatLoss,
+                    periods: sponsoredMessage?.periods ?? currentPeriods,
+                    timestamp: Date.now(),
+                },
+        );
+
+        const logDescription = {
+            messageIdentifier: message.relayStateIndex.messageIdentifier,
+            sponsorship: sponsorship.name,
+            evaluationType,
+            fiatLoss,
+            reservedFiatLoss: reservation?.fiatLoss,
+        };
+
+        if (reservation?.status == 'settled') {
+            this.logger.debug(
+                logDescription,
+                `Message relay already sponsored, budget not consumed.`,
+            );
+            return true;
+        }
+
+        // Only the difference with the current reservation (if any) is consumed.
+        const consumed = await this.consumeBudget(
+            sponsorship,
+            reservation?.periods ?? currentPeriods,
+            fiatLoss - (reservation?.fiatLoss ?? 0),
+            reservation == null ? 1 : 0,
+        );
+
+        if (!consumed) {
+            await this.rollbackReservation(sponsorship, message, evaluationType, reservation);
+            this.logger.info(logDescription, `Sponsorship budget exhausted.`);
+            return false;
+        }
+
+        this.logger.info(
+            logDescription,
+            reservation == null
+                ? `Message relay sponsored.`
+                : `Message relay sponsorship updated.`,
+        );
+        return true;
+    }
+
+    // Consume the budget of every period, rolling back the consumed budgets if any of the periods
+    // does not have enough budget left. Negative amounts are always refunded.
+    private async consumeBudget(
+        sponsorship: SponsorshipConfig,
+        periods: Record<SponsorshipPeriodType, string>,
+        fiatLoss: number,
+        relays: number,
+    ): Promise<boolean> {
+        const consumedPeriods: string[] = [];
+        for (const periodType of SPONSORSHIP_PERIOD_TYPES) {
+            const period = periods[periodType];
+            const consumed = await this.store.addSponsorshipSpend(
+                sponsorship.name,
+                period,
+                fiatLoss,
+                relays,
+                fiatLoss > 0
+                    ? getSponsorshipBudget(sponsorship, periodType)
+                    : undefined,
+            );
+
+            if (!consumed) {
+                for (const consumedPeriod of consumedPeriods) {
+                    await this.store.addSponsorshipSpend(
+                        sponsorship.name,
+                        consumedPeriod,
+                        -fiatLoss,
+                        -relays,
+                    );
+                }
+                return false;
+            }
+
+            consumedPeriods.push(period);
+        }
+
+        return true;
+    }
+
+    // Remove the reservation of the message, refunding the budget consumed by the previous
+    // reservation (if any).
+    private async rollbackReservation(
+        sponsorship: SponsorshipConfig,
+        message: SponsorshipMessage,
+        evaluationType: 'delivery' | 'ack',
+        previousReservation: SponsoredMessage | null,
+    ): Promise<void> {
+        await this.store.updateSponsoredMessage(
+            message.relayStateIndex,
+            sponsorship.name,
+            evaluationType,
+            (sponsoredMessage) => sponsoredMessage?.status == 'reserved'
+                ? null
+                : sponsoredMessage,
+        );
+
+        if (previousReservation == null) {
+            return;
+        }
+
+        await this.consumeBudget(
+            sponsorship,
+            previousReservation.periods,
+            -previousReservation.fiatLoss,
+            -1,
+        );
+    }
+
+    // Get the spend of every sponsorship for the current budget periods.
+    async getReports(): Promise<SponsorshipReport[]> {
+        const periods = getSponsorshipPeriods();
+
+        const reports: SponsorshipReport[] = [];
+        for (const sponsorship of this.sponsorships) {
+            const report: SponsorshipReport = {
+                ...sponsorship,
+                periods: [],
+            };
+
+            for (const periodType of SPONSORSHIP_PERIOD_TYPES) {
+                const period = periods[periodType];
+                const budget = getSponsorshipBudget(sponsorship, periodType);
+                const spend = await this.store.getSponsorshipSpend(sponsorship.name, period);
+
+                report.periods.push({
+                    type: periodType,
+                    period,
+                    budget,
+                    spent: spend.spent,
+                    remaining: budget != undefined
+                        ? Math.max(0, budget - spend.spent)
+                        : undefined,
+                    relays: spend.relays,
+                });
+            }
+
+            reports.push(report);
+        }
+
+        return reports;
+    }
+}
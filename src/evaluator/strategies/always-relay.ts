@@ -0,0 +1,26 @@
+import pino from "pino";
+import { EvaluationStrategy, EvaluationStrategyConfig } from "../evaluation-strategy";
+
+export const EVALUATION_STRATEGY_TYPE_ALWAYS_RELAY = 'always-relay';
+
+// Relay regardless of the profitability of the message (e.g. for sponsored applications).
+export class AlwaysRelayEvaluationStrategy extends EvaluationStrategy<EvaluationStrategyConfig> {
+    readonly evaluationStrategyType = EVALUATION_STRATEGY_TYPE_ALWAYS_RELAY;
+
+    constructor(
+        config: EvaluationStrategyConfig,
+        logger: pino.Logger,
+    ) {
+        super(config, logger);
+    }
+
+    shouldRelayDelivery(): boolean {
+        return true;
+    }
+
+    shouldRelayAck(): boolean {
+        return true;
+    }
+}
+
+export default AlwaysRelayEvaluationStrategy;
@@ -0,0 +1,42 @@
+import pino from "pino";
+import { AckEvaluationData, DeliveryEvaluationData, EvaluationStrategy, EvaluationStrategyConfig } from "../evaluation-strategy";
+
+export const EVALUATION_STRATEGY_TYPE_BOUNTY_COVERAGE = 'bounty-coverage';
+
+const DECIMAL_BASE = 10_000;
+const DECIMAL_BASE_BIG_INT = BigInt(DECIMAL_BASE);
+
+export interface BountyCoverageEvaluationStrategyConfig extends EvaluationStrategyConfig {
+    coverage: number;   // Percentage of the relaying cost that must be covered by the bounty.
+}
+
+// Relay if the (secured) bounty reward covers at least the configured percentage of the relaying
+// cost (e.g. a 'coverage' of 80 allows relaying at a loss of up to 20% of the cost).
+export class BountyCoverageEvaluationStrategy extends EvaluationStrategy<BountyCoverageEvaluationStrategyConfig> {
+    readonly evaluationStrategyType = EVALUATION_STRATEGY_TYPE_BOUNTY_COVERAGE;
+
+    constructor(
+        config: BountyCoverageEvaluationStrategyConfig,
+        logger: pino.Logger,
+    ) {
+        super(config, logger);
+        this.validateConfig(config);
+    }
+
+    private validateConfig(config: BountyCoverageEvaluationStrategyConfig): void {
+        if (typeof config.coverage != 'number' || config.coverage < 0) {
+            throw new Error(`Invalid 'bounty-coverage' strategy config: 'coverage' must be a positive number.`);
+        }
+    }
+
+    shouldRelayDelivery(data: DeliveryEvaluationData): boolean {
+        return data.securedDeliveryFiatReward * 100 >= data.deliveryFiatCost * this.config.coverage;
+    }
+
+    shouldRelayAck(data: AckEvaluationData): boolean {
+        const scaledCoverage = BigInt(Math.round(this.config.coverage * DECIMAL_BASE));
+        return data.adjustedAckReward * 100n * DECIMAL_BASE_BIG_INT >= data.ackCost * scaledCoverage;
+    }
+}
+
+export default BountyCoverageEvaluationStrategy;
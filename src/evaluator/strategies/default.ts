@@ -0,0 +1,33 @@
+import pino from "pino";
+import { AckEvaluationData, DeliveryEvaluationData, EvaluationStrategy, EvaluationStrategyConfig } from "../evaluation-strategy";
+
+export const EVALUATION_STRATEGY_TYPE_DEFAULT = 'default';
+
+// Relay if either the absolute or the relative profit exceeds the minimum rewards specified on the
+// chain's evaluation config.
+export class DefaultEvaluationStrategy extends EvaluationStrategy<EvaluationStrategyConfig> {
+    readonly evaluationStrategyType = EVALUATION_STRATEGY_TYPE_DEFAULT;
+
+    constructor(
+        config: EvaluationStrategyConfig,
+        logger: pino.Logger,
+    ) {
+        super(config, logger);
+    }
+
+    shouldRelayDelivery(data: DeliveryEvaluationData): boolean {
+        return (
+            data.securedDeliveryFiatProfit > data.evaluationConfig.minDeliveryReward ||
+            data.securedDeliveryRelativeProfit > data.evaluationConfig.relativeMinDeliveryReward
+        );
+    }
+
+    shouldRelayAck(data: AckEvaluationData): boolean {
+        return (
+            data.ackFiatProfit > data.evaluationConfig.minAckReward ||
+            data.ackRelativeProfit > data.evaluationConfig.relativeMinAckReward
+        );
+    }
+}
+
+export default DefaultEvaluationStrategy;
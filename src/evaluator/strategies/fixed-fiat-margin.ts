@@ -0,0 +1,37 @@
+import pino from "pino";
+import { AckEvaluationData, DeliveryEvaluationData, EvaluationStrategy, EvaluationStrategyConfig } from "../evaluation-strategy";
+
+export const EVALUATION_STRATEGY_TYPE_FIXED_FIAT_MARGIN = 'fixed-fiat-margin';
+
+export interface FixedFiatMarginEvaluationStrategyConfig extends EvaluationStrategyConfig {
+    margin: number;     // In the 'pricingDenomination' of the pricing config. May be negative.
+}
+
+// Relay if the (secured) fiat profit is at least the configured margin.
+export class FixedFiatMarginEvaluationStrategy extends EvaluationStrategy<FixedFiatMarginEvaluationStrategyConfig> {
+    readonly evaluationStrategyType = EVALUATION_STRATEGY_TYPE_FIXED_FIAT_MARGIN;
+
+    constructor(
+        config: FixedFiatMarginEvaluationStrategyConfig,
+        logger: pino.Logger,
+    ) {
+        super(config, logger);
+        this.validateConfig(config);
+    }
+
+    private validateConfig(config: FixedFiatMarginEvaluationStrategyConfig): void {
+        if (typeof config.margin != 'number') {
+            throw new Error(`Invalid 'fixed-fiat-margin' strategy config: 'margin' must be a number.`);
+        }
+    }
+
+    shouldRelayDelivery(data: DeliveryEvaluationData): boolean {
+        return data.securedDeliveryFiatProfit >= this.config.margin;
+    }
+
+    shouldRelayAck(data: AckEvaluationData): boolean {
+        return data.ackFiatProfit >= this.config.margin;
+    }
+}
+
+export default FixedFiatMarginEvaluationStrategy;
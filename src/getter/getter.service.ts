@@ -7,6 +7,9 @@ import { LoggerService, STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
 import { LoggerOptions } from 'pino';
 import { tryErrorToString } from 'src/common/utils';
 import { MonitorService } from 'src/monitor/monitor.service';
+import { Store } from 'src/store/store.lib';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 export const DEFAULT_GETTER_RETRY_INTERVAL = 2000;
 export const DEFAULT_GETTER_PROCESSING_INTERVAL = 100;
@@ -26,8 +29,10 @@ export interface GetterWorkerData {
     retryInterval: number;
     processingInterval: number;
     maxBlocks: number | null;
-    incentivesAddresses: string[];
+    incentivesAddresses: Record<string, string>;    // Maps amb => incentives address
     monitorPort: MessagePort;
+    healthPort: MessagePort;
+    metricsPort: MessagePort;
     loggerOptions: LoggerOptions;
 }
 
@@ -38,24 +43,96 @@ export class GetterService implements OnModuleInit {
     constructor(
         private readonly configService: ConfigService,
         private readonly monitorService: MonitorService,
+        private readonly healthService: HealthService,
+        private readonly metricsService: MetricsService,
         private readonly loggerService: LoggerService,
     ) {}
 
     async onModuleInit() {
         this.loggerService.info(`Starting Bounty Collection on all chains...`);
 
+        await this.migrateLegacyRelayStates();
+
+        await this.indexMissingRelayStates();
+
         await this.initializeWorkers();
 
         this.initiateIntervalStatusLog();
     }
 
+    // Relay states used to be stored under just the `messageIdentifier`. Move them to the
+    // current key format (indexed by amb, source chain and incentives address).
+    private async migrateLegacyRelayStates(): Promise<void> {
+        const store = new Store();
+
+        const getAMB = (fromChainId: string, incentivesAddress: string) => {
+            for (const [ambName, ambConfig] of this.configService.ambsConfig) {
+                const ambIncentivesAddress = ambConfig.getIncentivesAddress(fromChainId);
+                if (ambIncentivesAddress?.toLowerCase() == incentivesAddress.toLowerCase()) {
+                    return ambName;
+                }
+            }
+            return undefined;
+        };
+
+        try {
+            const { migrated, skipped } = await store.migrateLegacyRelayStates(getAMB);
+
+            if (migrated.length > 0 || skipped.length > 0) {
+                this.loggerService.info(
+                    { migratedCount: migrated.length, skipped },
+                    `Legacy relay states migrated.`,
+                );
+            }
+        } catch (error) {
+            this.loggerService.error(
+                { error: tryErrorToString(error) },
+                `Failed to migrate the legacy relay states.`,
+            );
+        } finally {
+            await store.quit();
+        }
+    }
+
+    // Index the relay states (and the message keys) saved before the indexes were introduced.
+    private async indexMissingRelayStates(): Promise<void> {
+        const store = new Store();
+
+        try {
+            const indexedCount = await store.indexMissingRelayStates();
+
+            if (indexedCount > 0) {
+                this.loggerService.info(
+                    { indexedCount },
+                    `Missing relay state indexes created.`,
+                );
+            }
+
+            const indexedMessageKeyCount = await store.indexMissingMessageKeys();
+
+            if (indexedMessageKeyCount > 0) {
+                this.loggerService.info(
+                    { indexedMessageKeyCount },
+                    `Missing message key indexes created.`,
+                );
+            }
+        } catch (error) {
+            this.loggerService.error(
+                { error: tryErrorToString(error) },
+                `Failed to index the relay states.`,
+            );
+        } finally {
+            await store.quit();
+        }
+    }
+
     private async initializeWorkers(): Promise<void> {
         const globalGetterConfig = this.loadGlobalGetterConfig();
 
         for (const [chainId, chainConfig] of this.configService.chainsConfig) {
             const workerData = await this.loadWorkerData(chainConfig, globalGetterConfig);
 
-            if (workerData.incentivesAddresses.length == 0) {
+            if (Object.keys(workerData.incentivesAddresses).length == 0) {
                 this.loggerService.info(
                     { chainId },
                     'Skipping getter worker creation: no incentive address to listen for found.',
@@ -65,9 +142,10 @@ export class GetterService implements OnModuleInit {
 
             const worker = new Worker(join(__dirname, 'getter.worker.js'), {
                 workerData,
-                transferList: [workerData.monitorPort]
+                transferList: [workerData.monitorPort, workerData.healthPort, workerData.metricsPort]
             });
             this.workers[chainId] = worker;
+            this.healthService.registerWorker({ type: 'getter', chainId }, worker);
 
             worker.on('error', (error) =>
                 this.loggerService.fatal(
@@ -107,11 +185,13 @@ export class GetterService implements OnModuleInit {
     ): Promise<GetterWorkerData> {
         const chainId = chainConfig.chainId;
 
-        const incentivesAddresses = Array.from(
-            this.configService.ambsConfig.values(),
-        )
-            .map((amb) => amb.getIncentivesAddress(chainId))
-            .filter((address) => address != undefined);
+        const incentivesAddresses: Record<string, string> = {};
+        for (const [ambName, ambConfig] of this.configService.ambsConfig) {
+            const incentivesAddress = ambConfig.getIncentivesAddress(chainId);
+            if (incentivesAddress != undefined) {
+                incentivesAddresses[ambName] = incentivesAddress;
+            }
+        }
 
         return {
             chainId,
@@ -123,6 +203,8 @@ export class GetterService implements OnModuleInit {
             maxBlocks: chainConfig.getter.maxBlocks ?? defaultConfig.maxBlocks,
             incentivesAddresses,
             monitorPort: await this.monitorService.attachToMonitor(chainId),
+            healthPort: this.healthService.attachToHealth({ type: 'getter', chainId }),
+            metricsPort: this.metricsService.attachToMetrics(),
             loggerOptions: this.loggerService.loggerOptions,
         };
     }
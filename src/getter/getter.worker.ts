@@ -7,8 +7,10 @@ import { GetterWorkerData } from './getter.service';
 import { JsonRpcProvider, Log, LogDescription } from 'ethers6';
 import { BountyClaimedEvent, BountyIncreasedEvent, BountyPlacedEvent, IMessageEscrowEventsInterface, MessageDeliveredEvent } from 'src/contracts/IMessageEscrowEvents';
 import { MonitorInterface, MonitorStatus } from 'src/monitor/monitor.interface';
+import { HealthInterface } from 'src/health/health.interface';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
 import { STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
-import { BountyClaimedEventDetails, BountyIncreasedEventDetails, BountyPlacedEventDetails, MessageDeliveredEventDetails } from 'src/store/store.types';
+import { BountyClaimedEventDetails, BountyIncreasedEventDetails, BountyPlacedEventDetails, MessageDeliveredEventDetails, RelayStateIndex } from 'src/store/store.types';
 
 class GetterWorker {
 
@@ -18,6 +20,7 @@ class GetterWorker {
 
     private readonly incentivesEscrowInterface: IMessageEscrowEventsInterface;
     private readonly incentiveAddresses: string[];
+    private readonly incentiveAddressesAMB: Map<string, string>;   // Maps incentives address (lowercase) => amb
     private readonly topics: string[][];
 
     private readonly store: Store;
@@ -26,6 +29,8 @@ class GetterWorker {
 
     private currentStatus: MonitorStatus | null = null;
     private monitor: MonitorInterface;
+    private readonly health: HealthInterface;
+    private readonly metrics: MetricsInterface;
 
     private fromBlock: number = 0;
 
@@ -39,12 +44,15 @@ class GetterWorker {
         this.provider = this.initializeProvider(this.config.rpc);
         this.logger = this.initializeLogger(this.chainId);
 
-        this.incentiveAddresses = this.config.incentivesAddresses;
+        this.incentiveAddresses = Object.values(this.config.incentivesAddresses);
+        this.incentiveAddressesAMB = this.initializeIncentiveAddressesAMB();
         const contractTypes = this.initializeContractTypes();
         this.incentivesEscrowInterface = contractTypes.incentivesEscrowInterface;
         this.topics = contractTypes.topics;
 
         this.monitor = this.startListeningToMonitor(this.config.monitorPort);
+        this.health = new HealthInterface(this.config.healthPort);
+        this.metrics = new MetricsInterface(this.config.metricsPort, { chain_id: this.chainId });
 
         this.initiateIntervalStatusLog();
     }
@@ -69,6 +77,15 @@ class GetterWorker {
         )
     }
 
+    private initializeIncentiveAddressesAMB(): Map<string, string> {
+        const incentiveAddressesAMB = new Map<string, string>();
+        for (const [amb, address] of Object.entries(this.config.incentivesAddresses)) {
+            incentiveAddressesAMB.set(address.toLowerCase(), amb);
+        }
+
+        return incentiveAddressesAMB;
+    }
+
     private initializeContractTypes(): {
         incentivesEscrowInterface: IMessageEscrowEventsInterface,
         topics: string[][]
@@ -115,6 +132,8 @@ class GetterWorker {
         const stopBlock = this.config.stoppingBlock ?? Infinity;
 
         while (true) {
+            this.health.reportActivity(this.fromBlock - 1);
+
             try {
                 let toBlock = this.currentStatus?.blockNumber;
                 if (!toBlock || this.fromBlock > toBlock) {
@@ -140,6 +159,11 @@ class GetterWorker {
                 );
 
                 await this.queryAndProcessEvents(this.fromBlock, toBlock);
+                this.metrics.increment(
+                    'relayer_blocks_scanned_total',
+                    { worker: 'getter' },
+                    toBlock - this.fromBlock + 1,
+                );
 
                 if (toBlock >= stopBlock) {
                     this.logger.info(
@@ -161,6 +185,8 @@ class GetterWorker {
 
         // Cleanup worker
         this.monitor.close();
+        this.health.close();
+        this.metrics.close();
         await this.store.quit();
     }
 
@@ -247,6 +273,15 @@ class GetterWorker {
     private async handleEvent(log: Log): Promise<void> {
         const parsedLog = this.incentivesEscrowInterface.parseLog(log);
 
+        const amb = this.incentiveAddressesAMB.get(log.address.toLowerCase());
+        if (amb == undefined) {
+            this.logger.error(
+                { address: log.address },
+                `Failed to resolve the AMB of the GeneralisedIncentives contract event.`,
+            );
+            return;
+        }
+
         if (parsedLog == null) {
             this.logger.error(
                 { topics: log.topics, data: log.data },
@@ -257,19 +292,19 @@ class GetterWorker {
 
         switch (parsedLog.name) {
             case 'BountyPlaced':
-                await this.handleBountyPlacedEvent(log, parsedLog);
+                await this.handleBountyPlacedEvent(amb, log, parsedLog);
                 break;
 
             case 'BountyClaimed':
-                await this.handleBountyClaimedEvent(log, parsedLog);
+                await this.handleBountyClaimedEvent(amb, log, parsedLog);
                 break;
 
             case 'MessageDelivered':
-                await this.handleMessageDeliveredEvent(log, parsedLog);
+                await this.handleMessageDeliveredEvent(amb, log, parsedLog);
                 break;
 
             case 'BountyIncreased':
-                await this.handleBountyIncreasedEvent(log, parsedLog);
+                await this.handleBountyIncreasedEvent(amb, log, parsedLog);
                 break;
 
             default:
@@ -283,6 +318,7 @@ class GetterWorker {
 
 
     private async handleBountyPlacedEvent(
+        amb: string,
         log: Log,
         parsedLog: LogDescription
     ): Promise<void> {
@@ -309,13 +345,36 @@ class GetterWorker {
             targetDelta: event.incentive.targetDelta,
         };
 
-        await this.store.setBountyPlaced(
+        const relayStateIndex: RelayStateIndex = {
+            amb,
+            fromChainId: this.chainId,
+            incentivesAddress: log.address,
             messageIdentifier,
+        };
+
+        await this.store.setBountyPlaced(
+            relayStateIndex,
             eventDetails,
         );
+
+        await this.store.addMessageTimelineEvent(relayStateIndex, {
+            type: 'bountyPlaced',
+            source: 'getter',
+            chainId: this.chainId,
+            transactionHash: log.transactionHash,
+            details: {
+                amb,
+                incentivesAddress: log.address,
+                maxGasDelivery: eventDetails.maxGasDelivery,
+                maxGasAck: eventDetails.maxGasAck,
+                priceOfDeliveryGas: eventDetails.priceOfDeliveryGas,
+                priceOfAckGas: eventDetails.priceOfAckGas,
+            },
+        });
     };
 
     private async handleBountyClaimedEvent(
+        amb: string,
         log: Log,
         parsedLog: LogDescription
     ): Promise<void> {
@@ -330,15 +389,41 @@ class GetterWorker {
             transactionHash: log.transactionHash,
             blockHash: log.blockHash,
             blockNumber: log.blockNumber,
+
+            gasSpentOnDestination: event.gasSpentOnDestination,
+            gasSpentOnSource: event.gasSpentOnSource,
+            destinationRelayerReward: event.destinationRelayerReward,
+            sourceRelayerReward: event.sourceRelayerReward,
         };
 
-        await this.store.setBountyClaimed(
+        const relayStateIndex: RelayStateIndex = {
+            amb,
+            fromChainId: this.chainId,
+            incentivesAddress: log.address,
             messageIdentifier,
+        };
+
+        await this.store.setBountyClaimed(
+            relayStateIndex,
             eventDetails
         );
+
+        await this.store.addMessageTimelineEvent(relayStateIndex, {
+            type: 'claimed',
+            source: 'getter',
+            chainId: this.chainId,
+            transactionHash: log.transactionHash,
+            details: {
+                amb,
+                claimedBy: await this.getTransactionSender(log.transactionHash),
+                destinationRelayerReward: event.destinationRelayerReward,
+                sourceRelayerReward: event.sourceRelayerReward,
+            },
+        });
     };
 
     private async handleMessageDeliveredEvent(
+        amb: string,
         log: Log,
         parsedLog: LogDescription
     ): Promise<void> {
@@ -357,13 +442,34 @@ class GetterWorker {
             toChainId: this.chainId,
         };
 
-        await this.store.setMessageDelivered(
+        const relayStateIndexes = await this.store.setMessageDelivered(
+            amb,
             messageIdentifier,
             eventDetails,
         );
+
+        // If the AMB message has not been collected yet, the event is registered on the timeline
+        // of the `messageIdentifier`.
+        const deliveredBy = await this.getTransactionSender(log.transactionHash);
+        const timelineTargets = relayStateIndexes.length > 0
+            ? relayStateIndexes
+            : [messageIdentifier];
+        for (const target of timelineTargets) {
+            await this.store.addMessageTimelineEvent(target, {
+                type: 'delivered',
+                source: 'getter',
+                chainId: this.chainId,
+                transactionHash: log.transactionHash,
+                details: {
+                    amb,
+                    deliveredBy,
+                },
+            });
+        }
     };
 
     private async handleBountyIncreasedEvent(
+        amb: string,
         log: Log,
         parsedLog: LogDescription
     ): Promise<void> {
@@ -383,10 +489,29 @@ class GetterWorker {
             newAckGasPrice: event.newAckGasPrice,
         };
 
-        await this.store.setBountyIncreased(
+        const relayStateIndex: RelayStateIndex = {
+            amb,
+            fromChainId: this.chainId,
+            incentivesAddress: log.address,
             messageIdentifier,
+        };
+
+        await this.store.setBountyIncreased(
+            relayStateIndex,
             eventDetails,
         );
+
+        await this.store.addMessageTimelineEvent(relayStateIndex, {
+            type: 'bountyIncreased',
+            source: 'getter',
+            chainId: this.chainId,
+            transactionHash: log.transactionHash,
+            details: {
+                amb,
+                newDeliveryGasPrice: event.newDeliveryGasPrice,
+                newAckGasPrice: event.newAckGasPrice,
+            },
+        });
     };
 
 
@@ -394,6 +519,20 @@ class GetterWorker {
     // Misc Helpers
     // ********************************************************************************************
 
+    // Used to register who delivered/claimed a message on the message timeline.
+    private async getTransactionSender(transactionHash: string): Promise<string | undefined> {
+        try {
+            const transaction = await this.provider.getTransaction(transactionHash);
+            return transaction?.from;
+        } catch (error) {
+            this.logger.warn(
+                { transactionHash, error: tryErrorToString(error) },
+                `Failed to query the transaction sender.`,
+            );
+            return undefined;
+        }
+    }
+
     private initiateIntervalStatusLog(): void {
         const logStatus = () => {
             this.logger.info(
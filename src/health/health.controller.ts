@@ -0,0 +1,31 @@
+import { Controller, Get, ServiceUnavailableException } from "@nestjs/common";
+import { HealthService } from './health.service';
+import { HealthReport, ReadinessReport } from './health.types';
+
+
+@Controller()
+export class HealthController {
+    constructor(
+        private readonly healthService: HealthService,
+    ) {}
+
+    @Get('health')
+    getHealth(): HealthReport {
+        const report = this.healthService.getHealthReport();
+        if (!report.healthy) {
+            throw new ServiceUnavailableException(report);
+        }
+
+        return report;
+    }
+
+    @Get('ready')
+    async getReadiness(): Promise<ReadinessReport> {
+        const report = await this.healthService.getReadinessReport();
+        if (!report.ready) {
+            throw new ServiceUnavailableException(report);
+        }
+
+        return report;
+    }
+}
@@ -0,0 +1,32 @@
+import { MessagePort } from 'worker_threads';
+import { HealthActivityMessage } from './health.types';
+
+// Minimum time between the activity reports sent to the health service.
+const ACTIVITY_REPORT_INTERVAL = 1000;
+
+export class HealthInterface {
+    private lastReportTimestamp = 0;
+
+    constructor(private readonly port: MessagePort) {}
+
+    close() {
+        this.port.close();
+    }
+
+    // Report that the worker is active. The reports are throttled, hence this may be invoked on
+    // every iteration of the worker main loop.
+    reportActivity(blockNumber?: number, blockTimestamp?: number) {
+        const timestamp = Date.now();
+        if (timestamp - this.lastReportTimestamp < ACTIVITY_REPORT_INTERVAL) {
+            return;
+        }
+        this.lastReportTimestamp = timestamp;
+
+        const message: HealthActivityMessage = {
+            timestamp,
+            blockNumber,
+            blockTimestamp,
+        };
+        this.port.postMessage(message);
+    }
+}
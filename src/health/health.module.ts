@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { HistoryModule } from 'src/store/history/history.module';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+
+@Global()
+@Module({
+    controllers: [HealthController],
+    providers: [HealthService],
+    exports: [HealthService],
+    imports: [HistoryModule],
+})
+export class HealthModule {}
@@ -0,0 +1,17 @@
+import { ApiEndpoint } from "src/api/api.types";
+
+
+export const HEALTH_API_ENDPOINTS: ApiEndpoint[] = [
+    {
+        method: "get",
+        path: "/health",
+        tag: "Health",
+        summary: "Liveness probe: report the status of the workers (503 if any worker has failed).",
+    },
+    {
+        method: "get",
+        path: "/ready",
+        tag: "Health",
+        summary: "Readiness probe: report the status of the workers and of the store/postgres connections (503 if not ready).",
+    },
+];
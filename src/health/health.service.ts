@@ -0,0 +1,274 @@
+import { Injectable } from '@nestjs/common';
+import { MessageChannel, MessagePort, Worker } from 'worker_threads';
+import { ConfigService } from 'src/config/config.service';
+import { LoggerService } from 'src/logger/logger.service';
+import { tryErrorToString } from 'src/common/utils';
+import { Store } from 'src/store/store.lib';
+import { HistoryService } from 'src/store/history/history.service';
+import { HealthActivityMessage, HealthDependencyReport, HealthReport, HealthWorkerDescriptor, HealthWorkerReport, HealthWorkerStatus, ReadinessReport } from './health.types';
+
+export const DEFAULT_HEALTH_MAX_WORKER_INACTIVITY = 5 * 60000;
+
+const DEPENDENCY_CHECK_TIMEOUT = 5000;
+
+
+// ! NOTE
+// ! The services register the workers they spawn with `registerWorker`, from which point their
+// ! exit/error events are tracked. Workers that run a main loop additionally report their
+// ! activity (and the latest processed block) via the port obtained with `attachToHealth` (see
+// ! `HealthInterface`), which allows detecting stalled workers.
+
+interface HealthWorkerState {
+    descriptor: HealthWorkerDescriptor;
+    status: 'online' | 'stopped' | 'failed';
+    reportsActivity: boolean;
+    startedAt: number;
+    restarts: number;
+    exitedAt?: number;
+    exitCode?: number;
+    error?: string;
+    lastActivity?: HealthActivityMessage;
+}
+
+@Injectable()
+export class HealthService {
+    private readonly startedAt = Date.now();
+
+    private readonly maxWorkerInactivity: number;
+    private readonly maxBlockLag: number | undefined;
+
+    private readonly workers = new Map<string, HealthWorkerState>();
+    private readonly ports = new Map<string, MessagePort>();
+
+    private readonly store = new Store();
+
+    constructor(
+        configService: ConfigService,
+        private readonly historyService: HistoryService,
+        private readonly loggerService: LoggerService,
+    ) {
+        const healthConfig = configService.globalConfig.health;
+        this.maxWorkerInactivity = healthConfig.maxWorkerInactivity ?? DEFAULT_HEALTH_MAX_WORKER_INACTIVITY;
+        this.maxBlockLag = healthConfig.maxBlockLag;
+    }
+
+
+
+    // Worker registration
+    // ********************************************************************************************
+
+    // Get a port for a worker to report its activity. Must be invoked before registering the
+    // worker with `registerWorker`.
+    attachToHealth(descriptor: HealthWorkerDescriptor): MessagePort {
+        const key = this.getWorkerKey(descriptor);
+
+        const { port1, port2 } = new MessageChannel();
+
+        port1.on('message', (message: HealthActivityMessage) => {
+            const state = this.workers.get(key);
+            if (state != undefined) {
+                state.lastActivity = message;
+            }
+        });
+
+        // Replace the port of any previous worker (e.g. for respawned workers).
+        this.ports.get(key)?.close();
+        this.ports.set(key, port1);
+
+        return port2;
+    }
+
+    registerWorker(descriptor: HealthWorkerDescriptor, worker: Worker): void {
+        const key = this.getWorkerKey(descriptor);
+
+        const previousState = this.workers.get(key);
+        const state: HealthWorkerState = {
+            descriptor,
+            status: 'online',
+            reportsActivity: this.ports.has(key),
+            startedAt: Date.now(),
+            restarts: previousState != undefined ? previousState.restarts + 1 : 0,
+        };
+        this.workers.set(key, state);
+
+        worker.on('error', (error) => {
+            state.error = tryErrorToString(error);
+        });
+
+        worker.on('exit', (exitCode) => {
+            state.status = exitCode == 0 ? 'stopped' : 'failed';
+            state.exitCode = exitCode;
+            state.exitedAt = Date.now();
+        });
+    }
+
+    private getWorkerKey(descriptor: HealthWorkerDescriptor): string {
+        return [descriptor.type, descriptor.name ?? '', descriptor.chainId ?? ''].join(':');
+    }
+
+
+
+    // Reports
+    // ********************************************************************************************
+
+    // Liveness report: the relayer is healthy as long as none of its workers has failed.
+    getHealthReport(): HealthReport {
+        const workers = this.getWorkerReports();
+
+        return {
+            healthy: !workers.some((worker) => worker.status == 'failed'),
+            timestamp: Date.now(),
+            uptime: Date.now() - this.startedAt,
+            workers,
+        };
+    }
+
+    // Readiness report: the relayer is ready if it is healthy, none of its workers is stale or
+    // lagging behind (if `maxBlockLag` is set) and the store/postgres databases are reachable.
+    async getReadinessReport(): Promise<ReadinessReport> {
+        const healthReport = this.getHealthReport();
+
+        const reasons: string[] = [];
+        for (const worker of healthReport.workers) {
+            const workerDescription = this.getWorkerDescription(worker);
+            if (worker.status == 'failed') {
+                reasons.push(`The ${workerDescription} has failed.`);
+            } else if (worker.status == 'stale') {
+                reasons.push(`The ${workerDescription} is stale.`);
+            }
+            if (
+                this.maxBlockLag != undefined
+                && worker.blockLag != undefined
+                && worker.blockLag > this.maxBlockLag
+            ) {
+                reasons.push(`The ${workerDescription} is ${worker.blockLag} blocks behind.`);
+            }
+        }
+
+        const store = await this.checkDependency(() => this.store.ping());
+        if (!store.healthy) {
+            reasons.push(`The store is unreachable.`);
+        }
+
+        let postgres: HealthDependencyReport | undefined;
+        if (this.historyService.isEnabled()) {
+            postgres = await this.checkDependency(() => this.historyService.ping());
+            if (!postgres.healthy) {
+                reasons.push(`The postgres database is unreachable.`);
+            }
+        }
+
+        return {
+            ...healthReport,
+            ready: reasons.length == 0,
+            reasons,
+            dependencies: {
+                store,
+                postgres,
+            },
+        };
+    }
+
+    private getWorkerReports(): HealthWorkerReport[] {
+        const now = Date.now();
+
+        // The latest block observed by the monitor of each chain.
+        const latestBlocks = new Map<string, number>();
+        for (const state of this.workers.values()) {
+            const blockNumber = state.lastActivity?.blockNumber;
+            if (
+                state.descriptor.type == 'monitor'
+                && state.descriptor.chainId != undefined
+                && blockNumber != undefined
+            ) {
+                latestBlocks.set(state.descriptor.chainId, blockNumber);
+            }
+        }
+
+        const reports: HealthWorkerReport[] = [];
+        for (const state of this.workers.values()) {
+            const { descriptor, lastActivity } = state;
+
+            const latestBlock = descriptor.chainId != undefined
+                ? latestBlocks.get(descriptor.chainId)
+                : undefined;
+
+            reports.push({
+                ...descriptor,
+                status: this.getWorkerStatus(state, now),
+                startedAt: state.startedAt,
+                restarts: state.restarts,
+                exitedAt: state.exitedAt,
+                exitCode: state.exitCode,
+                error: state.error,
+                lastActivityAt: lastActivity?.timestamp,
+                blockNumber: lastActivity?.blockNumber,
+                blockLag: descriptor.type != 'monitor'
+                    && latestBlock != undefined
+                    && lastActivity?.blockNumber != undefined
+                    ? Math.max(0, latestBlock - lastActivity.blockNumber)
+                    : undefined,
+                blockAge: lastActivity?.blockTimestamp != undefined
+                    ? now - lastActivity.blockTimestamp * 1000
+                    : undefined,
+            });
+        }
+
+        return reports;
+    }
+
+    private getWorkerStatus(state: HealthWorkerState, now: number): HealthWorkerStatus {
+        if (state.status != 'online' || !state.reportsActivity) {
+            return state.status;
+        }
+
+        const lastActivityTimestamp = state.lastActivity?.timestamp ?? state.startedAt;
+        return now - lastActivityTimestamp > this.maxWorkerInactivity
+            ? 'stale'
+            : 'online';
+    }
+
+    private getWorkerDescription(worker: HealthWorkerReport): string {
+        const name = worker.name != undefined
+            ? `${worker.type} (${worker.name}) worker`
+            : `${worker.type} worker`;
+
+        return worker.chainId != undefined
+            ? `${name} of chain ${worker.chainId}`
+            : name;
+    }
+
+    private async checkDependency(
+        check: () => Promise<void>,
+    ): Promise<HealthDependencyReport> {
+        const startTimestamp = Date.now();
+
+        let timeout: NodeJS.Timeout | undefined;
+        const timeoutPromise = new Promise<never>((_, reject) => {
+            timeout = setTimeout(
+                () => reject(new Error(`Timeout (${DEPENDENCY_CHECK_TIMEOUT} ms).`)),
+                DEPENDENCY_CHECK_TIMEOUT,
+            );
+        });
+
+        try {
+            await Promise.race([check(), timeoutPromise]);
+            return {
+                healthy: true,
+                latency: Date.now() - startTimestamp,
+            };
+        } catch (error) {
+            const errorDescription = tryErrorToString(error);
+            this.loggerService.warn(
+                { error: errorDescription },
+                `Health dependency check failed.`,
+            );
+            return {
+                healthy: false,
+                error: errorDescription,
+            };
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
@@ -0,0 +1,64 @@
+// Health types
+// ************************************************************************************************
+
+export type HealthWorkerType =
+    'monitor'
+    | 'getter'
+    | 'collector'
+    | 'submitter'
+    | 'wallet'
+    | 'pricing'
+    | 'evaluator';
+
+export interface HealthWorkerDescriptor {
+    type: HealthWorkerType;
+    name?: string;              // Distinguishes the workers of the same type (e.g. the collector workers of each amb)
+    chainId?: string;           // Not set for the workers that are shared by all chains
+}
+
+// 'stale': the worker is running but has not reported any activity for longer than the
+// configured `maxWorkerInactivity`.
+// 'stopped': the worker exited with a zero exit code (e.g. once the `stoppingBlock` is reached).
+export type HealthWorkerStatus = 'online' | 'stale' | 'stopped' | 'failed';
+
+// Message sent by the workers to the health service (see `HealthInterface`).
+export interface HealthActivityMessage {
+    timestamp: number;
+    blockNumber?: number;       // The latest processed block (the latest observed block for monitors)
+    blockTimestamp?: number;    // The timestamp of `blockNumber` in seconds (monitors only)
+}
+
+export interface HealthWorkerReport extends HealthWorkerDescriptor {
+    status: HealthWorkerStatus;
+    startedAt: number;
+    restarts: number;
+    exitedAt?: number;
+    exitCode?: number;
+    error?: string;
+    lastActivityAt?: number;
+    blockNumber?: number;
+    blockLag?: number;          // Blocks behind the latest block observed by the chain monitor
+    blockAge?: number;          // Time in milliseconds since the latest observed block (monitors only)
+}
+
+export interface HealthDependencyReport {
+    healthy: boolean;
+    latency?: number;
+    error?: string;
+}
+
+export interface HealthReport {
+    healthy: boolean;
+    timestamp: number;
+    uptime: number;
+    workers: HealthWorkerReport[];
+}
+
+export interface ReadinessReport extends HealthReport {
+    ready: boolean;
+    reasons: string[];
+    dependencies: {
+        store: HealthDependencyReport;
+        postgres?: HealthDependencyReport;      // Only set if the persister is enabled
+    };
+}
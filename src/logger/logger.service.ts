@@ -26,6 +26,8 @@ export class LoggerService {
                 '*.*.privateKey',
                 '*.*.*.privateKey',
                 '*.*.*.*.privateKey',
+                '*.auth.keys[*].key',
+                '*.auth.keys[*].hmacSecret',
             ],
         };
     }
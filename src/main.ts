@@ -1,8 +1,10 @@
 import { NestFactory } from '@nestjs/core';
-import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from './app.module';
 import { ConfigService } from './config/config.service';
 import { LoggerService } from './logger/logger.service';
+import { AuthService } from './auth/auth.service';
+import { AuthWsAdapter } from './auth/auth.ws-adapter';
+import { initializeStoreBackend, loadStoreBackendType } from './store/store.backend';
 
 function logLoadedOptions(
     configService: ConfigService,
@@ -21,8 +23,11 @@ function logLoadedOptions(
 }
 
 async function bootstrap() {
-    const app = await NestFactory.create(AppModule);
-    app.useWebSocketAdapter(new WsAdapter(app));
+    initializeStoreBackend(loadStoreBackendType());
+
+    // ! The raw body is required to verify the HMAC signed requests.
+    const app = await NestFactory.create(AppModule, { rawBody: true });
+    app.useWebSocketAdapter(new AuthWsAdapter(app, app.get(AuthService)));
 
     const configService = app.get(ConfigService);
     const loggerService = app.get(LoggerService);
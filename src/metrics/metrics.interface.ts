@@ -0,0 +1,64 @@
+import { MessagePort } from 'worker_threads';
+import { MetricLabels, MetricName, MetricUpdate, MetricsUpdateMessage } from './metrics.types';
+
+// Interval at which the metric updates are sent to the metrics service.
+const METRICS_FLUSH_INTERVAL = 1000;
+
+export class MetricsInterface {
+    private readonly pendingUpdates = new Map<string, MetricUpdate>();
+    private readonly flushInterval: NodeJS.Timeout;
+
+    // The `defaultLabels` are added to every metric (unless overridden).
+    constructor(
+        private readonly port: MessagePort,
+        private readonly defaultLabels: MetricLabels = {},
+    ) {
+        // Do not prevent the worker from exiting.
+        this.flushInterval = setInterval(() => this.flush(), METRICS_FLUSH_INTERVAL).unref();
+    }
+
+    close() {
+        clearInterval(this.flushInterval);
+        this.flush();
+        this.port.close();
+    }
+
+    increment(name: MetricName, labels: MetricLabels = {}, value = 1) {
+        this.addUpdate(name, labels, value, 'increment');
+    }
+
+    set(name: MetricName, labels: MetricLabels, value: number) {
+        this.addUpdate(name, labels, value, 'set');
+    }
+
+    private addUpdate(
+        name: MetricName,
+        labels: MetricLabels,
+        value: number,
+        mode: MetricUpdate['mode'],
+    ) {
+        const updateLabels = { ...this.defaultLabels, ...labels };
+        const key = `${name}${JSON.stringify(updateLabels)}`;
+
+        // Aggregate the updates until the next flush.
+        const pendingUpdate = this.pendingUpdates.get(key);
+        if (pendingUpdate != undefined && mode == 'increment') {
+            pendingUpdate.value += value;
+        } else {
+            this.pendingUpdates.set(key, { name, labels: updateLabels, value, mode });
+        }
+    }
+
+    private flush() {
+        if (this.pendingUpdates.size == 0) {
+            return;
+        }
+
+        const message: MetricsUpdateMessage = {
+            updates: Array.from(this.pendingUpdates.values()),
+        };
+        this.pendingUpdates.clear();
+
+        this.port.postMessage(message);
+    }
+}
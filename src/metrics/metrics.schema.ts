@@ -0,0 +1,11 @@
+import { ApiEndpoint } from "src/api/api.types";
+
+
+export const METRICS_API_ENDPOINTS: ApiEndpoint[] = [
+    {
+        method: "get",
+        path: "/metrics",
+        tag: "Metrics",
+        summary: "Get the relayer metrics (Prometheus text format).",
+    },
+];
@@ -0,0 +1,149 @@
+import { Injectable } from '@nestjs/common';
+import { MessageChannel, MessagePort } from 'worker_threads';
+import { HealthService } from 'src/health/health.service';
+import { HealthWorkerReport } from 'src/health/health.types';
+import { METRIC_DEFINITIONS, MetricLabels, MetricName, MetricUpdate, MetricsUpdateMessage } from './metrics.types';
+
+
+// ! NOTE
+// ! The metrics are collected on the main thread: the workers send their metric updates via the
+// ! port obtained with `attachToMetrics` (see `MetricsInterface`). The worker status metrics are
+// ! derived from the health reports (see `HealthService`) whenever the metrics are rendered.
+
+interface MetricSample {
+    labels: MetricLabels;
+    value: number;
+}
+
+@Injectable()
+export class MetricsService {
+    private readonly samples = new Map<MetricName, Map<string, MetricSample>>();
+
+    constructor(
+        private readonly healthService: HealthService,
+    ) {}
+
+    attachToMetrics(): MessagePort {
+        const { port1, port2 } = new MessageChannel();
+
+        port1.on('message', (message: MetricsUpdateMessage) => {
+            for (const update of message.updates) {
+                this.applyUpdate(update);
+            }
+        });
+
+        return port2;
+    }
+
+    private applyUpdate(update: MetricUpdate): void {
+        let metricSamples = this.samples.get(update.name);
+        if (metricSamples == undefined) {
+            metricSamples = new Map();
+            this.samples.set(update.name, metricSamples);
+        }
+
+        const key = JSON.stringify(update.labels);
+        const sample = metricSamples.get(key);
+        if (sample != undefined && update.mode == 'increment') {
+            sample.value += update.value;
+        } else {
+            metricSamples.set(key, { labels: update.labels, value: update.value });
+        }
+    }
+
+
+
+    // Rendering
+    // ********************************************************************************************
+
+    // Render the metrics with the Prometheus text exposition format.
+    render(): string {
+        const samples = new Map(this.samples);
+        for (const [name, metricSamples] of this.getWorkerSamples()) {
+            samples.set(name, metricSamples);
+        }
+
+        const lines: string[] = [];
+        for (const [name, definition] of Object.entries(METRIC_DEFINITIONS)) {
+            const metricSamples = samples.get(name as MetricName);
+            if (metricSamples == undefined || metricSamples.size == 0) {
+                continue;
+            }
+
+            lines.push(`# HELP ${name} ${definition.help}`);
+            lines.push(`# TYPE ${name} ${definition.type}`);
+            for (const sample of metricSamples.values()) {
+                lines.push(`${name}${this.formatLabels(sample.labels)} ${sample.value}`);
+            }
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    private getWorkerSamples(): Map<MetricName, Map<string, MetricSample>> {
+        const samples = new Map<MetricName, Map<string, MetricSample>>();
+        const addSample = (name: MetricName, labels: MetricLabels, value: number) => {
+            let metricSamples = samples.get(name);
+            if (metricSamples == undefined) {
+                metricSamples = new Map();
+                samples.set(name, metricSamples);
+            }
+            metricSamples.set(JSON.stringify(labels), { labels, value });
+        };
+
+        for (const worker of this.healthService.getHealthReport().workers) {
+            const labels = this.getWorkerLabels(worker);
+
+            addSample('relayer_worker_up', labels, worker.status == 'online' ? 1 : 0);
+            addSample('relayer_worker_restarts', labels, worker.restarts);
+
+            if (worker.lastActivityAt != undefined) {
+                addSample(
+                    'relayer_worker_last_activity_timestamp_seconds',
+                    labels,
+                    worker.lastActivityAt / 1000,
+                );
+            }
+
+            if (worker.blockLag != undefined) {
+                addSample('relayer_worker_block_lag', labels, worker.blockLag);
+            }
+
+            if (worker.type == 'monitor' && worker.chainId != undefined) {
+                const chainLabels = { chain_id: worker.chainId };
+                if (worker.blockNumber != undefined) {
+                    addSample('relayer_monitor_block_number', chainLabels, worker.blockNumber);
+                }
+                if (worker.blockAge != undefined) {
+                    addSample('relayer_monitor_block_age_seconds', chainLabels, worker.blockAge / 1000);
+                }
+            }
+        }
+
+        return samples;
+    }
+
+    private getWorkerLabels(worker: HealthWorkerReport): MetricLabels {
+        const labels: MetricLabels = { worker: worker.type };
+        if (worker.name != undefined) labels['name'] = worker.name;
+        if (worker.chainId != undefined) labels['chain_id'] = worker.chainId;
+        return labels;
+    }
+
+    private formatLabels(labels: MetricLabels): string {
+        const entries = Object.entries(labels);
+        if (entries.length == 0) {
+            return '';
+        }
+
+        const formattedLabels = entries.map(([label, value]) => {
+            const escapedValue = value
+                .replace(/\\/g, '\\\\')
+                .replace(/\n/g, '\\n')
+                .replace(/"/g, '\\"');
+            return `${label}="${escapedValue}"`;
+        });
+
+        return `{${formattedLabels.join(',')}}`;
+    }
+}
@@ -0,0 +1,96 @@
+// Metrics types
+// ************************************************************************************************
+
+export type MetricType = 'counter' | 'gauge';
+
+export interface MetricDefinition {
+    type: MetricType;
+    help: string;
+}
+
+export type MetricLabels = Record<string, string>;
+
+export const METRIC_DEFINITIONS = {
+
+    // Reported by the workers
+    relayer_blocks_scanned_total: {
+        type: 'counter',
+        help: 'Blocks scanned by the getter and collector workers.',
+    },
+    relayer_amb_messages_collected_total: {
+        type: 'counter',
+        help: 'AMB messages collected (by source chain).',
+    },
+    relayer_amb_proofs_collected_total: {
+        type: 'counter',
+        help: 'AMB proofs collected (by destination chain).',
+    },
+    relayer_evaluations_total: {
+        type: 'counter',
+        help: 'Relay evaluations by result and reason.',
+    },
+    relayer_queue_size: {
+        type: 'gauge',
+        help: 'Orders held by the submitter and wallet processing queues.',
+    },
+    relayer_queue_retries_total: {
+        type: 'counter',
+        help: 'Order retries of the submitter and wallet processing queues.',
+    },
+    relayer_relays_total: {
+        type: 'counter',
+        help: 'Relay transactions by type and status.',
+    },
+    relayer_relay_estimated_rewards_wei_total: {
+        type: 'counter',
+        help: 'Rewards of the confirmed relays as estimated on evaluation (by the chain on which the rewards are paid).',
+    },
+    relayer_wallet_balance_wei: {
+        type: 'gauge',
+        help: 'Relayer wallet balance.',
+    },
+    relayer_gas_spent_wei_total: {
+        type: 'counter',
+        help: 'Gas fees paid by the confirmed transactions.',
+    },
+
+    // Derived from the health reports
+    relayer_worker_up: {
+        type: 'gauge',
+        help: 'Whether the worker is running and active (1) or not (0).',
+    },
+    relayer_worker_restarts: {
+        type: 'gauge',
+        help: 'Times the worker has been respawned.',
+    },
+    relayer_worker_last_activity_timestamp_seconds: {
+        type: 'gauge',
+        help: 'Timestamp of the latest activity reported by the worker.',
+    },
+    relayer_worker_block_lag: {
+        type: 'gauge',
+        help: 'Blocks behind the latest block observed by the chain monitor.',
+    },
+    relayer_monitor_block_number: {
+        type: 'gauge',
+        help: 'Latest block observed by the chain monitor.',
+    },
+    relayer_monitor_block_age_seconds: {
+        type: 'gauge',
+        help: 'Time since the latest block observed by the chain monitor.',
+    },
+} satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof METRIC_DEFINITIONS;
+
+export interface MetricUpdate {
+    name: MetricName;
+    labels: MetricLabels;
+    value: number;
+    mode: 'increment' | 'set';
+}
+
+// Message sent by the workers to the metrics service (see `MetricsInterface`).
+export interface MetricsUpdateMessage {
+    updates: MetricUpdate[];
+}
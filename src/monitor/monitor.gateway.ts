@@ -4,7 +4,8 @@ import { LoggerService } from "src/logger/logger.service";
 import { MonitorService } from "./monitor.service";
 import { MonitorInterface, MonitorStatus } from "./monitor.interface";
 import { ConfigService } from "src/config/config.service";
-import { OnModuleInit } from "@nestjs/common";
+import { AuthGuard } from "src/auth/auth.guard";
+import { OnModuleInit, UseGuards } from "@nestjs/common";
 
 export const MONITOR_EVENT_NAME = 'monitor';
 
@@ -13,6 +14,7 @@ export interface MonitorEvent extends MonitorStatus {
 }
 
 @WebSocketGateway()
+@UseGuards(AuthGuard)
 export class MonitorGateway implements OnModuleInit {
 
     private onMonitorObservable = new Subject<WsResponse<MonitorEvent>>();
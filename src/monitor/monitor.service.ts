@@ -7,6 +7,7 @@ import { LoggerService, STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
 import { MonitorGetPortMessage, MonitorGetPortResponse } from './monitor.types';
 import { tryErrorToString } from 'src/common/utils';
 import { ChainConfig } from 'src/config/config.types';
+import { HealthService } from 'src/health/health.service';
 
 export const DEFAULT_MONITOR_INTERVAL = 5000;
 export const DEFAULT_MONITOR_BLOCK_DELAY = 1;
@@ -26,6 +27,7 @@ export interface MonitorWorkerData {
     blockDelay: number,
     noBlockUpdateWarningInterval: number,
     interval: number,
+    healthPort: MessagePort,
     loggerOptions: LoggerOptions
 }
 
@@ -37,6 +39,7 @@ export class MonitorService implements OnModuleInit {
 
     constructor(
         private readonly configService: ConfigService,
+        private readonly healthService: HealthService,
         private readonly loggerService: LoggerService,
     ) {}
 
@@ -56,9 +59,11 @@ export class MonitorService implements OnModuleInit {
             const workerData = this.loadWorkerConfig(chainConfig, defaultWorkerConfig);
 
             const worker = new Worker(join(__dirname, 'monitor.worker.js'), {
-                workerData
+                workerData,
+                transferList: [workerData.healthPort]
             });
             this.workers[chainId] = worker;
+            this.healthService.registerWorker({ type: 'monitor', chainId }, worker);
 
             worker.on('error', (error) => {
                 this.loggerService.fatal(
@@ -104,6 +109,7 @@ export class MonitorService implements OnModuleInit {
             blockDelay: chainMonitorConfig.blockDelay ?? defaultConfig.blockDelay,
             interval: chainMonitorConfig.interval ?? defaultConfig.interval,
             noBlockUpdateWarningInterval: chainMonitorConfig.noBlockUpdateWarningInterval ?? defaultConfig.noBlockUpdateWarningInterval,
+            healthPort: this.healthService.attachToHealth({ type: 'monitor', chainId: chainConfig.chainId }),
             loggerOptions: this.loggerService.loggerOptions
         };
     }
@@ -4,6 +4,7 @@ import { workerData, parentPort, MessageChannel, MessagePort } from 'worker_thre
 import { MonitorWorkerData } from "./monitor.service";
 import { MonitorGetPortMessage, MonitorGetPortResponse, MonitorStatusMessage } from "./monitor.types";
 import { wait } from "src/common/utils";
+import { HealthInterface } from "src/health/health.interface";
 
 class MonitorWorker {
 
@@ -13,6 +14,7 @@ class MonitorWorker {
 
     private readonly provider: JsonRpcProvider;
     private readonly logger: pino.Logger;
+    private readonly health: HealthInterface;
 
 
     private portsCount = 0;
@@ -34,6 +36,7 @@ class MonitorWorker {
             this.chainId,
             this.config.loggerOptions,
         );
+        this.health = new HealthInterface(this.config.healthPort);
 
         this.initializePorts();
     }
@@ -96,6 +99,8 @@ class MonitorWorker {
         while (true) {
             try {
                 const newBlock = await this.provider.getBlock(-this.config.blockDelay);
+                this.reportActivity(newBlock);
+
                 if (!newBlock || newBlock.number <= this.lastBroadcastBlockNumber) {
 
                     const noBlockUpdateWarningElapsedTime = Date.now()
@@ -134,6 +139,13 @@ class MonitorWorker {
         }
     }
 
+    // ! Activity is only reported once the RPC has been successfully queried, so that a monitor
+    // ! that is unable to reach its RPC is reported as 'stale'.
+    private reportActivity(newBlock: Block | null): void {
+        const latestBlock = newBlock ?? this.latestBlock;
+        this.health.reportActivity(latestBlock?.number, latestBlock?.timestamp);
+    }
+
     private broadcastStatus(): void {
         if (!this.latestBlock) {
             this.logger.error('Unable to broadcast status. \'latestBlock\' is null.');
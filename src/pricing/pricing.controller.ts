@@ -2,6 +2,8 @@ import { Controller, Get, OnModuleInit, Query } from "@nestjs/common";
 import { PricingService } from './pricing.service';
 import { PricingInterface } from './pricing.interface';
 import { GetPriceQuery, GetPriceQueryResponse } from './pricing.types';
+import { GET_PRICE_QUERY_SCHEMA } from './pricing.schema';
+import { ApiSchemaValidationPipe } from 'src/api/api.schema';
 
 
 @Controller()
@@ -22,13 +24,9 @@ export class PricingController implements OnModuleInit {
     }
 
     @Get('getPrice')
-    async getPrice(@Query() query: GetPriceQuery): Promise<any> {
-        //TODO schema validate request
-
-        if (query.chainId == undefined || query.amount == undefined) {
-            return undefined;   //TODO return error
-        }
-
+    async getPrice(
+        @Query(new ApiSchemaValidationPipe(GET_PRICE_QUERY_SCHEMA)) query: GetPriceQuery,
+    ): Promise<GetPriceQueryResponse> {
         const amount = BigInt(query.amount);
         const price = await this.pricing.getPrice(
             query.chainId,
@@ -0,0 +1,27 @@
+import { CHAIN_ID_API_SCHEMA, NON_EMPTY_STRING_API_SCHEMA, UINT_API_SCHEMA } from "src/api/api.schema";
+import { ApiEndpoint, ApiObjectSchema } from "src/api/api.types";
+
+
+// Pricing API schemas
+// ************************************************************************************************
+
+export const GET_PRICE_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        chainId: CHAIN_ID_API_SCHEMA,
+        tokenId: NON_EMPTY_STRING_API_SCHEMA,
+        amount: UINT_API_SCHEMA,
+    },
+    required: ["chainId", "amount"],
+    additionalProperties: false,
+}
+
+export const PRICING_API_ENDPOINTS: ApiEndpoint[] = [
+    {
+        method: "get",
+        path: "/getPrice",
+        tag: "Pricing",
+        summary: "Get the fiat value of an amount of the native (or the given) token of a chain.",
+        query: GET_PRICE_QUERY_SCHEMA,
+    },
+];
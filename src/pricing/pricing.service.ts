@@ -7,6 +7,7 @@ import { tryErrorToString } from 'src/common/utils';
 import { PricingProviderConfig } from './pricing.provider';
 import { LoggerOptions } from 'pino';
 import { PricingGetPortMessage, PricingGetPortResponse } from './pricing.types';
+import { HealthService } from 'src/health/health.service';
 
 export const PRICING_DEFAULT_COIN_DECIMALS = 18;
 export const PRICING_DEFAULT_CACHE_DURATION = 5 * 60 * 1000;
@@ -30,6 +31,7 @@ export class PricingService implements OnModuleInit {
 
     constructor(
         private readonly configService: ConfigService,
+        private readonly healthService: HealthService,
         private readonly loggerService: LoggerService,
     ) {
         this.isReady = this.initializeIsReady();
@@ -57,6 +59,7 @@ export class PricingService implements OnModuleInit {
         this.worker = new Worker(join(__dirname, 'pricing.worker.js'), {
             workerData
         });
+        this.healthService.registerWorker({ type: 'pricing' }, this.worker);
 
         this.worker.on('error', (error) => {
             this.loggerService.fatal(
@@ -10,13 +10,14 @@ export interface HandleOrderResult<T> {
 
 export abstract class ProcessingQueue<OrderType, ReturnType = OrderType> {
     private _size: number = 0;
+    private _retries: number = 0;
 
     readonly maxConcurrentOrders: number;
 
     readonly newQueue: OrderType[] = [];
     // readonly processQueue: ProcessOrder<OrderType>[] = [];
     readonly retryQueue: ProcessOrder<OrderType>[] = [];
-    private _pendingCount: number = 0;
+    readonly pendingOrders: Set<ProcessOrder<OrderType>> = new Set();   // Orders awaiting their (async) result.
 
     readonly completedOrders: ReturnType[] = [];
     readonly skippedOrders: OrderType[] = [];
@@ -26,8 +27,13 @@ export abstract class ProcessingQueue<OrderType, ReturnType = OrderType> {
         return this._size;
     }
 
+    // Total number of order retries scheduled since the queue creation.
+    get retries(): number {
+        return this._retries;
+    }
+
     get concurrentOrders(): number {
-        return this._pendingCount + this.retryQueue.length;
+        return this.pendingOrders.size + this.retryQueue.length;
     }
 
     constructor(
@@ -122,16 +128,16 @@ export abstract class ProcessingQueue<OrderType, ReturnType = OrderType> {
             if (handleResult == null) {
                 await this.handleOrderSuccess(order, null);
             } else {
-                this._pendingCount++;
+                this.pendingOrders.add(order);
                 Promise.resolve(handleResult.result).then(
                     (result) => {
                         void this.handleOrderSuccess(order, result).then(
-                            () => this._pendingCount--,
+                            () => this.pendingOrders.delete(order),
                         );
                     },
                     (error) => {
                         void this.handleOrderError(order, error, true).then(
-                            () => this._pendingCount--,
+                            () => this.pendingOrders.delete(order),
                         );
                     },
                 );
@@ -234,5 +240,6 @@ export abstract class ProcessingQueue<OrderType, ReturnType = OrderType> {
         // Move the order to the 'retry' queue
         order.retryAtTimestamp = Date.now() + this.retryInterval;
         this.retryQueue.push(order);
+        this._retries++;
     }
 }
@@ -0,0 +1,780 @@
+import { BroadcastChannel, isMainThread, threadId } from 'worker_threads';
+import { StoreBackend, StreamEntry } from '../store.backend';
+
+export const STORE_BACKEND_TYPE_MEMORY = 'memory';
+
+// ! The memory store state lives on the main thread. Stores created within worker threads access
+// ! it via 'BroadcastChannel's (the responses are posted on a channel specific to the requesting
+// ! thread). The state is created when this module is loaded on the main thread, which must
+// ! happen before any worker makes use of the store (see 'initializeStoreBackend'). Requests that
+// ! are not answered within `MEMORY_STORE_REQUEST_TIMEOUT` are rejected.
+const MEMORY_STORE_REQUEST_CHANNEL = 'relayer:memory_store:request';
+const MEMORY_STORE_RESPONSE_CHANNEL_PREFIX = 'relayer:memory_store:response';
+const MEMORY_STORE_MESSAGE_CHANNEL = 'relayer:memory_store:message';
+
+const MEMORY_STORE_REQUEST_TIMEOUT = 30_000;
+
+
+type MemoryStoreOperation = 'get'
+    | 'set'
+    | 'del'
+    | 'compareAndSet'
+    | 'compareAndDelete'
+    | 'keys'
+    | 'rpush'
+    | 'lpop'
+    | 'lmove'
+    | 'lrange'
+    | 'lrem'
+    | 'sadd'
+    | 'srem'
+    | 'smembers'
+    | 'zadd'
+    | 'zrem'
+    | 'zscore'
+    | 'zcard'
+    | 'zrangeByScore'
+    | 'streamAdd'
+    | 'streamCreateGroup'
+    | 'streamReadGroup'
+    | 'streamClaimIdle'
+    | 'streamClaim'
+    | 'streamAck';
+
+interface MemoryStoreRequest {
+    requestId: string;
+    threadId: number;
+    operation: MemoryStoreOperation;
+    args: any[];
+}
+
+interface MemoryStoreResponse {
+    requestId: string;
+    result?: any;
+    error?: string;
+}
+
+interface MemoryStoreMessage {
+    channel: string;
+    message: string;
+}
+
+interface MemoryStreamGroup {
+    lastDeliveredSequence: number;
+    pending: Map<string, { consumer: string, deliveredAt: number }>;     // Maps entry id => delivery
+}
+
+interface MemoryStream {
+    entries: (StreamEntry & { sequence: number })[];
+    lastSequence: number;
+    groups: Map<string, MemoryStreamGroup>;
+}
+
+interface MemoryStoreSubscription {
+    matcher: RegExp | string;
+    callback: (channel: string, message: string) => void;
+}
+
+
+function getResponseChannelName(threadId: number): string {
+    return `${MEMORY_STORE_RESPONSE_CHANNEL_PREFIX}:${threadId}`;
+}
+
+// The channels of the state must not keep the process alive by themselves (the
+// 'BroadcastChannel' typings do not include 'unref', even though it is supported).
+function unrefChannel(channel: BroadcastChannel): void {
+    (channel as unknown as NodeJS.RefCounted).unref();
+}
+
+// Convert a Redis glob-style pattern into a regular expression.
+function patternToRegExp(pattern: string): RegExp {
+    const expression = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+
+    return new RegExp(`^${expression}$`);
+}
+
+
+class MemoryStoreState {
+    private readonly values = new Map<string, string>();
+    private readonly lists = new Map<string, string[]>();
+    private readonly sets = new Map<string, Set<string>>();
+    private readonly sortedSets = new Map<string, Map<string, number>>();     // Maps member => score
+    private readonly streams = new Map<string, MemoryStream>();
+
+    private readonly requestChannel = new BroadcastChannel(MEMORY_STORE_REQUEST_CHANNEL);
+    private readonly responseChannels = new Map<number, BroadcastChannel>();   // By thread id
+
+    constructor() {
+        this.requestChannel.onmessage = (event) => {
+            const request = (event as MessageEvent<MemoryStoreRequest>).data;
+
+            const response: MemoryStoreResponse = { requestId: request.requestId };
+            try {
+                response.result = this.execute(request.operation, request.args);
+            } catch (error) {
+                response.error = String(error);
+            }
+
+            this.getResponseChannel(request.threadId).postMessage(response);
+        };
+
+        unrefChannel(this.requestChannel);
+    }
+
+    // Clear all the stored data.
+    reset(): void {
+        this.values.clear();
+        this.lists.clear();
+        this.sets.clear();
+        this.sortedSets.clear();
+        this.streams.clear();
+    }
+
+    private getResponseChannel(threadId: number): BroadcastChannel {
+        let channel = this.responseChannels.get(threadId);
+        if (channel == undefined) {
+            channel = new BroadcastChannel(getResponseChannelName(threadId));
+            unrefChannel(channel);
+            this.responseChannels.set(threadId, channel);
+        }
+        return channel;
+    }
+
+    execute(operation: MemoryStoreOperation, args: any[]): any {
+        switch (operation) {
+            case 'get':
+                return this.values.get(args[0]) ?? null;
+            case 'set':
+                this.values.set(args[0], args[1]);
+                return;
+            case 'del':
+                this.values.delete(args[0]);
+                this.lists.delete(args[0]);
+                this.sets.delete(args[0]);
+                this.sortedSets.delete(args[0]);
+                this.streams.delete(args[0]);
+                return;
+            case 'compareAndSet':
+                return this.compareAndSet(args[0], args[1], args[2]);
+            case 'compareAndDelete':
+                return this.compareAndDelete(args[0], args[1]);
+            case 'keys':
+                return this.keys(args[0]);
+            case 'rpush':
+                this.getList(args[0]).push(args[1]);
+                return;
+            case 'lpop':
+                return this.lists.get(args[0])?.shift() ?? null;
+            case 'lmove':
+                return this.lmove(args[0], args[1]);
+            case 'lrange':
+                return this.lrange(args[0], args[1], args[2]);
+            case 'lrem':
+                this.lrem(args[0], args[1]);
+                return;
+            case 'sadd':
+                this.getSet(args[0]).add(args[1]);
+                return;
+            case 'srem':
+                this.srem(args[0], args[1]);
+                return;
+            case 'smembers':
+                return Array.from(this.sets.get(args[0]) ?? []);
+            case 'zadd':
+                this.getSortedSet(args[0]).set(args[2], args[1]);
+                return;
+            case 'zrem':
+                this.zrem(args[0], args[1]);
+                return;
+            case 'zscore':
+                return this.sortedSets.get(args[0])?.get(args[1]) ?? null;
+            case 'zcard':
+                return this.sortedSets.get(args[0])?.size ?? 0;
+            case 'zrangeByScore':
+                return this.zrangeByScore(args[0], args[1], args[2], args[3], args[4], args[5]);
+            case 'streamAdd':
+                return this.streamAdd(args[0], args[1], args[2]);
+            case 'streamCreateGroup':
+                this.streamCreateGroup(args[0], args[1]);
+                return;
+            case 'streamReadGroup':
+                return this.streamReadGroup(args[0], args[1], args[2], args[3]);
+            case 'streamClaimIdle':
+                return this.streamClaimIdle(args[0], args[1], args[2], args[3], args[4]);
+            case 'streamClaim':
+                this.streamClaim(args[0], args[1], args[2], args[3]);
+                return;
+            case 'streamAck':
+                this.streamAck(args[0], args[1], args[2]);
+                return;
+            default:
+                throw new Error(`Unknown memory store operation '${operation}'.`);
+        }
+    }
+
+    private compareAndSet(key: string, expectedValue: string | null, value: string): boolean {
+        const currentValue = this.values.get(key) ?? null;
+        if (currentValue !== expectedValue) {
+            return false;
+        }
+
+        this.values.set(key, value);
+        return true;
+    }
+
+    private compareAndDelete(key: string, expectedValue: string): boolean {
+        if (this.values.get(key) !== expectedValue) {
+            return false;
+        }
+
+        this.values.delete(key);
+        return true;
+    }
+
+    private keys(pattern: string): string[] {
+        const regExp = patternToRegExp(pattern);
+
+        const keys = new Set([
+            ...this.values.keys(),
+            ...this.lists.keys(),
+            ...this.sets.keys(),
+            ...this.sortedSets.keys(),
+            ...this.streams.keys(),
+        ]);
+
+        return Array.from(keys).filter((key) => regExp.test(key));
+    }
+
+    private lrange(key: string, start: number, stop: number): string[] {
+        const list = this.lists.get(key) ?? [];
+
+        // Mimic the Redis behaviour, where negative indexes count from the end of the list and
+        // the 'stop' index is inclusive.
+        const startIndex = start < 0 ? Math.max(list.length + start, 0) : start;
+        const stopIndex = stop < 0 ? list.length + stop : stop;
+
+        return list.slice(startIndex, stopIndex + 1);
+    }
+
+    private lmove(source: string, destination: string): string | null {
+        const sourceList = this.lists.get(source);
+        const element = sourceList?.shift();
+        if (element == undefined) {
+            return null;
+        }
+
+        if (sourceList!.length == 0) {
+            this.lists.delete(source);
+        }
+        this.getList(destination).push(element);
+        return element;
+    }
+
+    private lrem(key: string, value: string): void {
+        const list = this.lists.get(key);
+        if (list == undefined) {
+            return;
+        }
+
+        const newList = list.filter((element) => element !== value);
+        if (newList.length == 0) {
+            this.lists.delete(key);
+        } else {
+            this.lists.set(key, newList);
+        }
+    }
+
+    private srem(key: string, member: string): void {
+        const set = this.sets.get(key);
+        if (set == undefined) {
+            return;
+        }
+
+        set.delete(member);
+        if (set.size == 0) {
+            this.sets.delete(key);
+        }
+    }
+
+    private zrem(key: string, member: string): void {
+        const sortedSet = this.sortedSets.get(key);
+        if (sortedSet == undefined) {
+            return;
+        }
+
+        sortedSet.delete(member);
+        if (sortedSet.size == 0) {
+            this.sortedSets.delete(key);
+        }
+    }
+
+    private zrangeByScore(
+        key: string,
+        min: number,
+        max: number,
+        offset: number,
+        count: number,
+        reverse: boolean,
+    ): string[] {
+        const sortedSet = this.sortedSets.get(key) ?? new Map<string, number>();
+
+        // Mimic the Redis ordering: by score, and lexicographically for members with equal scores.
+        const entries = Array.from(sortedSet.entries())
+            .filter(([, score]) => score >= min && score <= max)
+            .sort(([memberA, scoreA], [memberB, scoreB]) => {
+                if (scoreA != scoreB) return scoreA - scoreB;
+                return memberA < memberB ? -1 : (memberA > memberB ? 1 : 0);
+            });
+
+        if (reverse) {
+            entries.reverse();
+        }
+
+        return entries
+            .slice(offset, offset + count)
+            .map(([member]) => member);
+    }
+
+    private streamAdd(key: string, message: string, maxLength: number): string {
+        const stream = this.getStream(key);
+
+        const sequence = ++stream.lastSequence;
+        const id = `${Date.now()}-${sequence}`;
+        stream.entries.push({ id, message, sequence });
+
+        if (stream.entries.length > maxLength) {
+            stream.entries.splice(0, stream.entries.length - maxLength);
+        }
+
+        return id;
+    }
+
+    private streamCreateGroup(key: string, group: string): void {
+        const stream = this.getStream(key);
+        if (!stream.groups.has(group)) {
+            stream.groups.set(group, {
+                lastDeliveredSequence: 0,
+                pending: new Map(),
+            });
+        }
+    }
+
+    private streamReadGroup(
+        key: string,
+        group: string,
+        consumer: string,
+        count: number,
+    ): StreamEntry[] {
+        const [stream, streamGroup] = this.getStreamGroup(key, group);
+
+        const newEntries = stream.entries
+            .filter((entry) => entry.sequence > streamGroup.lastDeliveredSequence)
+            .slice(0, count);
+
+        for (const entry of newEntries) {
+            streamGroup.pending.set(entry.id, { consumer, deliveredAt: Date.now() });
+            streamGroup.lastDeliveredSequence = entry.sequence;
+        }
+
+        return newEntries.map(({ id, message }) => ({ id, message }));
+    }
+
+    // All the idle entries are claimed at once (there is no need to scan them in batches).
+    private streamClaimIdle(
+        key: string,
+        group: string,
+        consumer: string,
+        minIdleTime: number,
+        _count: number,
+    ): StreamEntry[] {
+        const [stream, streamGroup] = this.getStreamGroup(key, group);
+
+        // Drop the pending entries that have been trimmed from the stream.
+        const streamEntryIds = new Set(stream.entries.map((entry) => entry.id));
+        for (const id of streamGroup.pending.keys()) {
+            if (!streamEntryIds.has(id)) {
+                streamGroup.pending.delete(id);
+            }
+        }
+
+        const now = Date.now();
+        const idleEntries = stream.entries.filter((entry) => {
+            const delivery = streamGroup.pending.get(entry.id);
+            return delivery != undefined && now - delivery.deliveredAt >= minIdleTime;
+        });
+
+        for (const entry of idleEntries) {
+            streamGroup.pending.set(entry.id, { consumer, deliveredAt: now });
+        }
+
+        return idleEntries.map(({ id, message }) => ({ id, message }));
+    }
+
+    private streamClaim(key: string, group: string, consumer: string, ids: string[]): void {
+        const [, streamGroup] = this.getStreamGroup(key, group);
+
+        for (const id of ids) {
+            if (streamGroup.pending.has(id)) {
+                streamGroup.pending.set(id, { consumer, deliveredAt: Date.now() });
+            }
+        }
+    }
+
+    private streamAck(key: string, group: string, id: string): void {
+        this.streams.get(key)?.groups.get(group)?.pending.delete(id);
+    }
+
+    private getStreamGroup(
+        key: string,
+        group: string,
+    ): [MemoryStream, MemoryStreamGroup] {
+        const stream = this.streams.get(key);
+        const streamGroup = stream?.groups.get(group);
+        if (stream == undefined || streamGroup == undefined) {
+            throw new Error(`NOGROUP No such consumer group '${group}' for stream '${key}'.`);
+        }
+
+        return [stream, streamGroup];
+    }
+
+    private getStream(key: string): MemoryStream {
+        let stream = this.streams.get(key);
+        if (stream == undefined) {
+            stream = {
+                entries: [],
+                lastSequence: 0,
+                groups: new Map(),
+            };
+            this.streams.set(key, stream);
+        }
+        return stream;
+    }
+
+    private getList(key: string): string[] {
+        let list = this.lists.get(key);
+        if (list == undefined) {
+            list = [];
+            this.lists.set(key, list);
+        }
+        return list;
+    }
+
+    private getSortedSet(key: string): Map<string, number> {
+        let sortedSet = this.sortedSets.get(key);
+        if (sortedSet == undefined) {
+            sortedSet = new Map();
+            this.sortedSets.set(key, sortedSet);
+        }
+        return sortedSet;
+    }
+
+    private getSet(key: string): Set<string> {
+        let set = this.sets.get(key);
+        if (set == undefined) {
+            set = new Set();
+            this.sets.set(key, set);
+        }
+        return set;
+    }
+}
+
+const memoryStoreState: MemoryStoreState | undefined = isMainThread
+    ? new MemoryStoreState()
+    : undefined;
+
+// Shared by all the backends of the thread, as they share the response channel.
+let memoryStoreRequestCount = 0;
+
+// Clear the memory store state of the process (only available on the main thread).
+export function resetMemoryStoreState(): void {
+    if (memoryStoreState == undefined) {
+        throw new Error(`The memory store state can only be reset from the main thread.`);
+    }
+    memoryStoreState.reset();
+}
+
+
+
+export class MemoryStoreBackend extends StoreBackend {
+    readonly storeBackendType = STORE_BACKEND_TYPE_MEMORY;
+
+    // The state is only directly accessible from the main thread.
+    private readonly state: MemoryStoreState | undefined;
+
+    private readonly requestChannel: BroadcastChannel | undefined;
+    private readonly responseChannel: BroadcastChannel | undefined;
+    private readonly messageChannel: BroadcastChannel;
+
+    private readonly pendingRequests = new Map<string, {
+        resolve: (result: any) => void,
+        reject: (error: Error) => void,
+        timeout: NodeJS.Timeout,
+    }>();
+
+    private readonly subscriptions: MemoryStoreSubscription[] = [];
+
+
+    constructor() {
+        super();
+
+        if (isMainThread) {
+            this.state = memoryStoreState;
+        } else {
+            this.requestChannel = new BroadcastChannel(MEMORY_STORE_REQUEST_CHANNEL);
+            this.responseChannel = new BroadcastChannel(getResponseChannelName(threadId));
+            this.responseChannel.onmessage = (event) => {
+                this.onResponse((event as MessageEvent<MemoryStoreResponse>).data);
+            };
+        }
+
+        this.messageChannel = new BroadcastChannel(MEMORY_STORE_MESSAGE_CHANNEL);
+        this.messageChannel.onmessage = (event) => {
+            this.onMessage((event as MessageEvent<MemoryStoreMessage>).data);
+        };
+    }
+
+    async quit(): Promise<void> {
+        for (const [requestId, pendingRequest] of this.pendingRequests) {
+            clearTimeout(pendingRequest.timeout);
+            pendingRequest.reject(new Error(`The memory store backend has been closed.`));
+            this.pendingRequests.delete(requestId);
+        }
+
+        this.requestChannel?.close();
+        this.responseChannel?.close();
+        this.messageChannel.close();
+    }
+
+    async ping(): Promise<void> {
+        // The memory storage is always reachable.
+    }
+
+
+
+    // Storage
+    // ********************************************************************************************
+
+    async get(key: string): Promise<string | null> {
+        return this.execute('get', [key]);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        return this.execute('set', [key, value]);
+    }
+
+    async del(key: string): Promise<void> {
+        return this.execute('del', [key]);
+    }
+
+    async compareAndSet(
+        key: string,
+        expectedValue: string | null,
+        value: string,
+    ): Promise<boolean> {
+        return this.execute('compareAndSet', [key, expectedValue, value]);
+    }
+
+    async compareAndDelete(key: string, expectedValue: string): Promise<boolean> {
+        return this.execute('compareAndDelete', [key, expectedValue]);
+    }
+
+    async keys(pattern: string): Promise<string[]> {
+        return this.execute('keys', [pattern]);
+    }
+
+    async rpush(key: string, value: string): Promise<void> {
+        return this.execute('rpush', [key, value]);
+    }
+
+    async lpop(key: string): Promise<string | null> {
+        return this.execute('lpop', [key]);
+    }
+
+    async lmove(source: string, destination: string): Promise<string | null> {
+        return this.execute('lmove', [source, destination]);
+    }
+
+    async lrange(key: string, start: number, stop: number): Promise<string[]> {
+        return this.execute('lrange', [key, start, stop]);
+    }
+
+    async lrem(key: string, value: string): Promise<void> {
+        return this.execute('lrem', [key, value]);
+    }
+
+    async sadd(key: string, member: string): Promise<void> {
+        return this.execute('sadd', [key, member]);
+    }
+
+    async srem(key: string, member: string): Promise<void> {
+        return this.execute('srem', [key, member]);
+    }
+
+    async smembers(key: string): Promise<string[]> {
+        return this.execute('smembers', [key]);
+    }
+
+    async zadd(key: string, score: number, member: string): Promise<void> {
+        return this.execute('zadd', [key, score, member]);
+    }
+
+    async zrem(key: string, member: string): Promise<void> {
+        return this.execute('zrem', [key, member]);
+    }
+
+    async zscore(key: string, member: string): Promise<number | null> {
+        return this.execute('zscore', [key, member]);
+    }
+
+    async zcard(key: string): Promise<number> {
+        return this.execute('zcard', [key]);
+    }
+
+    async zrangeByScore(
+        key: string,
+        min: number,
+        max: number,
+        offset: number,
+        count: number,
+        reverse: boolean,
+    ): Promise<string[]> {
+        return this.execute('zrangeByScore', [key, min, max, offset, count, reverse]);
+    }
+
+    private async execute(operation: MemoryStoreOperation, args: any[]): Promise<any> {
+        if (this.state != undefined) {
+            return this.state.execute(operation, args);
+        }
+
+        const requestId = `${threadId}:${memoryStoreRequestCount++}`;
+        const request: MemoryStoreRequest = {
+            requestId,
+            threadId,
+            operation,
+            args,
+        };
+
+        return new Promise((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.pendingRequests.delete(requestId);
+                reject(new Error(
+                    `Memory store request '${operation}' timed out (is the memory store initialized on the main thread?).`
+                ));
+            }, MEMORY_STORE_REQUEST_TIMEOUT);
+
+            this.pendingRequests.set(requestId, { resolve, reject, timeout });
+            this.requestChannel!.postMessage(request);
+        });
+    }
+
+    private onResponse(response: MemoryStoreResponse): void {
+        const pendingRequest = this.pendingRequests.get(response.requestId);
+        if (pendingRequest == undefined) {
+            return;     // The response is directed to another store of the thread.
+        }
+
+        this.pendingRequests.delete(response.requestId);
+        clearTimeout(pendingRequest.timeout);
+
+        if (response.error != undefined) {
+            pendingRequest.reject(new Error(response.error));
+        } else {
+            pendingRequest.resolve(response.result);
+        }
+    }
+
+
+
+    // Message broker
+    // ********************************************************************************************
+
+    async publish(channel: string, message: string): Promise<void> {
+        const payload: MemoryStoreMessage = { channel, message };
+
+        // Messages posted to a 'BroadcastChannel' are not delivered to the posting instance.
+        this.messageChannel.postMessage(payload);
+        this.onMessage(payload);
+    }
+
+    async subscribe(
+        channel: string,
+        callback: (message: string) => void,
+    ): Promise<void> {
+        this.subscriptions.push({
+            matcher: channel,
+            callback: (_channel, message) => callback(message),
+        });
+    }
+
+    async psubscribe(
+        pattern: string,
+        callback: (channel: string, message: string) => void,
+    ): Promise<void> {
+        this.subscriptions.push({
+            matcher: patternToRegExp(pattern),
+            callback,
+        });
+    }
+
+    private onMessage(payload: MemoryStoreMessage): void {
+        for (const subscription of this.subscriptions) {
+            const matches = typeof subscription.matcher === 'string'
+                ? subscription.matcher === payload.channel
+                : subscription.matcher.test(payload.channel);
+
+            if (matches) {
+                subscription.callback(payload.channel, payload.message);
+            }
+        }
+    }
+
+
+
+    // Streams
+    // ********************************************************************************************
+
+    async streamAdd(stream: string, message: string, maxLength: number): Promise<string> {
+        return this.execute('streamAdd', [stream, message, maxLength]);
+    }
+
+    async streamCreateGroup(stream: string, group: string): Promise<void> {
+        return this.execute('streamCreateGroup', [stream, group]);
+    }
+
+    async streamReadGroup(
+        stream: string,
+        group: string,
+        consumer: string,
+        count: number,
+    ): Promise<StreamEntry[]> {
+        return this.execute('streamReadGroup', [stream, group, consumer, count]);
+    }
+
+    async streamClaimIdle(
+        stream: string,
+        group: string,
+        consumer: string,
+        minIdleTime: number,
+        count: number,
+    ): Promise<StreamEntry[]> {
+        return this.execute('streamClaimIdle', [stream, group, consumer, minIdleTime, count]);
+    }
+
+    async streamClaim(
+        stream: string,
+        group: string,
+        consumer: string,
+        ids: string[],
+    ): Promise<void> {
+        return this.execute('streamClaim', [stream, group, consumer, ids]);
+    }
+
+    async streamAck(stream: string, group: string, id: string): Promise<void> {
+        return this.execute('streamAck', [stream, group, id]);
+    }
+}
+
+export default MemoryStoreBackend;
@@ -0,0 +1,388 @@
+import { Redis } from 'ioredis';
+import { StoreBackend, StreamEntry } from '../store.backend';
+
+export const STORE_BACKEND_TYPE_REDIS = 'redis';
+
+// Constants
+const DEFAULT_REDIS_PORT = 6379;
+const DEFAULT_REDIS_DB_INDEX = 4;
+const STREAM_MESSAGE_FIELD = 'message';
+
+// KEYS[1]: key; ARGV[1]: '1' if the key is expected not to exist; ARGV[2]: expected value;
+// ARGV[3]: new value.
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '1' then
+    if current ~= false then
+        return 0
+    end
+elseif current ~= ARGV[2] then
+    return 0
+end
+redis.call('SET', KEYS[1], ARGV[3])
+return 1
+`;
+
+// KEYS[1]: key; ARGV[1]: expected value.
+const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+    return 0
+end
+redis.call('DEL', KEYS[1])
+return 1
+`;
+
+
+export class RedisStoreBackend extends StoreBackend {
+    readonly storeBackendType = STORE_BACKEND_TYPE_REDIS;
+
+    readonly redis: Redis;
+    readonly redisSubscriptions: Redis;
+    readonly redisHost: string | undefined;
+    readonly redisPort: number;
+    readonly redisDBIndex: number;
+
+    private readonly redisConnections: Redis[] = [];
+
+
+    constructor() {
+        super();
+
+        this.redisHost = this.loadRedisHost();
+        this.redisPort = this.loadRedisPort();
+        this.redisDBIndex = this.loadRedisDBIndex();
+
+        // Once a 'redis' connection is used for subscriptions, it may not be used to manage the
+        // redis storage. Keep 2 distinct redis objects for each purpose.
+        this.redis = this.getRedisConnection();
+        this.redisSubscriptions = this.getRedisConnection();
+    }
+
+
+
+    // Initialization and state/redis management utils
+    // ********************************************************************************************
+
+    private loadRedisHost(): string | undefined {
+        return process.env['REDIS_HOST'];
+    }
+
+    private loadRedisPort(): number {
+        return process.env['REDIS_PORT']
+            ? parseInt(process.env['REDIS_PORT'])
+            : DEFAULT_REDIS_PORT;
+    }
+
+    private loadRedisDBIndex(): number {
+        return process.env['REDIS_DB_INDEX']
+            ? parseInt(process.env['REDIS_DB_INDEX'])
+            : DEFAULT_REDIS_DB_INDEX;
+    }
+
+    getRedisConnection(): Redis {
+        const redis = new Redis(this.redisPort, {
+            db: this.redisDBIndex,
+            host: this.redisHost,
+        });
+
+        this.redisConnections.push(redis);
+
+        return redis;
+    }
+
+    async quit(): Promise<void> {
+        const quitPromises = this.redisConnections.map(
+            (redis) => redis.quit()
+        );
+
+        await Promise.all(quitPromises);
+    }
+
+    async ping(): Promise<void> {
+        await this.redis.ping();
+    }
+
+
+
+    // Storage
+    // ********************************************************************************************
+
+    async get(key: string): Promise<string | null> {
+        return this.redis.get(key);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        await this.redis.set(key, value);
+    }
+
+    async del(key: string): Promise<void> {
+        await this.redis.del(key);
+    }
+
+    async compareAndSet(
+        key: string,
+        expectedValue: string | null,
+        value: string,
+    ): Promise<boolean> {
+        const result = await this.redis.eval(
+            COMPARE_AND_SET_SCRIPT,
+            1,
+            key,
+            expectedValue == null ? '1' : '0',
+            expectedValue ?? '',
+            value,
+        );
+
+        return result === 1;
+    }
+
+    async compareAndDelete(key: string, expectedValue: string): Promise<boolean> {
+        const result = await this.redis.eval(
+            COMPARE_AND_DELETE_SCRIPT,
+            1,
+            key,
+            expectedValue,
+        );
+
+        return result === 1;
+    }
+
+    async keys(pattern: string): Promise<string[]> {
+        const keys: string[] = [];
+
+        let cursor = '0';
+        do {
+            const [nextCursor, foundKeys] = await this.redis.scan(
+                cursor,
+                'MATCH',
+                pattern,
+            );
+            cursor = nextCursor;
+            keys.push(...foundKeys);
+        } while (cursor != '0');
+
+        // 'SCAN' may return the same key more than once.
+        return Array.from(new Set(keys));
+    }
+
+    async rpush(key: string, value: string): Promise<void> {
+        await this.redis.rpush(key, value);
+    }
+
+    async lpop(key: string): Promise<string | null> {
+        return this.redis.lpop(key);
+    }
+
+    async lmove(source: string, destination: string): Promise<string | null> {
+        return this.redis.lmove(source, destination, 'LEFT', 'RIGHT');
+    }
+
+    async lrange(key: string, start: number, stop: number): Promise<string[]> {
+        return this.redis.lrange(key, start, stop);
+    }
+
+    async lrem(key: string, value: string): Promise<void> {
+        await this.redis.lrem(key, 0, value);
+    }
+
+    async sadd(key: string, member: string): Promise<void> {
+        await this.redis.sadd(key, member);
+    }
+
+    async srem(key: string, member: string): Promise<void> {
+        await this.redis.srem(key, member);
+    }
+
+    async smembers(key: string): Promise<string[]> {
+        return this.redis.smembers(key);
+    }
+
+    async zadd(key: string, score: number, member: string): Promise<void> {
+        await this.redis.zadd(key, score, member);
+    }
+
+    async zrem(key: string, member: string): Promise<void> {
+        await this.redis.zrem(key, member);
+    }
+
+    async zscore(key: string, member: string): Promise<number | null> {
+        const score = await this.redis.zscore(key, member);
+        return score != null ? Number(score) : null;
+    }
+
+    async zcard(key: string): Promise<number> {
+        return this.redis.zcard(key);
+    }
+
+    async zrangeByScore(
+        key: string,
+        min: number,
+        max: number,
+        offset: number,
+        count: number,
+        reverse: boolean,
+    ): Promise<string[]> {
+        const formattedMin = min == -Infinity ? '-inf' : min;
+        const formattedMax = max == Infinity ? '+inf' : max;
+
+        return reverse
+            ? this.redis.zrevrangebyscore(key, formattedMax, formattedMin, 'LIMIT', offset, count)
+            : this.redis.zrangebyscore(key, formattedMin, formattedMax, 'LIMIT', offset, count);
+    }
+
+
+
+    // Message broker
+    // ********************************************************************************************
+
+    async publish(channel: string, message: string): Promise<void> {
+        await this.redis.publish(channel, message);
+    }
+
+    async subscribe(
+        channel: string,
+        callback: (message: string) => void,
+    ): Promise<void> {
+        await this.redisSubscriptions.subscribe(channel);
+
+        this.redisSubscriptions.on('message', (callbackChannel, callbackMessage) => {
+            if (callbackChannel === channel) {
+                callback(callbackMessage);
+            }
+        });
+    }
+
+    async psubscribe(
+        pattern: string,
+        callback: (channel: string, message: string) => void,
+    ): Promise<void> {
+        await this.redisSubscriptions.psubscribe(pattern);
+
+        this.redisSubscriptions.on('pmessage', (callbackPattern, callbackChannel, callbackMessage) => {
+            if (callbackPattern === pattern) {
+                callback(callbackChannel, callbackMessage);
+            }
+        });
+    }
+
+
+
+    // Streams
+    // ********************************************************************************************
+
+    async streamAdd(stream: string, message: string, maxLength: number): Promise<string> {
+        const id = await this.redis.xadd(
+            stream,
+            'MAXLEN',
+            '~',
+            maxLength,
+            '*',
+            STREAM_MESSAGE_FIELD,
+            message,
+        );
+
+        return id!;
+    }
+
+    async streamCreateGroup(stream: string, group: string): Promise<void> {
+        try {
+            await this.redis.xgroup('CREATE', stream, group, '0', 'MKSTREAM');
+        } catch (error) {
+            // Ignore the error if the group already exists.
+            if (!String(error).includes('BUSYGROUP')) {
+                throw error;
+            }
+        }
+    }
+
+    async streamReadGroup(
+        stream: string,
+        group: string,
+        consumer: string,
+        count: number,
+    ): Promise<StreamEntry[]> {
+        const result = await this.redis.xreadgroup(
+            'GROUP',
+            group,
+            consumer,
+            'COUNT',
+            count,
+            'STREAMS',
+            stream,
+            '>',
+        ) as [string, [string, string[] | null][]][] | null;
+
+        return this.parseStreamEntries(stream, group, result?.[0]?.[1] ?? []);
+    }
+
+    async streamClaimIdle(
+        stream: string,
+        group: string,
+        consumer: string,
+        minIdleTime: number,
+        count: number,
+    ): Promise<StreamEntry[]> {
+        const entries: StreamEntry[] = [];
+
+        // Scan the pending entries list until the returned cursor wraps around to '0-0'.
+        let cursor = '0-0';
+        do {
+            const result = await this.redis.xautoclaim(
+                stream,
+                group,
+                consumer,
+                minIdleTime,
+                cursor,
+                'COUNT',
+                count,
+            ) as [string, [string, string[] | null][]];
+
+            cursor = result[0];
+            entries.push(...await this.parseStreamEntries(stream, group, result[1] ?? []));
+        } while (cursor != '0-0');
+
+        return entries;
+    }
+
+    async streamClaim(
+        stream: string,
+        group: string,
+        consumer: string,
+        ids: string[],
+    ): Promise<void> {
+        if (ids.length == 0) {
+            return;
+        }
+
+        await this.redis.xclaim(stream, group, consumer, 0, ...ids, 'JUSTID');
+    }
+
+    private async parseStreamEntries(
+        stream: string,
+        group: string,
+        rawEntries: [string, string[] | null][],
+    ): Promise<StreamEntry[]> {
+        const entries: StreamEntry[] = [];
+        for (const [id, fields] of rawEntries) {
+            // The fields of pending entries that have been trimmed from the stream are 'null'.
+            const messageIndex = fields?.indexOf(STREAM_MESSAGE_FIELD) ?? -1;
+            if (messageIndex == -1) {
+                await this.streamAck(stream, group, id);
+                continue;
+            }
+
+            entries.push({
+                id,
+                message: fields![messageIndex + 1]!,
+            });
+        }
+
+        return entries;
+    }
+
+    async streamAck(stream: string, group: string, id: string): Promise<void> {
+        await this.redis.xack(stream, group, id);
+    }
+}
+
+export default RedisStoreBackend;
@@ -0,0 +1,200 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { NodePgDatabase, drizzle } from 'drizzle-orm/node-postgres';
+import { SQL, and, desc, eq, lt, sql } from 'drizzle-orm';
+import { Pool } from 'pg';
+import { ConfigService } from 'src/config/config.service';
+import { LoggerService } from 'src/logger/logger.service';
+import { tryErrorToString } from 'src/common/utils';
+import * as schema from '../postgres/postgres.schema';
+import { ambPayloads, bounties, transactions } from '../postgres/postgres.schema';
+import { HistoryAMBMessage, HistoryBounty, HistoryBountyFilter, HistoryBountyQueryResult, HistoryTransaction } from './history.types';
+
+
+// ! NOTE
+// ! The history is served from the PostgreSQL database populated by the Persister, and is thus
+// ! only available if the Persister is enabled. It holds the data that has been pruned from the
+// ! 'Store' (see the Retention service).
+
+const BOUNTY_RELATIONS = {
+    proofs: true,
+    relayAttempts: true,
+    submit: true,
+    exec: true,
+    ack: true,
+} as const;
+
+// Bounty as returned by the relational queries (with `BOUNTY_RELATIONS`).
+type BountyQueryResult = Omit<HistoryBounty, 'payloads' | 'submitTransaction' | 'execTransaction' | 'ackTransaction'> & {
+    proofs: HistoryBounty['payloads'];
+    submit: HistoryTransaction | null;
+    exec: HistoryTransaction | null;
+    ack: HistoryTransaction | null;
+};
+
+@Injectable()
+export class HistoryService implements OnModuleInit, OnModuleDestroy {
+    private pool?: Pool;
+    private db?: NodePgDatabase<typeof schema>;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly loggerService: LoggerService,
+    ) {}
+
+    onModuleInit(): void {
+        const persisterConfig = this.configService.globalConfig.persister;
+        if (!persisterConfig.enabled) {
+            return;
+        }
+
+        this.pool = new Pool({
+            connectionString: persisterConfig.postgresString,
+        });
+        this.pool.on('error', (error) =>
+            this.loggerService.error(
+                { error: tryErrorToString(error) },
+                `Error on the history postgres connection.`,
+            ),
+        );
+
+        this.db = drizzle(this.pool, { schema });
+    }
+
+    async onModuleDestroy(): Promise<void> {
+        await this.pool?.end();
+    }
+
+    isEnabled(): boolean {
+        return this.db != undefined;
+    }
+
+    // Verify that the database is reachable (throws otherwise).
+    async ping(): Promise<void> {
+        await this.getDB().execute(sql`select 1`);
+    }
+
+    private getDB(): NodePgDatabase<typeof schema> {
+        if (this.db == undefined) {
+            throw new Error(`The history is not available (the persister is not enabled).`);
+        }
+        return this.db;
+    }
+
+
+
+    // Bounty queries
+    // ********************************************************************************************
+
+    // Get the bounties with the given identifier (a `messageIdentifier` may be shared by
+    // bounties of distinct chains/contracts).
+    async getBounties(
+        bountyIdentifier: string,
+        fromChainId?: string,
+    ): Promise<HistoryBounty[]> {
+        const results = await this.getDB().query.bounties.findMany({
+            where: and(
+                eq(bounties.bountyIdentifier, bountyIdentifier.toLowerCase()),
+                fromChainId != undefined
+                    ? eq(bounties.fromChainId, fromChainId)
+                    : undefined,
+            ),
+            with: BOUNTY_RELATIONS,
+            orderBy: desc(bounties.id),
+        });
+
+        return results.map((result) => this.formatBounty(result));
+    }
+
+    // Query the bounties from the newest to the oldest. The `cursor` is the id of the bounty from
+    // which to continue the query (as returned by the previous query).
+    async queryBounties(
+        filter: HistoryBountyFilter,
+        cursor: number | undefined,
+        limit: number,
+    ): Promise<HistoryBountyQueryResult> {
+        const conditions: (SQL | undefined)[] = [
+            filter.fromChainId != undefined
+                ? eq(bounties.fromChainId, filter.fromChainId)
+                : undefined,
+            filter.toChainId != undefined
+                ? eq(bounties.toChainId, filter.toChainId)
+                : undefined,
+            filter.status != undefined
+                ? eq(bounties.bountyStatus, filter.status)
+                : undefined,
+            cursor != undefined
+                ? lt(bounties.id, cursor)
+                : undefined,
+        ];
+
+        const results = await this.getDB().query.bounties.findMany({
+            where: and(...conditions),
+            with: BOUNTY_RELATIONS,
+            orderBy: desc(bounties.id),
+            limit,
+        });
+
+        const formattedBounties = results.map((result) => this.formatBounty(result));
+
+        return {
+            bounties: formattedBounties,
+            nextCursor: formattedBounties.length == limit
+                ? formattedBounties[formattedBounties.length - 1]!.id
+                : undefined,
+        };
+    }
+
+    private formatBounty(result: BountyQueryResult): HistoryBounty {
+        const { proofs, relayAttempts, submit, exec, ack, ...bounty } = result;
+        return {
+            ...bounty,
+            payloads: proofs,
+            relayAttempts,
+            submitTransaction: submit,
+            execTransaction: exec,
+            ackTransaction: ack,
+        };
+    }
+
+
+
+    // AMB message queries
+    // ********************************************************************************************
+
+    // Get the AMB messages emitted by the given transaction (i.e. the 'BountyPlaced' transaction).
+    async getAMBMessagesByTransactionHash(
+        chainId: string,
+        transactionHash: string,
+    ): Promise<HistoryAMBMessage[]> {
+        const results = await this.getDB()
+            .select({
+                payload: ambPayloads,
+                bounty: bounties,
+                transaction: transactions,
+            })
+            .from(ambPayloads)
+            .innerJoin(bounties, eq(ambPayloads.bountyId, bounties.id))
+            .innerJoin(transactions, eq(bounties.submitTransactionId, transactions.id))
+            .where(and(
+                eq(transactions.chainId, chainId),
+                eq(transactions.transactionHash, transactionHash.toLowerCase()),
+                eq(ambPayloads.sourceChain, chainId),
+            ));
+
+        return results.map(({ payload, bounty, transaction }) => ({
+            messageIdentifier: bounty.bountyIdentifier,
+            amb: payload.amb,
+            fromChainId: payload.sourceChain,
+            toChainId: payload.destinationChain,
+            // The bounty of a persisted payload is always registered with its source address.
+            fromIncentivesAddress: bounty.sourceAddress ?? '',
+            toIncentivesAddress: bounty.destinationAddress ?? undefined,
+            incentivesPayload: payload.payload,
+            recoveryContext: payload.recoveryContext ?? undefined,
+            transactionHash: transaction.transactionHash,
+            blockHash: transaction.blockHash,
+            blockNumber: transaction.blockNumber,
+            priority: false,
+        }));
+    }
+}
@@ -0,0 +1,35 @@
+import { ambPayloads, bounties, relayAttempts, transactions } from '../postgres/postgres.schema';
+import { AMBMessage, RelayStatus } from '../store.types';
+
+
+// History types
+// ************************************************************************************************
+
+export type HistoryTransaction = typeof transactions.$inferSelect;
+
+export type HistoryBounty = typeof bounties.$inferSelect & {
+    payloads: (typeof ambPayloads.$inferSelect)[];
+    relayAttempts: (typeof relayAttempts.$inferSelect)[];
+    submitTransaction: HistoryTransaction | null;
+    execTransaction: HistoryTransaction | null;
+    ackTransaction: HistoryTransaction | null;
+};
+
+export interface HistoryBountyFilter {
+    fromChainId?: string;
+    toChainId?: string;
+    status?: RelayStatus;
+}
+
+export interface HistoryBountyQueryResult {
+    bounties: HistoryBounty[];
+    nextCursor?: number;
+}
+
+// AMB message as recovered from the persisted payloads (i.e. after it has been pruned from the
+// 'Store'). The block of the transaction is unknown (null) for the transactions persisted without
+// it.
+export type HistoryAMBMessage = Omit<AMBMessage, 'blockHash' | 'blockNumber'> & {
+    blockHash: string | null;
+    blockNumber: number | null;
+};
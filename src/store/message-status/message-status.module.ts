@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SubmitterModule } from 'src/submitter/submitter.module';
+import { HistoryModule } from '../history/history.module';
+import { MessageStatusService } from './message-status.service';
+
+@Module({
+    providers: [MessageStatusService],
+    exports: [MessageStatusService],
+    imports: [SubmitterModule, HistoryModule],
+})
+export class MessageStatusModule {}
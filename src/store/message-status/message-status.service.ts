@@ -0,0 +1,231 @@
+import { Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { SubmitterService } from 'src/submitter/submitter.service';
+import { GeneralisedIncentiveMessage, MessageContext, ParsePayload } from 'src/payload/decode.payload';
+import { tryErrorToString } from 'src/common/utils';
+import { Store } from '../store.lib';
+import { AMBMessage, MessageTimelineEventType, RelayState, RelayStatus } from '../store.types';
+import { HistoryService } from '../history/history.service';
+import { HistoryBounty } from '../history/history.types';
+import { MessageRelayStatus, MessageStatus, MessageStatusFilter, MessageSubmittedTransaction } from './message-status.types';
+
+
+// Timeline events that carry the hash of a transaction submitted by the Relayer.
+const SUBMISSION_TIMELINE_EVENTS: MessageTimelineEventType[] = [
+    'submitted',
+    'repriced',
+    'confirmed',
+];
+
+@Injectable()
+export class MessageStatusService {
+    private readonly store: Store;
+
+    constructor(
+        private readonly submitterService: SubmitterService,
+        private readonly historyService: HistoryService,
+        private readonly loggerService: LoggerService,
+    ) {
+        this.store = new Store();
+    }
+
+    async getMessageStatus(
+        messageIdentifier: string,
+        filter: MessageStatusFilter = {},
+    ): Promise<MessageStatus> {
+        const [relayStates, ambMessages, relayAttempts, timeline, submitterQueue] = await Promise.all([
+            this.store.getRelayStatesByMessageIdentifier(messageIdentifier),
+            this.store.getAMBMessagesByMessageIdentifier(messageIdentifier),
+            this.store.getRelayAttemptsByMessageIdentifier(messageIdentifier),
+            this.store.getMessageTimelineByMessageIdentifier(messageIdentifier),
+            this.submitterService.getMessageQueueState(messageIdentifier),
+        ]);
+
+        const relays = await this.getRelays(relayStates, ambMessages);
+        const filteredRelays = relays.filter((relay) => {
+            const amb = relay.relayState?.amb ?? relay.deliveryMessage?.amb ?? relay.ackMessage?.amb;
+            const fromChainId = relay.relayState?.fromChainId
+                ?? relay.deliveryMessage?.fromChainId
+                ?? relay.ackMessage?.toChainId;
+            return (filter.amb == undefined || amb == filter.amb)
+                && (filter.fromChainId == undefined || fromChainId == filter.fromChainId);
+        });
+
+        const submittedTransactions = new Map<string, MessageSubmittedTransaction>();
+        for (const relayAttempt of relayAttempts) {
+            if (relayAttempt.transactionHash == undefined) continue;
+            submittedTransactions.set(
+                `${relayAttempt.chainId}:${relayAttempt.transactionHash.toLowerCase()}`,
+                {
+                    chainId: relayAttempt.chainId,
+                    transactionHash: relayAttempt.transactionHash,
+                    timestamp: relayAttempt.timestamp,
+                    source: 'relayAttempt',
+                    status: relayAttempt.status,
+                    isDelivery: relayAttempt.isDelivery,
+                }
+            );
+        }
+        // The timeline events cover the transactions that have not been resolved yet (the
+        // latest event of each transaction is kept).
+        for (const event of timeline) {
+            if (
+                !SUBMISSION_TIMELINE_EVENTS.includes(event.type)
+                || event.chainId == undefined
+                || event.transactionHash == undefined
+            ) {
+                continue;
+            }
+
+            const key = `${event.chainId}:${event.transactionHash.toLowerCase()}`;
+            if (submittedTransactions.get(key)?.source == 'relayAttempt') continue;
+            submittedTransactions.set(key, {
+                chainId: event.chainId,
+                transactionHash: event.transactionHash,
+                timestamp: event.timestamp,
+                source: 'timeline',
+                status: event.type,
+            });
+        }
+
+        // Fallback to the history if the message has been pruned from the store.
+        let history: HistoryBounty[] = [];
+        if (filteredRelays.length == 0 && this.historyService.isEnabled()) {
+            history = await this.historyService.getBounties(
+                messageIdentifier,
+                filter.fromChainId,
+            );
+        }
+
+        return {
+            messageIdentifier,
+            relays: filteredRelays,
+            submitterQueue: submitterQueue.filter((entry) =>
+                (filter.amb == undefined || entry.amb == filter.amb)
+                && (filter.fromChainId == undefined || entry.fromChainId == filter.fromChainId)
+            ),
+            submittedTransactions: Array.from(submittedTransactions.values())
+                .sort((a, b) => a.timestamp - b.timestamp),
+            history,
+        };
+    }
+
+    // Get the status of the messages emitted by the given transaction.
+    async getMessageStatusesByTransactionHash(
+        chainId: string,
+        transactionHash: string,
+    ): Promise<MessageStatus[]> {
+        let messageIdentifiers = (
+            await this.store.getAMBMessagesByTransactionHash(chainId, transactionHash)
+        ).map((ambMessage) => ambMessage.messageIdentifier);
+
+        // Fallback to the history if the messages have been pruned from the store.
+        if (messageIdentifiers.length == 0 && this.historyService.isEnabled()) {
+            messageIdentifiers = (
+                await this.historyService.getAMBMessagesByTransactionHash(chainId, transactionHash)
+            ).map((ambMessage) => ambMessage.messageIdentifier);
+        }
+
+        const uniqueIdentifiers = [...new Set(
+            messageIdentifiers.map((messageIdentifier) => messageIdentifier.toLowerCase())
+        )];
+
+        return Promise.all(
+            uniqueIdentifiers.map((messageIdentifier) => this.getMessageStatus(messageIdentifier))
+        );
+    }
+
+    // Match the 'RelayState's with their delivery (sent from the source chain) and ack (sent
+    // from the destination chain back to the source chain) AMB messages. The AMB messages that
+    // cannot be matched with any 'RelayState' are returned on their own.
+    private async getRelays(
+        relayStates: RelayState[],
+        ambMessages: AMBMessage[],
+    ): Promise<MessageRelayStatus[]> {
+        const unmatchedMessages = new Set(ambMessages);
+
+        const relays: MessageRelayStatus[] = [];
+        for (const relayState of relayStates) {
+            const deliveryMessage = ambMessages.find((ambMessage) =>
+                ambMessage.amb == relayState.amb
+                && ambMessage.fromChainId == relayState.fromChainId
+                && ambMessage.fromIncentivesAddress.toLowerCase() == relayState.incentivesAddress.toLowerCase()
+            ) ?? null;
+
+            const toChainId = relayState.messageDeliveredEvent?.toChainId
+                ?? deliveryMessage?.toChainId;
+
+            const ackMessage = toChainId == undefined ? null : ambMessages.find((ambMessage) =>
+                ambMessage.amb == relayState.amb
+                && ambMessage.fromChainId == toChainId
+                && ambMessage.toChainId == relayState.fromChainId
+            ) ?? null;
+
+            if (deliveryMessage != null) unmatchedMessages.delete(deliveryMessage);
+            if (ackMessage != null) unmatchedMessages.delete(ackMessage);
+
+            relays.push(
+                await this.getRelayStatus(relayState, toChainId, deliveryMessage, ackMessage)
+            );
+        }
+
+        for (const ambMessage of unmatchedMessages) {
+            const isAck = this.decodePayload(ambMessage)?.context == MessageContext.CTX_DESTINATION_TO_SOURCE;
+            relays.push(
+                isAck
+                    ? await this.getRelayStatus(null, ambMessage.fromChainId, null, ambMessage)
+                    : await this.getRelayStatus(null, ambMessage.toChainId, ambMessage, null)
+            );
+        }
+
+        return relays;
+    }
+
+    private async getRelayStatus(
+        relayState: RelayState | null,
+        toChainId: string | undefined,
+        deliveryMessage: AMBMessage | null,
+        ackMessage: AMBMessage | null,
+    ): Promise<MessageRelayStatus> {
+        // AMB proofs are stored under the destination chain of the AMB message.
+        const deliveryProof = deliveryMessage != null
+            ? await this.store.getAMBProof(deliveryMessage.toChainId, deliveryMessage.messageIdentifier)
+            : null;
+        const ackProof = ackMessage != null
+            ? await this.store.getAMBProof(ackMessage.toChainId, ackMessage.messageIdentifier)
+            : null;
+
+        return {
+            relayState,
+            status: relayState != null ? RelayStatus[relayState.status] : undefined,
+            toChainId,
+            deliveryMessage,
+            deliveryPayload: this.decodePayload(deliveryMessage),
+            deliveryProofAvailable: deliveryProof != null,
+            ackMessage,
+            ackPayload: this.decodePayload(ackMessage),
+            ackProofAvailable: ackProof != null,
+        };
+    }
+
+    private decodePayload(
+        ambMessage: AMBMessage | null,
+    ): GeneralisedIncentiveMessage | undefined {
+        if (ambMessage == null) {
+            return undefined;
+        }
+
+        try {
+            return ParsePayload(ambMessage.incentivesPayload);
+        } catch (error) {
+            this.loggerService.warn(
+                {
+                    messageIdentifier: ambMessage.messageIdentifier,
+                    error: tryErrorToString(error),
+                },
+                `Failed to decode the incentives payload.`,
+            );
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,51 @@
+import { GeneralisedIncentiveMessage } from 'src/payload/decode.payload';
+import { SubmitterQueueEntry } from 'src/submitter/submitter.types';
+import { AMBMessage, MessageTimelineEventType, RelayAttemptStatus, RelayState } from '../store.types';
+import { HistoryBounty } from '../history/history.types';
+
+
+// Message status types
+// ************************************************************************************************
+
+export interface MessageStatusFilter {
+    amb?: string;
+    fromChainId?: string;
+}
+
+// Merged view of the state of a message held by the Relayer.
+export interface MessageStatus {
+    messageIdentifier: string;
+
+    relays: MessageRelayStatus[];
+    submitterQueue: SubmitterQueueEntry[];
+    submittedTransactions: MessageSubmittedTransaction[];
+
+    // The persisted bounties are only queried if the message is not found on the store (i.e. it
+    // has been pruned).
+    history: HistoryBounty[];
+}
+
+// State of a message sent via a given amb/source chain/contract. The `relayState` is missing
+// if the AMB message has been collected but no bounty event has been observed yet.
+export interface MessageRelayStatus {
+    relayState: RelayState | null;
+    status?: string;                    // The 'RelayStatus' name (e.g. 'BountyPlaced').
+    toChainId?: string;
+
+    deliveryMessage: AMBMessage | null;
+    deliveryPayload?: GeneralisedIncentiveMessage;
+    deliveryProofAvailable: boolean;
+
+    ackMessage: AMBMessage | null;
+    ackPayload?: GeneralisedIncentiveMessage;
+    ackProofAvailable: boolean;
+}
+
+export interface MessageSubmittedTransaction {
+    chainId: string;
+    transactionHash: string;
+    timestamp: number;
+    source: 'relayAttempt' | 'timeline';
+    status: RelayAttemptStatus | MessageTimelineEventType;
+    isDelivery?: boolean;
+}
@@ -4,6 +4,11 @@ import { Worker } from 'worker_threads';
 import { ConfigService } from 'src/config/config.service';
 import { LoggerService } from 'src/logger/logger.service';
 
+// Commands posted by the main thread to the persister worker.
+export interface PersisterWorkerCommand {
+    type: 'backfill';
+}
+
 @Injectable()
 export class PersisterService {
     private worker?: Worker;
@@ -45,12 +50,25 @@ export class PersisterService {
         this.worker = worker;
     }
 
+    // Request a full scan of the store to persist any data that may be missing from postgres.
+    // Returns false if the persister is not running.
+    requestBackfill(): boolean {
+        if (this.worker == undefined) {
+            return false;
+        }
+
+        const command: PersisterWorkerCommand = { type: 'backfill' };
+        this.worker.postMessage(command);
+        return true;
+    }
+
     async setSubscriptions(worker: Worker) {
         worker.on('error', (error) =>
             this.loggerService.fatal(error, `Error on persister.`),
         );
 
         worker.on('exit', (exitCode) => {
+            this.worker = undefined;
             this.loggerService.fatal({ exitCode }, `Persister exited.`);
             // Sometimes the postgres connection is dropped, we need to recover from that case.
             if (exitCode === 1) {
@@ -1,20 +1,39 @@
 import pino from 'pino';
 import { Store } from 'src/store/store.lib';
-import { workerData } from 'worker_threads';
+import { parentPort, workerData } from 'worker_threads';
 import { NodePgDatabase, drizzle } from 'drizzle-orm/node-postgres';
 import { migrate } from 'drizzle-orm/node-postgres/migrator';
 import { Client } from 'pg';
-import { AMBMessage, KeyActionMessage, RelayStateJSON } from '../store.types';
-import {
-    bounties,
-    transactions,
-    ambPayloads,
-} from '../postgres/postgres.schema';
-import { bountyFromJson } from '../postgres/postgres.transformer';
-import { and, eq } from 'drizzle-orm';
+import { AMBMessage, KeyActionMessage, RelayAttemptJSON, RelayStateJSON } from '../store.types';
+import { persistAMBMessage, persistRelayAttempt, persistRelayState } from '../postgres/postgres.persist';
+import { PersisterWorkerCommand } from './persister.service';
+import { tryErrorToString } from 'src/common/utils';
 
 
 const REDIS_QUEUE_KEY = 'relayer:presister:queue';
+const REDIS_PROCESSING_KEY = 'relayer:presister:processing';
+const REDIS_BACKFILL_MARKER_KEY = 'relayer:presister:backfilled';
+
+// Maximum number of times the persisting of an element may fail (or be interrupted by a crash of
+// the persister) before the element is dropped.
+const MAX_PERSIST_ATTEMPTS = 5;
+
+
+// ! NOTE
+// ! The queue elements are atomically moved from the queue to a processing list before being
+// ! persisted, and are only removed from the processing list (acknowledged) once persisted. Any
+// ! element left on the processing list (i.e. the persister crashed whilst persisting it) is
+// ! requeued on startup.
+// !
+// ! Elements that fail to be persisted are requeued, and dropped after `MAX_PERSIST_ATTEMPTS`.
+// !
+// ! Key changes that happen whilst the persister is not running are not queued. To cover these, a
+// ! full scan of the store (backfill) may be requested on demand. The backfill is only run on
+// ! startup if it has never been completed on the store (i.e. the backfill marker is missing).
+
+interface PersisterQueueElement extends KeyActionMessage {
+    attempts?: number;
+}
 
 class PersisterWorker {
     private readonly logger: pino.Logger;
@@ -29,6 +48,8 @@ class PersisterWorker {
 
     private readonly processingDelay = 200;
 
+    private isBackfilling = false;
+
     constructor() {
         this.postgresConnectionString = workerData.postgresConnectionString;
         this.chains = workerData.chains;
@@ -61,8 +82,12 @@ class PersisterWorker {
         await this.listen();
         await migrationPromise;
 
-        // SCAN!
-        // this.scan();
+        await this.recoverProcessingQueue();
+
+        this.listenForCommands();
+        if (!await this.isBackfilled()) {
+            await this.backfill();
+        }
 
         // Stay alive.
         while (true) {
@@ -73,51 +98,165 @@ class PersisterWorker {
     }
 
     async queueGet(): Promise<KeyActionMessage[]> {
-        const queue = await this.store.redis.lrange(REDIS_QUEUE_KEY, 0, -1);
+        const queue = await this.store.backend.lrange(REDIS_QUEUE_KEY, 0, -1);
         return queue.map((element) => JSON.parse(element));
     }
 
-    async queueShift(): Promise<KeyActionMessage | undefined> {
-        const firstElement = await this.store.redis.lpop(REDIS_QUEUE_KEY);
-        return firstElement != undefined
-            ? JSON.parse(firstElement)
-            : undefined;
+    // Move the first element of the queue to the processing list. The element must be
+    // acknowledged once processed (see `queueAck`).
+    async queueClaim(): Promise<string | null> {
+        return this.store.backend.lmove(REDIS_QUEUE_KEY, REDIS_PROCESSING_KEY);
     }
 
-    async queuePush(message: KeyActionMessage) {
-        await this.store.redis.rpush(REDIS_QUEUE_KEY, JSON.stringify(message));
+    async queueAck(rawElement: string): Promise<void> {
+        await this.store.backend.lrem(REDIS_PROCESSING_KEY, rawElement);
     }
 
-    async consumeQueue() {
-        // Copy queue to memory.
+    async queuePush(message: PersisterQueueElement) {
+        await this.store.backend.rpush(REDIS_QUEUE_KEY, JSON.stringify(message));
+    }
 
-        let nextElement: KeyActionMessage | undefined = await this.queueShift();
-        while (nextElement != undefined) {
+    async consumeQueue() {
+        let rawElement = await this.queueClaim();
+        while (rawElement != null) {
+            const element: PersisterQueueElement = JSON.parse(rawElement);
             this.logger.info(
-                `Got a key: ${nextElement.key} with action: ${nextElement.action}`,
+                `Got a key: ${element.key} with action: ${element.action}`,
             );
-            await this.examineKey(nextElement.key);
 
-            nextElement = await this.queueShift();
+            try {
+                await this.examineKey(element.key);
+            } catch (error) {
+                await this.handlePersistFailure(rawElement, element, error);
+                return;     // Retry on the next queue consumption round.
+            }
+            await this.queueAck(rawElement);
+
+            rawElement = await this.queueClaim();
         }
     }
 
-    // async scan() {
-    //   this.logger.info(`Starting redis scan`);
-    //   this.store.scan(this.examineKey);
-    // }
+    // Requeue an element that failed to be persisted, or drop it if it has failed too many times.
+    private async handlePersistFailure(
+        rawElement: string,
+        element: PersisterQueueElement,
+        error: any,
+    ): Promise<void> {
+        const attempts = (element.attempts ?? 0) + 1;
+
+        if (attempts >= MAX_PERSIST_ATTEMPTS) {
+            this.logger.error(
+                { key: element.key, attempts, error: tryErrorToString(error) },
+                `Failed to persist the key. Dropping it from the persister queue.`
+            );
+        } else {
+            this.logger.warn(
+                { key: element.key, attempts, error: tryErrorToString(error) },
+                `Failed to persist the key. Requeueing it.`
+            );
+            // Push before removing the element from the processing list, so that it cannot be
+            // lost if the worker crashes here.
+            await this.queuePush({ ...element, attempts });
+        }
+
+        await this.queueAck(rawElement);
+    }
+
+    // Requeue the elements that were left on the processing list by a previous run.
+    async recoverProcessingQueue(): Promise<void> {
+        const rawElements = await this.store.backend.lrange(REDIS_PROCESSING_KEY, 0, -1);
+        if (rawElements.length == 0) {
+            return;
+        }
+
+        this.logger.info(
+            { count: rawElements.length },
+            `Recovering unacknowledged persister queue elements.`
+        );
+
+        for (const rawElement of rawElements) {
+            const element: PersisterQueueElement = JSON.parse(rawElement);
+            const attempts = (element.attempts ?? 0) + 1;
+
+            if (attempts >= MAX_PERSIST_ATTEMPTS) {
+                this.logger.error(
+                    { key: element.key, attempts },
+                    `Failed to persist the key. Dropping it from the persister queue.`
+                );
+            } else {
+                // Push before removing the element from the processing list, so that it cannot
+                // be lost if the worker crashes here.
+                await this.queuePush({ ...element, attempts });
+            }
+
+            await this.queueAck(rawElement);
+        }
+    }
+
+    async isBackfilled(): Promise<boolean> {
+        return await this.store.backend.get(REDIS_BACKFILL_MARKER_KEY) != null;
+    }
+
+    // Queue all the relay states, AMB messages and relay attempts held by the store.
+    async backfill(): Promise<void> {
+        if (this.isBackfilling) {
+            this.logger.info(`Persister backfill already in progress.`);
+            return;
+        }
+        this.isBackfilling = true;
+
+        try {
+            this.logger.info(`Starting persister backfill scan.`);
+
+            let queuedCount = 0;
+            const prefixes = [
+                Store.RELAY_STATE_KEY_PREFIX,
+                Store.AMB_MESSAGE_KEY_PREFIX,
+                Store.RELAY_ATTEMPT_KEY_PREFIX,
+            ];
+            for (const prefix of prefixes) {
+                const keys = await this.store.backend.keys(Store.formatKey(prefix, '*'));
+                for (const key of keys) {
+                    await this.queuePush({ key, action: 'set' });
+                    queuedCount++;
+                }
+            }
+
+            await this.store.backend.set(REDIS_BACKFILL_MARKER_KEY, String(Date.now()));
+
+            this.logger.info(
+                { queuedCount },
+                `Persister backfill scan completed.`
+            );
+        } catch (error) {
+            this.logger.error(
+                { error: tryErrorToString(error) },
+                `Error on persister backfill scan.`
+            );
+        } finally {
+            this.isBackfilling = false;
+        }
+    }
+
+    private listenForCommands(): void {
+        parentPort!.on('message', (command: PersisterWorkerCommand) => {
+            if (command.type == 'backfill') {
+                void this.backfill();
+            }
+        });
+    }
 
     async listen() {
         // Get a constant reference to the queue.
 
         // Listen for key updates.
-        this.logger.info(`Persister listening on on ${'key'}`);
-        await this.store.on('key', (event: any) => {
-
-            //TODO verify event format
-            const message = event as KeyActionMessage;
-            void this.queuePush(message);
-        });
+        this.logger.info(`Persister listening on on ${Store.ON_KEY_CHANGE_CHANNEL}`);
+        await this.store.on<KeyActionMessage>(
+            Store.ON_KEY_CHANGE_CHANNEL,
+            (message) => {
+                void this.queuePush(message);
+            },
+        );
         // Listen for proofs. Notice that proofs aren't submitted so we need to listen seperately.
         // We need to iter over each key seperately.
         // const chains = this.chains;
@@ -137,191 +276,24 @@ class PersisterWorker {
             if (value === null) return;
             const parsedValue: RelayStateJSON = JSON.parse(value);
 
-            // Get or set all transactions.
-            const fromChainId = parsedValue.bountyPlacedEvent?.fromChainId;
-            const toChainId = parsedValue.messageDeliveredEvent?.toChainId;
-            const submitTransactionHash = parsedValue?.bountyPlacedEvent?.transactionHash;
-            const execTransactionHash = parsedValue?.messageDeliveredEvent?.transactionHash;
-            const ackTransactionHash = parsedValue?.bountyClaimedEvent?.transactionHash;
-
-            let submitTransactionId: number | undefined,
-                execTransactionId: number | undefined,
-                ackTransactionId: number | undefined;
-            if (submitTransactionHash && fromChainId) {
-                const submitTransactionQuery = await this.db
-                    .select({ id: transactions.id })
-                    .from(transactions)
-                    .where(
-                        and(
-                            eq(transactions.transactionHash, submitTransactionHash),
-                            eq(transactions.chainId, fromChainId),
-                        ),
-                    )
-                    .limit(1);
-                if (submitTransactionQuery.length === 0) {
-                    submitTransactionId = (
-                        await this.db
-                            .insert(transactions)
-                            .values({
-                                transactionHash: submitTransactionHash,
-                                chainId: fromChainId,
-                            })
-                            .returning({ id: transactions.id })
-                    )[0]!.id;
-                } else {
-                    submitTransactionId = submitTransactionQuery[0]!.id;
-                }
-            }
-            // execTransactionHash?: string;
-            if (execTransactionHash && toChainId) {
-                const execTransactionQuery = await this.db
-                    .select({ id: transactions.id })
-                    .from(transactions)
-                    .where(
-                        and(
-                            eq(transactions.transactionHash, execTransactionHash),
-                            eq(transactions.chainId, toChainId),
-                        ),
-                    )
-                    .limit(1);
-                if (execTransactionQuery.length === 0) {
-                    execTransactionId = (
-                        await this.db
-                            .insert(transactions)
-                            .values({
-                                transactionHash: execTransactionHash,
-                                chainId: toChainId,
-                            })
-                            .returning({ id: transactions.id })
-                    )[0]!.id;
-                } else {
-                    execTransactionId = execTransactionQuery[0]!.id;
-                }
-            }
-            // ackTransactionHash?: string;
-            if (ackTransactionHash && fromChainId) {
-                const ackTransactionQuery = await this.db
-                    .select({ id: transactions.id })
-                    .from(transactions)
-                    .where(
-                        and(
-                            eq(transactions.transactionHash, ackTransactionHash),
-                            eq(transactions.chainId, fromChainId),
-                        ),
-                    )
-                    .limit(1);
-                if (ackTransactionQuery.length === 0) {
-                    ackTransactionId = (
-                        await this.db
-                            .insert(transactions)
-                            .values({
-                                transactionHash: ackTransactionHash,
-                                chainId: fromChainId,
-                            })
-                            .returning({ id: transactions.id })
-                    )[0]!.id;
-                } else {
-                    ackTransactionId = ackTransactionQuery[0]!.id;
-                }
-            }
-
-            const sqlReadyBounty = {
-                ...bountyFromJson(parsedValue),
-                submitTransactionId,
-                execTransactionId,
-                ackTransactionId,
-            };
-            // Try to get first.
-            const bountiesSelected = await this.db
-                .select({})
-                .from(bounties)
-                .where(eq(bounties.bountyIdentifier, sqlReadyBounty.bountyIdentifier))
-                .limit(1);
-            if (bountiesSelected.length === 0) {
-                // insert
-                this.logger.debug(`Inserting ${key} as bounty`);
-                return this.db.insert(bounties).values(sqlReadyBounty);
-            } else {
-                // update
-                this.logger.debug(`Updating ${key} as bounty`);
-                return this.db
-                    .update(bounties)
-                    .set(sqlReadyBounty)
-                    .where(
-                        eq(bounties.bountyIdentifier, sqlReadyBounty.bountyIdentifier),
-                    );
-            }
+            await persistRelayState(this.db, parsedValue, this.logger);
         } else if (keyKeys.includes(Store.AMB_MESSAGE_KEY_PREFIX)) {
             this.logger.debug(`${key}, amb`);
             const value: string | null = await this.store.get(key);
             if (value === null) return;
             const parsedValue: AMBMessage = JSON.parse(value);
 
-            let bountyId: number;
-            // Get or set an associated bounty.
-            const bountiesSelected = await this.db
-                .select({ id: bounties.id })
-                .from(bounties)
-                .where(eq(bounties.bountyIdentifier, parsedValue.messageIdentifier))
-                .limit(1);
-            if (bountiesSelected.length === 0) {
-                // Insert a bounty and get the id.
-                this.logger.debug(
-                    `Inserting ${key}, ${parsedValue.messageIdentifier} as bounty via AMB`,
-                );
-                bountyId = (
-                    await this.db
-                        .insert(bounties)
-                        .values({
-                            bountyIdentifier: parsedValue.messageIdentifier,
-                            destinationAddress: parsedValue.toIncentivesAddress,
-                        })
-                        .returning({ id: bounties.id })
-                )[0]!.id;
-            } else {
-                // Set the bountyId based on the selected.
-                bountyId = bountiesSelected[0]!.id;
-                // Set the `destinationAddress` within the existing record
-                await this.db
-                    .update(bounties)
-                    .set({ destinationAddress: parsedValue.toIncentivesAddress })
-                    .where(
-                        eq(bounties.bountyIdentifier, parsedValue.messageIdentifier),
-                    );
-            }
-
-            const sqlReadyBounty: typeof ambPayloads.$inferInsert = {
-                bountyId,
-                amb: parsedValue.amb,
-                sourceChain: parsedValue.fromChainId,
-                destinationChain: parsedValue.toChainId,
-                payload: parsedValue.incentivesPayload,
-                recoveryContext: parsedValue.recoveryContext,
-            };
-
-            // Check if there exists an equiv bounty.
-            // Try to get first.
-            const payloadsSelected = await this.db
-                .select({})
-                .from(ambPayloads)
-                .where(
-                    and(
-                        eq(ambPayloads.bountyId, sqlReadyBounty.bountyId),
-                        eq(ambPayloads.payload, sqlReadyBounty.payload),
-                    ),
-                )
-                .limit(1); // TODO: Fix this.
-            // TODO: There is currently a change for overlaps. Even if we also index by everything else, someone could replicate a bountyId.
-            // TODO: See comment in the store.
-            if (payloadsSelected.length === 0) {
-                // insert
-                this.logger.debug(`Inserting ${key} as amb`);
-                return this.db.insert(ambPayloads).values(sqlReadyBounty);
+            await persistAMBMessage(this.db, parsedValue, this.logger);
+        } else if (keyKeys.includes(Store.RELAY_ATTEMPT_KEY_PREFIX)) {
+            this.logger.debug(`${key}, relay attempts`);
+            const values = await this.store.backend.lrange(key, 0, -1);
+            for (const value of values) {
+                const parsedValue: RelayAttemptJSON = JSON.parse(value);
+                await persistRelayAttempt(this.db, parsedValue, this.logger);
             }
         } else if (keyKeys.includes(Store.AMB_PROOF_KEY_PREFIX)) {
             this.logger.debug(`${key}, proof`);
         }
-        return undefined;
     }
 
     // examineProof(): (message: AmbPayload) => void {
@@ -0,0 +1,363 @@
+import pino from 'pino';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { SQL, and, eq, sql } from 'drizzle-orm';
+import { AMBMessage, RelayAttemptJSON, RelayStateJSON, TransactionDescription } from '../store.types';
+import {
+    bounties,
+    transactions,
+    ambPayloads,
+    relayAttempts,
+} from './postgres.schema';
+import { bountyFromJson } from './postgres.transformer';
+import { MessageContext, ParsePayload } from 'src/payload/decode.payload';
+
+
+// Postgres persistance helpers shared by the persister and the retention workers.
+
+
+export async function persistRelayState(
+    db: NodePgDatabase,
+    relayState: RelayStateJSON,
+    logger: pino.Logger,
+): Promise<void> {
+
+    // Get or set all transactions.
+    const fromChainId = relayState.fromChainId;
+    const toChainId = relayState.messageDeliveredEvent?.toChainId;
+    const submitTransaction = relayState.bountyPlacedEvent;
+    const execTransaction = relayState.messageDeliveredEvent;
+    const ackTransaction = relayState.bountyClaimedEvent;
+
+    const submitTransactionId = submitTransaction && fromChainId
+        ? await getOrInsertTransaction(db, submitTransaction.transactionHash, fromChainId, submitTransaction)
+        : undefined;
+    const execTransactionId = execTransaction && toChainId
+        ? await getOrInsertTransaction(db, execTransaction.transactionHash, toChainId, execTransaction)
+        : undefined;
+    const ackTransactionId = ackTransaction && fromChainId
+        ? await getOrInsertTransaction(db, ackTransaction.transactionHash, fromChainId, ackTransaction)
+        : undefined;
+
+    const sqlReadyBounty = {
+        ...bountyFromJson(relayState),
+        submitTransactionId,
+        execTransactionId,
+        ackTransactionId,
+    };
+    // Try to get first.
+    const bountyFilter = getBountyFilter(
+        relayState.messageIdentifier,
+        relayState.fromChainId,
+        relayState.incentivesAddress,
+    );
+    const bountiesSelected = await db
+        .select({ id: bounties.id })
+        .from(bounties)
+        .where(bountyFilter)
+        .limit(1);
+    let bountyId: number;
+    if (bountiesSelected.length === 0) {
+        // insert
+        logger.debug(`Inserting ${relayState.messageIdentifier} as bounty`);
+        bountyId = (
+            await db
+                .insert(bounties)
+                .values(sqlReadyBounty)
+                .returning({ id: bounties.id })
+        )[0]!.id;
+    } else {
+        // update
+        logger.debug(`Updating ${relayState.messageIdentifier} as bounty`);
+        bountyId = bountiesSelected[0]!.id;
+        await db
+            .update(bounties)
+            .set(sqlReadyBounty)
+            .where(eq(bounties.id, bountyId));
+    }
+
+    // Credit the claimed rewards to the relay attempts that executed the delivery/ack.
+    const destinationRelayerReward = relayState.bountyClaimedEvent?.destinationRelayerReward;
+    if (execTransactionId != undefined && destinationRelayerReward != undefined) {
+        await db
+            .update(relayAttempts)
+            .set({ rewardClaimed: destinationRelayerReward })
+            .where(and(
+                eq(relayAttempts.bountyId, bountyId),
+                eq(relayAttempts.transactionId, execTransactionId),
+                eq(relayAttempts.isDelivery, true),
+            ));
+    }
+    const sourceRelayerReward = relayState.bountyClaimedEvent?.sourceRelayerReward;
+    if (ackTransactionId != undefined && sourceRelayerReward != undefined) {
+        await db
+            .update(relayAttempts)
+            .set({ rewardClaimed: sourceRelayerReward })
+            .where(and(
+                eq(relayAttempts.bountyId, bountyId),
+                eq(relayAttempts.transactionId, ackTransactionId),
+                eq(relayAttempts.isDelivery, false),
+            ));
+    }
+}
+
+export async function persistAMBMessage(
+    db: NodePgDatabase,
+    ambMessage: AMBMessage,
+    logger: pino.Logger,
+): Promise<void> {
+
+    // Ack messages are sent from the destination to the source chain. The associated
+    // bounty is the one placed on the destination of the ack.
+    const isAck = ParsePayload(ambMessage.incentivesPayload)?.context
+        == MessageContext.CTX_DESTINATION_TO_SOURCE;
+
+    const bountyFilter = isAck
+        ? getBountyFilter(
+            ambMessage.messageIdentifier,
+            ambMessage.toChainId,
+        )
+        : getBountyFilter(
+            ambMessage.messageIdentifier,
+            ambMessage.fromChainId,
+            ambMessage.fromIncentivesAddress,
+        );
+
+    let bountyId: number;
+    // Get or set an associated bounty.
+    const bountiesSelected = await db
+        .select({ id: bounties.id })
+        .from(bounties)
+        .where(bountyFilter)
+        .limit(1);
+    if (bountiesSelected.length === 0) {
+        // Insert a bounty and get the id.
+        logger.debug(
+            `Inserting ${ambMessage.messageIdentifier} as bounty via AMB`,
+        );
+        bountyId = (
+            await db
+                .insert(bounties)
+                .values(
+                    isAck
+                        ? {
+                            bountyIdentifier: ambMessage.messageIdentifier.toLowerCase(),
+                            fromChainId: ambMessage.toChainId,
+                            toChainId: ambMessage.fromChainId,
+                        }
+                        : {
+                            bountyIdentifier: ambMessage.messageIdentifier.toLowerCase(),
+                            fromChainId: ambMessage.fromChainId,
+                            toChainId: ambMessage.toChainId,
+                            sourceAddress: ambMessage.fromIncentivesAddress,
+                            destinationAddress: ambMessage.toIncentivesAddress,
+                        }
+                )
+                .returning({ id: bounties.id })
+        )[0]!.id;
+    } else {
+        // Set the bountyId based on the selected.
+        bountyId = bountiesSelected[0]!.id;
+        // Set the `toChainId` and the `destinationAddress` within the existing record (the
+        // `toChainId` is otherwise only known once the message is delivered).
+        await db
+            .update(bounties)
+            .set(
+                isAck
+                    ? { toChainId: ambMessage.fromChainId }
+                    : {
+                        toChainId: ambMessage.toChainId,
+                        destinationAddress: ambMessage.toIncentivesAddress,
+                    }
+            )
+            .where(eq(bounties.id, bountyId));
+    }
+
+    const sqlReadyBounty: typeof ambPayloads.$inferInsert = {
+        bountyId,
+        amb: ambMessage.amb,
+        sourceChain: ambMessage.fromChainId,
+        destinationChain: ambMessage.toChainId,
+        payload: ambMessage.incentivesPayload,
+        recoveryContext: ambMessage.recoveryContext,
+    };
+
+    // Check if there exists an equiv bounty.
+    // Try to get first.
+    const payloadsSelected = await db
+        .select({})
+        .from(ambPayloads)
+        .where(
+            and(
+                eq(ambPayloads.bountyId, sqlReadyBounty.bountyId),
+                eq(ambPayloads.payload, sqlReadyBounty.payload),
+            ),
+        )
+        .limit(1); // TODO: Fix this.
+    // TODO: There is currently a change for overlaps. Even if we also index by everything else, someone could replicate a bountyId.
+    // TODO: See comment in the store.
+    if (payloadsSelected.length === 0) {
+        // insert
+        logger.debug(`Inserting ${ambMessage.messageIdentifier} as amb`);
+        await db.insert(ambPayloads).values(sqlReadyBounty);
+    }
+}
+
+export async function persistRelayAttempt(
+    db: NodePgDatabase,
+    relayAttempt: RelayAttemptJSON,
+    logger: pino.Logger,
+): Promise<void> {
+    const relayStateIndex = relayAttempt.relayStateIndex;
+
+    // Get or set the associated bounty.
+    const bountyFilter = getBountyFilter(
+        relayStateIndex.messageIdentifier,
+        relayStateIndex.fromChainId,
+        relayStateIndex.incentivesAddress,
+    );
+    const bountiesSelected = await db
+        .select({
+            id: bounties.id,
+            execTransactionId: bounties.execTransactionId,
+            ackTransactionId: bounties.ackTransactionId,
+            destinationRelayerReward: bounties.destinationRelayerReward,
+            sourceRelayerReward: bounties.sourceRelayerReward,
+        })
+        .from(bounties)
+        .where(bountyFilter)
+        .limit(1);
+
+    let bounty = bountiesSelected[0];
+    if (bounty == undefined) {
+        logger.debug(
+            `Inserting ${relayStateIndex.messageIdentifier} as bounty via relay attempt`,
+        );
+        bounty = (
+            await db
+                .insert(bounties)
+                .values({
+                    bountyIdentifier: relayStateIndex.messageIdentifier.toLowerCase(),
+                    fromChainId: relayStateIndex.fromChainId,
+                    sourceAddress: relayStateIndex.incentivesAddress,
+                })
+                .returning({
+                    id: bounties.id,
+                    execTransactionId: bounties.execTransactionId,
+                    ackTransactionId: bounties.ackTransactionId,
+                    destinationRelayerReward: bounties.destinationRelayerReward,
+                    sourceRelayerReward: bounties.sourceRelayerReward,
+                })
+        )[0]!;
+    }
+
+    const transactionId = relayAttempt.transactionHash != undefined
+        ? await getOrInsertTransaction(db, relayAttempt.transactionHash, relayAttempt.chainId)
+        : undefined;
+
+    // The bounty may have already been claimed if the relay attempt is persisted late (e.g. on
+    // a backfill).
+    let rewardClaimed: string | null = null;
+    if (transactionId != undefined) {
+        if (relayAttempt.isDelivery && bounty.execTransactionId == transactionId) {
+            rewardClaimed = bounty.destinationRelayerReward;
+        } else if (!relayAttempt.isDelivery && bounty.ackTransactionId == transactionId) {
+            rewardClaimed = bounty.sourceRelayerReward;
+        }
+    }
+
+    const sqlReadyRelayAttempt: typeof relayAttempts.$inferInsert = {
+        attemptIdentifier: relayAttempt.attemptIdentifier,
+        bountyId: bounty.id,
+        amb: relayStateIndex.amb,
+        fromChainId: relayStateIndex.fromChainId,
+        toChainId: relayAttempt.toChainId,
+        chainId: relayAttempt.chainId,
+        isDelivery: relayAttempt.isDelivery,
+        priority: relayAttempt.priority,
+        status: relayAttempt.status,
+        error: relayAttempt.error,
+        evaluation: relayAttempt.evaluation,
+        transactionId,
+        gasEstimate: relayAttempt.gasEstimate,
+        gasUsed: relayAttempt.gasUsed,
+        effectiveGasPrice: relayAttempt.effectiveGasPrice,
+        value: relayAttempt.value,
+        feePaid: relayAttempt.feePaid,
+        fiatCost: relayAttempt.fiatCost,
+        rewardClaimed,
+        submittedAt: new Date(relayAttempt.timestamp),
+    };
+
+    logger.debug(
+        `Persisting relay attempt ${relayAttempt.attemptIdentifier} of ${relayStateIndex.messageIdentifier}`,
+    );
+    await db
+        .insert(relayAttempts)
+        .values(sqlReadyRelayAttempt)
+        .onConflictDoUpdate({
+            target: [relayAttempts.attemptIdentifier, relayAttempts.chainId],
+            set: sqlReadyRelayAttempt,
+        });
+}
+
+async function getOrInsertTransaction(
+    db: NodePgDatabase,
+    transactionHash: string,
+    chainId: string,
+    block?: Omit<TransactionDescription, 'transactionHash'>,   // Unknown for the relay attempts.
+): Promise<number> {
+    // The transaction hashes are stored in lowercase (see the schema).
+    const normalizedTransactionHash = transactionHash.toLowerCase();
+    const transactionQuery = await db
+        .select({ id: transactions.id, blockHash: transactions.blockHash })
+        .from(transactions)
+        .where(
+            and(
+                eq(transactions.transactionHash, normalizedTransactionHash),
+                eq(transactions.chainId, chainId),
+            ),
+        )
+        .limit(1);
+
+    if (transactionQuery.length !== 0) {
+        const transaction = transactionQuery[0]!;
+
+        // The transaction may have been registered by a relay attempt (without the block).
+        if (transaction.blockHash == null && block != undefined) {
+            await db
+                .update(transactions)
+                .set({ blockHash: block.blockHash, blockNumber: block.blockNumber })
+                .where(eq(transactions.id, transaction.id));
+        }
+
+        return transaction.id;
+    }
+
+    return (
+        await db
+            .insert(transactions)
+            .values({
+                transactionHash: normalizedTransactionHash,
+                chainId,
+                blockHash: block?.blockHash,
+                blockNumber: block?.blockNumber,
+            })
+            .returning({ id: transactions.id })
+    )[0]!.id;
+}
+
+// Bounties are identified by the `messageIdentifier`, the source chain and the source
+// GeneralisedIncentives contract address (see the Store 'RelayState' index).
+function getBountyFilter(
+    messageIdentifier: string,
+    fromChainId: string,
+    incentivesAddress?: string,
+): SQL | undefined {
+    return and(
+        eq(bounties.bountyIdentifier, messageIdentifier.toLowerCase()),
+        eq(bounties.fromChainId, fromChainId),
+        incentivesAddress != undefined
+            ? eq(sql`lower(${bounties.sourceAddress})`, incentivesAddress.toLowerCase())
+            : undefined,
+    );
+}
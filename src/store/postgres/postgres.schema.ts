@@ -1,5 +1,5 @@
 import { relations } from 'drizzle-orm';
-import { integer, pgTable, serial, text, unique } from 'drizzle-orm/pg-core';
+import { boolean, doublePrecision, index, integer, jsonb, pgTable, serial, text, timestamp, unique } from 'drizzle-orm/pg-core';
 
 export const transactions = pgTable(
     'transactions',
@@ -7,6 +7,9 @@ export const transactions = pgTable(
         id: serial('id').primaryKey(),
         transactionHash: text('transactionHash').notNull(),
         chainId: text('chainId').notNull(),
+        // Unknown for the transactions registered by the relay attempts only.
+        blockHash: text('blockHash'),
+        blockNumber: integer('blockNumber'),
     },
     (transaction) => ({
         chain_id_unq: unique().on(transaction.transactionHash, transaction.chainId),
@@ -19,6 +22,7 @@ export const transactionsRelations = relations(transactions, ({ many }) => ({
     ack: many(bounties, { relationName: 'ack' }),
 }));
 
+// ! The `bountyIdentifier` and the transaction hashes are stored in lowercase.
 export const bounties = pgTable('bounties', {
     id: serial('id').primaryKey(),
     bountyIdentifier: text('bountyIdentifier').notNull(),
@@ -33,6 +37,10 @@ export const bounties = pgTable('bounties', {
     bountyStatus: integer('bountyStatus'),
     sourceAddress: text('sourceAddress'),
     destinationAddress: text('destinationAddress'),
+    gasSpentOnDestination: text('gasSpentOnDestination'),
+    gasSpentOnSource: text('gasSpentOnSource'),
+    destinationRelayerReward: text('destinationRelayerReward'), // Paid on the source chain.
+    sourceRelayerReward: text('sourceRelayerReward'), // Paid on the source chain.
     submitTransactionId: integer('submitTransactionId').references(
         () => transactions.id,
     ),
@@ -42,10 +50,16 @@ export const bounties = pgTable('bounties', {
     ackTransactionId: integer('ackTransactionId').references(
         () => transactions.id,
     ),
-});
+}, (bounty) => ({
+    bounty_identifier_idx: index('bounties_bountyIdentifier_idx').on(bounty.bountyIdentifier),
+    from_chain_id_idx: index('bounties_fromChainId_idx').on(bounty.fromChainId),
+    to_chain_id_idx: index('bounties_toChainId_idx').on(bounty.toChainId),
+    bounty_status_idx: index('bounties_bountyStatus_idx').on(bounty.bountyStatus),
+}));
 
 export const bountiesRelations = relations(bounties, ({ one, many }) => ({
     proofs: many(ambPayloads),
+    relayAttempts: many(relayAttempts),
     submit: one(transactions, {
         fields: [bounties.submitTransactionId],
         references: [transactions.id],
@@ -83,3 +97,49 @@ export const ambPayloadsRelations = relations(ambPayloads, ({ one }) => ({
         references: [bounties.id],
     }),
 }));
+
+// Every relay transaction (delivery or ack) submitted by the Relayer.
+export const relayAttempts = pgTable(
+    'relayAttempts',
+    {
+        id: serial('id').primaryKey(),
+        attemptIdentifier: text('attemptIdentifier').notNull(),
+        bountyId: integer('bountyId')
+            .notNull()
+            .references(() => bounties.id),
+        amb: text('amb').notNull(),
+        fromChainId: text('fromChainId').notNull(), // Route source (where the bounty got emitted).
+        toChainId: text('toChainId').notNull(), // Route destination.
+        chainId: text('chainId').notNull(), // Where the relay transaction got submitted.
+        isDelivery: boolean('isDelivery').notNull(),
+        priority: boolean('priority').notNull(),
+        status: text('status').notNull(),
+        error: text('error'),
+        evaluation: jsonb('evaluation'), // The evaluator output.
+        transactionId: integer('transactionId').references(
+            () => transactions.id,
+        ),
+        gasEstimate: text('gasEstimate'),
+        gasUsed: text('gasUsed'),
+        effectiveGasPrice: text('effectiveGasPrice'),
+        value: text('value'),
+        feePaid: text('feePaid'),
+        fiatCost: doublePrecision('fiatCost'), // Fiat value of the fee paid and value at submission.
+        rewardClaimed: text('rewardClaimed'), // Set once the bounty is claimed (paid on the source chain).
+        submittedAt: timestamp('submittedAt').notNull(),
+    },
+    (relayAttempt) => ({
+        attempt_unq: unique().on(relayAttempt.attemptIdentifier, relayAttempt.chainId),
+    }),
+);
+
+export const relayAttemptsRelations = relations(relayAttempts, ({ one }) => ({
+    bounty: one(bounties, {
+        fields: [relayAttempts.bountyId],
+        references: [bounties.id],
+    }),
+    transaction: one(transactions, {
+        fields: [relayAttempts.transactionId],
+        references: [transactions.id],
+    }),
+}));
@@ -9,9 +9,9 @@ export function bountyFromJson(
     ackTransactionHash?: string;
 } {
     return {
-        bountyIdentifier: bounty.messageIdentifier,
+        bountyIdentifier: bounty.messageIdentifier.toLowerCase(),
 
-        fromChainId: bounty.bountyPlacedEvent?.fromChainId,
+        fromChainId: bounty.fromChainId,
         toChainId: bounty.messageDeliveredEvent?.toChainId,
 
         maxGasDelivery: bounty.bountyPlacedEvent?.maxGasDelivery?.toString(),
@@ -25,7 +25,12 @@ export function bountyFromJson(
 
         bountyStatus: bounty.status,
 
-        sourceAddress: bounty.bountyPlacedEvent?.incentivesAddress,
+        sourceAddress: bounty.incentivesAddress,
+
+        gasSpentOnDestination: bounty.bountyClaimedEvent?.gasSpentOnDestination,
+        gasSpentOnSource: bounty.bountyClaimedEvent?.gasSpentOnSource,
+        destinationRelayerReward: bounty.bountyClaimedEvent?.destinationRelayerReward,
+        sourceRelayerReward: bounty.bountyClaimedEvent?.sourceRelayerReward,
     };
 }
 
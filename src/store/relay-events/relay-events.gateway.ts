@@ -0,0 +1,201 @@
+import { SubscribeMessage, WebSocketGateway, WsResponse } from "@nestjs/websockets";
+import { OnModuleInit, UseGuards } from "@nestjs/common";
+import { Observable, Subject } from 'rxjs';
+import { LoggerService } from "src/logger/logger.service";
+import { AuthGuard } from "src/auth/auth.guard";
+import { PricingService } from "src/pricing/pricing.service";
+import { PricingInterface } from "src/pricing/pricing.interface";
+import { WalletService } from "src/wallet/wallet.service";
+import { tryErrorToString } from "src/common/utils";
+import { Store } from "../store.lib";
+import { MessageTimelineEventMessage } from "../store.types";
+import { RelayEvent, RelayEventFiatAmounts, RelayEventType } from "./relay-events.types";
+
+export const RELAY_EVENT_NAME = 'relayEvent';
+
+
+// ! NOTE
+// ! The relay events are derived from the message timeline events (see `Store.addMessageTimelineEvent`),
+// ! which are registered by the different services/workers. The events are processed in order, as
+// ! the fiat amounts of some events are resolved asynchronously.
+
+@WebSocketGateway()
+@UseGuards(AuthGuard)
+export class RelayEventsGateway implements OnModuleInit {
+
+    private readonly store = new Store();
+    private pricing!: PricingInterface;
+    private relayerAddress!: string;
+
+    private onRelayEventObservable = new Subject<WsResponse<RelayEvent>>();
+    private processingEvents: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly pricingService: PricingService,
+        private readonly walletService: WalletService,
+        private readonly loggerService: LoggerService,
+    ) {}
+
+    async onModuleInit() {
+        this.loggerService.info("Relay events gateway initialized.");
+
+        this.pricing = new PricingInterface(await this.pricingService.attachToPricing());
+        this.relayerAddress = (await this.walletService.publicKey).toLowerCase();
+
+        await this.listenForTimelineEvents();
+    }
+
+    @SubscribeMessage(RELAY_EVENT_NAME)
+    subscribeToRelayEvents(): Observable<WsResponse<RelayEvent>> {
+        this.loggerService.info("Client subscribed to relay events.");
+        return this.onRelayEventObservable;
+    }
+
+    private async listenForTimelineEvents(): Promise<void> {
+        this.loggerService.debug(`Listening for message timeline events to broadcast relay events.`);
+
+        await this.store.on<MessageTimelineEventMessage>(
+            Store.ON_MESSAGE_TIMELINE_EVENT_CHANNEL,
+            (event) => {
+                this.processingEvents = this.processingEvents.then(
+                    () => this.processTimelineEvent(event)
+                );
+            },
+        );
+    }
+
+    private async processTimelineEvent(event: MessageTimelineEventMessage): Promise<void> {
+        try {
+            const relayEvent = await this.getRelayEvent(event);
+            if (relayEvent != null) {
+                this.onRelayEventObservable.next({
+                    event: RELAY_EVENT_NAME,
+                    data: relayEvent,
+                });
+            }
+        } catch (error) {
+            this.loggerService.warn(
+                {
+                    messageIdentifier: event.messageIdentifier,
+                    type: event.type,
+                    error: tryErrorToString(error),
+                },
+                `Failed to process the message timeline event.`,
+            );
+        }
+    }
+
+    private async getRelayEvent(event: MessageTimelineEventMessage): Promise<RelayEvent | null> {
+        const type = this.getRelayEventType(event);
+        if (type == null) {
+            return null;
+        }
+
+        return {
+            type,
+            messageIdentifier: event.messageIdentifier,
+            timestamp: event.timestamp,
+            source: event.source,
+            chainId: event.chainId,
+            amb: event.details?.['amb'],
+            transactionHash: event.transactionHash,
+            replacedTransactionHash: event.type == 'repriced'
+                ? event.details?.['originalTransactionHash']
+                : undefined,
+            fiat: await this.getFiatAmounts(event),
+            details: event.details,
+        };
+    }
+
+    private getRelayEventType(event: MessageTimelineEventMessage): RelayEventType | null {
+        switch (event.type) {
+            case 'evaluated':
+            case 'queued':
+            case 'submitted':
+            case 'repriced':
+            case 'confirmed':
+            case 'failed':
+            case 'claimed':
+                return event.type;
+            case 'delivered': {
+                // Deliveries of the relayer itself are covered by the 'confirmed' events.
+                const deliveredBy: string | undefined = event.details?.['deliveredBy'];
+                return deliveredBy?.toLowerCase() == this.relayerAddress
+                    ? null
+                    : 'deliveredByOther';
+            }
+            default:
+                return null;
+        }
+    }
+
+
+
+    // Fiat helpers
+    // ********************************************************************************************
+
+    private async getFiatAmounts(event: MessageTimelineEventMessage): Promise<RelayEventFiatAmounts> {
+        const details = event.details ?? {};
+        const chainId = event.chainId;
+
+        // ! The bigint values of the timeline events are serialized as strings.
+        switch (event.type) {
+            case 'evaluated': {
+                const evaluation = details['evaluation'];
+                if (evaluation == undefined) {
+                    return {};
+                }
+
+                if (details['evaluationType'] == 'delivery') {
+                    return {
+                        cost: evaluation['deliveryFiatCost'],
+                        reward: evaluation['securedDeliveryFiatReward'],
+                        profit: evaluation['securedDeliveryFiatProfit'],
+                    };
+                }
+
+                // The ack costs/rewards are paid on the chain on which the ack is evaluated.
+                return {
+                    cost: await this.getPrice(chainId, evaluation['ackCost']),
+                    reward: await this.getPrice(chainId, evaluation['ackReward']),
+                    profit: evaluation['ackFiatProfit'],
+                };
+            }
+            case 'confirmed': {
+                const gasUsed = details['gasUsed'];
+                const gasPrice = details['gasPrice'];
+                if (gasUsed == undefined || gasPrice == undefined) {
+                    return {};
+                }
+
+                return {
+                    cost: await this.getPrice(chainId, BigInt(gasUsed) * BigInt(gasPrice)),
+                };
+            }
+            case 'claimed': {
+                // Both the source and destination rewards are paid out on the source chain.
+                const reward = BigInt(details['sourceRelayerReward'] ?? 0)
+                    + BigInt(details['destinationRelayerReward'] ?? 0);
+
+                return {
+                    reward: await this.getPrice(chainId, reward),
+                };
+            }
+            default:
+                return {};
+        }
+    }
+
+    private async getPrice(
+        chainId: string | undefined,
+        amount: string | bigint | undefined,
+    ): Promise<number | undefined> {
+        if (chainId == undefined || amount == undefined) {
+            return undefined;
+        }
+
+        const price = await this.pricing.getPrice(chainId, BigInt(amount));
+        return price ?? undefined;
+    }
+
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { WalletModule } from 'src/wallet/wallet.module';
+import { RelayEventsGateway } from './relay-events.gateway';
+
+@Module({
+    providers: [RelayEventsGateway],
+    imports: [WalletModule],
+})
+export class RelayEventsModule {}
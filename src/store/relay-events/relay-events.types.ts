@@ -0,0 +1,32 @@
+// Relay events types
+// ************************************************************************************************
+
+export type RelayEventType = 'evaluated'
+    | 'queued'
+    | 'submitted'
+    | 'repriced'
+    | 'confirmed'
+    | 'failed'
+    | 'deliveredByOther'
+    | 'claimed';
+
+// Fiat values of the event (set only if applicable and if the token price is available).
+export interface RelayEventFiatAmounts {
+    cost?: number;
+    reward?: number;
+    profit?: number;
+}
+
+// Lifecycle transition of a message relay, as broadcast by the `RelayEventsGateway`.
+export interface RelayEvent {
+    type: RelayEventType;
+    messageIdentifier: string;
+    timestamp: number;
+    source: string;                     // The service that registered the event (e.g. 'wallet').
+    chainId?: string;
+    amb?: string;
+    transactionHash?: string;
+    replacedTransactionHash?: string;   // Set for 'repriced' events.
+    fiat: RelayEventFiatAmounts;
+    details?: Record<string, any>;
+}
@@ -0,0 +1,188 @@
+import pino from 'pino';
+import { tryErrorToString } from 'src/common/utils';
+import { GeneralisedIncentiveMessage, MessageContext, ParsePayload } from 'src/payload/decode.payload';
+import { Store } from '../store.lib';
+import { RelayPolicyDecision, RelayPolicyEntry, RelayPolicyStage, RelayPolicyTarget, RelayStateIndex } from '../store.types';
+
+
+// ! NOTE
+// ! A message is rejected if any of its attributes matches a 'block' entry. Additionally, if
+// ! 'allow' entries exist for a given target, the corresponding attribute of the message must
+// ! match one of them. Attributes that cannot be determined (e.g. the applications of a message
+// ! whose payload cannot be decoded) never match, hence these messages are rejected by the
+// ! allowlists ('toApplication' entries are not applied to acks, as these are directed to the
+// ! source application).
+
+const RELAY_POLICY_TARGETS: RelayPolicyTarget[] = [
+    'messageIdentifier',
+    'route',
+    'sourceApplication',
+    'toApplication',
+];
+
+export interface RelayPolicyMessage {
+    messageIdentifier: string;
+    relayStateIndex?: RelayStateIndex;     // The timeline on which to register rejections (if known).
+    amb: string;
+    fromChainId: string;
+    toChainId?: string;
+    incentivesPayload?: string;
+}
+
+// Cached view of the relay policy entries saved on the store. The cache is refreshed whenever the
+// entries are modified.
+export class RelayPolicy {
+    private entries: RelayPolicyEntry[] = [];
+
+    constructor(
+        private readonly store: Store,
+        private readonly logger: pino.Logger,
+    ) {}
+
+    async init(): Promise<void> {
+        // Subscribe before loading the entries to not miss any change.
+        await this.store.on(Store.ON_RELAY_POLICY_CHANGE_CHANNEL, () => {
+            void this.loadEntries();
+        });
+
+        await this.loadEntries();
+    }
+
+    private async loadEntries(): Promise<void> {
+        try {
+            this.entries = await this.store.getRelayPolicyEntries();
+            this.logger.debug(
+                { entries: this.entries.length },
+                `Relay policy loaded.`,
+            );
+        } catch (error) {
+            this.logger.warn(
+                { error: tryErrorToString(error) },
+                `Failed to load the relay policy. Using the previously loaded entries.`,
+            );
+        }
+    }
+
+    evaluate(message: RelayPolicyMessage): RelayPolicyDecision {
+        if (this.entries.length == 0) {
+            return { allowed: true };
+        }
+
+        const payload = this.decodePayload(message.incentivesPayload);
+        const isAck = payload?.context == MessageContext.CTX_DESTINATION_TO_SOURCE;
+
+        const values: Record<RelayPolicyTarget, string | undefined> = {
+            messageIdentifier: message.messageIdentifier.toLowerCase(),
+            route: message.toChainId != undefined
+                ? `${message.fromChainId}:${message.toChainId}`
+                : undefined,
+            sourceApplication: payload?.sourceApplicationAddress.toLowerCase(),
+            toApplication: payload?.context == MessageContext.CTX_SOURCE_TO_DESTINATION
+                ? payload.toApplication.toLowerCase()
+                : undefined,
+        };
+
+        const blockEntry = this.entries.find((entry) =>
+            entry.mode == 'block' && entry.value == values[entry.target]
+        );
+        if (blockEntry != undefined) {
+            return {
+                allowed: false,
+                reason: `Blocked ${blockEntry.target} '${blockEntry.value}'.`
+                    + (blockEntry.reason != undefined ? ` ${blockEntry.reason}` : ''),
+                entry: blockEntry,
+            };
+        }
+
+        for (const target of RELAY_POLICY_TARGETS) {
+            if (target == 'toApplication' && isAck) continue;
+
+            const allowEntries = this.entries.filter((entry) =>
+                entry.mode == 'allow' && entry.target == target
+            );
+            if (allowEntries.length == 0) continue;
+
+            const value = values[target];
+            if (value == undefined || !allowEntries.some((entry) => entry.value == value)) {
+                return {
+                    allowed: false,
+                    reason: `The ${target} '${value ?? 'unknown'}' is not allowlisted.`,
+                };
+            }
+        }
+
+        return { allowed: true };
+    }
+
+    // Evaluate the message and register its rejection (if rejected) on the message timeline.
+    async isAllowed(
+        message: RelayPolicyMessage,
+        stage: RelayPolicyStage,
+        source: string,
+        chainId: string,
+    ): Promise<boolean> {
+        const decision = this.evaluate(message);
+        if (!decision.allowed) {
+            await this.registerRejection(message, decision, stage, source, chainId);
+        }
+
+        return decision.allowed;
+    }
+
+    private async registerRejection(
+        message: RelayPolicyMessage,
+        decision: RelayPolicyDecision,
+        stage: RelayPolicyStage,
+        source: string,
+        chainId: string,
+    ): Promise<void> {
+        const logDescription = {
+            messageIdentifier: message.messageIdentifier,
+            fromChainId: message.fromChainId,
+            toChainId: message.toChainId,
+            stage,
+            reason: decision.reason,
+        };
+        this.logger.info(logDescription, `Message rejected by the relay policy.`);
+
+        try {
+            await this.store.addMessageTimelineEvent(message.relayStateIndex ?? message.messageIdentifier, {
+                type: 'rejected',
+                source,
+                chainId,
+                details: {
+                    amb: message.amb,
+                    fromChainId: message.fromChainId,
+                    toChainId: message.toChainId,
+                    stage,
+                    reason: decision.reason,
+                    mode: decision.entry?.mode,
+                    target: decision.entry?.target,
+                    value: decision.entry?.value,
+                },
+            });
+        } catch (error) {
+            this.logger.warn(
+                {
+                    ...logDescription,
+                    error: tryErrorToString(error),
+                },
+                `Failed to register the message timeline event.`,
+            );
+        }
+    }
+
+    private decodePayload(
+        incentivesPayload: string | undefined,
+    ): GeneralisedIncentiveMessage | undefined {
+        if (incentivesPayload == undefined) {
+            return undefined;
+        }
+
+        try {
+            return ParsePayload(incentivesPayload);
+        } catch {
+            return undefined;
+        }
+    }
+}
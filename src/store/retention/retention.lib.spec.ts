@@ -0,0 +1,227 @@
+import pino from 'pino';
+import { Store } from '../store.lib';
+import { clearTestStore, createTestStore, getBountyPlacedEvent, getRelayStateIndex, getTransactionDescription } from '../store.spec-utils';
+import { AMBMessage, AMBProof, RelayStateIndex } from '../store.types';
+import { Retention } from './retention.lib';
+import { RetentionPeriods } from './retention.types';
+
+const PERIODS: RetentionPeriods = {
+    claimedRetention: 60_000,
+    expiredRetention: 10 * 60_000,
+    orphanRetention: 5 * 60_000,
+};
+
+const APPLICATION = '14' + '0'.repeat(88) + 'a'.repeat(40);    // 65-byte encoded address
+
+// Encode a delivery incentives payload with the given deadline (in seconds).
+function getDeliveryPayload(messageIdentifier: string, deadline: number): string {
+    return '0x'
+        + '00'                                          // CTX_SOURCE_TO_DESTINATION
+        + messageIdentifier.slice(2)
+        + APPLICATION                                   // Source application
+        + APPLICATION                                   // Destination application
+        + deadline.toString(16).padStart(16, '0')
+        + '0'.repeat(12)                                // Max gas limit
+        + 'ff';                                         // Message
+}
+
+describe('Retention', () => {
+    let store: Store;
+    let retention: Retention;
+
+    beforeEach(() => {
+        store = createTestStore();
+        retention = new Retention(PERIODS, store, undefined, pino({ level: 'silent' }));
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+
+        await store.quit();
+        clearTestStore();
+    });
+
+    // Shift the clock into the future.
+    const advanceClock = (ms: number) => {
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + ms);
+    };
+
+    const getAMBMessage = (relayStateIndex: RelayStateIndex, deadline = 0): AMBMessage => ({
+        ...getTransactionDescription(1),
+        messageIdentifier: relayStateIndex.messageIdentifier,
+        amb: relayStateIndex.amb,
+        fromChainId: relayStateIndex.fromChainId,
+        toChainId: '2',
+        fromIncentivesAddress: relayStateIndex.incentivesAddress,
+        incentivesPayload: getDeliveryPayload(relayStateIndex.messageIdentifier, deadline),
+    });
+
+    const getAMBProof = (relayStateIndex: RelayStateIndex): AMBProof => ({
+        messageIdentifier: relayStateIndex.messageIdentifier,
+        amb: relayStateIndex.amb,
+        fromChainId: relayStateIndex.fromChainId,
+        toChainId: '2',
+        message: '0x',
+    });
+
+    // Register a message with a placed bounty, its AMB message and its AMB proof.
+    const placeBounty = async (deadline = 0): Promise<RelayStateIndex> => {
+        const relayStateIndex = getRelayStateIndex();
+        await store.setAMBMessage(relayStateIndex.fromChainId, getAMBMessage(relayStateIndex, deadline));
+        await store.setAMBProof('2', getAMBProof(relayStateIndex));
+        await store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex));
+        return relayStateIndex;
+    };
+
+    const expectPruned = async (relayStateIndex: RelayStateIndex, pruned: boolean) => {
+        const relayState = await store.getRelayState(relayStateIndex);
+        const ambMessage = await store.getAMBMessage('1', relayStateIndex.messageIdentifier);
+        const ambProof = await store.getAMBProof('2', relayStateIndex.messageIdentifier);
+        const timeline = await store.getMessageTimelineByMessageIdentifier(
+            relayStateIndex.messageIdentifier,
+        );
+
+        if (pruned) {
+            expect(relayState).toBeNull();
+            expect(ambMessage).toBeNull();
+            expect(ambProof).toBeNull();
+            expect(timeline).toEqual([]);
+        } else {
+            expect(relayState).not.toBeNull();
+            expect(ambMessage).not.toBeNull();
+            expect(ambProof).not.toBeNull();
+            expect(timeline).not.toEqual([]);
+        }
+    };
+
+    it('prunes the claimed messages after the claimed retention', async () => {
+        const relayStateIndex = await placeBounty();
+        await store.setBountyClaimed(relayStateIndex, getTransactionDescription(2));
+
+        await retention.prune();
+        await expectPruned(relayStateIndex, false);
+
+        advanceClock(PERIODS.claimedRetention);
+        const runMessage = await retention.prune();
+        await expectPruned(relayStateIndex, true);
+
+        expect(runMessage.counts).toMatchObject({
+            prunedClaimedRelayStates: 1,
+            prunedExpiredRelayStates: 0,
+            prunedAMBMessages: 1,
+            prunedAMBProofs: 1,
+            failures: 0,
+        });
+    });
+
+    it('does not prune the undelivered messages before their delivery deadline', async () => {
+        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const relayStateIndex = await placeBounty(deadline);
+
+        advanceClock(3600_000 - 1000);
+        await retention.prune();
+        await expectPruned(relayStateIndex, false);
+    });
+
+    it('prunes the undelivered messages after their delivery deadline has passed', async () => {
+        const deadline = Math.floor(Date.now() / 1000) + 60;
+        const relayStateIndex = await placeBounty(deadline);
+
+        // The deadline has passed, but not for the full expired retention.
+        advanceClock(60_000 + PERIODS.expiredRetention / 2);
+        await retention.prune();
+        await expectPruned(relayStateIndex, false);
+
+        jest.restoreAllMocks();
+        advanceClock(60_000 + PERIODS.expiredRetention + 1000);
+        const runMessage = await retention.prune();
+        await expectPruned(relayStateIndex, true);
+        expect(runMessage.counts.prunedExpiredRelayStates).toBe(1);
+    });
+
+    it('never prunes the messages without a delivery deadline', async () => {
+        const relayStateIndex = await placeBounty(0);
+
+        advanceClock(100 * PERIODS.expiredRetention);
+        await retention.prune();
+        await expectPruned(relayStateIndex, false);
+    });
+
+    it('never prunes the delivered messages awaiting the ack', async () => {
+        const deadline = Math.floor(Date.now() / 1000) + 60;
+        const relayStateIndex = await placeBounty(deadline);
+        await store.setMessageDelivered(
+            relayStateIndex.amb,
+            relayStateIndex.messageIdentifier,
+            { ...getTransactionDescription(2), toChainId: '2' },
+        );
+
+        advanceClock(100 * PERIODS.expiredRetention);
+        await retention.prune();
+        await expectPruned(relayStateIndex, false);
+    });
+
+    it('prunes the orphans after the orphan retention', async () => {
+        const relayStateIndex = getRelayStateIndex();
+        const messageIdentifier = relayStateIndex.messageIdentifier;
+        await store.setAMBMessage('1', getAMBMessage(relayStateIndex));
+        await store.setAMBProof('2', getAMBProof(relayStateIndex));
+        await store.setAdditionalAMBData('layer-zero', '0xabcd', {
+            messageIdentifier,
+            payload: '0x',
+        });
+
+        // The first run that finds the orphans starts their retention period.
+        advanceClock(10 * PERIODS.orphanRetention);
+        const firstRun = await retention.prune();
+        expect(firstRun.examinedOrphans).toBe(4);   // Message, proof, payload data and timeline
+        expect(await store.getAMBMessage('1', messageIdentifier)).not.toBeNull();
+
+        jest.restoreAllMocks();
+        advanceClock(11 * PERIODS.orphanRetention);
+        const runMessage = await retention.prune();
+
+        expect(await store.getAMBMessage('1', messageIdentifier)).toBeNull();
+        expect(await store.getAMBProof('2', messageIdentifier)).toBeNull();
+        expect(await store.getAdditionalAMBData('layer-zero', '0xabcd')).toBeNull();
+        expect(await store.getMessageTimelineByMessageIdentifier(messageIdentifier)).toEqual([]);
+        expect(runMessage.counts).toMatchObject({
+            prunedAMBMessages: 1,
+            prunedAMBProofs: 1,
+            prunedAdditionalAMBData: 1,
+            failures: 0,
+        });
+    });
+
+    it('does not prune the orphans once their relay state is registered', async () => {
+        const relayStateIndex = getRelayStateIndex();
+        await store.setAMBMessage('1', getAMBMessage(relayStateIndex));
+
+        await retention.prune();
+        await store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex));
+
+        advanceClock(2 * PERIODS.orphanRetention);
+        await retention.prune();
+
+        expect(await store.getAMBMessage('1', relayStateIndex.messageIdentifier)).not.toBeNull();
+    });
+
+    it('does not scan the store keys for every orphan candidate', async () => {
+        const spy = jest.spyOn(store.backend, 'keys');
+        const countScans = async () => {
+            spy.mockClear();
+            await retention.prune();
+            return spy.mock.calls.length;
+        };
+
+        await store.setAMBMessage('1', getAMBMessage(getRelayStateIndex()));
+        const scans = await countScans();
+
+        for (let i = 0; i < 3; i++) {
+            await store.setAMBMessage('1', getAMBMessage(getRelayStateIndex()));
+            await store.setAMBProof('2', getAMBProof(getRelayStateIndex()));
+        }
+        expect(await countScans()).toBe(scans);
+    });
+});
@@ -0,0 +1,435 @@
+import pino from 'pino';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { Store } from 'src/store/store.lib';
+import { AMBMessage, AMBProofJSON, RelayStateIndex, RelayStateJSON, RelayStatus } from '../store.types';
+import { persistAMBMessage, persistRelayAttempt, persistRelayState } from '../postgres/postgres.persist';
+import { RetentionPeriods, RetentionPruneCounts, RetentionRunMessage, getEmptyRetentionPruneCounts } from './retention.types';
+import { tryErrorToString } from 'src/common/utils';
+import { MessageContext, ParsePayload } from 'src/payload/decode.payload';
+
+
+// ! NOTE
+// ! Fully claimed 'RelayState's ('BountyClaimed') are pruned once they have not been updated for
+// ! `claimedRetention`. Any other 'RelayState' is only pruned once it is expired, i.e. once the
+// ! message can no longer be relayed: it has not been delivered ('BountyPlaced') and the delivery
+// ! deadline of its incentives payload has passed (for at least `expiredRetention`). Messages
+// ! without a delivery deadline (or whose delivery AMB message has not been collected) and
+// ! delivered messages awaiting the ack never expire.
+// !
+// ! Together with the 'RelayState', the AMB messages and proofs of both the delivery and the ack
+// ! (and their references), the message timeline and the relay attempts are removed.
+// !
+// ! Additionally, the AMB messages, AMB proofs, layer-zero payload data and message timelines of
+// ! messages without any 'RelayState' (i.e. orphans) are pruned once they have been found
+// ! orphaned for `orphanRetention` (measured from the first retention run that finds them, as
+// ! they carry no timestamp).
+// !
+// ! If the persister is enabled, the data is archived to postgres before being deleted. The
+// ! data is not deleted if the archival fails.
+
+interface OrphanCandidate {
+    key: string;
+    messageIdentifier: string;
+    relayStateIndex?: RelayStateIndex;  // The 'RelayState' of the candidate, if it can be resolved.
+    prune: (counts: RetentionPruneCounts) => Promise<void>;
+}
+
+export class Retention {
+
+    // The time at which each orphan key was first found.
+    private readonly orphanTimestamps = new Map<string, number>();
+
+    constructor(
+        private readonly periods: RetentionPeriods,
+        private readonly store: Store,
+        private readonly db: NodePgDatabase | undefined,
+        private readonly logger: pino.Logger,
+    ) {}
+
+    async prune(): Promise<RetentionRunMessage> {
+        const startTimestamp = Date.now();
+        const counts = getEmptyRetentionPruneCounts();
+
+        const keyPattern = Store.formatKey(Store.RELAY_STATE_KEY_PREFIX, '*');
+        const keys = await this.store.backend.keys(keyPattern);
+
+        let examinedRelayStates = 0;
+        for (const key of keys) {
+            // Skip legacy keys (these are migrated by the getter on startup).
+            if (key.split(Store.KEY_SEPARATOR).length != 5) {
+                continue;
+            }
+
+            examinedRelayStates++;
+            try {
+                await this.pruneRelayState(key, counts);
+            } catch (error) {
+                counts.failures++;
+                this.logger.warn(
+                    { key, error: tryErrorToString(error) },
+                    `Failed to prune the relay state.`
+                );
+            }
+        }
+
+        const examinedOrphans = await this.pruneOrphans(counts);
+
+        return {
+            timestamp: startTimestamp,
+            duration: Date.now() - startTimestamp,
+            examinedRelayStates,
+            examinedOrphans,
+            counts,
+        };
+    }
+
+    private async pruneRelayState(
+        key: string,
+        counts: RetentionPruneCounts,
+    ): Promise<void> {
+        const data = await this.store.backend.get(key);
+        if (data == null) {
+            return;
+        }
+
+        const relayState: RelayStateJSON = JSON.parse(data);
+
+        // 'RelayState's saved before timestamps were introduced are stamped on their first
+        // examination, so that they are pruned after the full retention period.
+        if (relayState.updatedAt == undefined) {
+            relayState.updatedAt = Date.now();
+            await this.store.backend.compareAndSet(key, data, JSON.stringify(relayState));
+            return;
+        }
+
+        const isClaimed = relayState.status == RelayStatus.BountyClaimed;
+        if (isClaimed) {
+            if (Date.now() - relayState.updatedAt < this.periods.claimedRetention) {
+                return;
+            }
+        } else if (
+            relayState.status != RelayStatus.BountyPlaced
+            || Date.now() - relayState.updatedAt < this.periods.expiredRetention
+        ) {
+            return;
+        }
+
+        const ambMessages = await this.getRelatedAMBMessages(relayState);
+
+        if (!isClaimed) {
+            const deadline = this.getDeliveryDeadline(relayState, ambMessages);
+            if (deadline == undefined || Date.now() - deadline < this.periods.expiredRetention) {
+                return;
+            }
+        }
+
+        if (this.db != undefined) {
+            await persistRelayState(this.db, relayState, this.logger);
+            counts.archivedRelayStates++;
+
+            for (const ambMessage of ambMessages) {
+                await persistAMBMessage(this.db, ambMessage, this.logger);
+                counts.archivedAMBMessages++;
+            }
+
+            const relayAttempts = await this.store.getRelayAttempts(relayState);
+            for (const relayAttempt of relayAttempts) {
+                await persistRelayAttempt(this.db, relayAttempt, this.logger);
+            }
+        }
+
+        // ! Only remove the 'RelayState' if it has not been updated since it was read.
+        const deleted = await this.store.deleteRelayStateByKey(key, data);
+        if (!deleted) {
+            return;
+        }
+
+        if (isClaimed) {
+            counts.prunedClaimedRelayStates++;
+        } else {
+            counts.prunedExpiredRelayStates++;
+        }
+
+        for (const ambMessage of ambMessages) {
+            const messageDeleted = await this.store.deleteAMBMessage(
+                ambMessage.fromChainId,
+                ambMessage,
+            );
+            if (messageDeleted) counts.prunedAMBMessages++;
+
+            // AMB proofs are stored under the destination chain of the AMB message.
+            const proofDeleted = await this.store.deleteAMBProof(
+                ambMessage.toChainId,
+                ambMessage.messageIdentifier,
+            );
+            if (proofDeleted) counts.prunedAMBProofs++;
+        }
+
+        await this.store.deleteMessageTimeline(relayState);
+        await this.store.deleteRelayAttempts(relayState);
+        await this.store.deleteSponsoredMessages(relayState);
+        await this.store.deleteGasAccuracySamples(relayState);
+
+        this.logger.debug(
+            {
+                key,
+                status: relayState.status,
+                ambMessages: ambMessages.length,
+            },
+            `Relay state pruned.`
+        );
+    }
+
+    // Get the delivery deadline (in milliseconds) of the given 'RelayState' from the incentives
+    // payload of its delivery AMB message. Returns 'undefined' if the message has no deadline or
+    // if it cannot be determined.
+    private getDeliveryDeadline(
+        relayState: RelayStateJSON,
+        ambMessages: AMBMessage[],
+    ): number | undefined {
+        const deliveryMessage = ambMessages.find(
+            (ambMessage) => ambMessage.fromChainId == relayState.fromChainId
+        );
+        if (deliveryMessage == undefined) {
+            return undefined;
+        }
+
+        try {
+            const payload = ParsePayload(deliveryMessage.incentivesPayload);
+            if (
+                payload?.context != MessageContext.CTX_SOURCE_TO_DESTINATION
+                || payload.deadline == 0n
+            ) {
+                return undefined;
+            }
+
+            return Number(payload.deadline) * 1000;
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Get the AMB messages of the delivery (stored under the source chain) and of the ack (stored
+    // under the destination chain) of the given 'RelayState'.
+    private async getRelatedAMBMessages(relayState: RelayStateJSON): Promise<AMBMessage[]> {
+        const ambMessages: AMBMessage[] = [];
+
+        const deliveryMessage = await this.store.getAMBMessage(
+            relayState.fromChainId,
+            relayState.messageIdentifier,
+        );
+        if (
+            deliveryMessage != null
+            && deliveryMessage.amb == relayState.amb
+            && deliveryMessage.fromIncentivesAddress.toLowerCase() == relayState.incentivesAddress.toLowerCase()
+        ) {
+            ambMessages.push(deliveryMessage);
+        }
+
+        const toChainId = relayState.messageDeliveredEvent?.toChainId
+            ?? deliveryMessage?.toChainId;
+        if (toChainId == undefined) {
+            return ambMessages;
+        }
+
+        const ackMessage = await this.store.getAMBMessage(
+            toChainId,
+            relayState.messageIdentifier,
+        );
+        if (
+            ackMessage != null
+            && ackMessage.amb == relayState.amb
+            && ackMessage.toChainId == relayState.fromChainId
+        ) {
+            ambMessages.push(ackMessage);
+        }
+
+        return ambMessages;
+    }
+
+
+
+    // Orphans
+    // ********************************************************************************************
+
+    // Returns the number of examined orphan candidates.
+    private async pruneOrphans(counts: RetentionPruneCounts): Promise<number> {
+        const candidates = await this.getOrphanCandidates();
+
+        const now = Date.now();
+        const orphanKeys = new Set<string>();
+        const hasRelayStates = new Map<string, boolean>();
+        for (const candidate of candidates) {
+            try {
+                const messageIdentifier = candidate.messageIdentifier.toLowerCase();
+                if (await this.hasRelayState(candidate, hasRelayStates)) {
+                    continue;
+                }
+
+                orphanKeys.add(candidate.key);
+                const orphanTimestamp = this.orphanTimestamps.get(candidate.key) ?? now;
+                this.orphanTimestamps.set(candidate.key, orphanTimestamp);
+
+                if (now - orphanTimestamp < this.periods.orphanRetention) {
+                    continue;
+                }
+
+                await candidate.prune(counts);
+                orphanKeys.delete(candidate.key);
+
+                this.logger.debug(
+                    { key: candidate.key, messageIdentifier },
+                    `Orphan pruned.`
+                );
+            } catch (error) {
+                counts.failures++;
+                this.logger.warn(
+                    { key: candidate.key, error: tryErrorToString(error) },
+                    `Failed to prune the orphan.`
+                );
+            }
+        }
+
+        // Forget the keys that have been pruned or that are not orphaned anymore.
+        for (const key of this.orphanTimestamps.keys()) {
+            if (!orphanKeys.has(key)) {
+                this.orphanTimestamps.delete(key);
+            }
+        }
+
+        return candidates.length;
+    }
+
+    // Check the 'RelayState' of the candidate if it can be resolved, otherwise check whether any
+    // 'RelayState' exists for its `messageIdentifier` (the results of the latter are cached on
+    // `hasRelayStates`).
+    private async hasRelayState(
+        candidate: OrphanCandidate,
+        hasRelayStates: Map<string, boolean>,
+    ): Promise<boolean> {
+        if (candidate.relayStateIndex != undefined) {
+            const key = Store.getRelayStateKey(candidate.relayStateIndex);
+            return await this.store.backend.get(key) != null;
+        }
+
+        const messageIdentifier = candidate.messageIdentifier.toLowerCase();
+        let hasRelayState = hasRelayStates.get(messageIdentifier);
+        if (hasRelayState == undefined) {
+            const relayStates = await this.store.getRelayStatesByMessageIdentifier(
+                messageIdentifier,
+            );
+            hasRelayState = relayStates.length > 0;
+            hasRelayStates.set(messageIdentifier, hasRelayState);
+        }
+
+        return hasRelayState;
+    }
+
+    private async getOrphanCandidates(): Promise<OrphanCandidate[]> {
+        const candidates: OrphanCandidate[] = [];
+
+        const ambMessageKeys = await this.store.backend.keys(
+            Store.formatKey(Store.AMB_MESSAGE_KEY_PREFIX, '*')
+        );
+        for (const key of ambMessageKeys) {
+            const [, chainId] = key.split(Store.KEY_SEPARATOR);
+            const ambMessage = await this.getJSON<AMBMessage>(key);
+            if (ambMessage == null) {
+                continue;
+            }
+
+            candidates.push({
+                key,
+                messageIdentifier: ambMessage.messageIdentifier,
+                relayStateIndex: Store.getAMBMessageRelayStateIndex(ambMessage) ?? undefined,
+                prune: async (counts) => {
+                    if (this.db != undefined) {
+                        await persistAMBMessage(this.db, ambMessage, this.logger);
+                        counts.archivedAMBMessages++;
+                    }
+                    const deleted = await this.store.deleteAMBMessage(chainId!, ambMessage);
+                    if (deleted) counts.prunedAMBMessages++;
+                },
+            });
+        }
+
+        // ! AMB proofs (`amb_proof:<chainId>:<messageIdentifier>`) and the additional AMB data
+        // ! (`amb_proof:<amb>:<key>`) share the same key prefix. Only the additional data of
+        // ! layer-zero (the payload of the messages) can be related to its message.
+        const ambProofKeys = await this.store.backend.keys(
+            Store.formatKey(Store.AMB_PROOF_KEY_PREFIX, '*')
+        );
+        for (const key of ambProofKeys) {
+            const [, keyComponent, keyId] = key.split(Store.KEY_SEPARATOR);
+            const value = await this.getJSON<Partial<AMBProofJSON>>(key);
+            if (typeof value?.messageIdentifier != 'string') {
+                continue;
+            }
+
+            if (keyComponent == 'layer-zero') {
+                candidates.push({
+                    key,
+                    messageIdentifier: value.messageIdentifier,
+                    prune: async (counts) => {
+                        await this.store.deleteAdditionalAMBData(keyComponent, keyId!);
+                        counts.prunedAdditionalAMBData++;
+                    },
+                });
+            } else if (value.toChainId?.toLowerCase() == keyComponent) {
+                candidates.push({
+                    key,
+                    messageIdentifier: value.messageIdentifier,
+                    prune: async (counts) => {
+                        const deleted = await this.store.deleteAMBProof(
+                            keyComponent!,
+                            value.messageIdentifier!,
+                        );
+                        if (deleted) counts.prunedAMBProofs++;
+                    },
+                });
+            }
+        }
+
+        // Message timelines are indexed either by the full 'RelayState' index or by the
+        // `messageIdentifier` only.
+        const timelineKeys = await this.store.backend.keys(
+            Store.formatKey(Store.MESSAGE_TIMELINE_KEY_PREFIX, '*')
+        );
+        for (const key of timelineKeys) {
+            const [, ...keyComponents] = key.split(Store.KEY_SEPARATOR);
+            const messageIdentifier = keyComponents[keyComponents.length - 1]!;
+            const target = keyComponents.length == 4
+                ? {
+                    amb: keyComponents[0]!,
+                    fromChainId: keyComponents[1]!,
+                    incentivesAddress: keyComponents[2]!,
+                    messageIdentifier,
+                }
+                : messageIdentifier;
+
+            candidates.push({
+                key,
+                messageIdentifier,
+                relayStateIndex: typeof target == 'string' ? undefined : target,
+                prune: async () => {
+                    await this.store.deleteMessageTimeline(target);
+                },
+            });
+        }
+
+        return candidates;
+    }
+
+    private async getJSON<T>(key: string): Promise<T | null> {
+        const data = await this.store.backend.get(key);
+        if (data == null) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(data);
+        } catch {
+            return null;
+        }
+    }
+}
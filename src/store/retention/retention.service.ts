@@ -0,0 +1,119 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { join } from 'path';
+import { LoggerOptions } from 'pino';
+import { Worker } from 'worker_threads';
+import { ConfigService } from 'src/config/config.service';
+import { LoggerService } from 'src/logger/logger.service';
+import { tryErrorToString } from 'src/common/utils';
+import { RetentionMetrics, RetentionPeriods, RetentionPruneCounts, RetentionRunMessage, getEmptyRetentionPruneCounts } from './retention.types';
+
+export const DEFAULT_RETENTION_INTERVAL = 60 * 60000;                    // 1 hour
+export const DEFAULT_RETENTION_CLAIMED_RETENTION = 24 * 60 * 60000;      // 1 day
+export const DEFAULT_RETENTION_EXPIRED_RETENTION = 7 * 24 * 60 * 60000;  // 1 week
+export const DEFAULT_RETENTION_ORPHAN_RETENTION = 24 * 60 * 60000;       // 1 day
+
+export interface RetentionWorkerData extends RetentionPeriods {
+    interval: number;
+    postgresConnectionString?: string;
+    loggerOptions: LoggerOptions;
+}
+
+@Injectable()
+export class RetentionService implements OnModuleInit {
+    private worker?: Worker;
+
+    private readonly metrics: RetentionMetrics = {
+        enabled: false,
+        archiveEnabled: false,
+        runs: 0,
+        total: getEmptyRetentionPruneCounts(),
+    };
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly loggerService: LoggerService,
+    ) {}
+
+    onModuleInit(): void {
+        const startRetention = this.configService.globalConfig.retention.enabled ?? false;
+        this.loggerService.info(
+            `Retention is ${startRetention ? 'enabled' : 'disabled'}`,
+        );
+        if (!startRetention) return;
+
+        this.loggerService.info(`Starting the retention worker...`);
+
+        const workerData = this.loadWorkerConfig();
+        this.metrics.enabled = true;
+        this.metrics.archiveEnabled = workerData.postgresConnectionString != undefined;
+
+        this.startWorker(workerData);
+    }
+
+    private loadWorkerConfig(): RetentionWorkerData {
+        const globalConfig = this.configService.globalConfig;
+        const retentionConfig = globalConfig.retention;
+
+        return {
+            interval: retentionConfig.interval ?? DEFAULT_RETENTION_INTERVAL,
+            claimedRetention: retentionConfig.claimedRetention
+                ?? DEFAULT_RETENTION_CLAIMED_RETENTION,
+            expiredRetention: retentionConfig.expiredRetention
+                ?? DEFAULT_RETENTION_EXPIRED_RETENTION,
+            orphanRetention: retentionConfig.orphanRetention
+                ?? DEFAULT_RETENTION_ORPHAN_RETENTION,
+            // Archive the pruned data only if the persister is enabled.
+            postgresConnectionString: globalConfig.persister.enabled
+                ? globalConfig.persister.postgresString
+                : undefined,
+            loggerOptions: this.loggerService.loggerOptions,
+        };
+    }
+
+    private startWorker(workerData: RetentionWorkerData): void {
+        const worker = new Worker(join(__dirname, 'retention.worker.js'), {
+            workerData,
+        });
+        this.worker = worker;
+
+        worker.on('message', (message: RetentionRunMessage) => {
+            this.registerRun(message);
+        });
+
+        worker.on('error', (error) =>
+            this.loggerService.fatal(
+                { error: tryErrorToString(error) },
+                `Error on retention worker.`,
+            ),
+        );
+
+        worker.on('exit', (exitCode) => {
+            this.worker = undefined;
+            this.loggerService.fatal({ exitCode }, `Retention worker exited.`);
+            // Recover from dropped connections (e.g. postgres).
+            if (exitCode === 1) {
+                setTimeout(() => {
+                    this.loggerService.info(`Starting new retention worker`);
+                    this.startWorker(workerData);
+                });
+            }
+        });
+    }
+
+    private registerRun(message: RetentionRunMessage): void {
+        this.metrics.runs++;
+        this.metrics.lastRun = message;
+
+        const total = this.metrics.total;
+        for (const [name, count] of Object.entries(message.counts)) {
+            total[name as keyof RetentionPruneCounts] += count;
+        }
+    }
+
+    getMetrics(): RetentionMetrics {
+        return {
+            ...this.metrics,
+            total: { ...this.metrics.total },
+        };
+    }
+}
@@ -0,0 +1,54 @@
+// Retention periods (in milliseconds)
+// ************************************************************************************************
+
+export interface RetentionPeriods {
+    claimedRetention: number;
+    expiredRetention: number;
+    orphanRetention: number;
+}
+
+
+
+// Retention metrics
+// ************************************************************************************************
+
+export interface RetentionPruneCounts {
+    prunedClaimedRelayStates: number;
+    prunedExpiredRelayStates: number;
+    prunedAMBMessages: number;
+    prunedAMBProofs: number;
+    prunedAdditionalAMBData: number;
+    archivedRelayStates: number;
+    archivedAMBMessages: number;
+    failures: number;
+}
+
+export function getEmptyRetentionPruneCounts(): RetentionPruneCounts {
+    return {
+        prunedClaimedRelayStates: 0,
+        prunedExpiredRelayStates: 0,
+        prunedAMBMessages: 0,
+        prunedAMBProofs: 0,
+        prunedAdditionalAMBData: 0,
+        archivedRelayStates: 0,
+        archivedAMBMessages: 0,
+        failures: 0,
+    };
+}
+
+// Message posted by the retention worker to the main thread after every retention run.
+export interface RetentionRunMessage {
+    timestamp: number;
+    duration: number;
+    examinedRelayStates: number;
+    examinedOrphans: number;
+    counts: RetentionPruneCounts;
+}
+
+export interface RetentionMetrics {
+    enabled: boolean;
+    archiveEnabled: boolean;
+    runs: number;
+    lastRun?: RetentionRunMessage;
+    total: RetentionPruneCounts;
+}
@@ -0,0 +1,92 @@
+import pino from 'pino';
+import { parentPort, workerData } from 'worker_threads';
+import { NodePgDatabase, drizzle } from 'drizzle-orm/node-postgres';
+import { Client } from 'pg';
+import { Store } from 'src/store/store.lib';
+import { RetentionWorkerData } from './retention.service';
+import { Retention } from './retention.lib';
+import { tryErrorToString, wait } from 'src/common/utils';
+
+
+class RetentionWorker {
+    private readonly config: RetentionWorkerData;
+
+    private readonly logger: pino.Logger;
+
+    private readonly store: Store;
+    private readonly client: Client | undefined;
+    private readonly db: NodePgDatabase | undefined;
+
+    private readonly retention: Retention;
+
+
+    constructor() {
+        this.config = workerData as RetentionWorkerData;
+
+        this.logger = this.initializeLogger();
+
+        this.store = new Store();
+
+        if (this.config.postgresConnectionString != undefined) {
+            this.client = new Client({
+                connectionString: this.config.postgresConnectionString,
+            });
+            this.db = drizzle(this.client);
+        }
+
+        this.retention = new Retention(
+            this.config,
+            this.store,
+            this.db,
+            this.logger,
+        );
+    }
+
+
+
+    // Initialization helpers
+    // ********************************************************************************************
+
+    private initializeLogger(): pino.Logger {
+        return pino(this.config.loggerOptions).child({
+            worker: 'retention'
+        });
+    }
+
+
+
+    // Main handler
+    // ********************************************************************************************
+
+    async run(): Promise<void> {
+        this.logger.info(
+            {
+                interval: this.config.interval,
+                claimedRetention: this.config.claimedRetention,
+                expiredRetention: this.config.expiredRetention,
+                orphanRetention: this.config.orphanRetention,
+                archive: this.db != undefined,
+            },
+            `Retention worker started.`
+        );
+
+        await this.client?.connect();
+
+        while (true) {
+            try {
+                const runMessage = await this.retention.prune();
+                this.logger.info(runMessage, `Retention run completed.`);
+                parentPort!.postMessage(runMessage);
+            } catch (error) {
+                this.logger.error(
+                    { error: tryErrorToString(error) },
+                    `Error on retention run.`
+                );
+            }
+
+            await wait(this.config.interval);
+        }
+    }
+}
+
+void new RetentionWorker().run();
@@ -0,0 +1,131 @@
+import dotenv from 'dotenv';
+import pino from 'pino';
+import { Store } from '../store.lib';
+import { loadStoreBackendType } from '../store.backend';
+import { STORE_BACKEND_TYPE_MEMORY } from '../backends/memory';
+import { StoreSnapshotExporter, StoreSnapshotImporter } from './snapshot.lib';
+import { StoreSnapshotFilter } from './snapshot.types';
+import { tryErrorToString } from 'src/common/utils';
+
+
+// Standalone command to export/import the relayer store to/from a JSON-lines snapshot.
+//
+// Usage:
+//   node dist/store/snapshot/snapshot.command export --file <path> [--chain <chainId>] [--amb <amb>]
+//   node dist/store/snapshot/snapshot.command import --file <path> [--overwrite]
+//
+// `--chain` and `--amb` may be given multiple times (or as comma separated lists). The target
+// store is configured with the same environment variables as the relayer (e.g. `REDIS_HOST`).
+
+const USAGE = `Usage:
+  snapshot export --file <path> [--chain <chainId>] [--amb <amb>]
+  snapshot import --file <path> [--overwrite]`;
+
+interface SnapshotCommandArguments {
+    command: 'export' | 'import';
+    file: string;
+    filter: StoreSnapshotFilter;
+    overwrite: boolean;
+}
+
+function parseArguments(args: string[]): SnapshotCommandArguments {
+    const [command, ...options] = args;
+    if (command != 'export' && command != 'import') {
+        throw new Error(`Invalid snapshot command '${command}'.\n${USAGE}`);
+    }
+
+    let file: string | undefined;
+    let chainIds: string[] | undefined;
+    let ambs: string[] | undefined;
+    let overwrite = false;
+
+    for (let i = 0; i < options.length; i++) {
+        const option = options[i]!;
+
+        if (option == '--overwrite') {
+            overwrite = true;
+            continue;
+        }
+
+        const value = options[++i];
+        if (value == undefined) {
+            throw new Error(`Missing value for option '${option}'.\n${USAGE}`);
+        }
+
+        const values = value.split(',').map((entry) => entry.trim()).filter((entry) => entry != '');
+        if (option == '--file') {
+            file = value;
+        } else if (option == '--chain' && command == 'export') {
+            chainIds = [...(chainIds ?? []), ...values];
+        } else if (option == '--amb' && command == 'export') {
+            ambs = [...(ambs ?? []), ...values];
+        } else {
+            throw new Error(`Invalid option '${option}'.\n${USAGE}`);
+        }
+    }
+
+    if (file == undefined) {
+        throw new Error(`Missing option '--file'.\n${USAGE}`);
+    }
+
+    return {
+        command,
+        file,
+        filter: { chainIds, ambs },
+        overwrite,
+    };
+}
+
+async function run(): Promise<void> {
+    const logger = pino().child({ command: 'snapshot' });
+
+    dotenv.config();
+
+    let args: SnapshotCommandArguments;
+    try {
+        args = parseArguments(process.argv.slice(2));
+    } catch (error) {
+        logger.error(tryErrorToString(error));
+        process.exitCode = 1;
+        return;
+    }
+
+    // The memory store backend only lives within the relayer process.
+    if (loadStoreBackendType() == STORE_BACKEND_TYPE_MEMORY) {
+        logger.error(`Store snapshots are not supported by the '${STORE_BACKEND_TYPE_MEMORY}' store backend.`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const store = new Store();
+    try {
+        if (args.command == 'export') {
+            logger.info(
+                { file: args.file, filter: args.filter },
+                `Exporting the store snapshot...`
+            );
+            const counts = await new StoreSnapshotExporter(store, args.filter).export(args.file);
+            logger.info({ file: args.file, counts }, `Store snapshot exported.`);
+        } else {
+            logger.info(
+                { file: args.file, overwrite: args.overwrite },
+                `Importing the store snapshot...`
+            );
+            const result = await new StoreSnapshotImporter(
+                store,
+                { overwrite: args.overwrite },
+            ).import(args.file);
+            logger.info({ file: args.file, ...result }, `Store snapshot imported.`);
+        }
+    } catch (error) {
+        logger.error(
+            { file: args.file, error: tryErrorToString(error) },
+            `Failed to ${args.command} the store snapshot.`
+        );
+        process.exitCode = 1;
+    } finally {
+        await store.quit();
+    }
+}
+
+void run();
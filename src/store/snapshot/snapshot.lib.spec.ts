@@ -0,0 +1,184 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Store } from '../store.lib';
+import { clearTestStore, createTestStore, getBountyPlacedEvent, getRelayStateIndex, getTransactionDescription } from '../store.spec-utils';
+import { AMBMessage, AMBProof, RelayStateIndex, RelayStatus } from '../store.types';
+import { StoreSnapshotExporter, StoreSnapshotImporter } from './snapshot.lib';
+import { STORE_SNAPSHOT_FORMAT, StoreSnapshotCounts } from './snapshot.types';
+
+describe('Store snapshots', () => {
+    let store: Store;
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        store = createTestStore();
+        directory = await mkdtemp(join(tmpdir(), 'store-snapshot-'));
+        filePath = join(directory, 'snapshot.jsonl');
+    });
+
+    afterEach(async () => {
+        await store.quit();
+        clearTestStore();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    const getAMBMessage = (relayStateIndex: RelayStateIndex, toChainId: string): AMBMessage => ({
+        ...getTransactionDescription(1),
+        messageIdentifier: relayStateIndex.messageIdentifier,
+        amb: relayStateIndex.amb,
+        fromChainId: relayStateIndex.fromChainId,
+        toChainId,
+        fromIncentivesAddress: relayStateIndex.incentivesAddress,
+        incentivesPayload: '0x',
+    });
+
+    const getAMBProof = (relayStateIndex: RelayStateIndex, toChainId: string): AMBProof => ({
+        messageIdentifier: relayStateIndex.messageIdentifier,
+        amb: relayStateIndex.amb,
+        fromChainId: relayStateIndex.fromChainId,
+        toChainId,
+        message: '0x',
+    });
+
+    // Register a delivered message along with all its related data.
+    const registerMessage = async (toChainId: string): Promise<RelayStateIndex> => {
+        const relayStateIndex = getRelayStateIndex();
+        await store.setAMBMessage(relayStateIndex.fromChainId, getAMBMessage(relayStateIndex, toChainId));
+        await store.setAMBProof(toChainId, getAMBProof(relayStateIndex, toChainId));
+        await store.setAdditionalAMBData(relayStateIndex.amb, relayStateIndex.messageIdentifier, {
+            messageIdentifier: relayStateIndex.messageIdentifier,
+        });
+        await store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex));
+        await store.setMessageDelivered(
+            relayStateIndex.amb,
+            relayStateIndex.messageIdentifier,
+            { ...getTransactionDescription(2), toChainId },
+        );
+        await store.addRelayAttempt({
+            attemptIdentifier: getTransactionDescription(2).transactionHash,
+            relayStateIndex,
+            chainId: toChainId,
+            toChainId,
+            isDelivery: true,
+            priority: false,
+            status: 'confirmed',
+            timestamp: 1,
+            gasUsed: 150000n,
+        });
+        return relayStateIndex;
+    };
+
+    // Read all the data of the message through the store.
+    const getMessageData = async (relayStateIndex: RelayStateIndex, toChainId: string) => ({
+        relayState: await store.getRelayState(relayStateIndex),
+        relayStates: await store.getRelayStatesByMessageIdentifier(relayStateIndex.messageIdentifier),
+        ambMessage: await store.getAMBMessage(relayStateIndex.fromChainId, relayStateIndex.messageIdentifier),
+        ambProof: await store.getAMBProof(toChainId, relayStateIndex.messageIdentifier),
+        additionalAMBData: await store.getAdditionalAMBData(
+            relayStateIndex.amb,
+            relayStateIndex.messageIdentifier,
+        ),
+        timeline: await store.getMessageTimeline(relayStateIndex),
+        relayAttempts: await store.getRelayAttempts(relayStateIndex),
+    });
+
+    const exportSnapshot = (chainIds?: string[]) => new StoreSnapshotExporter(
+        store,
+        { chainIds },
+    ).export(filePath);
+
+    const importSnapshot = (overwrite: boolean) => new StoreSnapshotImporter(
+        store,
+        { overwrite },
+    ).import(filePath);
+
+    const getNonZeroCounts = (counts: StoreSnapshotCounts) => Object.fromEntries(
+        Object.entries(counts).filter(([, count]) => count != 0)
+    );
+
+    it('restores the exported data', async () => {
+        const relayStateIndex = await registerMessage('2');
+        const exportedData = await getMessageData(relayStateIndex, '2');
+
+        const exported = await exportSnapshot();
+        expect(getNonZeroCounts(exported)).toEqual({
+            relayState: 1,
+            relayStateSources: 1,
+            ambMessage: 1,
+            ambProof: 1,
+            additionalAMBData: 1,
+            ambTransactionHashMap: 1,
+            messageTimeline: 1,
+            relayAttempts: 1,
+        });
+
+        clearTestStore();
+        const result = await importSnapshot(false);
+
+        expect(result.imported).toEqual(exported);
+        expect(getNonZeroCounts(result.skipped)).toEqual({});
+        expect(result.indexedRelayStates).toBe(1);
+
+        // The relay state indexes are rebuilt on import.
+        const importedData = await getMessageData(relayStateIndex, '2');
+        expect(importedData).toEqual(exportedData);
+        expect(importedData.relayState?.status).toBe(RelayStatus.MessageDelivered);
+        expect(importedData.relayStates).toHaveLength(1);
+    });
+
+    it('only exports the data of the messages of the filtered chains', async () => {
+        const filteredRelayStateIndex = await registerMessage('2');
+        const relayStateIndex = await registerMessage('3');
+        const exportedData = await getMessageData(relayStateIndex, '3');
+
+        const exported = await exportSnapshot(['3']);
+        expect(exported).toMatchObject({
+            relayState: 1,
+            ambMessage: 1,
+            ambProof: 1,
+            additionalAMBData: 1,
+            messageTimeline: 1,
+            relayAttempts: 1,
+        });
+
+        clearTestStore();
+        await importSnapshot(false);
+
+        expect(await getMessageData(relayStateIndex, '3')).toEqual(exportedData);
+        expect(await getMessageData(filteredRelayStateIndex, '2')).toEqual({
+            relayState: null,
+            relayStates: [],
+            ambMessage: null,
+            ambProof: null,
+            additionalAMBData: null,
+            timeline: [],
+            relayAttempts: [],
+        });
+    });
+
+    it('only overwrites the existing data if requested', async () => {
+        const relayStateIndex = await registerMessage('2');
+        await exportSnapshot();
+
+        await store.setBountyClaimed(relayStateIndex, getTransactionDescription(3));
+
+        const result = await importSnapshot(false);
+        expect(result.skipped.relayState).toBe(1);
+        expect((await store.getRelayState(relayStateIndex))?.status).toBe(RelayStatus.BountyClaimed);
+
+        const overwriteResult = await importSnapshot(true);
+        expect(overwriteResult.imported.relayState).toBe(1);
+        expect((await store.getRelayState(relayStateIndex))?.status).toBe(RelayStatus.MessageDelivered);
+    });
+
+    it('rejects the snapshots of unsupported versions', async () => {
+        await writeFile(
+            filePath,
+            JSON.stringify({ kind: 'header', format: STORE_SNAPSHOT_FORMAT, version: 0 }) + '\n',
+        );
+
+        await expect(importSnapshot(false)).rejects.toThrow('Unsupported snapshot version');
+    });
+});
@@ -0,0 +1,542 @@
+import { createReadStream } from 'fs';
+import { FileHandle, open } from 'fs/promises';
+import { createInterface } from 'readline';
+import { Store } from '../store.lib';
+import { AMBMessageJSON, AMBProofJSON, RelayStateJSON } from '../store.types';
+import {
+    STORE_SNAPSHOT_FORMAT,
+    STORE_SNAPSHOT_VERSION,
+    StoreSnapshotCategory,
+    StoreSnapshotCounts,
+    StoreSnapshotEntry,
+    StoreSnapshotFilter,
+    StoreSnapshotHeader,
+    StoreSnapshotImportOptions,
+    StoreSnapshotImportResult,
+    StoreSnapshotLine,
+    getEmptyStoreSnapshotCounts,
+} from './snapshot.types';
+
+
+// ! NOTE
+// ! Snapshots are JSON-lines files: the first line is a 'StoreSnapshotHeader' and every following
+// ! line holds a single store key ('StoreSnapshotEntry'). The relay state indexes are not included
+// ! within the snapshots, as these are rebuilt on import. Transient data (i.e. the AMB message and
+// ! proof streams) and the legacy 'RelayState' keys are not included either.
+// !
+// ! When filtering by chain, a message is exported if either its source or destination chain
+// ! matches the filter. The data that is not bound to a chain (the message timelines, the relay
+// ! attempts and the additional AMB data) is exported only if it references an exported message.
+
+// Categories of which the keys are registered on the message keys sets of the store (the
+// 'RelayState's are registered once indexed).
+const SNAPSHOT_MESSAGE_KEY_CATEGORIES: StoreSnapshotCategory[] = [
+    'ambMessage',
+    'messageTimeline',
+    'relayAttempts',
+];
+
+const SNAPSHOT_CATEGORY_KEY_PREFIXES: Record<StoreSnapshotCategory, string> = {
+    relayState: Store.RELAY_STATE_KEY_PREFIX,
+    relayStateSources: Store.RELAY_STATE_SOURCES_KEY_PREFIX,
+    pendingMessageDelivered: Store.PENDING_MESSAGE_DELIVERED_KEY_PREFIX,
+    ambMessage: Store.AMB_MESSAGE_KEY_PREFIX,
+    ambProof: Store.AMB_PROOF_KEY_PREFIX,
+    additionalAMBData: Store.AMB_PROOF_KEY_PREFIX,
+    ambTransactionHashMap: Store.AMB_TRANSACTION_HASH_MAP_KEY_PREFIX,
+    messageTimeline: Store.MESSAGE_TIMELINE_KEY_PREFIX,
+    relayAttempts: Store.RELAY_ATTEMPT_KEY_PREFIX,
+};
+
+
+// Export
+// ************************************************************************************************
+
+export class StoreSnapshotExporter {
+    private readonly chainIds: Set<string> | undefined;
+    private readonly ambs: Set<string> | undefined;
+
+    private readonly counts = getEmptyStoreSnapshotCounts();
+
+    // Track the exported messages to filter the data that is not bound to a chain.
+    private readonly exportedMessageIdentifiers = new Set<string>();
+    private readonly exportedAMBMessageKeys = new Set<string>();
+
+    private file: FileHandle | undefined;
+
+
+    constructor(
+        private readonly store: Store,
+        private readonly filter: StoreSnapshotFilter,
+    ) {
+        this.chainIds = filter.chainIds != undefined
+            ? new Set(filter.chainIds.map((chainId) => chainId.toLowerCase()))
+            : undefined;
+        this.ambs = filter.ambs != undefined
+            ? new Set(filter.ambs)
+            : undefined;
+    }
+
+    async export(filePath: string): Promise<StoreSnapshotCounts> {
+        this.file = await open(filePath, 'w');
+
+        try {
+            const header: StoreSnapshotHeader = {
+                kind: 'header',
+                format: STORE_SNAPSHOT_FORMAT,
+                version: STORE_SNAPSHOT_VERSION,
+                createdAt: Date.now(),
+                filter: this.filter,
+            };
+            await this.writeLine(header);
+
+            // ! The relay states and the AMB messages must be exported first, as the rest of the
+            // ! data is filtered using the exported messages.
+            await this.exportRelayStates();
+            await this.exportAMBMessages();
+            await this.exportAMBProofsAndAdditionalData();
+            await this.exportRelayStateSources();
+            await this.exportPendingMessagesDelivered();
+            await this.exportAMBTransactionHashMaps();
+            await this.exportMessageLists(Store.MESSAGE_TIMELINE_KEY_PREFIX, 'messageTimeline');
+            await this.exportMessageLists(Store.RELAY_ATTEMPT_KEY_PREFIX, 'relayAttempts');
+        } finally {
+            await this.file.close();
+            this.file = undefined;
+        }
+
+        return { ...this.counts };
+    }
+
+
+    // Export helpers
+    // ********************************************************************************************
+
+    private async exportRelayStates(): Promise<void> {
+        for (const key of await this.getKeys(Store.RELAY_STATE_KEY_PREFIX)) {
+            // Skip legacy keys (i.e. indexed by just the `messageIdentifier`).
+            if (key.split(Store.KEY_SEPARATOR).length != 5) {
+                continue;
+            }
+
+            const relayState: RelayStateJSON | null = await this.getValue(key);
+            if (relayState == null) {
+                continue;
+            }
+
+            const toChainId = relayState.messageDeliveredEvent?.toChainId
+                ?? (await this.getDeliveryAMBMessage(relayState))?.toChainId;
+            if (!this.matchesFilter(relayState.amb, [relayState.fromChainId, toChainId])) {
+                continue;
+            }
+
+            this.exportedMessageIdentifiers.add(relayState.messageIdentifier.toLowerCase());
+            await this.writeEntry({
+                kind: 'entry',
+                category: 'relayState',
+                key,
+                type: 'value',
+                value: relayState,
+            });
+        }
+    }
+
+    private async exportAMBMessages(): Promise<void> {
+        for (const key of await this.getKeys(Store.AMB_MESSAGE_KEY_PREFIX)) {
+            const ambMessage: AMBMessageJSON | null = await this.getValue(key);
+            if (ambMessage == null) {
+                continue;
+            }
+
+            if (!this.matchesFilter(ambMessage.amb, [ambMessage.fromChainId, ambMessage.toChainId])) {
+                continue;
+            }
+
+            this.exportedMessageIdentifiers.add(ambMessage.messageIdentifier.toLowerCase());
+            this.exportedAMBMessageKeys.add(key);
+            await this.writeEntry({
+                kind: 'entry',
+                category: 'ambMessage',
+                key,
+                type: 'value',
+                value: ambMessage,
+            });
+        }
+    }
+
+    // ! AMB proofs (`amb_proof:<chainId>:<messageIdentifier>`) and the additional AMB data
+    // ! (`amb_proof:<amb>:<key>`) share the same key prefix. AMB proofs are identified by their key
+    // ! chain id matching the destination chain of the proof.
+    private async exportAMBProofsAndAdditionalData(): Promise<void> {
+        for (const key of await this.getKeys(Store.AMB_PROOF_KEY_PREFIX)) {
+            const value = await this.getValue(key);
+            if (value == null) {
+                continue;
+            }
+
+            const [, keyComponent] = key.split(Store.KEY_SEPARATOR);
+            if (this.isAMBProof(keyComponent!, value)) {
+                const ambProof: AMBProofJSON = value;
+                if (!this.matchesFilter(ambProof.amb, [ambProof.fromChainId, ambProof.toChainId])) {
+                    continue;
+                }
+
+                await this.writeEntry({
+                    kind: 'entry',
+                    category: 'ambProof',
+                    key,
+                    type: 'value',
+                    value: ambProof,
+                });
+            } else {
+                // The additional AMB data is bound to a chain only via the referenced message (if
+                // any).
+                const messageIdentifier: unknown = value?.messageIdentifier;
+                if (
+                    this.ambs != undefined && !this.ambs.has(keyComponent!)
+                    || this.chainIds != undefined && (
+                        typeof messageIdentifier != 'string'
+                        || !this.exportedMessageIdentifiers.has(messageIdentifier.toLowerCase())
+                    )
+                ) {
+                    continue;
+                }
+
+                await this.writeEntry({
+                    kind: 'entry',
+                    category: 'additionalAMBData',
+                    key,
+                    type: 'value',
+                    value,
+                });
+            }
+        }
+    }
+
+    private async exportRelayStateSources(): Promise<void> {
+        for (const key of await this.getKeys(Store.RELAY_STATE_SOURCES_KEY_PREFIX)) {
+            const [, amb, toChainId, messageIdentifier] = key.split(Store.KEY_SEPARATOR);
+
+            // Only keep the sources of the exported messages.
+            const members = (await this.store.backend.smembers(key)).filter((fromChainId) =>
+                this.matchesFilter(amb!, [fromChainId, toChainId])
+                && this.exportedMessageIdentifiers.has(messageIdentifier!)
+            );
+            if (members.length == 0) {
+                continue;
+            }
+
+            await this.writeEntry({
+                kind: 'entry',
+                category: 'relayStateSources',
+                key,
+                type: 'set',
+                members,
+            });
+        }
+    }
+
+    private async exportPendingMessagesDelivered(): Promise<void> {
+        for (const key of await this.getKeys(Store.PENDING_MESSAGE_DELIVERED_KEY_PREFIX)) {
+            const [, amb, toChainId] = key.split(Store.KEY_SEPARATOR);
+            if (!this.matchesFilter(amb!, [toChainId])) {
+                continue;
+            }
+
+            const messageDeliveredEvent = await this.getValue(key);
+            if (messageDeliveredEvent == null) {
+                continue;
+            }
+
+            await this.writeEntry({
+                kind: 'entry',
+                category: 'pendingMessageDelivered',
+                key,
+                type: 'value',
+                value: messageDeliveredEvent,
+            });
+        }
+    }
+
+    private async exportAMBTransactionHashMaps(): Promise<void> {
+        for (const key of await this.getKeys(Store.AMB_TRANSACTION_HASH_MAP_KEY_PREFIX)) {
+            const [, chainId] = key.split(Store.KEY_SEPARATOR);
+
+            // Only keep the references to the exported AMB messages.
+            const messageIdentifiers = (await this.store.backend.lrange(key, 0, -1)).filter(
+                (messageIdentifier) => this.exportedAMBMessageKeys.has(
+                    Store.getAMBMessageKey(chainId!, messageIdentifier)
+                )
+            );
+            if (messageIdentifiers.length == 0) {
+                continue;
+            }
+
+            await this.writeEntry({
+                kind: 'entry',
+                category: 'ambTransactionHashMap',
+                key,
+                type: 'list',
+                values: messageIdentifiers,
+            });
+        }
+    }
+
+    // Export the lists of JSON entries of the messages (i.e. the message timelines and the relay
+    // attempts). The `messageIdentifier` is always the last segment of their keys.
+    private async exportMessageLists(
+        prefix: string,
+        category: StoreSnapshotCategory,
+    ): Promise<void> {
+        for (const key of await this.getKeys(prefix)) {
+            const keyParts = key.split(Store.KEY_SEPARATOR);
+            const messageIdentifier = keyParts[keyParts.length - 1]!;
+            if (
+                this.isFiltered()
+                && !this.exportedMessageIdentifiers.has(messageIdentifier)
+            ) {
+                continue;
+            }
+
+            const values = await this.store.backend.lrange(key, 0, -1);
+            if (values.length == 0) {
+                continue;
+            }
+
+            await this.writeEntry({
+                kind: 'entry',
+                category,
+                key,
+                type: 'list',
+                values: values.map((value) => JSON.parse(value)),
+            });
+        }
+    }
+
+
+    // Utils
+    // ********************************************************************************************
+
+    private async getKeys(prefix: string): Promise<string[]> {
+        const keys = await this.store.backend.keys(Store.formatKey(prefix, '*'));
+        return keys.sort();
+    }
+
+    private async getValue(key: string): Promise<any | null> {
+        const data = await this.store.backend.get(key);
+        return data != null ? JSON.parse(data) : null;
+    }
+
+    private async getDeliveryAMBMessage(
+        relayState: RelayStateJSON,
+    ): Promise<AMBMessageJSON | null> {
+        const ambMessage = await this.store.getAMBMessage(
+            relayState.fromChainId,
+            relayState.messageIdentifier,
+        );
+        if (
+            ambMessage == null
+            || ambMessage.amb != relayState.amb
+            || ambMessage.fromIncentivesAddress.toLowerCase() != relayState.incentivesAddress.toLowerCase()
+        ) {
+            return null;
+        }
+
+        return ambMessage;
+    }
+
+    private isAMBProof(keyComponent: string, value: any): boolean {
+        return typeof value?.toChainId == 'string'
+            && typeof value?.messageIdentifier == 'string'
+            && typeof value?.message == 'string'
+            && value.toChainId.toLowerCase() == keyComponent;
+    }
+
+    private isFiltered(): boolean {
+        return this.chainIds != undefined || this.ambs != undefined;
+    }
+
+    private matchesFilter(
+        amb: string,
+        chainIds: (string | undefined)[],
+    ): boolean {
+        if (this.ambs != undefined && !this.ambs.has(amb)) {
+            return false;
+        }
+
+        if (this.chainIds != undefined) {
+            return chainIds.some((chainId) =>
+                chainId != undefined && this.chainIds!.has(chainId.toLowerCase())
+            );
+        }
+
+        return true;
+    }
+
+    private async writeLine(line: StoreSnapshotLine): Promise<void> {
+        await this.file!.write(JSON.stringify(line) + '\n');
+    }
+
+    private async writeEntry(entry: StoreSnapshotEntry): Promise<void> {
+        await this.writeLine(entry);
+        this.counts[entry.category]++;
+    }
+}
+
+
+
+// Import
+// ************************************************************************************************
+
+export class StoreSnapshotImporter {
+    private readonly imported = getEmptyStoreSnapshotCounts();
+    private readonly skipped = getEmptyStoreSnapshotCounts();
+
+    private readonly importedRelayStateKeys: string[] = [];
+
+
+    constructor(
+        private readonly store: Store,
+        private readonly options: StoreSnapshotImportOptions,
+    ) {}
+
+    async import(filePath: string): Promise<StoreSnapshotImportResult> {
+        const lines = createInterface({
+            input: createReadStream(filePath),
+            crlfDelay: Infinity,
+        });
+
+        let header: StoreSnapshotHeader | undefined;
+        let lineNumber = 0;
+        for await (const line of lines) {
+            lineNumber++;
+            if (line.trim() == '') {
+                continue;
+            }
+
+            const parsedLine: StoreSnapshotLine = JSON.parse(line);
+
+            if (header == undefined) {
+                header = this.validateHeader(parsedLine);
+                continue;
+            }
+
+            if (parsedLine.kind != 'entry') {
+                throw new Error(`Invalid snapshot entry on line ${lineNumber}.`);
+            }
+            await this.importEntry(parsedLine, lineNumber);
+        }
+
+        if (header == undefined) {
+            throw new Error(`Invalid snapshot: the snapshot is empty.`);
+        }
+
+        // ! The relay states are indexed once all the data has been imported, as the indexes
+        // ! depend on the AMB messages.
+        for (const key of this.importedRelayStateKeys) {
+            await this.store.indexRelayState(key);
+        }
+
+        return {
+            imported: { ...this.imported },
+            skipped: { ...this.skipped },
+            indexedRelayStates: this.importedRelayStateKeys.length,
+        };
+    }
+
+    private validateHeader(line: StoreSnapshotLine): StoreSnapshotHeader {
+        if (line.kind != 'header' || line.format != STORE_SNAPSHOT_FORMAT) {
+            throw new Error(`Invalid snapshot: the snapshot header is missing.`);
+        }
+
+        if (line.version != STORE_SNAPSHOT_VERSION) {
+            throw new Error(
+                `Unsupported snapshot version ${line.version} (expected ${STORE_SNAPSHOT_VERSION}).`
+            );
+        }
+
+        return line;
+    }
+
+    private async importEntry(
+        entry: StoreSnapshotEntry,
+        lineNumber: number,
+    ): Promise<void> {
+        const expectedPrefix = SNAPSHOT_CATEGORY_KEY_PREFIXES[entry.category];
+        if (
+            expectedPrefix == undefined
+            || !entry.key.startsWith(expectedPrefix + Store.KEY_SEPARATOR)
+        ) {
+            throw new Error(
+                `Invalid snapshot entry on line ${lineNumber}: key '${entry.key}' does not match the category '${entry.category}'.`
+            );
+        }
+
+        let imported: boolean;
+        if (entry.type == 'value') {
+            imported = await this.importValue(entry.key, JSON.stringify(entry.value));
+        } else if (entry.type == 'set') {
+            imported = await this.importSet(entry.key, entry.members);
+        } else if (entry.category == 'ambTransactionHashMap') {
+            imported = await this.importMergedList(entry.key, entry.values);
+        } else {
+            imported = await this.importList(
+                entry.key,
+                entry.values.map((value) => JSON.stringify(value)),
+            );
+        }
+
+        if (imported) {
+            this.imported[entry.category]++;
+            if (entry.category == 'relayState') {
+                this.importedRelayStateKeys.push(entry.key);
+            } else if (SNAPSHOT_MESSAGE_KEY_CATEGORIES.includes(entry.category)) {
+                await this.store.registerMessageKey(entry.key);
+            }
+        } else {
+            this.skipped[entry.category]++;
+        }
+    }
+
+    private async importValue(key: string, value: string): Promise<boolean> {
+        if (!this.options.overwrite && await this.store.backend.get(key) != null) {
+            return false;
+        }
+
+        await this.store.backend.set(key, value);
+        return true;
+    }
+
+    private async importSet(key: string, members: string[]): Promise<boolean> {
+        for (const member of members) {
+            await this.store.backend.sadd(key, member);
+        }
+        return true;
+    }
+
+    // Append the values that are missing from the existing list.
+    private async importMergedList(key: string, values: string[]): Promise<boolean> {
+        const currentValues = new Set(await this.store.backend.lrange(key, 0, -1));
+        for (const value of values) {
+            if (!currentValues.has(value)) {
+                await this.store.backend.rpush(key, value);
+            }
+        }
+        return true;
+    }
+
+    private async importList(key: string, values: string[]): Promise<boolean> {
+        const currentValues = await this.store.backend.lrange(key, 0, -1);
+        if (currentValues.length != 0) {
+            if (!this.options.overwrite) {
+                return false;
+            }
+            await this.store.backend.del(key);
+        }
+
+        for (const value of values) {
+            await this.store.backend.rpush(key, value);
+        }
+        return true;
+    }
+}
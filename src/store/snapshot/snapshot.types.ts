@@ -0,0 +1,72 @@
+// Snapshot types
+// ************************************************************************************************
+
+export const STORE_SNAPSHOT_FORMAT = 'generalised-relayer-store-snapshot';
+export const STORE_SNAPSHOT_VERSION = 1;
+
+export interface StoreSnapshotFilter {
+    chainIds?: string[];
+    ambs?: string[];
+}
+
+// First line of every snapshot.
+export interface StoreSnapshotHeader {
+    kind: 'header';
+    format: string;
+    version: number;
+    createdAt: number;
+    filter: StoreSnapshotFilter;
+}
+
+export type StoreSnapshotCategory =
+    'relayState'
+    | 'relayStateSources'
+    | 'pendingMessageDelivered'
+    | 'ambMessage'
+    | 'ambProof'
+    | 'additionalAMBData'
+    | 'ambTransactionHashMap'
+    | 'messageTimeline'
+    | 'relayAttempts';
+
+// ! Values are saved parsed (i.e. not as the raw JSON strings held by the store) so that the
+// ! snapshots are human readable.
+export type StoreSnapshotEntry = {
+    kind: 'entry';
+    category: StoreSnapshotCategory;
+    key: string;
+} & (
+    { type: 'value'; value: any }
+    | { type: 'list'; values: any[] }
+    | { type: 'set'; members: string[] }
+);
+
+export type StoreSnapshotLine = StoreSnapshotHeader | StoreSnapshotEntry;
+
+export type StoreSnapshotCounts = Record<StoreSnapshotCategory, number>;
+
+export function getEmptyStoreSnapshotCounts(): StoreSnapshotCounts {
+    return {
+        relayState: 0,
+        relayStateSources: 0,
+        pendingMessageDelivered: 0,
+        ambMessage: 0,
+        ambProof: 0,
+        additionalAMBData: 0,
+        ambTransactionHashMap: 0,
+        messageTimeline: 0,
+        relayAttempts: 0,
+    };
+}
+
+export interface StoreSnapshotImportOptions {
+    // Overwrite the keys that already exist on the target store. The transaction hash maps and
+    // the relay state sources are always merged with the existing data.
+    overwrite: boolean;
+}
+
+export interface StoreSnapshotImportResult {
+    imported: StoreSnapshotCounts;
+    skipped: StoreSnapshotCounts;
+    indexedRelayStates: number;
+}
@@ -0,0 +1,163 @@
+export const DEFAULT_STORE_BACKEND = 'redis';
+
+export function loadStoreBackendType(): string {
+    return process.env['STORE_BACKEND'] ?? DEFAULT_STORE_BACKEND;
+}
+
+export function loadStoreBackend(
+    backend: string,
+): StoreBackend {
+    const backendClass: new () => StoreBackend = loadStoreBackendModule(backend).default;
+    return new backendClass();
+}
+
+// Load the store backend on the main thread before any worker is spawned, so that the backends
+// that keep their state on the main thread (i.e. 'memory') can set it up.
+export function initializeStoreBackend(backend: string): void {
+    loadStoreBackendModule(backend);
+}
+
+function loadStoreBackendModule(backend: string): any {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(`./backends/${backend}`);
+}
+
+
+export interface StreamEntry {
+    id: string;
+    message: string;
+}
+
+
+// Storage and message broker primitives on top of which the 'Store' is built.
+export abstract class StoreBackend {
+    readonly abstract storeBackendType: string;
+
+    abstract quit(): Promise<void>;
+
+    // Verify that the storage is reachable (throws otherwise).
+    abstract ping(): Promise<void>;
+
+
+    // Storage
+    // ********************************************************************************************
+
+    abstract get(key: string): Promise<string | null>;
+
+    abstract set(key: string, value: string): Promise<void>;
+
+    abstract del(key: string): Promise<void>;
+
+    // Atomically set the value of the key only if its current value matches `expectedValue`
+    // (`null` if the key is expected not to exist). Returns whether the value was set.
+    abstract compareAndSet(
+        key: string,
+        expectedValue: string | null,
+        value: string,
+    ): Promise<boolean>;
+
+    // Atomically delete the key only if its current value matches `expectedValue`. Returns
+    // whether the key was deleted.
+    abstract compareAndDelete(key: string, expectedValue: string): Promise<boolean>;
+
+    // Return all the keys that match the given glob-style pattern.
+    abstract keys(pattern: string): Promise<string[]>;
+
+    abstract rpush(key: string, value: string): Promise<void>;
+
+    abstract lpop(key: string): Promise<string | null>;
+
+    // Atomically pop the first element of the `source` list and push it to the end of the
+    // `destination` list. Returns the moved element (or null if `source` is empty).
+    abstract lmove(source: string, destination: string): Promise<string | null>;
+
+    abstract lrange(key: string, start: number, stop: number): Promise<string[]>;
+
+    // Remove all the occurrences of `value` from the list. Empty lists are deleted.
+    abstract lrem(key: string, value: string): Promise<void>;
+
+    abstract sadd(key: string, member: string): Promise<void>;
+
+    // Remove `member` from the set. Empty sets are deleted.
+    abstract srem(key: string, member: string): Promise<void>;
+
+    abstract smembers(key: string): Promise<string[]>;
+
+    abstract zadd(key: string, score: number, member: string): Promise<void>;
+
+    // Remove `member` from the sorted set. Empty sorted sets are deleted.
+    abstract zrem(key: string, member: string): Promise<void>;
+
+    abstract zscore(key: string, member: string): Promise<number | null>;
+
+    abstract zcard(key: string): Promise<number>;
+
+    // Return the members of the sorted set with a score within `[min, max]` (`-Infinity` and
+    // `Infinity` may be used), ordered by score (in descending order if `reverse` is set).
+    abstract zrangeByScore(
+        key: string,
+        min: number,
+        max: number,
+        offset: number,
+        count: number,
+        reverse: boolean,
+    ): Promise<string[]>;
+
+
+    // Message broker
+    // ********************************************************************************************
+
+    abstract publish(channel: string, message: string): Promise<void>;
+
+    abstract subscribe(
+        channel: string,
+        callback: (message: string) => void,
+    ): Promise<void>;
+
+    abstract psubscribe(
+        pattern: string,
+        callback: (channel: string, message: string) => void,
+    ): Promise<void>;
+
+
+    // Streams
+    // ********************************************************************************************
+
+    // Append a message to the stream, trimming the stream to (approximately) `maxLength` entries.
+    // ! The oldest entries are trimmed whether or not they have been delivered/acknowledged.
+    abstract streamAdd(stream: string, message: string, maxLength: number): Promise<string>;
+
+    // Create the consumer group if it does not exist yet. The group receives all the entries held
+    // by the stream, including the ones added before its creation.
+    abstract streamCreateGroup(stream: string, group: string): Promise<void>;
+
+    // Read the new entries of the stream for the given consumer. The entries remain pending (i.e.
+    // assigned to the consumer) until acknowledged.
+    abstract streamReadGroup(
+        stream: string,
+        group: string,
+        consumer: string,
+        count: number,
+    ): Promise<StreamEntry[]>;
+
+    // Transfer to the given consumer all the pending entries of the group (of any consumer) that
+    // have not been delivered nor claimed for at least `minIdleTime` milliseconds. The pending
+    // entries are scanned in batches of `count` entries.
+    abstract streamClaimIdle(
+        stream: string,
+        group: string,
+        consumer: string,
+        minIdleTime: number,
+        count: number,
+    ): Promise<StreamEntry[]>;
+
+    // Claim the given pending entries for the consumer, resetting their idle time.
+    abstract streamClaim(
+        stream: string,
+        group: string,
+        consumer: string,
+        ids: string[],
+    ): Promise<void>;
+
+    abstract streamAck(stream: string, group: string, id: string): Promise<void>;
+}
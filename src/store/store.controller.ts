@@ -1,7 +1,17 @@
-import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import { BadRequestException, Body, Controller, Delete, Get, NotFoundException, Param, Post, Query } from '@nestjs/common';
 import { LoggerService } from 'src/logger/logger.service';
 import { Store } from './store.lib';
-import { PrioritiseMessage } from './store.types';
+import { AMBMessagesQuery, HistoryBountiesQuery, MessageTimelineEvent, MessagesQuery, PrioritiseMessage, RelayPolicyEntry, RelayPolicyEntryBody, RelayPolicyEntryQuery, RelayStateQuery, RelayStateQueryCursor, RelayStateQueryResult, RelayStatus } from './store.types';
+import { RetentionService } from './retention/retention.service';
+import { RetentionMetrics } from './retention/retention.types';
+import { PersisterService } from './persister/persister.service';
+import { HistoryService } from './history/history.service';
+import { HistoryBounty, HistoryBountyQueryResult } from './history/history.types';
+import { MessageStatusService } from './message-status/message-status.service';
+import { MessageStatus, MessageStatusFilter } from './message-status/message-status.types';
+import { ApiSchemaValidationPipe, CHAIN_ID_API_SCHEMA } from 'src/api/api.schema';
+import { RequireScope } from 'src/auth/auth.decorator';
+import { AMB_MESSAGES_QUERY_SCHEMA, HISTORY_BOUNTIES_QUERY_SCHEMA, HISTORY_BOUNTY_QUERY_SCHEMA, MESSAGES_QUERY_SCHEMA, MESSAGE_IDENTIFIER_API_SCHEMA, MESSAGE_STATUS_QUERY_SCHEMA, PRIORITISE_MESSAGE_BODY_SCHEMA, RELAY_POLICY_ENTRY_BODY_SCHEMA, RELAY_POLICY_ENTRY_QUERY_SCHEMA, RELAY_POLICY_VALUE_EXPRS, TRANSACTION_HASH_API_SCHEMA } from './store.schema';
 
 
 @Controller()
@@ -11,27 +21,160 @@ export class StoreController {
 
     constructor(
         private readonly loggerService: LoggerService,
+        private readonly retentionService: RetentionService,
+        private readonly persisterService: PersisterService,
+        private readonly historyService: HistoryService,
+        private readonly messageStatusService: MessageStatusService,
     ) {
         this.store = new Store();
     }
 
     @Get('getAMBMessages')
-    async getAMBMessages(@Query() query: any): Promise<any | undefined> {
+    async getAMBMessages(
+        @Query(new ApiSchemaValidationPipe(AMB_MESSAGES_QUERY_SCHEMA)) query: AMBMessagesQuery,
+    ): Promise<string> {
         const chainId = query.chainId;
         const txHash = query.txHash;
 
-        if (chainId == undefined || txHash == undefined) {
-            return undefined; //TODO return error
+        const amb = await this.store.getAMBMessagesByTransactionHash(chainId, txHash);
+
+        // Fallback to the history if the messages have been pruned from the store.
+        if (amb.length == 0 && this.historyService.isEnabled()) {
+            const historyAMB = await this.historyService.getAMBMessagesByTransactionHash(
+                chainId,
+                txHash,
+            );
+            return JSON.stringify(historyAMB);
         }
 
-        const amb = await this.store.getAMBMessagesByTransactionHash(chainId, txHash);
-        if (amb != null) return JSON.stringify(amb);
+        return JSON.stringify(amb);
     }
 
-    @Post('prioritiseAMBMessage')
-    async prioritiseAMBMessage(@Body() body: PrioritiseMessage) {
-        //TODO schema validate request
+    // Query the relay states. Supported query parameters:
+    // - Filters: `status` (e.g. 'BountyPlaced'), `amb`, `fromChainId`, `toChainId`.
+    // - Creation time: `createdAfter`/`createdBefore` (timestamps in ms) and `olderThan` (age in ms).
+    // - Pagination: `limit`, `cursor` (as returned by the previous query) and `order` ('asc'/'desc').
+    @Get('messages')
+    async getMessages(
+        @Query(new ApiSchemaValidationPipe(MESSAGES_QUERY_SCHEMA)) query: MessagesQuery,
+    ): Promise<RelayStateQueryResult> {
+        const relayStateQuery: RelayStateQuery = {
+            status: this.parseRelayStatus(query.status),
+            amb: query.amb,
+            fromChainId: query.fromChainId,
+            toChainId: query.toChainId,
+            createdAfter: query.createdAfter,
+            createdBefore: query.createdBefore,
+            order: query.order,
+        };
+
+        if (query.olderThan != undefined) {
+            relayStateQuery.createdBefore = Math.min(
+                relayStateQuery.createdBefore ?? Infinity,
+                Date.now() - query.olderThan,
+            );
+        }
+
+        let cursor: RelayStateQueryCursor | undefined;
+        if (query.cursor != undefined) {
+            cursor = Store.decodeRelayStateQueryCursor(query.cursor, relayStateQuery) ?? undefined;
+            if (cursor == undefined) {
+                throw new BadRequestException(`Invalid cursor (the cursor does not belong to the query).`);
+            }
+        }
+
+        return this.store.queryRelayStates(relayStateQuery, cursor, query.limit);
+    }
+
+    // Get the merged status of a message: its relay states, AMB messages (with their decoded
+    // incentives payloads and proof availability), submitter queue state and submitted
+    // transactions. Optionally filtered by `amb` and `fromChainId`.
+    @Get('messages/:messageIdentifier')
+    async getMessageStatus(
+        @Param('messageIdentifier', new ApiSchemaValidationPipe(MESSAGE_IDENTIFIER_API_SCHEMA)) messageIdentifier: string,
+        @Query(new ApiSchemaValidationPipe(MESSAGE_STATUS_QUERY_SCHEMA)) query: MessageStatusFilter,
+    ): Promise<MessageStatus> {
+        return this.messageStatusService.getMessageStatus(
+            messageIdentifier,
+            {
+                amb: query.amb,
+                fromChainId: query.fromChainId,
+            },
+        );
+    }
+
+    // Get the merged status of the messages emitted by the given (source) transaction.
+    @Get('messages/transaction/:chainId/:transactionHash')
+    async getMessageStatusesByTransactionHash(
+        @Param('chainId', new ApiSchemaValidationPipe(CHAIN_ID_API_SCHEMA)) chainId: string,
+        @Param('transactionHash', new ApiSchemaValidationPipe(TRANSACTION_HASH_API_SCHEMA)) transactionHash: string,
+    ): Promise<MessageStatus[]> {
+        return this.messageStatusService.getMessageStatusesByTransactionHash(
+            chainId,
+            transactionHash,
+        );
+    }
+
+    @Get('messages/:messageIdentifier/timeline')
+    async getMessageTimeline(
+        @Param('messageIdentifier', new ApiSchemaValidationPipe(MESSAGE_IDENTIFIER_API_SCHEMA)) messageIdentifier: string,
+    ): Promise<{ messageIdentifier: string, events: MessageTimelineEvent[] }> {
+        const events = await this.store.getMessageTimelineByMessageIdentifier(messageIdentifier);
+        return { messageIdentifier, events };
+    }
+
+    // Query the bounties persisted on the history database (newest first). Supported query
+    // parameters: `fromChainId`, `toChainId`, `status` (e.g. 'BountyClaimed'), `limit` and
+    // `cursor` (as returned by the previous query).
+    @Get('history/bounties')
+    async getHistoryBounties(
+        @Query(new ApiSchemaValidationPipe(HISTORY_BOUNTIES_QUERY_SCHEMA)) query: HistoryBountiesQuery,
+    ): Promise<HistoryBountyQueryResult> {
+        this.checkHistoryEnabled();
+
+        return this.historyService.queryBounties(
+            {
+                fromChainId: query.fromChainId,
+                toChainId: query.toChainId,
+                status: this.parseRelayStatus(query.status),
+            },
+            query.cursor,
+            query.limit,
+        );
+    }
+
+    // Get the persisted bounties (with their AMB payloads, relay attempts and submit/exec/ack
+    // transactions) of the given identifier. Optionally filtered by `fromChainId`.
+    @Get('history/bounties/:bountyIdentifier')
+    async getHistoryBounty(
+        @Param('bountyIdentifier', new ApiSchemaValidationPipe(MESSAGE_IDENTIFIER_API_SCHEMA)) bountyIdentifier: string,
+        @Query(new ApiSchemaValidationPipe(HISTORY_BOUNTY_QUERY_SCHEMA)) query: { fromChainId?: string },
+    ): Promise<HistoryBounty[]> {
+        this.checkHistoryEnabled();
+
+        return this.historyService.getBounties(bountyIdentifier, query.fromChainId);
+    }
+
+    private checkHistoryEnabled(): void {
+        if (!this.historyService.isEnabled()) {
+            throw new BadRequestException(`The history is not available (the persister is not enabled).`);
+        }
+    }
+
+    // ! The 'status' name is validated by the query schemas.
+    private parseRelayStatus(status: string | undefined): RelayStatus | undefined {
+        if (status == undefined) {
+            return undefined;
+        }
 
+        return RelayStatus[status as keyof typeof RelayStatus];
+    }
+
+    @Post('prioritiseAMBMessage')
+    @RequireScope('prioritise')
+    async prioritiseAMBMessage(
+        @Body(new ApiSchemaValidationPipe(PRIORITISE_MESSAGE_BODY_SCHEMA)) body: PrioritiseMessage,
+    ): Promise<void> {
         this.loggerService.info(
             {
                 messageIdentifier: body.messageIdentifier,
@@ -42,10 +185,101 @@ export class StoreController {
             `Message prioritisation requested.`
         )
 
+        const ambMessage = await this.store.getAMBMessage(
+            body.sourceChainId,
+            body.messageIdentifier,
+        );
+        if (ambMessage == null) {
+            throw new NotFoundException(
+                `AMB message '${body.messageIdentifier}' not found on chain '${body.sourceChainId}'.`
+            );
+        }
+        if (ambMessage.amb != body.amb || ambMessage.toChainId != body.destinationChainId) {
+            throw new BadRequestException(
+                `The AMB message '${body.messageIdentifier}' does not match the given 'amb'/'destinationChainId'.`
+            );
+        }
+
         await this.store.setAMBMessagePriority(
             body.sourceChainId,
             body.messageIdentifier,
             true,
         );
     }
+
+    @Get('getRetentionMetrics')
+    getRetentionMetrics(): RetentionMetrics {
+        return this.retentionService.getMetrics();
+    }
+
+    @Post('requestPersisterBackfill')
+    @RequireScope('admin')
+    requestPersisterBackfill(): void {
+        this.loggerService.info(`Persister backfill requested.`);
+
+        if (!this.persisterService.requestBackfill()) {
+            throw new BadRequestException(`The persister is not running.`);
+        }
+    }
+
+    // Relay policy (blocklist/allowlist) management. Changes are applied by the collectors and
+    // submitters without requiring a restart.
+    @Get('policy/entries')
+    @RequireScope('admin')
+    async getRelayPolicyEntries(): Promise<RelayPolicyEntry[]> {
+        return this.store.getRelayPolicyEntries();
+    }
+
+    @Post('policy/entries')
+    @RequireScope('admin')
+    async setRelayPolicyEntry(
+        @Body(new ApiSchemaValidationPipe(RELAY_POLICY_ENTRY_BODY_SCHEMA)) body: RelayPolicyEntryBody,
+    ): Promise<RelayPolicyEntry> {
+        this.checkRelayPolicyValue(body);
+
+        const entry: RelayPolicyEntry = {
+            mode: body.mode,
+            target: body.target,
+            value: body.value.toLowerCase(),
+            reason: body.reason,
+            createdAt: Date.now(),
+        };
+
+        this.loggerService.info(entry, `Relay policy entry set.`);
+        await this.store.setRelayPolicyEntry(entry);
+
+        return entry;
+    }
+
+    @Delete('policy/entries')
+    @RequireScope('admin')
+    async deleteRelayPolicyEntry(
+        @Query(new ApiSchemaValidationPipe(RELAY_POLICY_ENTRY_QUERY_SCHEMA)) query: RelayPolicyEntryQuery,
+    ): Promise<void> {
+        this.checkRelayPolicyValue(query);
+
+        const deleted = await this.store.deleteRelayPolicyEntry(query.mode, query.target, query.value);
+        if (!deleted) {
+            throw new NotFoundException(
+                `Relay policy entry '${query.mode}' '${query.target}' '${query.value}' not found.`
+            );
+        }
+
+        this.loggerService.info(
+            {
+                mode: query.mode,
+                target: query.target,
+                value: query.value,
+            },
+            `Relay policy entry removed.`,
+        );
+    }
+
+    private checkRelayPolicyValue(entry: RelayPolicyEntryQuery): void {
+        if (!new RegExp(RELAY_POLICY_VALUE_EXPRS[entry.target]).test(entry.value)) {
+            throw new BadRequestException(
+                `Invalid relay policy '${entry.target}' value '${entry.value}'.`
+            );
+        }
+    }
 }
@@ -1,18 +1,46 @@
-import { OnGatewayInit, SubscribeMessage, WebSocketGateway, WsResponse } from "@nestjs/websockets";
-import { Observable, Subject } from 'rxjs';
+import { MessageBody, OnGatewayInit, SubscribeMessage, WebSocketGateway, WsResponse } from "@nestjs/websockets";
+import { Observable, Subject, concat, defer, filter, from, map } from 'rxjs';
 import { LoggerService } from "src/logger/logger.service";
-import { AMBMessage } from "./store.types";
+import { AMBMessage, AMBMessageEvent, AMBMessageSubscription } from "./store.types";
 import { Store } from "./store.lib";
+import { AuthGuard } from "src/auth/auth.guard";
+import { UseGuards } from "@nestjs/common";
+import { ApiWsSchemaValidationPipe } from "src/api/api.schema";
+import { MessageContext, ParsePayload } from "src/payload/decode.payload";
+import { AMB_MESSAGE_SUBSCRIPTION_SCHEMA } from "./store.schema";
 
 const newAMBMessageEventName = 'ambMessage';
 
+// Number of AMB message events kept to be replayed to the reconnecting clients.
+const AMB_MESSAGE_REPLAY_BUFFER_SIZE = 1000;
+
+
+// ! NOTE
+// ! Every AMB message event is assigned an `eventId` ('<epoch>-<sequence>', where the epoch is the
+// ! gateway start time). Clients that reconnect may provide the last `eventId` received as the
+// ! subscription `cursor` to get the buffered events emitted since. If the cursor is not found on
+// ! the buffer (e.g. if the relayer has restarted) all the buffered events are replayed.
+
+interface AMBMessageEventEntry {
+    sequence: number;
+    event: AMBMessageEvent;
+    applications: string[];     // Lowercase source/destination application addresses.
+}
+
 @WebSocketGateway()
+@UseGuards(AuthGuard)
 export class StoreGateway implements OnGatewayInit {
 
-    constructor(private readonly loggerService: LoggerService) {}
+    constructor(
+        private readonly loggerService: LoggerService,
+    ) {}
 
     private store = new Store();
-    private onAMBMessageObservable = new Subject<WsResponse<AMBMessage>>();
+    private onAMBMessageObservable = new Subject<AMBMessageEventEntry>();
+
+    private readonly epoch = Date.now();
+    private sequence = 0;
+    private readonly replayBuffer: AMBMessageEventEntry[] = [];
 
     async afterInit() {
         this.loggerService.info("Store gateway initialized.");
@@ -20,24 +48,108 @@ export class StoreGateway implements OnGatewayInit {
     }
 
     @SubscribeMessage(newAMBMessageEventName)
-    subscribeToAMBMessages(): Observable<WsResponse<AMBMessage>> {
-        this.loggerService.info("Client subscribed to new AMB messages.")
-        return this.onAMBMessageObservable;
+    subscribeToAMBMessages(
+        @MessageBody(new ApiWsSchemaValidationPipe(AMB_MESSAGE_SUBSCRIPTION_SCHEMA)) subscription: AMBMessageSubscription,
+    ): Observable<WsResponse<AMBMessageEvent>> {
+        this.loggerService.info(subscription, "Client subscribed to new AMB messages.")
+
+        // Take the replayed events on subscription, so that no event is missed/duplicated.
+        return defer(() => concat(
+            from(this.getReplayedEntries(subscription.cursor)),
+            this.onAMBMessageObservable,
+        )).pipe(
+            filter((entry) => this.matchesSubscription(entry, subscription)),
+            map((entry) => ({
+                event: newAMBMessageEventName,
+                data: entry.event,
+            })),
+        );
     }
 
     private async listenForNewAMBMessages(): Promise<void> {
         this.loggerService.info(`Listening for new AMB messages to broadcast.`);
 
+        // ! The AMB messages are always published on the channels (regardless of the channel
+        // ! mode). Every gateway instance must receive all the messages (to broadcast them to its
+        // ! own clients), which rules out the (shared) stream consumer groups.
         const onAMBMessageChannelPattern = Store.getOnAMBMessageChannel('*');
 
         await this.store.onPattern(onAMBMessageChannelPattern, (event: any) => {
-
-            const message = event as AMBMessage;
-            this.onAMBMessageObservable.next({
-                event: newAMBMessageEventName,
-                data: message
-            })
+            this.broadcastAMBMessage(event as AMBMessage);
         });
     }
 
-}
\ No newline at end of file
+    private broadcastAMBMessage(message: AMBMessage): void {
+        const sequence = this.sequence++;
+        const entry: AMBMessageEventEntry = {
+            sequence,
+            event: {
+                ...message,
+                eventId: `${this.epoch}-${sequence}`,
+            },
+            applications: this.getApplications(message),
+        };
+
+        this.replayBuffer.push(entry);
+        if (this.replayBuffer.length > AMB_MESSAGE_REPLAY_BUFFER_SIZE) {
+            this.replayBuffer.shift();
+        }
+
+        this.onAMBMessageObservable.next(entry);
+    }
+
+
+
+    // Subscription helpers
+    // ********************************************************************************************
+
+    private getReplayedEntries(cursor: string | undefined): AMBMessageEventEntry[] {
+        if (cursor == undefined) {
+            return [];
+        }
+
+        const [epoch, sequence] = cursor.split('-').map(Number);
+        const oldestSequence = this.replayBuffer[0]?.sequence;
+        if (
+            epoch != this.epoch
+            || oldestSequence == undefined
+            || sequence! < oldestSequence - 1
+        ) {
+            return [...this.replayBuffer];
+        }
+
+        return this.replayBuffer.filter((entry) => entry.sequence > sequence!);
+    }
+
+    private matchesSubscription(
+        entry: AMBMessageEventEntry,
+        subscription: AMBMessageSubscription,
+    ): boolean {
+        const message = entry.event;
+        return (subscription.amb == undefined || message.amb == subscription.amb)
+            && (subscription.fromChainId == undefined || message.fromChainId == subscription.fromChainId)
+            && (subscription.toChainId == undefined || message.toChainId == subscription.toChainId)
+            && (
+                subscription.application == undefined
+                || entry.applications.includes(subscription.application.toLowerCase())
+            );
+    }
+
+    private getApplications(message: AMBMessage): string[] {
+        try {
+            const payload = ParsePayload(message.incentivesPayload);
+            if (payload == undefined) {
+                return [];
+            }
+
+            const applications = [payload.sourceApplicationAddress.toLowerCase()];
+            if (payload.context == MessageContext.CTX_SOURCE_TO_DESTINATION) {
+                applications.push(payload.toApplication.toLowerCase());
+            }
+            return applications;
+        } catch {
+            return [];
+        }
+    }
+
+}
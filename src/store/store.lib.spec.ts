@@ -0,0 +1,420 @@
+import { wait } from 'src/common/utils';
+import { Store } from './store.lib';
+import { clearTestStore, createTestStore, getBountyPlacedEvent, getRelayStateIndex, getTransactionDescription } from './store.spec-utils';
+import { AMBMessage, RelayStateIndex, RelayStateQuery, RelayStatus } from './store.types';
+
+const STREAM_GROUP = 'test_group';
+
+// Beyond both the stream claim interval and the stream claim min idle time.
+const STREAM_IDLE_TIME = 10 * 60_000;
+
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error('Timeout waiting for condition.');
+        }
+        await wait(10);
+    }
+}
+
+describe('Store', () => {
+    let store: Store;
+    let streamIndex = 0;
+
+    beforeEach(() => {
+        store = createTestStore();
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await store.quit();
+        clearTestStore();
+    });
+
+    // Shift the clock used by the stream consumers (and the memory backend) into the future.
+    const advanceClock = (ms: number) => {
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + ms);
+    };
+
+    const getStream = () => `test_stream:${streamIndex++}`;
+
+
+    const getAMBMessage = (relayStateIndex: RelayStateIndex): AMBMessage => ({
+        ...getTransactionDescription(1),
+        messageIdentifier: relayStateIndex.messageIdentifier,
+        amb: relayStateIndex.amb,
+        fromChainId: relayStateIndex.fromChainId,
+        toChainId: '2',
+        fromIncentivesAddress: relayStateIndex.incentivesAddress,
+        incentivesPayload: '0x',
+    });
+
+    describe('relay state', () => {
+        it('merges concurrent updates', async () => {
+            const relayStateIndex = getRelayStateIndex();
+            await store.setAMBMessage(relayStateIndex.fromChainId, getAMBMessage(relayStateIndex));
+
+            await Promise.all([
+                store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex)),
+                store.setMessageDelivered(
+                    relayStateIndex.amb,
+                    relayStateIndex.messageIdentifier,
+                    { ...getTransactionDescription(2), toChainId: '2' },
+                ),
+                store.setBountyClaimed(relayStateIndex, {
+                    ...getTransactionDescription(3),
+                    gasSpentOnDestination: 150000n,
+                }),
+                store.setBountyIncreased(relayStateIndex, {
+                    ...getTransactionDescription(4),
+                    newDeliveryGasPrice: 20n,
+                    newAckGasPrice: 20n,
+                }),
+                store.setBountyIncreased(relayStateIndex, {
+                    ...getTransactionDescription(5),
+                    newDeliveryGasPrice: 30n,
+                    newAckGasPrice: 30n,
+                }),
+                store.setDeliveryCost(relayStateIndex, 1000n),
+            ]);
+
+            const relayState = await store.getRelayState(relayStateIndex);
+            expect(relayState).toMatchObject({
+                ...relayStateIndex,
+                status: RelayStatus.BountyClaimed,
+                bountyPlacedEvent: getBountyPlacedEvent(relayStateIndex),
+                messageDeliveredEvent: { ...getTransactionDescription(2), toChainId: '2' },
+                bountyClaimedEvent: { gasSpentOnDestination: 150000n },
+                bountyIncreasedEvent: { newDeliveryGasPrice: 30n, newAckGasPrice: 30n },
+                deliveryGasCost: 1000n,
+            });
+        });
+
+        it('registers the deliveries received before the AMB message', async () => {
+            const relayStateIndex = getRelayStateIndex();
+
+            await store.setMessageDelivered(
+                relayStateIndex.amb,
+                relayStateIndex.messageIdentifier,
+                { ...getTransactionDescription(2), toChainId: '2' },
+            );
+
+            await Promise.all([
+                store.setAMBMessage(relayStateIndex.fromChainId, getAMBMessage(relayStateIndex)),
+                store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex)),
+            ]);
+
+            const relayState = await store.getRelayState(relayStateIndex);
+            expect(relayState?.status).toBe(RelayStatus.MessageDelivered);
+            expect(relayState?.bountyPlacedEvent).toBeDefined();
+            expect(relayState?.messageDeliveredEvent?.toChainId).toBe('2');
+        });
+
+        it('retries the update if the state is modified concurrently', async () => {
+            const relayStateIndex = getRelayStateIndex();
+            const compareAndSet = store.backend.compareAndSet.bind(store.backend);
+
+            // Register the 'BountyPlaced' event right before the first compare-and-set.
+            let concurrentUpdate: Promise<void> | undefined;
+            const spy = jest.spyOn(store.backend, 'compareAndSet').mockImplementation(
+                async (key, expectedValue, value) => {
+                    if (concurrentUpdate == undefined) {
+                        concurrentUpdate = store.setBountyPlaced(
+                            relayStateIndex,
+                            getBountyPlacedEvent(relayStateIndex),
+                        );
+                        await concurrentUpdate;
+                    }
+                    return compareAndSet(key, expectedValue, value);
+                }
+            );
+
+            await store.setBountyClaimed(relayStateIndex, getTransactionDescription(3));
+
+            // First try (conflict), concurrent update, second try.
+            expect(spy).toHaveBeenCalledTimes(3);
+
+            const relayState = await store.getRelayState(relayStateIndex);
+            expect(relayState?.status).toBe(RelayStatus.BountyClaimed);
+            expect(relayState?.bountyPlacedEvent).toBeDefined();
+            expect(relayState?.bountyClaimedEvent).toBeDefined();
+        });
+
+        it('fails after the maximum number of update tries', async () => {
+            const relayStateIndex = getRelayStateIndex();
+
+            const spy = jest.spyOn(store.backend, 'compareAndSet').mockResolvedValue(false);
+
+            await expect(
+                store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex))
+            ).rejects.toThrow('maximum number of tries reached');
+
+            expect(spy).toHaveBeenCalledTimes(20);
+            expect(await store.getRelayState(relayStateIndex)).toBeNull();
+        });
+    });
+
+    describe('relay state queries', () => {
+        // Query all the pages of the query, `limit` relay states at a time.
+        const queryAll = async (query: RelayStateQuery, limit: number, beforePage?: () => Promise<void>) => {
+            const messageIdentifiers: string[] = [];
+            let cursor: string | undefined;
+            do {
+                await beforePage?.();
+                const decodedCursor = cursor != undefined
+                    ? Store.decodeRelayStateQueryCursor(cursor, query)!
+                    : undefined;
+                const result = await store.queryRelayStates(query, decodedCursor, limit);
+                messageIdentifiers.push(...result.relayStates.map((relayState) => relayState.messageIdentifier));
+                cursor = result.nextCursor;
+            } while (cursor != undefined);
+            return messageIdentifiers;
+        };
+
+        const registerRelayStates = async (count: number) => {
+            const relayStateIndexes = Array.from({ length: count }, () => getRelayStateIndex());
+            for (const relayStateIndex of relayStateIndexes) {
+                await store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex));
+            }
+            return relayStateIndexes.map((relayStateIndex) => relayStateIndex.messageIdentifier);
+        };
+
+        it('returns every relay state once across the pages', async () => {
+            // Relay states with equal creation timestamps.
+            jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+            const messageIdentifiers = await registerRelayStates(5);
+
+            expect(await queryAll({}, 2)).toEqual(messageIdentifiers);
+            expect(await queryAll({ order: 'desc' }, 2)).toEqual([...messageIdentifiers].reverse());
+        });
+
+        it('continues on the same index when the index sizes change', async () => {
+            // Claimed relay states that are only present on the amb index.
+            for (let i = 0; i < 2; i++) {
+                await store.setBountyClaimed(getRelayStateIndex(), getTransactionDescription(3));
+            }
+            const messageIdentifiers = await registerRelayStates(4);
+
+            // The query starts on the (smaller) status index. Grow it over the amb index between
+            // the pages.
+            let page = 0;
+            const result = await queryAll({ status: RelayStatus.BountyPlaced, amb: 'mock' }, 2, async () => {
+                if (page++ == 1) {
+                    for (let i = 0; i < 3; i++) {
+                        const relayStateIndex = { ...getRelayStateIndex(), amb: 'other' };
+                        await store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex));
+                    }
+                }
+            });
+
+            expect(result).toEqual(messageIdentifiers);
+        });
+
+        it('rejects the cursors of other queries', async () => {
+            await registerRelayStates(2);
+
+            const { nextCursor } = await store.queryRelayStates({ amb: 'mock' }, undefined, 1);
+
+            expect(Store.decodeRelayStateQueryCursor(nextCursor!, { amb: 'mock' })).not.toBeNull();
+            expect(Store.decodeRelayStateQueryCursor(nextCursor!, { amb: 'other' })).toBeNull();
+            expect(Store.decodeRelayStateQueryCursor('invalid', { amb: 'mock' })).toBeNull();
+        });
+    });
+
+    describe('message keys', () => {
+        // Register a message with a relay attempt.
+        const registerMessage = async (relayStateIndex: RelayStateIndex) => {
+            await store.setAMBMessage(relayStateIndex.fromChainId, getAMBMessage(relayStateIndex));
+            await store.setBountyPlaced(relayStateIndex, getBountyPlacedEvent(relayStateIndex));
+            await store.addRelayAttempt({
+                attemptIdentifier: getTransactionDescription(2).transactionHash,
+                relayStateIndex,
+                chainId: '2',
+                toChainId: '2',
+                isDelivery: true,
+                priority: false,
+                status: 'confirmed',
+                timestamp: 1,
+            });
+        };
+
+        it('looks up the data of a message without scanning the store keys', async () => {
+            const relayStateIndex = getRelayStateIndex();
+            await registerMessage(relayStateIndex);
+            await registerMessage(getRelayStateIndex());
+
+            const spy = jest.spyOn(store.backend, 'keys');
+
+            const messageIdentifier = relayStateIndex.messageIdentifier.toUpperCase();
+            expect(await store.getRelayStatesByMessageIdentifier(messageIdentifier)).toMatchObject([
+                { messageIdentifier: relayStateIndex.messageIdentifier },
+            ]);
+            expect(await store.getAMBMessagesByMessageIdentifier(messageIdentifier)).toHaveLength(1);
+            expect(await store.getRelayAttemptsByMessageIdentifier(messageIdentifier)).toHaveLength(1);
+
+            await store.addMessageTimelineEvent(relayStateIndex.messageIdentifier, {
+                type: 'rejected',
+                source: 'submitter',
+            });
+            expect(
+                (await store.getMessageTimelineByMessageIdentifier(messageIdentifier)).map((event) => event.type).sort()
+            ).toEqual(['collected', 'rejected']);
+
+            expect(spy).not.toHaveBeenCalled();
+        });
+
+        it('unregisters the deleted keys', async () => {
+            const relayStateIndex = getRelayStateIndex();
+            await registerMessage(relayStateIndex);
+
+            const key = Store.getRelayStateKey(relayStateIndex);
+            await store.deleteRelayStateByKey(key, (await store.backend.get(key))!);
+            await store.deleteAMBMessage(
+                relayStateIndex.fromChainId,
+                getAMBMessage(relayStateIndex),
+            );
+            await store.deleteRelayAttempts(relayStateIndex);
+            await store.deleteMessageTimeline(relayStateIndex);
+
+            expect(
+                await store.backend.smembers(Store.getMessageKeysKey(relayStateIndex.messageIdentifier))
+            ).toEqual([]);
+        });
+
+        it('registers the keys saved before the message keys were introduced', async () => {
+            const relayStateIndex = getRelayStateIndex();
+            await registerMessage(relayStateIndex);
+            await store.backend.del(Store.getMessageKeysKey(relayStateIndex.messageIdentifier));
+
+            expect(await store.indexMissingMessageKeys()).toBe(4);
+            expect(await store.indexMissingMessageKeys()).toBe(0);
+            expect(
+                await store.getRelayStatesByMessageIdentifier(relayStateIndex.messageIdentifier)
+            ).toHaveLength(1);
+        });
+    });
+
+    describe('streams', () => {
+        it('acknowledges the entries once the callback completes', async () => {
+            const stream = getStream();
+            const received: string[] = [];
+
+            await store.onStream<string>(
+                stream,
+                STREAM_GROUP,
+                Store.getStreamConsumer('test'),
+                (payload) => { received.push(payload); },
+            );
+            await store.postStreamMessage(stream, 'a');
+            await waitFor(() => received.length == 1);
+
+            advanceClock(STREAM_IDLE_TIME);
+            await wait(500);
+
+            expect(received).toEqual(['a']);
+        });
+
+        it('delivers the entries added before the group was created', async () => {
+            const stream = getStream();
+            const received: string[] = [];
+
+            await store.postStreamMessage(stream, 'a');
+            await store.onStream<string>(
+                stream,
+                STREAM_GROUP,
+                Store.getStreamConsumer('test'),
+                (payload) => { received.push(payload); },
+            );
+            await store.postStreamMessage(stream, 'b');
+            await waitFor(() => received.length == 2);
+
+            expect(received).toEqual(['a', 'b']);
+        });
+
+        it('replays the entries for which the callback failed', async () => {
+            const stream = getStream();
+            const received: string[] = [];
+
+            await store.onStream<string>(
+                stream,
+                STREAM_GROUP,
+                Store.getStreamConsumer('test'),
+                (payload) => {
+                    received.push(payload);
+                    if (received.length == 1) {
+                        throw new Error('Callback failure');
+                    }
+                },
+            );
+            await store.postStreamMessage(stream, 'a');
+            await waitFor(() => received.length == 1);
+
+            advanceClock(STREAM_IDLE_TIME);
+            await waitFor(() => received.length == 2);
+
+            expect(received).toEqual(['a', 'a']);
+        });
+
+        it('keeps the manually acknowledged entries claimed until acknowledged', async () => {
+            const stream = getStream();
+            const received: string[] = [];
+            const entryIds: string[] = [];
+
+            await store.onStream<string>(
+                stream,
+                STREAM_GROUP,
+                Store.getStreamConsumer('test'),
+                (payload, entryId) => {
+                    received.push(payload);
+                    entryIds.push(entryId);
+                },
+                true,
+            );
+            await store.postStreamMessage(stream, 'a');
+            await waitFor(() => received.length == 1);
+
+            // The entry is being processed by the consumer: it must not be replayed.
+            advanceClock(STREAM_IDLE_TIME);
+            await wait(500);
+            expect(received).toEqual(['a']);
+
+            await store.ackStreamMessage(stream, STREAM_GROUP, entryIds[0]!);
+
+            advanceClock(2 * STREAM_IDLE_TIME);
+            await wait(500);
+            expect(received).toEqual(['a']);
+        });
+
+        it('claims the unacknowledged entries of other consumers', async () => {
+            const stream = getStream();
+            const received: string[] = [];
+
+            // Consumer that stops without acknowledging its entries.
+            const stoppedStore = createTestStore();
+            await stoppedStore.onStream<string>(
+                stream,
+                STREAM_GROUP,
+                Store.getStreamConsumer('test'),
+                () => undefined,
+                true,
+            );
+            await store.postStreamMessage(stream, 'a');
+            await wait(500);
+            await stoppedStore.quit();
+
+            await store.onStream<string>(
+                stream,
+                STREAM_GROUP,
+                Store.getStreamConsumer('test'),
+                (payload) => { received.push(payload); },
+            );
+
+            advanceClock(STREAM_IDLE_TIME);
+            await waitFor(() => received.length == 1);
+
+            expect(received).toEqual(['a']);
+        });
+    });
+});
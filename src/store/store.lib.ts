@@ -1,4 +1,8 @@
-import { Redis } from 'ioredis';
+import { StoreBackend, StreamEntry, loadStoreBackend, loadStoreBackendType } from './store.backend';
+import { wait } from 'src/common/utils';
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+import { MessageContext } from 'src/payload/decode.payload';
 
 import {
     AMBMessage,
@@ -7,12 +11,31 @@ import {
     BountyIncreasedEventDetails,
     BountyPlacedEventDetails,
     RelayState,
+    RelayStateIndex,
     RelayStateJSON,
+    RelayStateFilter,
+    RelayStateQuery,
+    RelayStateQueryCursor,
+    RelayStateQueryResult,
     RelayStatus,
     MessageDeliveredEventDetails,
+    MessageDeliveredEventDetailsJSON,
     KeyActionMessage,
     AMBMessageJSON,
     AMBProofJSON,
+    StoreChannelMode,
+    MessageTimelineEvent,
+    MessageTimelineEventMessage,
+    RelayAttempt,
+    RelayAttemptJSON,
+    RelayPolicyEntry,
+    RelayPolicyMode,
+    RelayPolicyTarget,
+    SponsorshipSpend,
+    SponsoredMessage,
+    GasAccuracyKind,
+    GasAccuracyRouteStats,
+    GasAccuracyStats,
 } from 'src/store/store.types';
 
 // Monkey patch BigInt. https://github.com/GoogleChromeLabs/jsbi/issues/30#issuecomment-1006086291
@@ -22,29 +45,32 @@ import {
 
 
 // Constants
-const DEFAULT_REDIS_PORT = 6379;
-const DEFAULT_REDIS_DB_INDEX = 4;
+const MAX_RELAY_STATE_UPDATE_TRIES = 20;
+const MAX_SPONSORSHIP_SPEND_UPDATE_TRIES = 20;
+const MAX_SPONSORED_MESSAGE_UPDATE_TRIES = 20;
+const MAX_GAS_ACCURACY_UPDATE_TRIES = 20;
 
+const DEFAULT_STORE_CHANNEL_MODE = 'pubsub';
+const STREAM_MAX_LENGTH = 100_000;
+const STREAM_READ_COUNT = 100;
+const STREAM_POLL_INTERVAL = 200;
+const STREAM_RETRY_INTERVAL = 2000;
+const STREAM_CLAIM_INTERVAL = 60_000;
+const STREAM_CLAIM_MIN_IDLE_TIME = 5 * 60_000;
 
-// ! IMPORTANT
-// ! The 'RelayState' information (i.e. the bounty/message state information gathered from the 
-// ! GeneralisedIncentives events) is stored just under the `messageIdentifier` that is present on
-// ! the queried events. This `messageIdentifier` is generated by the GeneralisedIncentives
-// ! contracts; nothing prevents a malicious contract from crafting an identifier that clashes with
-// ! that of another GenerlisedIncentives contract.
-// !
-// ! Ideally, the 'RelayState' data storage should be also indexed by the source chain id and the 
-// ! emitting contract address. However, given the limited information contained by the
-// ! GeneralisedIncentives events, this is quite complex to achieve.
-// !
-// ! For the correct operation of this store it is very important for the `messageIdentifier`s
-// ! across the GeneralisedIncentives implementations not to collide. This will always be the
-// ! case when using the unaltered GeneralisedIncentives contracts, each deployed with a unique
-// ! `uniqueSourceIdentifier`.
+const RELAY_STATE_QUERY_PAGE_SIZE = 100;
 
 
-// TODO find a way to add the chainId to the RelayState index?
-// TODO add the 'amb' to the RelayState index?
+// ! NOTE
+// ! The 'RelayState' information (i.e. the bounty/message state information gathered from the 
+// ! GeneralisedIncentives events) is indexed by the 'amb', the source chain id, the emitting
+// ! GeneralisedIncentives contract address and the `messageIdentifier`. This prevents a malicious
+// ! GeneralisedIncentives deployment from crafting a `messageIdentifier` that clashes with that
+// ! of another contract.
+// !
+// ! The 'MessageDelivered' event is emitted on the destination chain and does not contain enough
+// ! information to derive the source chain/contract of the message. It is matched with its
+// ! 'RelayState' via the collected AMB messages (see `setMessageDelivered`).
 
 
 export class Store {
@@ -53,75 +79,62 @@ export class Store {
     static readonly KEY_SEPARATOR: string = ':';
     
     static readonly RELAY_STATE_KEY_PREFIX: string = 'relay_state';
+    static readonly RELAY_STATE_SOURCES_KEY_PREFIX: string = 'relay_state_sources';
+    static readonly RELAY_STATE_INDEX_KEY_PREFIX: string = 'relay_state_index';
+    static readonly PENDING_MESSAGE_DELIVERED_KEY_PREFIX: string = 'pending_message_delivered';
     static readonly AMB_MESSAGE_KEY_PREFIX: string = 'amb_message';
     static readonly AMB_PROOF_KEY_PREFIX: string = 'amb_proof';
     static readonly AMB_TRANSACTION_HASH_MAP_KEY_PREFIX: string = 'amb_transaction_hash_map';
+    static readonly MESSAGE_TIMELINE_KEY_PREFIX: string = 'message_timeline';
+    static readonly MESSAGE_KEYS_KEY_PREFIX: string = 'message_keys';
+    static readonly RELAY_ATTEMPT_KEY_PREFIX: string = 'relay_attempt';
+    static readonly RELAY_POLICY_KEY_PREFIX: string = 'relay_policy';
+    static readonly SPONSORSHIP_SPEND_KEY_PREFIX: string = 'sponsorship_spend';
+    static readonly SPONSORED_MESSAGE_KEY_PREFIX: string = 'sponsored_message';
+    static readonly GAS_ACCURACY_KEY_PREFIX: string = 'gas_accuracy';
+    static readonly GAS_ACCURACY_SAMPLE_KEY_PREFIX: string = 'gas_accuracy_sample';
     
     // Redis Channels
     static readonly ON_KEY_CHANGE_CHANNEL: string = 'on_key_change_channel';
     static readonly ON_AMB_MESSAGE_CHANNEL_PREFIX: string = 'on_amb_message_channel';
     static readonly ON_AMB_PROOF_CHANNEL_PREFIX: string = 'on_amb_proof_channel';
+    static readonly ON_RELAY_POLICY_CHANGE_CHANNEL: string = 'on_relay_policy_change_channel';
+    static readonly ON_MESSAGE_TIMELINE_EVENT_CHANNEL: string = 'on_message_timeline_event_channel';
 
+    // Streams
+    static readonly AMB_MESSAGE_STREAM_PREFIX: string = 'amb_message_stream';
+    static readonly AMB_PROOF_STREAM_PREFIX: string = 'amb_proof_stream';
 
-    readonly redis: Redis;
-    readonly redisSubscriptions: Redis;
-    readonly redisHost: string | undefined;
-    readonly redisPort: number;
-    readonly redisDBIndex: number;
-
-    private readonly redisConnections: Redis[] = [];
-
-
-    constructor() {
 
-        this.redisHost = this.loadRedisHost();
-        this.redisPort = this.loadRedisPort();
-        this.redisDBIndex = this.loadRedisDBIndex();
+    readonly backend: StoreBackend;
+    readonly channelMode: StoreChannelMode;
 
-        // Once a 'redis' connection is used for subscriptions, it may not be used to manage the
-        // redis storage. Keep 2 distinct redis objects for each purpose.
-        this.redis = this.getRedisConnection();
-        this.redisSubscriptions = this.getRedisConnection();
-    }
-
-
-
-    // Initialization and state/redis management utils
-    // ********************************************************************************************
+    private isQuitting = false;
 
-    private loadRedisHost(): string | undefined {
-        return process.env['REDIS_HOST'];
-    }
+    // Entries of the manually acknowledged streams that are being processed (see 'onStream').
+    private readonly streamEntriesInProcess = new Map<string, Set<string>>();
 
-    private loadRedisPort(): number {
-        return process.env['REDIS_PORT']
-            ? parseInt(process.env['REDIS_PORT'])
-            : DEFAULT_REDIS_PORT;
-    }
 
-    private loadRedisDBIndex(): number {
-        return process.env['REDIS_DB_INDEX']
-            ? parseInt(process.env['REDIS_DB_INDEX'])
-            : DEFAULT_REDIS_DB_INDEX;
+    constructor(backend?: StoreBackend) {
+        this.backend = backend ?? loadStoreBackend(loadStoreBackendType());
+        this.channelMode = this.loadChannelMode();
     }
 
-    getRedisConnection(): Redis {
-        const redis = new Redis(this.redisPort, {
-            db: this.redisDBIndex,
-            host: this.redisHost,
-        });
-
-        this.redisConnections.push(redis);
-
-        return redis;
+    private loadChannelMode(): StoreChannelMode {
+        const channelMode = process.env['STORE_CHANNEL_MODE'] ?? DEFAULT_STORE_CHANNEL_MODE;
+        if (channelMode != 'pubsub' && channelMode != 'stream') {
+            throw new Error(`Invalid 'STORE_CHANNEL_MODE' '${channelMode}' (expected 'pubsub' or 'stream').`);
+        }
+        return channelMode;
     }
 
     async quit(): Promise<void> {
-        const quitPromises = this.redisConnections.map(
-            (redis) => redis.quit()
-        );
+        this.isQuitting = true;
+        await this.backend.quit();
+    }
 
-        await Promise.all(quitPromises);
+    async ping(): Promise<void> {
+        await this.backend.ping();
     }
 
     
@@ -134,11 +147,11 @@ export class Store {
     }
 
     async get(key: string) {
-        return this.redis.get(key);
+        return this.backend.get(key);
     }
 
     async set(key: string, value: string) {
-        await this.redis.set(key, value);
+        await this.backend.set(key, value);
         await this.postMessage<KeyActionMessage>(
             Store.ON_KEY_CHANGE_CHANNEL,
             { key, action: 'set' }
@@ -146,7 +159,7 @@ export class Store {
     }
 
     async del(key: string) {
-        await this.redis.del(key);
+        await this.backend.del(key);
         await this.postMessage<KeyActionMessage>(
             Store.ON_KEY_CHANGE_CHANNEL,
             { key, action: 'del' }
@@ -166,7 +179,7 @@ export class Store {
         channel: string,
         payload: T,
     ) {
-        return this.redis.publish(
+        return this.backend.publish(
             channel,
             JSON.stringify(payload),
         );
@@ -176,12 +189,8 @@ export class Store {
         channel: string,
         callback: (payload: T) => void,
     ) {
-        await this.redisSubscriptions.subscribe(channel);
-
-        this.redisSubscriptions.on('message', (callbackChannel, callbackMessage) => {
-            if (callbackChannel === channel) {
-                callback(JSON.parse(callbackMessage));
-            }
+        await this.backend.subscribe(channel, (message) => {
+            callback(JSON.parse(message));
         });
     }
 
@@ -189,13 +198,142 @@ export class Store {
         pattern: string,
         callback: (payload: T) => void,
     ) {
-        await this.redisSubscriptions.psubscribe(pattern);
+        await this.backend.psubscribe(pattern, (_channel, message) => {
+            callback(JSON.parse(message));
+        });
+    }
+
+
+
+    // Stream helpers
+    // ********************************************************************************************
+
+    // ! Unlike channel messages, stream messages are kept until acknowledged by the consumer
+    // ! group. Entries that are left unacknowledged for `STREAM_CLAIM_MIN_IDLE_TIME` (e.g. if the
+    // ! callback failed, or if the consumer stopped) are claimed and replayed by the consumers of
+    // ! the group.
+    // !
+    // ! The streams are capped to (approximately) `STREAM_MAX_LENGTH` entries: once exceeded, the
+    // ! oldest entries are trimmed even if they have not been consumed/acknowledged yet (i.e. if
+    // ! the consumers fall more than `STREAM_MAX_LENGTH` entries behind, the trimmed entries are
+    // ! lost).
+
+    static getStream(...components: string[]): string {
+        return components.join(Store.KEY_SEPARATOR);
+    }
 
-        this.redisSubscriptions.on('pmessage', (callbackPattern, _, callbackMessage) => {
-            if (callbackPattern === pattern) {
-                callback(JSON.parse(callbackMessage));
+    // Consumer names must be unique within a group (i.e. among the relayer instances).
+    static getStreamConsumer(name: string): string {
+        return [name, hostname(), randomBytes(4).toString('hex')].join('-');
+    }
+
+    async postStreamMessage<T = any>(
+        stream: string,
+        payload: T,
+    ): Promise<string> {
+        return this.backend.streamAdd(
+            stream,
+            JSON.stringify(payload),
+            STREAM_MAX_LENGTH,
+        );
+    }
+
+    // The stream message is acknowledged once the (awaited) callback completes. If the callback
+    // throws, the message is left unacknowledged and is replayed later on.
+    // If `manualAck` is set, the message must be acknowledged via 'ackStreamMessage' once it has
+    // been fully processed (the message is kept claimed by the consumer until then).
+    async onStream<T>(
+        stream: string,
+        group: string,
+        consumer: string,
+        callback: (payload: T, entryId: string) => Promise<void> | void,
+        manualAck = false,
+    ): Promise<void> {
+        await this.backend.streamCreateGroup(stream, group);
+
+        const entriesInProcess = manualAck ? new Set<string>() : undefined;
+        if (entriesInProcess != undefined) {
+            this.streamEntriesInProcess.set(Store.getStream(stream, group), entriesInProcess);
+        }
+
+        void this.consumeStream(stream, group, consumer, callback, entriesInProcess);
+    }
+
+    async ackStreamMessage(
+        stream: string,
+        group: string,
+        entryId: string,
+    ): Promise<void> {
+        await this.backend.streamAck(stream, group, entryId);
+        this.streamEntriesInProcess.get(Store.getStream(stream, group))?.delete(entryId);
+    }
+
+    private async consumeStream<T>(
+        stream: string,
+        group: string,
+        consumer: string,
+        callback: (payload: T, entryId: string) => Promise<void> | void,
+        entriesInProcess: Set<string> | undefined,
+    ): Promise<void> {
+
+        // Start by claiming the idle entries of the group (e.g. the entries of consumers that
+        // were stopped before processing them).
+        let lastClaimTimestamp = 0;
+
+        while (!this.isQuitting) {
+            let entries: StreamEntry[];
+            try {
+                if (Date.now() - lastClaimTimestamp >= STREAM_CLAIM_INTERVAL) {
+                    // Keep the entries that are being processed claimed by this consumer.
+                    await this.backend.streamClaim(
+                        stream,
+                        group,
+                        consumer,
+                        [...entriesInProcess ?? []],
+                    );
+                    entries = await this.backend.streamClaimIdle(
+                        stream,
+                        group,
+                        consumer,
+                        STREAM_CLAIM_MIN_IDLE_TIME,
+                        STREAM_READ_COUNT,
+                    );
+                    lastClaimTimestamp = Date.now();
+                } else {
+                    entries = await this.backend.streamReadGroup(
+                        stream,
+                        group,
+                        consumer,
+                        STREAM_READ_COUNT,
+                    );
+                }
+            } catch {
+                await wait(STREAM_RETRY_INTERVAL);
+                continue;
             }
-        });
+
+            if (entries.length == 0) {
+                await wait(STREAM_POLL_INTERVAL);
+                continue;
+            }
+
+            for (const entry of entries) {
+                if (entriesInProcess?.has(entry.id)) {
+                    continue;
+                }
+
+                entriesInProcess?.add(entry.id);
+                try {
+                    await callback(JSON.parse(entry.message), entry.id);
+                    if (entriesInProcess == undefined) {
+                        await this.backend.streamAck(stream, group, entry.id);
+                    }
+                } catch {
+                    // Leave the entry unacknowledged.
+                    entriesInProcess?.delete(entry.id);
+                }
+            }
+        }
     }
 
 
@@ -203,9 +341,69 @@ export class Store {
     // Relay state utils
     // ********************************************************************************************
 
-    static getRelayStateKey(messageIdentifier: string): string {
+    static getRelayStateKey(relayStateIndex: RelayStateIndex): string {
         return Store.formatKey(
             Store.RELAY_STATE_KEY_PREFIX,
+            relayStateIndex.amb,
+            relayStateIndex.fromChainId.toLowerCase(),
+            relayStateIndex.incentivesAddress.toLowerCase(),
+            relayStateIndex.messageIdentifier.toLowerCase(),
+        );
+    }
+
+    // The 'RelayState' of an AMB message is indexed by the chain on which the bounty was placed:
+    // the source chain for deliveries, and the destination chain for acks. Returns 'null' if it
+    // cannot be resolved (i.e. for acks of which the destination incentives address is unknown).
+    static getAMBMessageRelayStateIndex(ambMessage: AMBMessage): RelayStateIndex | null {
+        // The context is given by the first byte of the incentives payload.
+        const context = parseInt(ambMessage.incentivesPayload.replace('0x', '').slice(0, 2), 16);
+        if (context != MessageContext.CTX_DESTINATION_TO_SOURCE) {
+            return {
+                amb: ambMessage.amb,
+                fromChainId: ambMessage.fromChainId,
+                incentivesAddress: ambMessage.fromIncentivesAddress,
+                messageIdentifier: ambMessage.messageIdentifier,
+            };
+        }
+
+        if (ambMessage.toIncentivesAddress == undefined) {
+            return null;
+        }
+
+        return {
+            amb: ambMessage.amb,
+            fromChainId: ambMessage.toChainId,
+            incentivesAddress: ambMessage.toIncentivesAddress,
+            messageIdentifier: ambMessage.messageIdentifier,
+        };
+    }
+
+    // Key of the set of source chain ids of the AMB messages that are directed to the given
+    // destination chain (used to match 'MessageDelivered' events with their 'RelayState').
+    static getRelayStateSourcesKey(
+        amb: string,
+        toChainId: string,
+        messageIdentifier: string,
+    ): string {
+        return Store.formatKey(
+            Store.RELAY_STATE_SOURCES_KEY_PREFIX,
+            amb,
+            toChainId.toLowerCase(),
+            messageIdentifier.toLowerCase(),
+        );
+    }
+
+    // Key used to hold 'MessageDelivered' events that cannot be matched with their 'RelayState'
+    // yet (i.e. the AMB message has not been collected).
+    static getPendingMessageDeliveredKey(
+        amb: string,
+        toChainId: string,
+        messageIdentifier: string,
+    ): string {
+        return Store.formatKey(
+            Store.PENDING_MESSAGE_DELIVERED_KEY_PREFIX,
+            amb,
+            toChainId.toLowerCase(),
             messageIdentifier.toLowerCase(),
         );
     }
@@ -213,7 +411,7 @@ export class Store {
 
     async getRelayStateByKey(key: string): Promise<RelayState | null> {
 
-        const data = await this.redis.get(key);
+        const data = await this.backend.get(key);
 
         const rawState = data != null
             ? JSON.parse(data)
@@ -246,26 +444,85 @@ export class Store {
                 }
                 : undefined,
 
+            bountyClaimedEvent: rawState.bountyClaimedEvent != undefined
+                ? {
+                    ...rawState.bountyClaimedEvent,
+                    gasSpentOnDestination: Store.parseOptionalBigInt(rawState.bountyClaimedEvent.gasSpentOnDestination),
+                    gasSpentOnSource: Store.parseOptionalBigInt(rawState.bountyClaimedEvent.gasSpentOnSource),
+                    destinationRelayerReward: Store.parseOptionalBigInt(rawState.bountyClaimedEvent.destinationRelayerReward),
+                    sourceRelayerReward: Store.parseOptionalBigInt(rawState.bountyClaimedEvent.sourceRelayerReward),
+                }
+                : undefined,
+
             deliveryGasCost: rawState.deliveryGasCost != undefined
                 ? BigInt(rawState.deliveryGasCost)
                 : undefined,
         };
     }
 
-    async getRelayState(messageIdentifier: string): Promise<RelayState | null> {
-        const key = Store.getRelayStateKey(messageIdentifier);
+    private static parseOptionalBigInt(value: string | undefined): bigint | undefined {
+        return value != undefined ? BigInt(value) : undefined;
+    }
+
+    async getRelayState(relayStateIndex: RelayStateIndex): Promise<RelayState | null> {
+        const key = Store.getRelayStateKey(relayStateIndex);
         return this.getRelayStateByKey(key);
     }
 
+    // Get the 'RelayState's of the given `messageIdentifier` of all the ambs/chains/contracts.
+    async getRelayStatesByMessageIdentifier(messageIdentifier: string): Promise<RelayState[]> {
+        const keys = await this.getMessageKeys(messageIdentifier, Store.RELAY_STATE_KEY_PREFIX);
+
+        const relayStates = await Promise.all(
+            keys.map((key) => this.getRelayStateByKey(key))
+        );
+
+        return relayStates.filter(
+            (relayState): relayState is RelayState => relayState != null,
+        );
+    }
+
 
     // Update the saved RelayState using the existing and incoming state information.
+    // ! The update is performed atomically: the new state is only saved if the stored state has
+    // ! not been modified since it was read, otherwise the update is retried with the latest state.
     private async updateRelayState(incomingState: RelayState): Promise<void> {
 
-        const key = Store.getRelayStateKey(incomingState.messageIdentifier);
+        const key = Store.getRelayStateKey(incomingState);
 
-        const data = await this.redis.get(key);
-        const currentState: RelayStateJSON | null = data != null
-            ? JSON.parse(data)
+        for (let i = 0; i < MAX_RELAY_STATE_UPDATE_TRIES; i++) {
+            const data = await this.backend.get(key);
+
+            const newState = Store.mergeRelayState(data, incomingState);
+
+            const updated = await this.backend.compareAndSet(
+                key,
+                data,
+                JSON.stringify(newState),
+            );
+
+            if (updated) {
+                await this.indexRelayState(key);
+                await this.postMessage<KeyActionMessage>(
+                    Store.ON_KEY_CHANGE_CHANNEL,
+                    { key, action: 'set' }
+                );
+                return;
+            }
+        }
+
+        throw new Error(
+            `Failed to update the relay state: maximum number of tries reached due to concurrent updates (key: ${key}).`
+        );
+    }
+
+    private static mergeRelayState(
+        currentData: string | null,
+        incomingState: RelayState,
+    ): RelayState | RelayStateJSON {
+
+        const currentState: RelayStateJSON | null = currentData != null
+            ? JSON.parse(currentData)
             : null;
 
         const overridingState = currentState != null;
@@ -305,6 +562,10 @@ export class Store {
                 ?? currentState.deliveryGasCost;
         }
 
+        const now = Date.now();
+        newState.createdAt = newState.createdAt ?? now;
+        newState.updatedAt = now;
+
         if (newState.bountyClaimedEvent) {
             newState.status = RelayStatus.BountyClaimed;
         } else if (newState.messageDeliveredEvent) {
@@ -313,43 +574,68 @@ export class Store {
             newState.status = RelayStatus.BountyPlaced;
         }
 
-        await this.set(key, JSON.stringify(newState));
+        return newState;
     }
 
 
     async setBountyPlaced(
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         bountyPlacedEvent: BountyPlacedEventDetails,
     ) {
         const relayState: RelayState = {
+            ...Store.copyRelayStateIndex(relayStateIndex),
             status: RelayStatus.BountyPlaced,
-            messageIdentifier,
             bountyPlacedEvent,
         };
 
         await this.updateRelayState(relayState);
     }
 
+    // ! The 'MessageDelivered' event is registered on the 'RelayState' of the AMB messages sent
+    // ! via the given 'amb' to the event's `toChainId`. If no matching AMB message has been
+    // ! collected yet, the event is held until the AMB message is registered.
+    // Returns the indexes of the updated 'RelayState's.
     async setMessageDelivered(
+        amb: string,
         messageIdentifier: string,
         messageDeliveredEvent: MessageDeliveredEventDetails,
-    ) {
-        const relayState: RelayState = {
-            status: RelayStatus.MessageDelivered,
+    ): Promise<RelayStateIndex[]> {
+        const relayStateIndexes = await this.getDeliveredRelayStateIndexes(
+            amb,
+            messageDeliveredEvent.toChainId,
             messageIdentifier,
-            messageDeliveredEvent,
-        };
+        );
 
-        await this.updateRelayState(relayState);
+        if (relayStateIndexes.length == 0) {
+            const pendingKey = Store.getPendingMessageDeliveredKey(
+                amb,
+                messageDeliveredEvent.toChainId,
+                messageIdentifier,
+            );
+            await this.backend.set(pendingKey, JSON.stringify(messageDeliveredEvent));
+            return [];
+        }
+
+        for (const relayStateIndex of relayStateIndexes) {
+            const relayState: RelayState = {
+                ...relayStateIndex,
+                status: RelayStatus.MessageDelivered,
+                messageDeliveredEvent,
+            };
+
+            await this.updateRelayState(relayState);
+        }
+
+        return relayStateIndexes;
     }
 
     async setBountyClaimed(
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         bountyClaimedEvent: BountyClaimedEventDetails,
     ) {
         const relayState: RelayState = {
+            ...Store.copyRelayStateIndex(relayStateIndex),
             status: RelayStatus.MessageDelivered,
-            messageIdentifier,
             bountyClaimedEvent,
         };
 
@@ -357,12 +643,12 @@ export class Store {
     }
 
     async setBountyIncreased(
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         bountyIncreasedEvent: BountyIncreasedEventDetails,
     ) {
         const relayState: RelayState = {
+            ...Store.copyRelayStateIndex(relayStateIndex),
             status: RelayStatus.MessageDelivered,
-            messageIdentifier,
             bountyIncreasedEvent,
         };
 
@@ -370,123 +656,1329 @@ export class Store {
     }
 
     async setDeliveryCost(
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         deliveryGasCost: bigint,
     ): Promise<void> {
         const relayState: RelayState = {
+            ...Store.copyRelayStateIndex(relayStateIndex),
             status: RelayStatus.MessageDelivered,
-            messageIdentifier,
             deliveryGasCost,
         };
 
         await this.updateRelayState(relayState);
     }
 
+    private static copyRelayStateIndex(relayStateIndex: RelayStateIndex): RelayStateIndex {
+        return {
+            amb: relayStateIndex.amb,
+            fromChainId: relayStateIndex.fromChainId,
+            incentivesAddress: relayStateIndex.incentivesAddress,
+            messageIdentifier: relayStateIndex.messageIdentifier,
+        };
+    }
 
+    private async getDeliveredRelayStateIndexes(
+        amb: string,
+        toChainId: string,
+        messageIdentifier: string,
+    ): Promise<RelayStateIndex[]> {
+        const sourcesKey = Store.getRelayStateSourcesKey(amb, toChainId, messageIdentifier);
+        const fromChainIds = await this.backend.smembers(sourcesKey);
+
+        const relayStateIndexes: RelayStateIndex[] = [];
+        for (const fromChainId of fromChainIds) {
+            const ambMessage = await this.getAMBMessage(fromChainId, messageIdentifier);
+            if (
+                ambMessage == null
+                || ambMessage.amb != amb
+                || ambMessage.toChainId != toChainId
+            ) {
+                continue;
+            }
 
-    // AMB data utils
-    // ********************************************************************************************
+            relayStateIndexes.push({
+                amb,
+                fromChainId: ambMessage.fromChainId,
+                incentivesAddress: ambMessage.fromIncentivesAddress,
+                messageIdentifier: ambMessage.messageIdentifier,
+            });
+        }
 
-    // ! NOTE: AMB messages are stored under the source chain id, whereas AMB proofs are stored
-    // ! under the destination chain id.
+        return relayStateIndexes;
+    }
 
-    // ! Filter by `chainId` to prevent message deliveries/acks from overwriting each other.
-    static getAMBMessageKey(
-        chainId: string,
-        messageIdentifier: string
-    ): string {
-        return Store.formatKey(
-            Store.AMB_MESSAGE_KEY_PREFIX,
-            chainId.toLowerCase(),
-            messageIdentifier.toLowerCase(),
+    // Register any 'MessageDelivered' event that was received before the given AMB message.
+    private async registerPendingMessageDelivered(ambMessage: AMBMessage): Promise<void> {
+        const pendingKey = Store.getPendingMessageDeliveredKey(
+            ambMessage.amb,
+            ambMessage.toChainId,
+            ambMessage.messageIdentifier,
         );
+
+        const data = await this.backend.get(pendingKey);
+        if (data == null) {
+            return;
+        }
+
+        const messageDeliveredEvent: MessageDeliveredEventDetailsJSON = JSON.parse(data);
+        const relayState: RelayState = {
+            amb: ambMessage.amb,
+            fromChainId: ambMessage.fromChainId,
+            incentivesAddress: ambMessage.fromIncentivesAddress,
+            messageIdentifier: ambMessage.messageIdentifier,
+            status: RelayStatus.MessageDelivered,
+            messageDeliveredEvent,
+        };
+
+        await this.updateRelayState(relayState);
+        await this.backend.del(pendingKey);
     }
 
-    // ! Filter by `chainId` to prevent message deliveries/acks from overwriting each other.
-    static getAMBProofKey(
-        chainId: string,
-        messageIdentifier: string
-    ): string {
-        return Store.formatKey(
-            Store.AMB_PROOF_KEY_PREFIX,
-            chainId.toLowerCase(),
-            messageIdentifier.toLowerCase(),
-        );
+
+    // Migrate the 'RelayState' entries stored under the legacy key format (i.e. indexed by just
+    // the `messageIdentifier`). Entries without 'BountyPlaced' information, or for which the
+    // 'amb' cannot be resolved, cannot be indexed and are left untouched.
+    async migrateLegacyRelayStates(
+        getAMB: (fromChainId: string, incentivesAddress: string) => string | undefined,
+    ): Promise<{ migrated: string[], skipped: string[] }> {
+        const migrated: string[] = [];
+        const skipped: string[] = [];
+
+        const legacyKeyPattern = Store.formatKey(Store.RELAY_STATE_KEY_PREFIX, '*');
+
+        const keys = await this.backend.keys(legacyKeyPattern);
+        for (const key of keys) {
+            // Legacy keys are formed by just the prefix and the `messageIdentifier`.
+            if (key.split(Store.KEY_SEPARATOR).length != 2) {
+                continue;
+            }
+
+            const data = await this.backend.get(key);
+            if (data == null) {
+                continue;
+            }
+
+            const legacyState: RelayStateJSON = JSON.parse(data);
+            const fromChainId = legacyState.bountyPlacedEvent?.fromChainId;
+            const incentivesAddress = legacyState.bountyPlacedEvent?.incentivesAddress;
+            const amb = fromChainId != undefined && incentivesAddress != undefined
+                ? getAMB(fromChainId, incentivesAddress)
+                : undefined;
+
+            if (amb == undefined) {
+                skipped.push(key);
+                continue;
+            }
+
+            const migratedState: RelayStateJSON = {
+                ...legacyState,
+                updatedAt: legacyState.updatedAt ?? Date.now(),
+                amb,
+                fromChainId: fromChainId!,
+                incentivesAddress: incentivesAddress!,
+            };
+
+            const migratedKey = Store.getRelayStateKey(migratedState);
+            await this.set(
+                migratedKey,
+                JSON.stringify(migratedState),
+            );
+            await this.indexRelayState(migratedKey);
+            await this.del(key);
+
+            migrated.push(key);
+        }
+
+        return { migrated, skipped };
     }
 
-    // Key to be used to store any additional information required by the AMB-specific collector.
-    static getAdditionalAMBDataKey(
-        amb: string,
-        key: string
-    ): string {
+
+
+    // Relay state indexes
+    // ********************************************************************************************
+
+    // ! NOTE
+    // ! The 'RelayState' keys are indexed on sorted sets (scored by the 'RelayState' creation
+    // ! timestamp) by status, amb, source chain and destination chain, plus an index of all the
+    // ! 'RelayState's. The indexes are updated after every 'RelayState' update, hence a concurrent
+    // ! update may leave a stale status index entry behind: the status of the queried
+    // ! 'RelayState's is always verified against the stored 'RelayState'.
+
+    static getRelayStateIndexKey(...components: string[]): string {
         return Store.formatKey(
-            Store.AMB_PROOF_KEY_PREFIX,
-            amb,
-            key,
+            Store.RELAY_STATE_INDEX_KEY_PREFIX,
+            ...components,
         );
     }
 
-    static getAMBMessagesByTransactionHashKey(
-        chainId: string,
-        txHash: string,
-    ): string {
-        return Store.formatKey(
-            Store.AMB_TRANSACTION_HASH_MAP_KEY_PREFIX,
-            chainId.toLowerCase(),
-            txHash.toLowerCase(),
-        );
+    static getAllRelayStatesIndexKey(): string {
+        return Store.getRelayStateIndexKey('all');
     }
 
+    // Get the index keys corresponding to the fields set on the given filter.
+    static getRelayStateFilterIndexKeys(filter: RelayStateFilter): string[] {
+        const indexKeys: string[] = [];
 
+        if (filter.status != undefined) {
+            indexKeys.push(Store.getRelayStateIndexKey('status', RelayStatus[filter.status]));
+        }
+        if (filter.amb != undefined) {
+            indexKeys.push(Store.getRelayStateIndexKey('amb', filter.amb));
+        }
+        if (filter.fromChainId != undefined) {
+            indexKeys.push(Store.getRelayStateIndexKey('from_chain', filter.fromChainId.toLowerCase()));
+        }
+        if (filter.toChainId != undefined) {
+            indexKeys.push(Store.getRelayStateIndexKey('to_chain', filter.toChainId.toLowerCase()));
+        }
 
-    static getOnAMBMessageChannel(
-        chainId: string,
-    ): string {
-        return Store.getChannel(
-            Store.ON_AMB_MESSAGE_CHANNEL_PREFIX,
-            chainId.toLowerCase(),
-        );
+        return indexKeys;
     }
 
-    static getOnAMBProofChannel(
-        chainId: string,
-    ): string {
-        return Store.getChannel(
-            Store.ON_AMB_PROOF_CHANNEL_PREFIX,
-            chainId.toLowerCase(),
+    private static getRelayStatuses(): RelayStatus[] {
+        return Object.values(RelayStatus).filter(
+            (status): status is RelayStatus => typeof status == 'number'
         );
     }
 
+    private async getRelayStateIndexKeys(
+        relayState: RelayState | RelayStateJSON,
+    ): Promise<string[]> {
+        return [
+            Store.getAllRelayStatesIndexKey(),
+            ...Store.getRelayStateFilterIndexKeys({
+                status: relayState.status,
+                amb: relayState.amb,
+                fromChainId: relayState.fromChainId,
+                toChainId: await this.getRelayStateToChainId(relayState),
+            }),
+        ];
+    }
 
+    private async getRelayStateToChainId(
+        relayState: RelayState | RelayStateJSON,
+    ): Promise<string | undefined> {
+        if (relayState.messageDeliveredEvent != undefined) {
+            return relayState.messageDeliveredEvent.toChainId;
+        }
 
-    async getAMBMessage(
-        chainId: string,
-        messageIdentifier: string
-    ): Promise<AMBMessage | null> {
-        const key = Store.getAMBMessageKey(
-            chainId,
-            messageIdentifier,
+        const ambMessage = await this.getAMBMessage(
+            relayState.fromChainId,
+            relayState.messageIdentifier,
         );
+        if (
+            ambMessage == null
+            || ambMessage.amb != relayState.amb
+            || ambMessage.fromIncentivesAddress.toLowerCase() != relayState.incentivesAddress.toLowerCase()
+        ) {
+            return undefined;
+        }
 
-        const data = await this.redis.get(key);
+        return ambMessage.toChainId;
+    }
 
-        const parsedData: AMBMessageJSON | null = data != null
-            ? JSON.parse(data)
-            : null;
+    // Update the indexes of the 'RelayState' stored under `key` with its latest state.
+    async indexRelayState(key: string): Promise<void> {
+        const relayState = await this.getRelayStateByKey(key);
+        if (relayState == null) {
+            return;
+        }
 
-        return parsedData;
+        await this.registerMessageKey(key);
+
+        for (const status of Store.getRelayStatuses()) {
+            if (status != relayState.status) {
+                await this.backend.zrem(
+                    Store.getRelayStateFilterIndexKeys({ status })[0]!,
+                    key,
+                );
+            }
+        }
+
+        const score = relayState.createdAt ?? relayState.updatedAt ?? Date.now();
+        for (const indexKey of await this.getRelayStateIndexKeys(relayState)) {
+            await this.backend.zadd(indexKey, score, key);
+        }
     }
 
-    async getAMBProof(
-        chainId: string,
-        messageIdentifier: string,
+    private async unindexRelayState(
+        key: string,
+        relayState: RelayStateJSON,
+    ): Promise<void> {
+        for (const status of Store.getRelayStatuses()) {
+            await this.backend.zrem(
+                Store.getRelayStateFilterIndexKeys({ status })[0]!,
+                key,
+            );
+        }
+
+        for (const indexKey of await this.getRelayStateIndexKeys(relayState)) {
+            await this.backend.zrem(indexKey, key);
+        }
+
+        await this.unregisterMessageKey(key);
+    }
+
+    // Index the 'RelayState's that are missing from the indexes (i.e. saved before the indexes
+    // were introduced). Returns the number of indexed 'RelayState's.
+    async indexMissingRelayStates(): Promise<number> {
+        const allIndexKey = Store.getAllRelayStatesIndexKey();
+
+        const keyPattern = Store.formatKey(Store.RELAY_STATE_KEY_PREFIX, '*');
+        const keys = await this.backend.keys(keyPattern);
+
+        let indexedCount = 0;
+        for (const key of keys) {
+            // Skip legacy keys (i.e. indexed by just the `messageIdentifier`).
+            if (key.split(Store.KEY_SEPARATOR).length != 5) {
+                continue;
+            }
+
+            if (await this.backend.zscore(allIndexKey, key) != null) {
+                continue;
+            }
+
+            await this.indexRelayState(key);
+            indexedCount++;
+        }
+
+        return indexedCount;
+    }
+
+    private static getRelayStateQueryIndexKeys(query: RelayStateQuery): string[] {
+        const filterIndexKeys = Store.getRelayStateFilterIndexKeys(query);
+        if (filterIndexKeys.length == 0) {
+            filterIndexKeys.push(Store.getAllRelayStatesIndexKey());
+        }
+        return filterIndexKeys;
+    }
+
+    static encodeRelayStateQueryCursor(cursor: RelayStateQueryCursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    // Returns 'null' if the cursor is malformed or if it does not belong to the given query.
+    static decodeRelayStateQueryCursor(
+        encodedCursor: string,
+        query: RelayStateQuery,
+    ): RelayStateQueryCursor | null {
+        let cursor: Partial<RelayStateQueryCursor>;
+        try {
+            cursor = JSON.parse(Buffer.from(encodedCursor, 'base64url').toString());
+        } catch {
+            return null;
+        }
+
+        if (
+            typeof cursor?.indexKey != 'string'
+            || typeof cursor.score != 'number'
+            || typeof cursor.member != 'string'
+            || !Store.getRelayStateQueryIndexKeys(query).includes(cursor.indexKey)
+        ) {
+            return null;
+        }
+
+        return {
+            indexKey: cursor.indexKey,
+            score: cursor.score,
+            member: cursor.member,
+        };
+    }
+
+    // Query the 'RelayState's using the indexes. The `cursor` is the position of the last
+    // 'RelayState' returned by the previous query.
+    // ! The query iterates over the smallest of the filter indexes. The cursor is bound to that
+    // ! index and records the score and the member of the last returned 'RelayState', so that the
+    // ! query can be continued regardless of the changes of the indexes in between.
+    async queryRelayStates(
+        query: RelayStateQuery,
+        cursor: RelayStateQueryCursor | undefined,
+        limit: number,
+    ): Promise<RelayStateQueryResult> {
+        const filterIndexKeys = Store.getRelayStateQueryIndexKeys(query);
+
+        let mainIndexKey: string;
+        if (cursor != undefined) {
+            mainIndexKey = cursor.indexKey;
+        } else {
+            // Iterate over the smallest index.
+            const indexSizes = new Map<string, number>();
+            for (const indexKey of filterIndexKeys) {
+                indexSizes.set(indexKey, await this.backend.zcard(indexKey));
+            }
+            mainIndexKey = filterIndexKeys.reduce(
+                (keyA, keyB) => indexSizes.get(keyB)! < indexSizes.get(keyA)! ? keyB : keyA
+            );
+        }
+        // Use the rest of the indexes to filter the results.
+        const otherIndexKeys = filterIndexKeys.filter((indexKey) => indexKey != mainIndexKey);
+
+        // Continue from the score of the cursor, skipping the members up to the cursor member
+        // (the members with equal scores are ordered lexicographically).
+        const reverse = query.order == 'desc';
+        let min = query.createdAfter ?? -Infinity;
+        let max = query.createdBefore ?? Infinity;
+        if (cursor != undefined) {
+            if (reverse) {
+                max = Math.min(max, cursor.score);
+            } else {
+                min = Math.max(min, cursor.score);
+            }
+        }
+        const isBeforeCursor = (score: number | null, member: string) => score == cursor!.score
+            && (reverse ? member >= cursor!.member : member <= cursor!.member);
+
+        const relayStates: RelayState[] = [];
+        let pastCursor = cursor == undefined;
+        let offset = 0;
+        while (true) {
+            const keys = await this.backend.zrangeByScore(
+                mainIndexKey,
+                min,
+                max,
+                offset,
+                RELAY_STATE_QUERY_PAGE_SIZE,
+                reverse,
+            );
+            offset += keys.length;
+
+            for (const key of keys) {
+                // The members are ordered: once past the cursor, the rest need not be checked.
+                if (!pastCursor) {
+                    if (isBeforeCursor(await this.backend.zscore(mainIndexKey, key), key)) {
+                        continue;
+                    }
+                    pastCursor = true;
+                }
+
+                const relayState = await this.getIndexedRelayState(key, otherIndexKeys, query);
+                if (relayState == null) {
+                    continue;
+                }
+
+                relayStates.push(relayState);
+                if (relayStates.length >= limit) {
+                    // Fall back to the indexed score if the member has been unindexed meanwhile.
+                    const score = await this.backend.zscore(mainIndexKey, key)
+                        ?? relayState.createdAt
+                        ?? relayState.updatedAt
+                        ?? 0;
+                    return {
+                        relayStates,
+                        nextCursor: Store.encodeRelayStateQueryCursor({
+                            indexKey: mainIndexKey,
+                            score,
+                            member: key,
+                        }),
+                    };
+                }
+            }
+
+            if (keys.length < RELAY_STATE_QUERY_PAGE_SIZE) {
+                return { relayStates };
+            }
+        }
+    }
+
+    private async getIndexedRelayState(
+        key: string,
+        indexKeys: string[],
+        filter: RelayStateFilter,
+    ): Promise<RelayState | null> {
+        for (const indexKey of indexKeys) {
+            if (await this.backend.zscore(indexKey, key) == null) {
+                return null;
+            }
+        }
+
+        const relayState = await this.getRelayStateByKey(key);
+        if (
+            relayState == null
+            || (filter.status != undefined && relayState.status != filter.status)
+        ) {
+            return null;
+        }
+
+        return relayState;
+    }
+
+
+
+    // Message keys utils
+    // ********************************************************************************************
+
+    // ! The keys of the data of a message (the 'RelayState's, AMB messages, relay attempts and
+    // ! timelines of all the ambs/chains/contracts) are registered on a set indexed by the
+    // ! `messageIdentifier`, so that the data of a message can be looked up without scanning the
+    // ! store keys. The `messageIdentifier` is the last component of all the registered keys.
+
+    private static readonly MESSAGE_KEY_PREFIXES = [
+        Store.RELAY_STATE_KEY_PREFIX,
+        Store.AMB_MESSAGE_KEY_PREFIX,
+        Store.RELAY_ATTEMPT_KEY_PREFIX,
+        Store.MESSAGE_TIMELINE_KEY_PREFIX,
+    ];
+
+    static getMessageKeysKey(messageIdentifier: string): string {
+        return Store.formatKey(
+            Store.MESSAGE_KEYS_KEY_PREFIX,
+            messageIdentifier.toLowerCase(),
+        );
+    }
+
+    private static getKeyMessageIdentifier(key: string): string {
+        const keyComponents = key.split(Store.KEY_SEPARATOR);
+        return keyComponents[keyComponents.length - 1]!;
+    }
+
+    async registerMessageKey(key: string): Promise<void> {
+        await this.backend.sadd(
+            Store.getMessageKeysKey(Store.getKeyMessageIdentifier(key)),
+            key,
+        );
+    }
+
+    private async unregisterMessageKey(key: string): Promise<void> {
+        await this.backend.srem(
+            Store.getMessageKeysKey(Store.getKeyMessageIdentifier(key)),
+            key,
+        );
+    }
+
+    // Get the registered keys of the given `messageIdentifier` with the given prefix.
+    private async getMessageKeys(messageIdentifier: string, prefix: string): Promise<string[]> {
+        const keys = await this.backend.smembers(Store.getMessageKeysKey(messageIdentifier));
+        return keys.filter((key) => key.startsWith(prefix + Store.KEY_SEPARATOR));
+    }
+
+    // Register the message keys that are missing from the message keys sets (i.e. saved before
+    // the sets were introduced). Returns the number of registered keys.
+    async indexMissingMessageKeys(): Promise<number> {
+        let indexedCount = 0;
+        for (const prefix of Store.MESSAGE_KEY_PREFIXES) {
+            const keys = await this.backend.keys(Store.formatKey(prefix, '*'));
+            const registeredKeys = new Map<string, Set<string>>();
+
+            for (const key of keys) {
+                // Skip legacy relay state keys (i.e. indexed by just the `messageIdentifier`).
+                if (prefix == Store.RELAY_STATE_KEY_PREFIX && key.split(Store.KEY_SEPARATOR).length != 5) {
+                    continue;
+                }
+
+                const messageIdentifier = Store.getKeyMessageIdentifier(key);
+                let messageKeys = registeredKeys.get(messageIdentifier);
+                if (messageKeys == undefined) {
+                    messageKeys = new Set(await this.getMessageKeys(messageIdentifier, prefix));
+                    registeredKeys.set(messageIdentifier, messageKeys);
+                }
+
+                if (!messageKeys.has(key)) {
+                    await this.registerMessageKey(key);
+                    indexedCount++;
+                }
+            }
+        }
+
+        return indexedCount;
+    }
+
+
+
+    // Message timeline utils
+    // ********************************************************************************************
+
+    // ! The message timeline is an append-only log of the lifecycle events of a message (across
+    // ! all the Relayer services). It is indexed like the 'RelayState' of the message, the
+    // ! `chainId` of the events may be used to tell apart the deliveries from the acks. Events
+    // ! that cannot be attributed to a 'RelayState' (e.g. messages rejected before being
+    // ! collected) are indexed by the `messageIdentifier` only.
+
+    static getMessageTimelineKey(target: RelayStateIndex | string): string {
+        if (typeof target == 'string') {
+            return Store.formatKey(
+                Store.MESSAGE_TIMELINE_KEY_PREFIX,
+                target.toLowerCase(),
+            );
+        }
+
+        return Store.formatKey(
+            Store.MESSAGE_TIMELINE_KEY_PREFIX,
+            target.amb,
+            target.fromChainId.toLowerCase(),
+            target.incentivesAddress.toLowerCase(),
+            target.messageIdentifier.toLowerCase(),
+        );
+    }
+
+    // The event is registered on the timeline of the given 'RelayState', or on the timeline of
+    // the `messageIdentifier` if the 'RelayState' of the message is not known.
+    async addMessageTimelineEvent(
+        target: RelayStateIndex | string,
+        event: Omit<MessageTimelineEvent, 'timestamp'>,
+    ): Promise<void> {
+        const timelineEvent: MessageTimelineEvent = {
+            ...event,
+            timestamp: Date.now(),
+        };
+
+        const key = Store.getMessageTimelineKey(target);
+        await this.backend.rpush(key, JSON.stringify(timelineEvent));
+        await this.registerMessageKey(key);
+
+        const messageIdentifier = typeof target == 'string'
+            ? target
+            : target.messageIdentifier;
+        await this.postMessage<MessageTimelineEventMessage>(
+            Store.ON_MESSAGE_TIMELINE_EVENT_CHANNEL,
+            { messageIdentifier, ...timelineEvent },
+        );
+    }
+
+    async getMessageTimeline(target: RelayStateIndex | string): Promise<MessageTimelineEvent[]> {
+        const events = await this.backend.lrange(
+            Store.getMessageTimelineKey(target),
+            0,
+            -1,
+        );
+
+        return events.map((event) => JSON.parse(event));
+    }
+
+    // Get the timeline events of the given `messageIdentifier` of all the ambs/chains/contracts
+    // (sorted by timestamp), including the events indexed by the `messageIdentifier` only.
+    async getMessageTimelineByMessageIdentifier(
+        messageIdentifier: string,
+    ): Promise<MessageTimelineEvent[]> {
+        const keys = await this.getMessageKeys(
+            messageIdentifier,
+            Store.MESSAGE_TIMELINE_KEY_PREFIX,
+        );
+
+        const events: MessageTimelineEvent[] = [];
+        for (const key of keys) {
+            const keyEvents = await this.backend.lrange(key, 0, -1);
+            events.push(...keyEvents.map((event) => JSON.parse(event)));
+        }
+
+        return events.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+
+
+    // Relay attempt utils
+    // ********************************************************************************************
+
+    // ! The relay attempts (i.e. the results of the relay transactions of the Submitter) are kept
+    // ! on a list indexed like the 'RelayState' of the message until they are persisted/pruned.
+
+    static getRelayAttemptsKey(relayStateIndex: RelayStateIndex): string {
+        return Store.formatKey(
+            Store.RELAY_ATTEMPT_KEY_PREFIX,
+            relayStateIndex.amb,
+            relayStateIndex.fromChainId.toLowerCase(),
+            relayStateIndex.incentivesAddress.toLowerCase(),
+            relayStateIndex.messageIdentifier.toLowerCase(),
+        );
+    }
+
+    async addRelayAttempt(relayAttempt: RelayAttempt): Promise<void> {
+        const key = Store.getRelayAttemptsKey(relayAttempt.relayStateIndex);
+
+        await this.backend.rpush(key, JSON.stringify(relayAttempt));
+        await this.registerMessageKey(key);
+        await this.postMessage<KeyActionMessage>(
+            Store.ON_KEY_CHANGE_CHANNEL,
+            { key, action: 'set' }
+        );
+    }
+
+    async getRelayAttempts(relayStateIndex: RelayStateIndex): Promise<RelayAttemptJSON[]> {
+        const attempts = await this.backend.lrange(
+            Store.getRelayAttemptsKey(relayStateIndex),
+            0,
+            -1,
+        );
+
+        return attempts.map((attempt) => JSON.parse(attempt));
+    }
+
+    // Get the relay attempts of the given `messageIdentifier` of all the ambs/chains/contracts.
+    async getRelayAttemptsByMessageIdentifier(
+        messageIdentifier: string,
+    ): Promise<RelayAttemptJSON[]> {
+        const keys = await this.getMessageKeys(messageIdentifier, Store.RELAY_ATTEMPT_KEY_PREFIX);
+
+        const attempts: RelayAttemptJSON[] = [];
+        for (const key of keys) {
+            const keyAttempts = await this.backend.lrange(key, 0, -1);
+            attempts.push(...keyAttempts.map((attempt) => JSON.parse(attempt)));
+        }
+
+        return attempts.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+
+
+    // Relay policy utils
+    // ********************************************************************************************
+
+    // ! The relay policy entries are read by every collector/submitter worker, which are notified
+    // ! of any change via the `ON_RELAY_POLICY_CHANGE_CHANNEL` (see 'RelayPolicy').
+
+    static getRelayPolicyKey(
+        mode: RelayPolicyMode,
+        target: RelayPolicyTarget,
+        value: string,
+    ): string {
+        return Store.formatKey(
+            Store.RELAY_POLICY_KEY_PREFIX,
+            mode,
+            target,
+            value.toLowerCase(),
+        );
+    }
+
+    async getRelayPolicyEntries(): Promise<RelayPolicyEntry[]> {
+        const keys = await this.backend.keys(
+            Store.formatKey(Store.RELAY_POLICY_KEY_PREFIX, '*')
+        );
+
+        const entries: RelayPolicyEntry[] = [];
+        for (const key of keys) {
+            const data = await this.backend.get(key);
+            if (data != null) {
+                entries.push(JSON.parse(data));
+            }
+        }
+
+        return entries.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    async setRelayPolicyEntry(entry: RelayPolicyEntry): Promise<void> {
+        const normalizedEntry: RelayPolicyEntry = {
+            ...entry,
+            value: entry.value.toLowerCase(),
+        };
+
+        await this.backend.set(
+            Store.getRelayPolicyKey(entry.mode, entry.target, entry.value),
+            JSON.stringify(normalizedEntry),
+        );
+        await this.postMessage(Store.ON_RELAY_POLICY_CHANGE_CHANNEL, normalizedEntry);
+    }
+
+    // Returns whether the entry existed.
+    async deleteRelayPolicyEntry(
+        mode: RelayPolicyMode,
+        target: RelayPolicyTarget,
+        value: string,
+    ): Promise<boolean> {
+        const key = Store.getRelayPolicyKey(mode, target, value);
+
+        const data = await this.backend.get(key);
+        if (data == null) {
+            return false;
+        }
+
+        await this.backend.del(key);
+        await this.postMessage(Store.ON_RELAY_POLICY_CHANGE_CHANNEL, JSON.parse(data));
+        return true;
+    }
+
+
+
+    // Sponsorship utils
+    // ********************************************************************************************
+
+    // ! The budget `period` is the identifier of the (UTC) day/month within which the spend is
+    // ! accounted (e.g. '2024-01-31' or '2024-01', see 'Sponsorships').
+
+    static getSponsorshipSpendKey(
+        sponsorship: string,
+        period: string,
+    ): string {
+        return Store.formatKey(
+            Store.SPONSORSHIP_SPEND_KEY_PREFIX,
+            sponsorship,
+            period,
+        );
+    }
+
+    static getSponsoredMessageKey(
+        relayStateIndex: RelayStateIndex,
+        sponsorship: string,
+        evaluationType: string,
+    ): string {
+        return Store.formatKey(
+            Store.SPONSORED_MESSAGE_KEY_PREFIX,
+            relayStateIndex.amb,
+            relayStateIndex.fromChainId.toLowerCase(),
+            relayStateIndex.incentivesAddress.toLowerCase(),
+            relayStateIndex.messageIdentifier.toLowerCase(),
+            sponsorship,
+            evaluationType,
+        );
+    }
+
+    async getSponsorshipSpend(
+        sponsorship: string,
+        period: string,
+    ): Promise<SponsorshipSpend> {
+        const data = await this.backend.get(
+            Store.getSponsorshipSpendKey(sponsorship, period)
+        );
+
+        return data != null
+            ? JSON.parse(data)
+            : { spent: 0, relays: 0 };
+    }
+
+    // Atomically add the given `amount`/`relays` to the spend of the budget period, only if the
+    // resulting spend does not exceed the `budget` (if given). Returns whether the spend was
+    // updated.
+    async addSponsorshipSpend(
+        sponsorship: string,
+        period: string,
+        amount: number,
+        relays: number,
+        budget?: number,
+    ): Promise<boolean> {
+        const key = Store.getSponsorshipSpendKey(sponsorship, period);
+
+        for (let i = 0; i < MAX_SPONSORSHIP_SPEND_UPDATE_TRIES; i++) {
+            const data = await this.backend.get(key);
+            const spend: SponsorshipSpend = data != null
+                ? JSON.parse(data)
+                : { spent: 0, relays: 0 };
+
+            const newSpend: SponsorshipSpend = {
+                spent: spend.spent + amount,
+                relays: spend.relays + relays,
+            };
+
+            if (budget != undefined && newSpend.spent > budget) {
+                return false;
+            }
+
+            const updated = await this.backend.compareAndSet(
+                key,
+                data,
+                JSON.stringify(newSpend),
+            );
+
+            if (updated) {
+                return true;
+            }
+        }
+
+        throw new Error(
+            `Failed to update the sponsorship spend: maximum number of tries reached due to concurrent updates (key: ${key}).`
+        );
+    }
+
+    async getSponsoredMessage(
+        relayStateIndex: RelayStateIndex,
+        sponsorship: string,
+        evaluationType: string,
+    ): Promise<SponsoredMessage | null> {
+        const data = await this.backend.get(
+            Store.getSponsoredMessageKey(relayStateIndex, sponsorship, evaluationType)
+        );
+
+        return data != null
+            ? JSON.parse(data)
+            : null;
+    }
+
+    // Atomically update the sponsorship record of the message (the record is removed if `update`
+    // returns 'null'). Returns the record prior to the update.
+    async updateSponsoredMessage(
+        relayStateIndex: RelayStateIndex,
+        sponsorship: string,
+        evaluationType: string,
+        update: (sponsoredMessage: SponsoredMessage | null) => SponsoredMessage | null,
+    ): Promise<SponsoredMessage | null> {
+        const key = Store.getSponsoredMessageKey(relayStateIndex, sponsorship, evaluationType);
+
+        for (let i = 0; i < MAX_SPONSORED_MESSAGE_UPDATE_TRIES; i++) {
+            const data = await this.backend.get(key);
+            const sponsoredMessage: SponsoredMessage | null = data != null
+                ? JSON.parse(data)
+                : null;
+
+            const newSponsoredMessage = update(sponsoredMessage);
+
+            let updated: boolean;
+            if (newSponsoredMessage != null) {
+                updated = await this.backend.compareAndSet(
+                    key,
+                    data,
+                    JSON.stringify(newSponsoredMessage),
+                );
+            } else {
+                updated = data == null || await this.backend.compareAndDelete(key, data);
+            }
+
+            if (updated) {
+                return sponsoredMessage;
+            }
+        }
+
+        throw new Error(
+            `Failed to update the sponsored message: maximum number of tries reached due to concurrent updates (key: ${key}).`
+        );
+    }
+
+    // Settle the budget reserved for the message with the actual fiat cost of the relay (i.e. the
+    // spend is corrected with the difference between the actual and the reserved loss). The
+    // reserved loss is kept if the `fiatCost` is not known. Returns the settled loss, or 'null'
+    // if no budget was reserved for the message.
+    async settleSponsoredMessage(
+        relayStateIndex: RelayStateIndex,
+        sponsorship: string,
+        evaluationType: string,
+        fiatCost: number | undefined,
+    ): Promise<number | null> {
+        const getFiatLoss = (sponsoredMessage: SponsoredMessage) => fiatCost != undefined
+            ? Math.max(0, fiatCost - sponsoredMessage.fiatReward)
+            : sponsoredMessage.fiatLoss;
+
+        const reservation = await this.updateSponsoredMessage(
+            relayStateIndex,
+            sponsorship,
+            evaluationType,
+            (sponsoredMessage) => sponsoredMessage?.status == 'reserved'
+                ? {
+                    ...sponsoredMessage,
+                    status: 'settled',
+                    fiatLoss: getFiatLoss(sponsoredMessage),
+                    timestamp: Date.now(),
+                }
+                : sponsoredMessage,
+        );
+
+        if (reservation?.status != 'reserved') {
+            return null;
+        }
+
+        const fiatLoss = getFiatLoss(reservation);
+
+        // ! The actual spend is accounted even if it exceeds the budget.
+        for (const period of Object.values(reservation.periods)) {
+            await this.addSponsorshipSpend(
+                sponsorship,
+                period,
+                fiatLoss - reservation.fiatLoss,
+                0,
+            );
+        }
+
+        return fiatLoss;
+    }
+
+    // Release the budget reserved for the message (e.g. if the relay fails). Returns whether a
+    // reservation was released.
+    async releaseSponsoredMessage(
+        relayStateIndex: RelayStateIndex,
+        sponsorship: string,
+        evaluationType: string,
+    ): Promise<boolean> {
+        const reservation = await this.updateSponsoredMessage(
+            relayStateIndex,
+            sponsorship,
+            evaluationType,
+            (sponsoredMessage) => sponsoredMessage?.status == 'reserved'
+                ? null
+                : sponsoredMessage,
+        );
+
+        if (reservation?.status != 'reserved') {
+            return false;
+        }
+
+        for (const period of Object.values(reservation.periods)) {
+            await this.addSponsorshipSpend(
+                sponsorship,
+                period,
+                -reservation.fiatLoss,
+                -1,
+            );
+        }
+
+        return true;
+    }
+
+
+
+    // Gas accuracy utils
+    // ********************************************************************************************
+
+    // ! The stats of the applications of a route are stored on the same entry as the stats of the
+    // ! whole route (see 'GasAccuracyRouteStats').
+
+    static getGasAccuracyKey(
+        kind: GasAccuracyKind,
+        fromChainId: string,
+        toChainId: string,
+    ): string {
+        return Store.formatKey(
+            Store.GAS_ACCURACY_KEY_PREFIX,
+            kind,
+            fromChainId,
+            toChainId,
+        );
+    }
+
+    static getGasAccuracySampleKey(
+        relayStateIndex: RelayStateIndex,
+        kind: GasAccuracyKind,
+    ): string {
+        return Store.formatKey(
+            Store.GAS_ACCURACY_SAMPLE_KEY_PREFIX,
+            relayStateIndex.amb,
+            relayStateIndex.fromChainId.toLowerCase(),
+            relayStateIndex.incentivesAddress.toLowerCase(),
+            relayStateIndex.messageIdentifier.toLowerCase(),
+            kind,
+        );
+    }
+
+    // Get the stats of the route, or of the given application of the route.
+    async getGasAccuracyStats(
+        kind: GasAccuracyKind,
+        fromChainId: string,
+        toChainId: string,
+        application?: string,
+    ): Promise<GasAccuracyStats | null> {
+        const data = await this.backend.get(
+            Store.getGasAccuracyKey(kind, fromChainId, toChainId)
+        );
+        if (data == null) {
+            return null;
+        }
+
+        const routeStats: GasAccuracyRouteStats = JSON.parse(data);
+        return application != undefined
+            ? routeStats.applications[application.toLowerCase()] ?? null
+            : routeStats.route;
+    }
+
+    // Get the stats of all the routes and of all their applications.
+    async getAllGasAccuracyStats(): Promise<GasAccuracyStats[]> {
+        const keys = await this.backend.keys(
+            Store.formatKey(Store.GAS_ACCURACY_KEY_PREFIX, '*')
+        );
+
+        const stats: GasAccuracyStats[] = [];
+        for (const key of keys) {
+            const data = await this.backend.get(key);
+            if (data != null) {
+                const routeStats: GasAccuracyRouteStats = JSON.parse(data);
+                stats.push(routeStats.route, ...Object.values(routeStats.applications));
+            }
+        }
+
+        return stats;
+    }
+
+    // Atomically replace the stats of the route (and of its applications) with the result of
+    // `update` (which may be invoked more than once on concurrent updates).
+    async updateGasAccuracyStats(
+        kind: GasAccuracyKind,
+        fromChainId: string,
+        toChainId: string,
+        update: (stats: GasAccuracyRouteStats | null) => GasAccuracyRouteStats,
+    ): Promise<GasAccuracyRouteStats> {
+        const key = Store.getGasAccuracyKey(kind, fromChainId, toChainId);
+
+        for (let i = 0; i < MAX_GAS_ACCURACY_UPDATE_TRIES; i++) {
+            const data = await this.backend.get(key);
+            const stats: GasAccuracyRouteStats | null = data != null
+                ? JSON.parse(data)
+                : null;
+
+            const newStats = update(stats);
+
+            const updated = await this.backend.compareAndSet(
+                key,
+                data,
+                JSON.stringify(newStats),
+            );
+
+            if (updated) {
+                return newStats;
+            }
+        }
+
+        throw new Error(
+            `Failed to update the gas accuracy stats: maximum number of tries reached due to concurrent updates (key: ${key}).`
+        );
+    }
+
+    // Register the sample of the message, so that it is only accounted once. Returns whether the
+    // sample was registered (i.e. `false` if it had already been registered).
+    async registerGasAccuracySample(
+        relayStateIndex: RelayStateIndex,
+        kind: GasAccuracyKind,
+    ): Promise<boolean> {
+        return this.backend.compareAndSet(
+            Store.getGasAccuracySampleKey(relayStateIndex, kind),
+            null,
+            JSON.stringify({ timestamp: Date.now() }),
+        );
+    }
+
+
+
+    // Retention utils
+    // ********************************************************************************************
+
+    // Delete the 'RelayState' stored under `key` only if it has not been modified since it was
+    // read as `expectedData`. Returns whether the 'RelayState' was deleted.
+    async deleteRelayStateByKey(key: string, expectedData: string): Promise<boolean> {
+        const deleted = await this.backend.compareAndDelete(key, expectedData);
+
+        if (deleted) {
+            await this.unindexRelayState(key, JSON.parse(expectedData));
+            await this.postMessage<KeyActionMessage>(
+                Store.ON_KEY_CHANGE_CHANNEL,
+                { key, action: 'del' }
+            );
+        }
+
+        return deleted;
+    }
+
+    // Delete the AMB message and its references (transaction hash map and 'RelayState' sources
+    // entries). Returns whether the message existed.
+    async deleteAMBMessage(
+        chainId: string,
+        ambMessage: AMBMessage,
+    ): Promise<boolean> {
+        const key = Store.getAMBMessageKey(chainId, ambMessage.messageIdentifier);
+
+        const data = await this.backend.get(key);
+        if (data == null) {
+            return false;
+        }
+
+        await this.backend.lrem(
+            Store.getAMBMessagesByTransactionHashKey(
+                ambMessage.fromChainId,
+                ambMessage.transactionHash,
+            ),
+            ambMessage.messageIdentifier,
+        );
+
+        await this.backend.srem(
+            Store.getRelayStateSourcesKey(
+                ambMessage.amb,
+                ambMessage.toChainId,
+                ambMessage.messageIdentifier,
+            ),
+            chainId,
+        );
+
+        await this.backend.del(
+            Store.getPendingMessageDeliveredKey(
+                ambMessage.amb,
+                ambMessage.toChainId,
+                ambMessage.messageIdentifier,
+            )
+        );
+
+        await this.del(key);
+        await this.unregisterMessageKey(key);
+
+        return true;
+    }
+
+    async deleteAdditionalAMBData(amb: string, key: string): Promise<void> {
+        await this.del(Store.getAdditionalAMBDataKey(amb, key));
+    }
+
+    async deleteMessageTimeline(target: RelayStateIndex | string): Promise<void> {
+        const key = Store.getMessageTimelineKey(target);
+        await this.backend.del(key);
+        await this.unregisterMessageKey(key);
+    }
+
+    async deleteRelayAttempts(relayStateIndex: RelayStateIndex): Promise<void> {
+        const key = Store.getRelayAttemptsKey(relayStateIndex);
+        await this.backend.del(key);
+        await this.unregisterMessageKey(key);
+    }
+
+    async deleteSponsoredMessages(relayStateIndex: RelayStateIndex): Promise<void> {
+        await this.deleteRelayStateKeys(Store.SPONSORED_MESSAGE_KEY_PREFIX, relayStateIndex);
+    }
+
+    async deleteGasAccuracySamples(relayStateIndex: RelayStateIndex): Promise<void> {
+        await this.deleteRelayStateKeys(Store.GAS_ACCURACY_SAMPLE_KEY_PREFIX, relayStateIndex);
+    }
+
+    // Delete the keys of the given prefix that are indexed by the given 'RelayState' (followed by
+    // any other key components).
+    private async deleteRelayStateKeys(
+        prefix: string,
+        relayStateIndex: RelayStateIndex,
+    ): Promise<void> {
+        const keys = await this.backend.keys(
+            Store.formatKey(
+                prefix,
+                relayStateIndex.amb,
+                relayStateIndex.fromChainId.toLowerCase(),
+                relayStateIndex.incentivesAddress.toLowerCase(),
+                relayStateIndex.messageIdentifier.toLowerCase(),
+                '*',
+            )
+        );
+
+        for (const key of keys) {
+            await this.backend.del(key);
+        }
+    }
+
+    // Returns whether the proof existed.
+    async deleteAMBProof(
+        chainId: string,
+        messageIdentifier: string,
+    ): Promise<boolean> {
+        const key = Store.getAMBProofKey(chainId, messageIdentifier);
+
+        const data = await this.backend.get(key);
+        if (data == null) {
+            return false;
+        }
+
+        await this.del(key);
+
+        return true;
+    }
+
+
+
+    // AMB data utils
+    // ********************************************************************************************
+
+    // ! NOTE: AMB messages are stored under the source chain id, whereas AMB proofs are stored
+    // ! under the destination chain id.
+
+    // ! Filter by `chainId` to prevent message deliveries/acks from overwriting each other.
+    static getAMBMessageKey(
+        chainId: string,
+        messageIdentifier: string
+    ): string {
+        return Store.formatKey(
+            Store.AMB_MESSAGE_KEY_PREFIX,
+            chainId.toLowerCase(),
+            messageIdentifier.toLowerCase(),
+        );
+    }
+
+    // ! Filter by `chainId` to prevent message deliveries/acks from overwriting each other.
+    static getAMBProofKey(
+        chainId: string,
+        messageIdentifier: string
+    ): string {
+        return Store.formatKey(
+            Store.AMB_PROOF_KEY_PREFIX,
+            chainId.toLowerCase(),
+            messageIdentifier.toLowerCase(),
+        );
+    }
+
+    // Key to be used to store any additional information required by the AMB-specific collector.
+    static getAdditionalAMBDataKey(
+        amb: string,
+        key: string
+    ): string {
+        return Store.formatKey(
+            Store.AMB_PROOF_KEY_PREFIX,
+            amb,
+            key,
+        );
+    }
+
+    static getAMBMessagesByTransactionHashKey(
+        chainId: string,
+        txHash: string,
+    ): string {
+        return Store.formatKey(
+            Store.AMB_TRANSACTION_HASH_MAP_KEY_PREFIX,
+            chainId.toLowerCase(),
+            txHash.toLowerCase(),
+        );
+    }
+
+
+
+    static getOnAMBMessageChannel(
+        chainId: string,
+    ): string {
+        return Store.getChannel(
+            Store.ON_AMB_MESSAGE_CHANNEL_PREFIX,
+            chainId.toLowerCase(),
+        );
+    }
+
+    static getOnAMBProofChannel(
+        chainId: string,
+    ): string {
+        return Store.getChannel(
+            Store.ON_AMB_PROOF_CHANNEL_PREFIX,
+            chainId.toLowerCase(),
+        );
+    }
+
+    static getAMBMessageStream(
+        chainId: string,
+    ): string {
+        return Store.getStream(
+            Store.AMB_MESSAGE_STREAM_PREFIX,
+            chainId.toLowerCase(),
+        );
+    }
+
+    static getAMBProofStream(
+        chainId: string,
+    ): string {
+        return Store.getStream(
+            Store.AMB_PROOF_STREAM_PREFIX,
+            chainId.toLowerCase(),
+        );
+    }
+
+
+
+    async getAMBMessage(
+        chainId: string,
+        messageIdentifier: string
+    ): Promise<AMBMessage | null> {
+        const key = Store.getAMBMessageKey(
+            chainId,
+            messageIdentifier,
+        );
+
+        const data = await this.backend.get(key);
+
+        const parsedData: AMBMessageJSON | null = data != null
+            ? JSON.parse(data)
+            : null;
+
+        return parsedData;
+    }
+
+    async getAMBProof(
+        chainId: string,
+        messageIdentifier: string,
     ): Promise<AMBProof | null> {
         const key = Store.getAMBProofKey(
             chainId,
             messageIdentifier,
         );
 
-        const data = await this.redis.get(key);
+        const data = await this.backend.get(key);
 
         const parsedData: AMBProofJSON | null = data != null
             ? JSON.parse(data)
@@ -503,7 +1995,7 @@ export class Store {
             chainId,
             transactionHash,
         );
-        const messageIdentifiers: string[] = await this.redis.lrange(key, 0, -1);
+        const messageIdentifiers: string[] = await this.backend.lrange(key, 0, -1);
 
         const ambMessagesPromise: Promise<AMBMessage | null>[] = [];
         for (const messageId of messageIdentifiers) {
@@ -515,6 +2007,23 @@ export class Store {
         );
     }
 
+    // Get the AMB messages of the given `messageIdentifier` of all the chains (i.e. both the
+    // delivery and the ack messages).
+    async getAMBMessagesByMessageIdentifier(messageIdentifier: string): Promise<AMBMessage[]> {
+        const keys = await this.getMessageKeys(messageIdentifier, Store.AMB_MESSAGE_KEY_PREFIX);
+
+        const ambMessages = await Promise.all(
+            keys.map(async (key) => {
+                const data = await this.backend.get(key);
+                return data != null ? JSON.parse(data) as AMBMessageJSON : null;
+            })
+        );
+
+        return ambMessages.filter(
+            (amb): amb is AMBMessage => amb != null,
+        );
+    }
+
 
     async setAMBMessage(
         chainId: string,
@@ -527,6 +2036,7 @@ export class Store {
         );
 
         await this.set(key, JSON.stringify(ambMessage));
+        await this.registerMessageKey(key);
 
         await this.setAMBMessageTransactionHash(
             ambMessage.fromChainId,
@@ -534,10 +2044,47 @@ export class Store {
             ambMessage.transactionHash,
         );
 
+        const sourcesKey = Store.getRelayStateSourcesKey(
+            ambMessage.amb,
+            ambMessage.toChainId,
+            ambMessage.messageIdentifier,
+        );
+        await this.backend.sadd(sourcesKey, chainId);
+
+        await this.registerPendingMessageDelivered(ambMessage);
+
+        const relayStateIndex = Store.getAMBMessageRelayStateIndex(ambMessage);
+        await this.addMessageTimelineEvent(relayStateIndex ?? ambMessage.messageIdentifier, {
+            type: 'collected',
+            source: 'collector',
+            chainId,
+            transactionHash: ambMessage.transactionHash,
+            details: {
+                amb: ambMessage.amb,
+                fromChainId: ambMessage.fromChainId,
+                toChainId: ambMessage.toChainId,
+            },
+        });
+
+        // The destination chain of a 'RelayState' is only known once its AMB message is collected.
+        await this.indexRelayState(
+            Store.getRelayStateKey({
+                amb: ambMessage.amb,
+                fromChainId: ambMessage.fromChainId,
+                incentivesAddress: ambMessage.fromIncentivesAddress,
+                messageIdentifier: ambMessage.messageIdentifier,
+            })
+        );
+
         const channel = Store.getOnAMBMessageChannel(
             chainId
         );
         await this.postMessage(channel, ambMessage);
+
+        if (this.channelMode == 'stream') {
+            const stream = Store.getAMBMessageStream(chainId);
+            await this.postStreamMessage(stream, ambMessage);
+        }
     }
 
     async setAMBMessagePriority(
@@ -550,7 +2097,7 @@ export class Store {
             messageIdentifier
         );
 
-        const data = await this.redis.get(key);
+        const data = await this.backend.get(key);
 
         if (data == null) {
             throw new Error(
@@ -574,7 +2121,7 @@ export class Store {
             transactionHash,
         );
 
-        await this.redis.rpush(key, messageIdentifier);
+        await this.backend.rpush(key, messageIdentifier);
     }
 
     async setAMBProof(chainId: string, ambProof: AMBProof) {
@@ -592,10 +2139,34 @@ export class Store {
 
         await this.set(key, JSON.stringify(ambProof));
 
+        // The proof is indexed on the timeline of the 'RelayState' of its AMB message (if known).
+        const ambMessage = await this.getAMBMessage(
+            ambProof.fromChainId,
+            ambProof.messageIdentifier,
+        );
+        const relayStateIndex = ambMessage != null
+            ? Store.getAMBMessageRelayStateIndex(ambMessage)
+            : null;
+        await this.addMessageTimelineEvent(relayStateIndex ?? ambProof.messageIdentifier, {
+            type: 'proofReceived',
+            source: 'collector',
+            chainId,
+            details: {
+                amb: ambProof.amb,
+                fromChainId: ambProof.fromChainId,
+                toChainId: ambProof.toChainId,
+            },
+        });
+
         const channel = Store.getOnAMBProofChannel(
             chainId
         );
         await this.postMessage(channel, ambProof);
+
+        if (this.channelMode == 'stream') {
+            const stream = Store.getAMBProofStream(chainId);
+            await this.postStreamMessage(stream, ambProof);
+        }
     }
 
     async setAdditionalAMBData<T>(amb: string, key: string, data: T): Promise<void> {
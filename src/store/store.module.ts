@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
 import { StoreController } from './store.controller';
 import { StoreGateway } from './store.gateway';
+import { RetentionModule } from './retention/retention.module';
+import { PersisterModule } from './persister/persister.module';
+import { HistoryModule } from './history/history.module';
+import { MessageStatusModule } from './message-status/message-status.module';
+import { RelayEventsModule } from './relay-events/relay-events.module';
 
 @Module({
     controllers: [StoreController],
     providers: [StoreGateway],
-    imports: [],
+    imports: [RetentionModule, PersisterModule, HistoryModule, MessageStatusModule, RelayEventsModule],
 })
 export class StoreModule {}
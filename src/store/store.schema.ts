@@ -0,0 +1,278 @@
+import { BYTES_32_API_SCHEMA, CHAIN_ID_API_SCHEMA, NON_EMPTY_STRING_API_SCHEMA, TIMESTAMP_API_SCHEMA } from "src/api/api.schema";
+import { ApiEndpoint, ApiObjectSchema } from "src/api/api.types";
+import { BYTES_32_HEX_EXPR } from "src/config/config.schema";
+import { RelayPolicyTarget, RelayStatus } from "./store.types";
+
+
+export const DEFAULT_MESSAGES_QUERY_LIMIT = 50;
+export const MAX_MESSAGES_QUERY_LIMIT = 500;
+
+
+// Store API schemas
+// ************************************************************************************************
+
+const RELAY_STATUS_API_SCHEMA = {
+    type: "string",
+    enum: Object.keys(RelayStatus).filter((key) => isNaN(Number(key))),
+}
+
+const LIMIT_API_SCHEMA = {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_MESSAGES_QUERY_LIMIT,
+    default: DEFAULT_MESSAGES_QUERY_LIMIT,
+}
+
+const CURSOR_API_SCHEMA = {
+    type: "integer",
+    minimum: 0,
+    description: "The cursor returned by the previous query.",
+}
+
+const RELAY_STATE_CURSOR_API_SCHEMA = {
+    type: "string",
+    pattern: "^[A-Za-z0-9_-]+$",
+    description: "The cursor returned by the previous query.",
+}
+
+export const MESSAGE_IDENTIFIER_API_SCHEMA = BYTES_32_API_SCHEMA;
+
+export const TRANSACTION_HASH_API_SCHEMA = BYTES_32_API_SCHEMA;
+
+export const AMB_MESSAGES_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        chainId: CHAIN_ID_API_SCHEMA,
+        txHash: TRANSACTION_HASH_API_SCHEMA,
+    },
+    required: ["chainId", "txHash"],
+    additionalProperties: false,
+}
+
+export const MESSAGES_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        status: RELAY_STATUS_API_SCHEMA,
+        amb: NON_EMPTY_STRING_API_SCHEMA,
+        fromChainId: CHAIN_ID_API_SCHEMA,
+        toChainId: CHAIN_ID_API_SCHEMA,
+        createdAfter: TIMESTAMP_API_SCHEMA,
+        createdBefore: TIMESTAMP_API_SCHEMA,
+        olderThan: {
+            type: "integer",
+            minimum: 0,
+            description: "Age in milliseconds.",
+        },
+        limit: LIMIT_API_SCHEMA,
+        cursor: RELAY_STATE_CURSOR_API_SCHEMA,
+        order: {
+            type: "string",
+            enum: ["asc", "desc"],
+        },
+    },
+    additionalProperties: false,
+}
+
+export const MESSAGE_STATUS_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        amb: NON_EMPTY_STRING_API_SCHEMA,
+        fromChainId: CHAIN_ID_API_SCHEMA,
+    },
+    additionalProperties: false,
+}
+
+export const HISTORY_BOUNTIES_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        fromChainId: CHAIN_ID_API_SCHEMA,
+        toChainId: CHAIN_ID_API_SCHEMA,
+        status: RELAY_STATUS_API_SCHEMA,
+        limit: LIMIT_API_SCHEMA,
+        cursor: CURSOR_API_SCHEMA,
+    },
+    additionalProperties: false,
+}
+
+export const HISTORY_BOUNTY_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        fromChainId: CHAIN_ID_API_SCHEMA,
+    },
+    additionalProperties: false,
+}
+
+export const PRIORITISE_MESSAGE_BODY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        messageIdentifier: MESSAGE_IDENTIFIER_API_SCHEMA,
+        amb: NON_EMPTY_STRING_API_SCHEMA,
+        sourceChainId: CHAIN_ID_API_SCHEMA,
+        destinationChainId: CHAIN_ID_API_SCHEMA,
+    },
+    required: ["messageIdentifier", "amb", "sourceChainId", "destinationChainId"],
+    additionalProperties: false,
+}
+
+// ! The format of the relay policy entry values depends on the entry 'target' (checked by the
+// ! controller, as the OpenAPI 3.0 schemas do not support conditional schemas).
+export const RELAY_POLICY_VALUE_EXPRS: Record<RelayPolicyTarget, string> = {
+    sourceApplication: '^0x([0-9a-fA-F]{2}){1,64}$',
+    toApplication: '^0x([0-9a-fA-F]{2}){1,64}$',
+    messageIdentifier: BYTES_32_HEX_EXPR,
+    route: '^[0-9]+:[0-9]+$',
+};
+
+const RELAY_POLICY_ENTRY_PROPERTIES = {
+    mode: {
+        type: "string",
+        enum: ["block", "allow"],
+    },
+    target: {
+        type: "string",
+        enum: Object.keys(RELAY_POLICY_VALUE_EXPRS),
+    },
+    value: {
+        type: "string",
+        minLength: 1,
+        description: "Application address, message identifier or route ('<fromChainId>:<toChainId>').",
+    },
+}
+
+export const RELAY_POLICY_ENTRY_BODY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        ...RELAY_POLICY_ENTRY_PROPERTIES,
+        reason: NON_EMPTY_STRING_API_SCHEMA,
+    },
+    required: ["mode", "target", "value"],
+    additionalProperties: false,
+}
+
+export const RELAY_POLICY_ENTRY_QUERY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: RELAY_POLICY_ENTRY_PROPERTIES,
+    required: ["mode", "target", "value"],
+    additionalProperties: false,
+}
+
+export const AMB_MESSAGE_SUBSCRIPTION_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        amb: NON_EMPTY_STRING_API_SCHEMA,
+        fromChainId: CHAIN_ID_API_SCHEMA,
+        toChainId: CHAIN_ID_API_SCHEMA,
+        application: {
+            type: "string",
+            pattern: RELAY_POLICY_VALUE_EXPRS.sourceApplication,
+        },
+        cursor: {
+            type: "string",
+            pattern: "^[0-9]+-[0-9]+$",
+            description: "The 'eventId' of the last received event.",
+        },
+    },
+    additionalProperties: false,
+}
+
+export const STORE_API_ENDPOINTS: ApiEndpoint[] = [
+    {
+        method: "get",
+        path: "/getAMBMessages",
+        tag: "Store",
+        summary: "Get the AMB messages emitted by a transaction.",
+        query: AMB_MESSAGES_QUERY_SCHEMA,
+    },
+    {
+        method: "get",
+        path: "/messages",
+        tag: "Store",
+        summary: "Query the relay states.",
+        query: MESSAGES_QUERY_SCHEMA,
+    },
+    {
+        method: "get",
+        path: "/messages/transaction/{chainId}/{transactionHash}",
+        tag: "Store",
+        summary: "Get the merged status of the messages emitted by a transaction.",
+        params: {
+            chainId: CHAIN_ID_API_SCHEMA,
+            transactionHash: TRANSACTION_HASH_API_SCHEMA,
+        },
+    },
+    {
+        method: "get",
+        path: "/messages/{messageIdentifier}",
+        tag: "Store",
+        summary: "Get the merged status of a message.",
+        params: {
+            messageIdentifier: MESSAGE_IDENTIFIER_API_SCHEMA,
+        },
+        query: MESSAGE_STATUS_QUERY_SCHEMA,
+    },
+    {
+        method: "get",
+        path: "/messages/{messageIdentifier}/timeline",
+        tag: "Store",
+        summary: "Get the lifecycle timeline of a message.",
+        params: {
+            messageIdentifier: MESSAGE_IDENTIFIER_API_SCHEMA,
+        },
+    },
+    {
+        method: "get",
+        path: "/history/bounties",
+        tag: "History",
+        summary: "Query the persisted bounties (newest first).",
+        query: HISTORY_BOUNTIES_QUERY_SCHEMA,
+    },
+    {
+        method: "get",
+        path: "/history/bounties/{bountyIdentifier}",
+        tag: "History",
+        summary: "Get the persisted bounties of an identifier.",
+        params: {
+            bountyIdentifier: MESSAGE_IDENTIFIER_API_SCHEMA,
+        },
+        query: HISTORY_BOUNTY_QUERY_SCHEMA,
+    },
+    {
+        method: "post",
+        path: "/prioritiseAMBMessage",
+        tag: "Store",
+        summary: "Prioritise the relay of a message (skips the relay evaluation).",
+        body: PRIORITISE_MESSAGE_BODY_SCHEMA,
+    },
+    {
+        method: "get",
+        path: "/getRetentionMetrics",
+        tag: "Store",
+        summary: "Get the metrics of the retention service.",
+    },
+    {
+        method: "post",
+        path: "/requestPersisterBackfill",
+        tag: "Store",
+        summary: "Request the persister to queue all the store entries for persistence.",
+    },
+    {
+        method: "get",
+        path: "/policy/entries",
+        tag: "Relay policy",
+        summary: "Get the relay policy (blocklist/allowlist) entries.",
+    },
+    {
+        method: "post",
+        path: "/policy/entries",
+        tag: "Relay policy",
+        summary: "Add (or replace) a relay policy entry.",
+        body: RELAY_POLICY_ENTRY_BODY_SCHEMA,
+    },
+    {
+        method: "delete",
+        path: "/policy/entries",
+        tag: "Relay policy",
+        summary: "Remove a relay policy entry.",
+        query: RELAY_POLICY_ENTRY_QUERY_SCHEMA,
+    },
+];
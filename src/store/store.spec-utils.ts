@@ -0,0 +1,50 @@
+import MemoryStoreBackend, { resetMemoryStoreState } from './backends/memory';
+import { Store } from './store.lib';
+import { BountyPlacedEventDetails, RelayStateIndex, TransactionDescription } from './store.types';
+
+// Store spec utils
+// ************************************************************************************************
+
+let messageIndex = 0;
+
+export function createTestStore(): Store {
+    return new Store(new MemoryStoreBackend());
+}
+
+// ! The memory store state is shared by all the stores of the process, hence it must be cleared
+// ! after every spec.
+export function clearTestStore(): void {
+    resetMemoryStoreState();
+}
+
+// Get the index of a new (unique) message.
+export function getRelayStateIndex(): RelayStateIndex {
+    return {
+        amb: 'mock',
+        fromChainId: '1',
+        incentivesAddress: '0x000000000000000000000000000000000000000a',
+        messageIdentifier: `0x${(messageIndex++).toString(16).padStart(64, '0')}`,
+    };
+}
+
+export function getTransactionDescription(index: number): TransactionDescription {
+    return {
+        transactionHash: `0x${index.toString(16).padStart(64, '0')}`,
+        blockHash: `0x${index.toString(16).padStart(64, '0')}`,
+        blockNumber: index,
+    };
+}
+
+export function getBountyPlacedEvent(relayStateIndex: RelayStateIndex): BountyPlacedEventDetails {
+    return {
+        ...getTransactionDescription(1),
+        fromChainId: relayStateIndex.fromChainId,
+        incentivesAddress: relayStateIndex.incentivesAddress,
+        maxGasDelivery: 200000n,
+        maxGasAck: 100000n,
+        refundGasTo: '0x000000000000000000000000000000000000000b',
+        priceOfDeliveryGas: 10n,
+        priceOfAckGas: 10n,
+        targetDelta: 0n,
+    };
+}
@@ -7,6 +7,8 @@ export interface TransactionDescription {
     blockNumber: number;
 }
 
+export type StoreChannelMode = 'pubsub' | 'stream';
+
 export interface KeyActionMessage {
     key: string;
     action: 'set' | 'del';
@@ -62,11 +64,17 @@ export enum RelayStatus {
     BountyClaimed,
 }
 
-export interface RelayState {
+export interface RelayStateIndex {
+    amb: string;
+    fromChainId: string;
+    incentivesAddress: string;      // The source GeneralisedIncentives contract address.
+    messageIdentifier: string;
+}
+
+export interface RelayState extends RelayStateIndex {
 
     // Common fields (derived from events)
     status: RelayStatus;
-    messageIdentifier: string;
 
     // GeneralisedIncentives specific details
     bountyPlacedEvent?: BountyPlacedEventDetails;
@@ -76,6 +84,35 @@ export interface RelayState {
 
     // Delivery information
     deliveryGasCost?: bigint;
+
+    // Store timestamps (in milliseconds)
+    createdAt?: number;
+    updatedAt?: number;
+}
+
+export interface RelayStateFilter {
+    status?: RelayStatus;
+    amb?: string;
+    fromChainId?: string;
+    toChainId?: string;
+}
+
+export interface RelayStateQuery extends RelayStateFilter {
+    createdAfter?: number;      // Timestamp in milliseconds (inclusive)
+    createdBefore?: number;     // Timestamp in milliseconds (inclusive)
+    order?: 'asc' | 'desc';     // Order by creation timestamp
+}
+
+// Position of the last returned 'RelayState' on the index iterated by a query.
+export interface RelayStateQueryCursor {
+    indexKey: string;
+    score: number;
+    member: string;
+}
+
+export interface RelayStateQueryResult {
+    relayStates: RelayState[];
+    nextCursor?: string;        // Encoded 'RelayStateQueryCursor'
 }
 
 export interface BountyPlacedEventDetails extends TransactionDescription {
@@ -95,6 +132,10 @@ export interface MessageDeliveredEventDetails extends TransactionDescription {
 }
 
 export interface BountyClaimedEventDetails extends TransactionDescription {
+    gasSpentOnDestination?: bigint;
+    gasSpentOnSource?: bigint;
+    destinationRelayerReward?: bigint;
+    sourceRelayerReward?: bigint;
 }
 
 export interface BountyIncreasedEventDetails extends TransactionDescription {
@@ -103,9 +144,8 @@ export interface BountyIncreasedEventDetails extends TransactionDescription {
 }
 
 
-export interface RelayStateJSON {
+export interface RelayStateJSON extends RelayStateIndex {
     status: RelayStatus;
-    messageIdentifier: string;
 
     bountyPlacedEvent?: BountyPlacedEventDetailsJSON;
     messageDeliveredEvent?: MessageDeliveredEventDetailsJSON;
@@ -113,6 +153,9 @@ export interface RelayStateJSON {
     bountyIncreasedEvent?: BountyIncreasedEventDetailsJSON;
 
     deliveryGasCost?: string;
+
+    createdAt?: number;
+    updatedAt?: number;
 }
 
 export interface BountyPlacedEventDetailsJSON extends TransactionDescription {
@@ -129,7 +172,12 @@ export interface BountyPlacedEventDetailsJSON extends TransactionDescription {
 
 export type MessageDeliveredEventDetailsJSON = MessageDeliveredEventDetails;
 
-export type BountyClaimedEventDetailsJSON = BountyClaimedEventDetails;
+export interface BountyClaimedEventDetailsJSON extends TransactionDescription {
+    gasSpentOnDestination?: string;
+    gasSpentOnSource?: string;
+    destinationRelayerReward?: string;
+    sourceRelayerReward?: string;
+}
 
 export interface BountyIncreasedEventDetailsJSON extends TransactionDescription {
     newDeliveryGasPrice: string;
@@ -138,6 +186,194 @@ export interface BountyIncreasedEventDetailsJSON extends TransactionDescription
 
 
 
+// Message timeline types
+// ************************************************************************************************
+
+export type MessageTimelineEventType = 'collected'
+    | 'proofReceived'
+    | 'bountyPlaced'
+    | 'bountyIncreased'
+    | 'evaluated'
+    | 'queued'
+    | 'submitted'
+    | 'repriced'
+    | 'confirmed'
+    | 'failed'
+    | 'rejected'
+    | 'delivered'
+    | 'claimed';
+
+export interface MessageTimelineEvent {
+    type: MessageTimelineEventType;
+    timestamp: number;
+    source: string;             // The service that registered the event (e.g. 'getter').
+    chainId?: string;
+    transactionHash?: string;
+    details?: Record<string, any>;
+}
+
+// Message published on every timeline event registration.
+export interface MessageTimelineEventMessage extends MessageTimelineEvent {
+    messageIdentifier: string;
+}
+
+
+
+// Relay attempt types
+// ************************************************************************************************
+
+export type RelayAttemptStatus = 'confirmed'
+    | 'reverted'
+    | 'submissionFailed'
+    | 'confirmationFailed';
+
+// Result of a relay transaction submission (delivery or ack) of the Submitter.
+export interface RelayAttempt {
+    attemptIdentifier: string;      // The transaction hash (if any) or a submitter generated id.
+    relayStateIndex: RelayStateIndex;
+    chainId: string;                // The chain on which the relay transaction was submitted.
+    toChainId: string;              // The destination chain of the message.
+    isDelivery: boolean;
+    priority: boolean;
+
+    status: RelayAttemptStatus;
+    error?: string;
+    timestamp: number;
+
+    evaluation?: Record<string, any>;   // The evaluator output (missing for priority orders).
+
+    transactionHash?: string;
+    gasEstimate?: bigint;
+    gasUsed?: bigint;
+    effectiveGasPrice?: bigint;
+    value?: bigint;
+    feePaid?: bigint;               // `gasUsed` * `effectiveGasPrice`
+    fiatCost?: number;              // Fiat value of the `feePaid` and the `value` on confirmation.
+}
+
+export interface RelayAttemptJSON extends Omit<
+    RelayAttempt,
+    'gasEstimate' | 'gasUsed' | 'effectiveGasPrice' | 'value' | 'feePaid'
+> {
+    gasEstimate?: string;
+    gasUsed?: string;
+    effectiveGasPrice?: string;
+    value?: string;
+    feePaid?: string;
+}
+
+
+
+// Relay policy types
+// ************************************************************************************************
+
+export type RelayPolicyMode = 'block' | 'allow';
+
+export type RelayPolicyTarget = 'sourceApplication'
+    | 'toApplication'
+    | 'messageIdentifier'
+    | 'route';
+
+// ! Application addresses and message identifiers are stored lowercased. Routes are given as
+// ! '<fromChainId>:<toChainId>' and are directional (i.e. they are matched against the source
+// ! and destination chains of the AMB message being relayed).
+export interface RelayPolicyEntry {
+    mode: RelayPolicyMode;
+    target: RelayPolicyTarget;
+    value: string;
+    reason?: string;
+    createdAt: number;
+}
+
+export type RelayPolicyStage = 'collection' | 'evaluation';
+
+export interface RelayPolicyDecision {
+    allowed: boolean;
+    reason?: string;
+    entry?: RelayPolicyEntry;   // The matching 'block' entry (if any).
+}
+
+
+
+// Sponsorship types
+// ************************************************************************************************
+
+export type SponsorshipPeriodType = 'daily' | 'monthly';
+
+// The fiat loss consumed by the messages sponsored within a budget period.
+export interface SponsorshipSpend {
+    spent: number;
+    relays: number;
+}
+
+export type SponsoredMessageStatus = 'reserved' | 'settled';
+
+// The sponsorship budget reserved for a message relay (on evaluation), and spent once the relay
+// is confirmed.
+export interface SponsoredMessage {
+    status: SponsoredMessageStatus;
+    fiatLoss: number;       // The reserved loss, or the actual loss once settled.
+    fiatReward: number;     // The part of the expected fiat cost of the relay covered by the bounty.
+    periods: Record<SponsorshipPeriodType, string>;     // The budget periods on which the spend is accounted.
+    timestamp: number;
+}
+
+
+
+// Gas accuracy types
+// ************************************************************************************************
+
+// - 'deliveryGasUsed'/'ackGasUsed': the gas estimate of the relay transaction vs the receipt
+//   'gasUsed'.
+// - 'deliveryGasSpent': the rewardable gas estimate of the delivery vs the 'gasSpent' reported
+//   back on the ack of the message.
+export type GasAccuracyKind = 'deliveryGasUsed' | 'ackGasUsed' | 'deliveryGasSpent';
+
+// Aggregate of the gas estimate errors of a route (and optionally of an application). The
+// (relative) error of a sample is '(actual - estimate) / estimate'.
+export interface GasAccuracyStats {
+    kind: GasAccuracyKind;
+    fromChainId: string;
+    toChainId: string;
+    application?: string;       // Not set for the stats of the whole route.
+    samples: number;
+    estimatedGas: number;       // Sum of the gas estimates.
+    actualGas: number;          // Sum of the actual gas amounts.
+    errorSum: number;
+    errorSquaresSum: number;
+    minError: number;
+    maxError: number;
+    errorBuckets: number[];     // Sample count of every error bucket (see 'GasAccuracy').
+    correctionFactor: number;   // Moving average of the 'actual / estimate' gas ratio.
+    updatedAt: number;
+}
+
+// The stats of a route and of its applications are stored together, so that every sample can be
+// accounted on both atomically.
+export interface GasAccuracyRouteStats {
+    route: GasAccuracyStats;
+    applications: Record<string, GasAccuracyStats>;     // By (lowercase) application address.
+}
+
+
+
+// Gateway Types
+// ************************************************************************************************
+
+export interface AMBMessageSubscription {
+    amb?: string;
+    fromChainId?: string;
+    toChainId?: string;
+    application?: string;       // Matches both the source and the destination application.
+    cursor?: string;            // The 'eventId' of the last event received.
+}
+
+export interface AMBMessageEvent extends AMBMessage {
+    eventId: string;
+}
+
+
+
 // Controller Types
 // ************************************************************************************************
 
@@ -147,3 +383,42 @@ export interface PrioritiseMessage {
     sourceChainId: string;
     destinationChainId: string;
 };
+
+export interface AMBMessagesQuery {
+    chainId: string;
+    txHash: string;
+}
+
+export interface MessagesQuery {
+    status?: string;            // The 'RelayStatus' name (e.g. 'BountyPlaced')
+    amb?: string;
+    fromChainId?: string;
+    toChainId?: string;
+    createdAfter?: number;      // Timestamp in milliseconds
+    createdBefore?: number;     // Timestamp in milliseconds
+    olderThan?: number;         // Age in milliseconds
+    limit: number;
+    cursor?: string;
+    order?: 'asc' | 'desc';
+}
+
+export interface HistoryBountiesQuery {
+    fromChainId?: string;
+    toChainId?: string;
+    status?: string;            // The 'RelayStatus' name (e.g. 'BountyClaimed')
+    limit: number;
+    cursor?: number;
+}
+
+export interface RelayPolicyEntryBody {
+    mode: RelayPolicyMode;
+    target: RelayPolicyTarget;
+    value: string;
+    reason?: string;
+}
+
+export interface RelayPolicyEntryQuery {
+    mode: RelayPolicyMode;
+    target: RelayPolicyTarget;
+    value: string;
+}
@@ -2,20 +2,37 @@ import {
     HandleOrderResult,
     ProcessingQueue,
 } from '../../processing-queue/processing-queue';
-import { Bounty, EvalOrder, SubmitOrder } from '../submitter.types';
+import {
+    AckEvaluation,
+    Bounty,
+    DeliveryEvaluation,
+    EvalOrder,
+    SubmitOrder,
+    SubmitOrderEvaluation,
+} from '../submitter.types';
 import pino from 'pino';
 import { Store } from 'src/store/store.lib';
-import { RelayState, RelayStatus } from 'src/store/store.types';
+import { MessageTimelineEvent, RelayState, RelayStateIndex, RelayStatus } from 'src/store/store.types';
 import { IncentivizedMockEscrow__factory } from 'src/contracts';
 import { tryErrorToString } from 'src/common/utils';
-import { TransactionRequest, zeroPadValue } from 'ethers6';
+import { TransactionRequest, hexlify, zeroPadValue } from 'ethers6';
 import { Resolver, GasEstimateComponents } from 'src/resolvers/resolver';
 import { IncentivizedMockEscrowInterface } from 'src/contracts/IncentivizedMockEscrow';
 import { EvaluatorInterface } from 'src/evaluator/evaluator.interface';
+import { RelayPolicy } from 'src/store/relay-policy/relay-policy.lib';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
+import { MessageContext, ParsePayload } from 'src/payload/decode.payload';
+
+interface RelaySubmissionEvaluation<T extends SubmitOrderEvaluation = SubmitOrderEvaluation> {
+    submitRelay: boolean;
+    reason: string;     // Short identifier of the decision reason (used on the metrics)
+    evaluation?: T;
+}
 
 export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
     readonly paddedRelayerAddress: string;
     private readonly escrowInterface: IncentivizedMockEscrowInterface;
+    private readonly relayPolicy: RelayPolicy;
 
     constructor(
         retryInterval: number,
@@ -27,11 +44,17 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
         private readonly packetCosts: Map<string, bigint>,
         private readonly chainId: string,
         private readonly evaluator: EvaluatorInterface,
+        private readonly metrics: MetricsInterface,
         private readonly logger: pino.Logger,
     ) {
         super(retryInterval, maxTries);
         this.paddedRelayerAddress = zeroPadValue(relayerAddress, 32);
         this.escrowInterface = IncentivizedMockEscrow__factory.createInterface();
+        this.relayPolicy = new RelayPolicy(store, logger);
+    }
+
+    override async init(): Promise<void> {
+        await this.relayPolicy.init();
     }
 
     protected async handleOrder(
@@ -43,6 +66,13 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
             `Handling submitter eval order.`,
         );
 
+        // ! The relay policy is checked before anything else to prevent spending any resources
+        // ! (e.g. gas estimation RPC calls) on rejected messages.
+        if (!(await this.isAllowedByRelayPolicy(order))) {
+            this.registerEvaluationMetric(false, 'relayPolicy');
+            return null; // Do not relay packet
+        }
+
         // Double check the 'priority' status in case prioritisation was recently requested.
         if (!order.priority) {
             const ambMessage = await this.store.getAMBMessage(
@@ -63,8 +93,18 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
             }
         }
 
-        const relayState = await this.store.getRelayState(order.messageIdentifier);
-        if (relayState == null) {
+        const isDelivery = this.isDeliveryOrder(order);
+        if (isDelivery == undefined) {
+            throw Error(
+                `Incentives payload of message not found on evaluation (message ${order.messageIdentifier})`,
+            );
+        }
+
+        const relayStateIndex = this.getOrderRelayStateIndex(order, isDelivery);
+        const relayState = relayStateIndex != null
+            ? await this.store.getRelayState(relayStateIndex)
+            : null;
+        if (relayStateIndex == null || relayState == null) {
             throw Error(
                 `Relay state of message not found on evaluation (message ${order.messageIdentifier})`,
             );
@@ -78,7 +118,6 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
         }
 
         // Check if the message has already been submitted.
-        const isDelivery = bounty.fromChainId != this.chainId;
         if (isDelivery) {
             // Source to Destination
             if (relayState.status >= RelayStatus.MessageDelivered) {
@@ -86,6 +125,7 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
                     { messageIdentifier: bounty.messageIdentifier },
                     `Bounty evaluation (source to destination). Message already delivered.`,
                 );
+                this.registerEvaluationMetric(false, 'alreadyRelayed');
                 return null; // Do not relay packet
             }
         } else {
@@ -95,6 +135,7 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
                     { messageIdentifier: bounty.messageIdentifier },
                     `Bounty evaluation (destination to source). Ack already delivered.`,
                 );
+                this.registerEvaluationMetric(false, 'alreadyRelayed');
                 return null; // Do not relay packet
             }
         }
@@ -120,17 +161,28 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
 
         const gasEstimateComponents = await this.resolver.estimateGas(transactionRequest);
 
-        const submitRelay = await this.evaluateRelaySubmission(
+        const { submitRelay, reason, evaluation } = await this.evaluateRelaySubmission(
             gasEstimateComponents,
             value,
             bounty,
-            order
+            order,
+            isDelivery,
         );
+        this.registerEvaluationMetric(submitRelay, reason);
 
         if (submitRelay) {
             // Move the order to the submit queue
             transactionRequest.gasLimit = gasEstimateComponents.gasEstimate;
-            return { result: { ...order, transactionRequest, isDelivery } };
+            return {
+                result: {
+                    ...order,
+                    transactionRequest,
+                    gasEstimate: gasEstimateComponents.gasEstimate,
+                    relayStateIndex,
+                    isDelivery,
+                    evaluation,
+                }
+            };
         } else {
             // Request the order to be retried in the future.
             order.retryEvaluation = true;
@@ -181,6 +233,16 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
                     orderDescription,
                     `Successful bounty evaluation: submit order.`,
                 );
+
+                void this.registerTimelineEvent(order, {
+                    type: 'queued',
+                    details: {
+                        isDelivery: result.isDelivery,
+                        priority: result.priority,
+                        forced: order.forceSubmit,
+                        gasLimit: result.transactionRequest.gasLimit,
+                    },
+                });
             } else {
                 this.logger.info(
                     orderDescription,
@@ -189,6 +251,15 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
             }
         } else {
             this.logger.error(orderDescription, `Unsuccessful bounty evaluation.`);
+            this.registerEvaluationMetric(false, 'evaluationFailed');
+
+            void this.registerTimelineEvent(order, {
+                type: 'failed',
+                details: {
+                    stage: 'evaluation',
+                    try: retryCount + 1,
+                },
+            });
 
             if (order.priority) {
                 this.logger.warn(
@@ -202,15 +273,79 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
         }
     }
 
+    private registerEvaluationMetric(submitRelay: boolean, reason: string): void {
+        this.metrics.increment('relayer_evaluations_total', {
+            result: submitRelay ? 'accepted' : 'rejected',
+            reason,
+        });
+    }
+
+    private async isAllowedByRelayPolicy(order: EvalOrder): Promise<boolean> {
+        const incentivesPayload = order.incentivesPayload
+            ?? (await this.store.getAMBMessage(order.fromChainId, order.messageIdentifier))
+                ?.incentivesPayload;
+
+        return this.relayPolicy.isAllowed(
+            {
+                messageIdentifier: order.messageIdentifier,
+                relayStateIndex: this.getOrderTimelineRelayStateIndex(order),
+                amb: order.amb,
+                fromChainId: order.fromChainId,
+                toChainId: this.chainId,
+                incentivesPayload: incentivesPayload != undefined
+                    ? hexlify(incentivesPayload)
+                    : undefined,
+            },
+            'evaluation',
+            'submitter',
+            this.chainId,
+        );
+    }
+
+    private async registerTimelineEvent(
+        order: EvalOrder,
+        event: Omit<MessageTimelineEvent, 'timestamp' | 'source' | 'chainId'>,
+    ): Promise<void> {
+        try {
+            const relayStateIndex = this.getOrderTimelineRelayStateIndex(order);
+            await this.store.addMessageTimelineEvent(relayStateIndex ?? order.messageIdentifier, {
+                ...event,
+                source: 'submitter',
+                chainId: this.chainId,
+                details: {
+                    amb: order.amb,
+                    ...event.details,
+                },
+            });
+        } catch (error) {
+            this.logger.warn(
+                {
+                    messageIdentifier: order.messageIdentifier,
+                    error: tryErrorToString(error),
+                },
+                `Failed to register the message timeline event.`,
+            );
+        }
+    }
+
     private async evaluateRelaySubmission(
         gasEstimateComponents: GasEstimateComponents,
         value: bigint,
         bounty: Bounty,
         order: EvalOrder,
-    ): Promise<boolean> {
+        isDelivery: boolean,
+    ): Promise<RelaySubmissionEvaluation> {
         const messageIdentifier = order.messageIdentifier;
 
-        const isDelivery = bounty.fromChainId != this.chainId;
+        if (order.forceSubmit) {
+            return this.evaluateForcedRelaySubmission(
+                gasEstimateComponents,
+                value,
+                bounty,
+                order,
+                isDelivery,
+            );
+        }
 
         if (isDelivery) {
             // Source to Destination
@@ -226,13 +361,14 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
                     `Bounty evaluation (source to destination): submit delivery (priority order).`,
                 );
 
-                return true;
+                return { submitRelay: true, reason: 'priority' };
             }
 
             return this.evaluateDeliverySubmission(
-                bounty.messageIdentifier,
+                bounty,
                 gasEstimateComponents,
                 value,
+                true,
             );
         } else {
             // Destination to Source
@@ -248,28 +384,100 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
                     `Bounty evaluation (destination to source): submit ack (priority order).`,
                 );
 
-                return true;
+                return { submitRelay: true, reason: 'priority' };
             }
 
             return this.evaluateAckSubmission(
-                bounty.messageIdentifier,
+                bounty,
                 gasEstimateComponents,
-                value
+                value,
+                true,
             );
         }
     }
 
+    // Forced orders are submitted regardless of the evaluator result, as long as the expected loss
+    // does not exceed the `maxFiatLoss` of the order (if set).
+    private async evaluateForcedRelaySubmission(
+        gasEstimateComponents: GasEstimateComponents,
+        value: bigint,
+        bounty: Bounty,
+        order: EvalOrder,
+        isDelivery: boolean,
+    ): Promise<RelaySubmissionEvaluation> {
+        const messageIdentifier = order.messageIdentifier;
+
+        if (order.maxFiatLoss == undefined) {
+            this.logger.info(
+                {
+                    messageIdentifier,
+                    isDelivery,
+                    gasEstimate: gasEstimateComponents.gasEstimate.toString(),
+                    additionalFeeEstimate: gasEstimateComponents.additionalFeeEstimate.toString(),
+                },
+                `Bounty evaluation: submit relay (forced order).`,
+            );
+
+            return {
+                submitRelay: true,
+                reason: 'forced',
+                evaluation: { forced: true },
+            };
+        }
+
+        // ! Forced relays do not consume the sponsorship budgets.
+        const { evaluation } = isDelivery
+            ? await this.evaluateDeliverySubmission(bounty, gasEstimateComponents, value, false)
+            : await this.evaluateAckSubmission(bounty, gasEstimateComponents, value, false);
+
+        const fiatProfit = 'securedDeliveryFiatProfit' in evaluation
+            ? evaluation.securedDeliveryFiatProfit
+            : evaluation.ackFiatProfit;
+        const fiatLoss = Math.max(0, -fiatProfit);
+        const submitRelay = fiatLoss <= order.maxFiatLoss;
+
+        this.logger.info(
+            {
+                messageIdentifier,
+                isDelivery,
+                fiatLoss,
+                maxFiatLoss: order.maxFiatLoss,
+                submitRelay,
+            },
+            `Bounty evaluation (forced order).`,
+        );
+
+        return {
+            submitRelay,
+            reason: submitRelay ? 'forced' : 'maxFiatLossExceeded',
+            evaluation: {
+                ...evaluation,
+                forced: true,
+                fiatLoss,
+                maxFiatLoss: order.maxFiatLoss,
+            },
+        };
+    }
+
     private async evaluateDeliverySubmission(
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         gasEstimateComponents: GasEstimateComponents,
         value: bigint,
-    ): Promise<boolean> {
+        consumeSponsorship: boolean,
+    ): Promise<Required<RelaySubmissionEvaluation<DeliveryEvaluation>>> {
+        const messageIdentifier = relayStateIndex.messageIdentifier;
 
         const result = await this.evaluator.evaluateDelivery(
             this.chainId,
-            messageIdentifier,
+            {
+                amb: relayStateIndex.amb,
+                fromChainId: relayStateIndex.fromChainId,
+                incentivesAddress: relayStateIndex.incentivesAddress,
+                messageIdentifier,
+            },
             gasEstimateComponents,
             value,
+            consumeSponsorship,
         );
 
         if (result.evaluation == null) {
@@ -284,20 +492,32 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
             `Bounty evaluation (source to destination).`,
         );
 
-        return result.evaluation.relayDelivery;
+        return {
+            submitRelay: result.evaluation.relayDelivery,
+            reason: this.getEvaluationReason(result.evaluation.relayDelivery, result.evaluation.sponsorship),
+            evaluation: result.evaluation,
+        };
     }
 
     private async evaluateAckSubmission(
-        messageIdentifier: string,
+        relayStateIndex: RelayStateIndex,
         gasEstimateComponents: GasEstimateComponents,
         value: bigint,
-    ): Promise<boolean> {
+        consumeSponsorship: boolean,
+    ): Promise<Required<RelaySubmissionEvaluation<AckEvaluation>>> {
+        const messageIdentifier = relayStateIndex.messageIdentifier;
 
         const result = await this.evaluator.evaluateAck(
             this.chainId,
-            messageIdentifier,
+            {
+                amb: relayStateIndex.amb,
+                fromChainId: relayStateIndex.fromChainId,
+                incentivesAddress: relayStateIndex.incentivesAddress,
+                messageIdentifier,
+            },
             gasEstimateComponents,
             value,
+            consumeSponsorship,
         );
 
         if (result.evaluation == null) {
@@ -312,7 +532,65 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
             `Bounty evaluation (destination to source).`,
         );
 
-        return result.evaluation.relayAck;
+        return {
+            submitRelay: result.evaluation.relayAck,
+            reason: this.getEvaluationReason(result.evaluation.relayAck, result.evaluation.sponsorship),
+            evaluation: result.evaluation,
+        };
+    }
+
+    private getEvaluationReason(relay: boolean, sponsorship: string | null): string {
+        if (sponsorship != null) {
+            return 'sponsored';
+        }
+        return relay ? 'profitable' : 'unprofitable';
+    }
+
+    // The direction of the order is given by the context of its incentives payload. Returns
+    // 'undefined' if the payload is not available.
+    private isDeliveryOrder(order: EvalOrder): boolean | undefined {
+        if (order.incentivesPayload == undefined) {
+            return undefined;
+        }
+
+        const payload = ParsePayload(hexlify(order.incentivesPayload));
+        if (payload == undefined) {
+            return undefined;
+        }
+
+        return payload.context == MessageContext.CTX_SOURCE_TO_DESTINATION;
+    }
+
+    // The RelayState of an order is indexed by the chain on which the bounty was placed: for acks
+    // it is *this* chain, for deliveries it is the source chain of the order.
+    private getOrderRelayStateIndex(
+        order: EvalOrder,
+        isDelivery: boolean,
+    ): RelayStateIndex | null {
+        const incentivesAddress = isDelivery
+            ? order.fromIncentivesAddress
+            : this.incentivesContracts.get(order.amb);
+        if (incentivesAddress == undefined) {
+            return null;
+        }
+
+        return {
+            amb: order.amb,
+            fromChainId: isDelivery ? order.fromChainId : this.chainId,
+            incentivesAddress,
+            messageIdentifier: order.messageIdentifier,
+        };
+    }
+
+    // The timeline events of an order are registered on the timeline of its RelayState, if it can
+    // be resolved.
+    private getOrderTimelineRelayStateIndex(order: EvalOrder): RelayStateIndex | undefined {
+        const isDelivery = this.isDeliveryOrder(order);
+        if (isDelivery == undefined) {
+            return undefined;
+        }
+
+        return this.getOrderRelayStateIndex(order, isDelivery) ?? undefined;
     }
 
     private getBountyFromRelayState(relayState: RelayState): Bounty | null {
@@ -327,10 +605,11 @@ export class EvalQueue extends ProcessingQueue<EvalOrder, SubmitOrder> {
             ?? bountyPlacedEvent.priceOfAckGas;
 
         return {
+            amb: relayState.amb,
+            fromChainId: relayState.fromChainId,
+            incentivesAddress: relayState.incentivesAddress,
             messageIdentifier: relayState.messageIdentifier,
         
-            fromChainId: bountyPlacedEvent.fromChainId,
-        
             maxGasDelivery: bountyPlacedEvent.maxGasDelivery,
             maxGasAck: bountyPlacedEvent.maxGasAck,
             refundGasTo: bountyPlacedEvent.refundGasTo,
@@ -7,12 +7,18 @@ import { AbstractProvider } from 'ethers6';
 import pino from 'pino';
 import { tryErrorToString } from 'src/common/utils';
 import { Store } from 'src/store/store.lib';
-import { WalletInterface } from 'src/wallet/wallet.interface';
+import { RelayAttemptStatus } from 'src/store/store.types';
+import { TransactionResult, WalletInterface } from 'src/wallet/wallet.interface';
+import { PricingInterface } from 'src/pricing/pricing.interface';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
+import { GasAccuracy } from 'src/evaluator/gas-accuracy.lib';
+import { MessageContext, ParsePayload } from 'src/payload/decode.payload';
 
 export class SubmitQueue extends ProcessingQueue<
     SubmitOrder,
     SubmitOrderResult
 > {
+    private readonly gasAccuracy: GasAccuracy;
 
     constructor(
         retryInterval: number,
@@ -21,9 +27,12 @@ export class SubmitQueue extends ProcessingQueue<
         private readonly chainId: string,
         private readonly provider: AbstractProvider,
         private readonly wallet: WalletInterface,
+        private readonly pricing: PricingInterface,
+        private readonly metrics: MetricsInterface,
         private readonly logger: pino.Logger,
     ) {
         super(retryInterval, maxTries);
+        this.gasAccuracy = new GasAccuracy(store, logger);
     }
 
     protected async handleOrder(
@@ -46,7 +55,13 @@ export class SubmitQueue extends ProcessingQueue<
             this.chainId,
             order.transactionRequest,
             order,
+            { timelineRelayStateIndex: order.relayStateIndex },
         ).then((transactionResult): SubmitOrderResult => {
+            void this.registerRelayAttempt(
+                transactionResult.metadata as SubmitOrder,
+                transactionResult,
+            );
+
             if (transactionResult.submissionError) {
                 throw transactionResult.submissionError;    //TODO wrap in a 'SubmissionError' type?
             }
@@ -124,10 +139,15 @@ export class SubmitQueue extends ProcessingQueue<
                     orderDescription,
                     `Successful submit order: message not submitted.`,
                 );
+
+                void this.releaseSponsorship(order);
             }
         } else {
             this.logger.warn(orderDescription, `Unsuccessful submit order.`);
 
+            // Includes the orders dropped on submission (e.g. 'CALL_EXCEPTION' errors).
+            void this.releaseSponsorship(order);
+
             if (order.priority) {
                 this.logger.warn(
                     {
@@ -147,9 +167,231 @@ export class SubmitQueue extends ProcessingQueue<
         // Currently the 'ack' submission cost is not registered.
         if (order.isDelivery) {
             void this.store.setDeliveryCost(
-                order.messageIdentifier,
+                order.relayStateIndex,
                 gasUsed,
             );
         }
     }
+
+    private registerRelayMetrics(
+        order: SubmitOrder,
+        status: RelayAttemptStatus,
+    ): void {
+        this.metrics.increment('relayer_relays_total', {
+            type: order.isDelivery ? 'delivery' : 'ack',
+            status,
+        });
+
+        if (status != 'confirmed' || order.evaluation == undefined) {
+            return;
+        }
+
+        // ! The rewards are the estimates of the evaluation (the actual rewards depend on the gas
+        // ! used). They are paid out on the source chain of the message, which for acks is the
+        // ! chain on which the ack is submitted.
+        const evaluation = order.evaluation;
+        const reward = 'relayDelivery' in evaluation
+            ? evaluation.deliveryReward
+            : 'relayAck' in evaluation
+                ? evaluation.ackReward
+                : undefined;
+        if (reward != undefined) {
+            this.metrics.increment(
+                'relayer_relay_estimated_rewards_wei_total',
+                {
+                    type: order.isDelivery ? 'delivery' : 'ack',
+                    chain_id: order.isDelivery ? order.fromChainId : this.chainId,
+                },
+                Number(reward),
+            );
+        }
+    }
+
+    private async registerRelayAttempt(
+        order: SubmitOrder,
+        transactionResult: TransactionResult,
+    ): Promise<void> {
+        try {
+            const { tx, txReceipt, submissionError, confirmationError } = transactionResult;
+
+            let status: RelayAttemptStatus;
+            if (submissionError) {
+                status = 'submissionFailed';
+            } else if (confirmationError) {
+                status = 'confirmationFailed';
+            } else if (txReceipt?.status === 0) {
+                status = 'reverted';
+            } else {
+                status = 'confirmed';
+            }
+
+            const error = submissionError ?? confirmationError;
+
+            this.registerRelayMetrics(order, status);
+
+            const gasUsed = txReceipt?.gasUsed;
+            const effectiveGasPrice = txReceipt?.gasPrice;
+            const value = tx?.value;
+            const feePaid = gasUsed != undefined && effectiveGasPrice != undefined
+                ? gasUsed * effectiveGasPrice
+                : undefined;
+
+            const fiatCost = feePaid != undefined
+                ? await this.pricing.getPrice(this.chainId, feePaid + (value ?? 0n))
+                : null;
+
+            // ! Compare the gas used with the gas estimate of the evaluation (the gas limit of the
+            // ! transaction may be adjusted on submission).
+            const gasEstimate = order.gasEstimate;
+
+            if (status == 'confirmed' && gasUsed != undefined) {
+                void this.registerGasAccuracySample(order, gasEstimate, gasUsed);
+            }
+
+            if (status == 'confirmed') {
+                void this.settleSponsorship(order, fiatCost ?? undefined);
+            } else if (status == 'reverted') {
+                void this.releaseSponsorship(order);
+            }
+
+            const timestamp = Date.now();
+            await this.store.addRelayAttempt({
+                attemptIdentifier: tx?.hash ?? `${order.messageIdentifier}-${timestamp}`,
+                relayStateIndex: order.relayStateIndex,
+                chainId: this.chainId,
+                // For acks the `fromChainId` of the order is the destination of the message.
+                toChainId: order.isDelivery ? this.chainId : order.fromChainId,
+                isDelivery: order.isDelivery,
+                priority: order.priority,
+
+                status,
+                error: error != undefined ? tryErrorToString(error) : undefined,
+                timestamp,
+
+                evaluation: order.evaluation,
+
+                transactionHash: tx?.hash,
+                gasEstimate,
+                gasUsed,
+                effectiveGasPrice,
+                value,
+                feePaid,
+                fiatCost: fiatCost ?? undefined,
+            });
+        } catch (error) {
+            this.logger.warn(
+                {
+                    messageIdentifier: order.messageIdentifier,
+                    error: tryErrorToString(error),
+                },
+                `Failed to register the relay attempt.`,
+            );
+        }
+    }
+
+    private getOrderSponsorship(order: SubmitOrder): string | null {
+        return order.evaluation != undefined && 'sponsorship' in order.evaluation
+            ? order.evaluation.sponsorship
+            : null;
+    }
+
+    // Settle the sponsorship budget reserved for the relay on evaluation (if any) with the actual
+    // fiat cost of the relay.
+    private async settleSponsorship(
+        order: SubmitOrder,
+        fiatCost: number | undefined,
+    ): Promise<void> {
+        const sponsorship = this.getOrderSponsorship(order);
+        if (sponsorship == undefined) {
+            return;
+        }
+
+        try {
+            const fiatLoss = await this.store.settleSponsoredMessage(
+                order.relayStateIndex,
+                sponsorship,
+                order.isDelivery ? 'delivery' : 'ack',
+                fiatCost,
+            );
+            this.logger.debug(
+                { messageIdentifier: order.messageIdentifier, sponsorship, fiatCost, fiatLoss },
+                `Sponsorship budget settled.`,
+            );
+        } catch (error) {
+            this.logger.warn(
+                {
+                    messageIdentifier: order.messageIdentifier,
+                    sponsorship,
+                    error: tryErrorToString(error),
+                },
+                `Failed to settle the sponsorship budget.`,
+            );
+        }
+    }
+
+    // Release the sponsorship budget reserved for the relay on evaluation (if any).
+    private async releaseSponsorship(order: SubmitOrder): Promise<void> {
+        const sponsorship = this.getOrderSponsorship(order);
+        if (sponsorship == undefined) {
+            return;
+        }
+
+        try {
+            const released = await this.store.releaseSponsoredMessage(
+                order.relayStateIndex,
+                sponsorship,
+                order.isDelivery ? 'delivery' : 'ack',
+            );
+            this.logger.debug(
+                { messageIdentifier: order.messageIdentifier, sponsorship, released },
+                `Sponsorship budget released.`,
+            );
+        } catch (error) {
+            this.logger.warn(
+                {
+                    messageIdentifier: order.messageIdentifier,
+                    sponsorship,
+                    error: tryErrorToString(error),
+                },
+                `Failed to release the sponsorship budget.`,
+            );
+        }
+    }
+
+    // Compare the gas estimate of the relay evaluation with the gas used.
+    private async registerGasAccuracySample(
+        order: SubmitOrder,
+        gasEstimate: bigint,
+        gasUsed: bigint,
+    ): Promise<void> {
+        try {
+            // The application executed by the relay: the destination application for deliveries
+            // and the source application for acks.
+            let application: string | undefined;
+            if (order.incentivesPayload != undefined) {
+                const payload = ParsePayload(order.incentivesPayload.toString());
+                application = payload?.context == MessageContext.CTX_SOURCE_TO_DESTINATION
+                    ? payload.toApplication
+                    : payload?.sourceApplicationAddress;
+            }
+
+            // For acks the `fromChainId` of the order is the destination of the message.
+            await this.gasAccuracy.recordSample({
+                kind: order.isDelivery ? 'deliveryGasUsed' : 'ackGasUsed',
+                fromChainId: order.isDelivery ? order.fromChainId : this.chainId,
+                toChainId: order.isDelivery ? this.chainId : order.fromChainId,
+                application,
+                estimate: gasEstimate,
+                actual: gasUsed,
+            });
+        } catch (error) {
+            this.logger.warn(
+                {
+                    messageIdentifier: order.messageIdentifier,
+                    error: tryErrorToString(error),
+                },
+                `Failed to register the gas accuracy sample.`,
+            );
+        }
+    }
 }
@@ -0,0 +1,71 @@
+import { BadRequestException, Body, Controller, NotFoundException, Post } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { ApiSchemaValidationPipe } from 'src/api/api.schema';
+import { RequireScope } from 'src/auth/auth.decorator';
+import { SubmitterService } from './submitter.service';
+import { RelayMessageBody, SubmitterRelayRequestMode } from './submitter.types';
+import { FORCE_RELAY_MESSAGE_BODY_SCHEMA, REEVALUATE_MESSAGE_BODY_SCHEMA } from './submitter.schema';
+
+@Controller()
+export class SubmitterController {
+    constructor(
+        private readonly submitterService: SubmitterService,
+        private readonly loggerService: LoggerService,
+    ) {}
+
+    // Evaluate the relay of the message immediately. Messages that have been dropped (e.g. after
+    // the `maxEvaluationDuration` expired) are evaluated again.
+    @Post('reevaluateAMBMessage')
+    @RequireScope('admin')
+    async reevaluateAMBMessage(
+        @Body(new ApiSchemaValidationPipe(REEVALUATE_MESSAGE_BODY_SCHEMA)) body: RelayMessageBody,
+    ): Promise<void> {
+        await this.requestRelay('reevaluate', body);
+    }
+
+    // Relay the message regardless of the evaluator result, as long as the expected loss does not
+    // exceed the given `maxFiatLoss` (if set).
+    @Post('forceRelayAMBMessage')
+    @RequireScope('admin')
+    async forceRelayAMBMessage(
+        @Body(new ApiSchemaValidationPipe(FORCE_RELAY_MESSAGE_BODY_SCHEMA)) body: RelayMessageBody,
+    ): Promise<void> {
+        await this.requestRelay('force', body);
+    }
+
+    private async requestRelay(
+        mode: SubmitterRelayRequestMode,
+        body: RelayMessageBody,
+    ): Promise<void> {
+        this.loggerService.info(
+            {
+                mode,
+                messageIdentifier: body.messageIdentifier,
+                amb: body.amb,
+                sourceChainId: body.sourceChainId,
+                destinationChainId: body.destinationChainId,
+                maxFiatLoss: body.maxFiatLoss,
+            },
+            `Manual message relay requested.`
+        );
+
+        // The message is relayed by the submitter of the destination chain of the AMB message.
+        const response = await this.submitterService.requestRelay(
+            body.destinationChainId,
+            mode,
+            body.amb,
+            body.sourceChainId,
+            body.messageIdentifier,
+            body.maxFiatLoss,
+        );
+
+        if (response == null) {
+            throw new NotFoundException(
+                `The submitter is not running on chain '${body.destinationChainId}'.`
+            );
+        }
+        if (!response.accepted) {
+            throw new BadRequestException(response.reason);
+        }
+    }
+}
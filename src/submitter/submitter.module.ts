@@ -1,11 +1,14 @@
 import { EvaluatorModule } from './../evaluator/evaluator.module';
 import { Module } from '@nestjs/common';
 import { SubmitterService } from './submitter.service';
+import { SubmitterController } from './submitter.controller';
 import { WalletModule } from 'src/wallet/wallet.module';
+import { PricingModule } from 'src/pricing/pricing.module';
 
 @Module({
+    controllers: [SubmitterController],
     providers: [SubmitterService],
     exports: [SubmitterService],
-    imports: [EvaluatorModule, WalletModule],
+    imports: [EvaluatorModule, WalletModule, PricingModule],
 })
 export class SubmitterModule {}
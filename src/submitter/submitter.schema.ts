@@ -0,0 +1,51 @@
+import { BYTES_32_API_SCHEMA, CHAIN_ID_API_SCHEMA, NON_EMPTY_STRING_API_SCHEMA } from "src/api/api.schema";
+import { ApiEndpoint, ApiObjectSchema } from "src/api/api.types";
+
+
+// Submitter API schemas
+// ************************************************************************************************
+
+const RELAY_MESSAGE_PROPERTIES = {
+    messageIdentifier: BYTES_32_API_SCHEMA,
+    amb: NON_EMPTY_STRING_API_SCHEMA,
+    sourceChainId: CHAIN_ID_API_SCHEMA,
+    destinationChainId: CHAIN_ID_API_SCHEMA,
+}
+
+export const REEVALUATE_MESSAGE_BODY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: RELAY_MESSAGE_PROPERTIES,
+    required: ["messageIdentifier", "amb", "sourceChainId", "destinationChainId"],
+    additionalProperties: false,
+}
+
+export const FORCE_RELAY_MESSAGE_BODY_SCHEMA: ApiObjectSchema = {
+    type: "object",
+    properties: {
+        ...RELAY_MESSAGE_PROPERTIES,
+        maxFiatLoss: {
+            type: "number",
+            minimum: 0,
+            description: "The maximum accepted loss of the relay (unbounded if not set).",
+        },
+    },
+    required: ["messageIdentifier", "amb", "sourceChainId", "destinationChainId"],
+    additionalProperties: false,
+}
+
+export const SUBMITTER_API_ENDPOINTS: ApiEndpoint[] = [
+    {
+        method: "post",
+        path: "/reevaluateAMBMessage",
+        tag: "Submitter",
+        summary: "Evaluate the relay of a message immediately (also for dropped messages).",
+        body: REEVALUATE_MESSAGE_BODY_SCHEMA,
+    },
+    {
+        method: "post",
+        path: "/forceRelayAMBMessage",
+        tag: "Submitter",
+        summary: "Relay a message skipping the profitability check (bounded by 'maxFiatLoss').",
+        body: FORCE_RELAY_MESSAGE_BODY_SCHEMA,
+    },
+];
@@ -9,6 +9,10 @@ import { WalletService } from 'src/wallet/wallet.service';
 import { Wallet } from 'ethers6';
 import { tryErrorToString } from 'src/common/utils';
 import { EvaluatorService } from 'src/evaluator/evaluator.service';
+import { PricingService } from 'src/pricing/pricing.service';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { SubmitterQueueEntry, SubmitterQueueStateResponse, SubmitterRelayRequest, SubmitterRelayRequestMode, SubmitterRelayResponse, SubmitterWorkerMessageType, SubmitterWorkerRequest, SubmitterWorkerResponse } from './submitter.types';
 
 const RETRY_INTERVAL_DEFAULT = 30000;
 const PROCESSING_INTERVAL_DEFAULT = 100;
@@ -18,6 +22,8 @@ const NEW_ORDERS_DELAY_DEFAULT = 0;
 const EVALUATION_RETRY_INTERVAL_DEFAULT = 60 * 60 * 1000;
 const MAX_EVALUATION_DURATION_DEFAULT = 24 * 60 * 60 * 1000;
 
+const WORKER_REQUEST_TIMEOUT = 5000;
+
 interface GlobalSubmitterConfig {
     enabled: boolean;
     newOrdersDelay: number;
@@ -46,17 +52,24 @@ export interface SubmitterWorkerData {
     evaluatorPort: MessagePort;
     walletPublicKey: string;
     walletPort: MessagePort;
+    pricingPort: MessagePort;
+    healthPort: MessagePort;
+    metricsPort: MessagePort;
     loggerOptions: LoggerOptions;
 }
 
 @Injectable()
 export class SubmitterService {
     private readonly workers = new Map<string, Worker>();
+    private workerRequestId = 0;
 
     constructor(
         private readonly configService: ConfigService,
         private readonly evaluatorService: EvaluatorService,
         private readonly walletService: WalletService,
+        private readonly pricingService: PricingService,
+        private readonly healthService: HealthService,
+        private readonly metricsService: MetricsService,
         private readonly loggerService: LoggerService,
     ) {}
 
@@ -83,9 +96,16 @@ export class SubmitterService {
                 workerData,
                 transferList: [
                     workerData.evaluatorPort,
-                    workerData.walletPort
+                    workerData.walletPort,
+                    workerData.pricingPort,
+                    workerData.healthPort,
+                    workerData.metricsPort,
                 ]
             });
+            this.healthService.registerWorker(
+                { type: 'submitter', chainId: chainConfig.chainId },
+                worker,
+            );
 
             worker.on('error', (error) =>
                 this.loggerService.fatal(
@@ -213,7 +233,105 @@ export class SubmitterService {
 
             walletPublicKey: globalConfig.walletPublicKey,
             walletPort: await this.walletService.attachToWallet(),
+            pricingPort: await this.pricingService.attachToPricing(),
+            healthPort: this.healthService.attachToHealth({ type: 'submitter', chainId: chainConfig.chainId }),
+            metricsPort: this.metricsService.attachToMetrics(),
             loggerOptions: this.loggerService.loggerOptions,
         };
     }
+
+
+
+    // Queue state
+    // ********************************************************************************************
+
+    // Get the orders of the given message held on the queues of all the submitter workers. The
+    // workers that fail to respond in time are omitted.
+    async getMessageQueueState(messageIdentifier: string): Promise<SubmitterQueueEntry[]> {
+        const workerEntries = await Promise.all(
+            Array.from(this.workers.entries()).map(async ([chainId, worker]) => {
+                const response = await this.requestWorker<SubmitterQueueStateResponse>(
+                    chainId,
+                    worker,
+                    {
+                        type: SubmitterWorkerMessageType.QueueStateRequest,
+                        messageId: this.workerRequestId++,
+                        messageIdentifier,
+                    },
+                );
+                return response?.entries ?? [];
+            })
+        );
+
+        return workerEntries.flat();
+    }
+
+
+
+    // Manual relays
+    // ********************************************************************************************
+
+    // Request the submitter worker of `chainId` (i.e. the destination chain of the AMB message) to
+    // (force) evaluate the given message immediately. Returns `null` if the submitter is not
+    // running on the given chain.
+    async requestRelay(
+        chainId: string,
+        mode: SubmitterRelayRequestMode,
+        amb: string,
+        fromChainId: string,
+        messageIdentifier: string,
+        maxFiatLoss?: number,
+    ): Promise<SubmitterRelayResponse | null> {
+        const worker = this.workers.get(chainId);
+        if (worker == undefined) {
+            return null;
+        }
+
+        const request: SubmitterRelayRequest = {
+            type: SubmitterWorkerMessageType.RelayRequest,
+            messageId: this.workerRequestId++,
+            mode,
+            messageIdentifier,
+            amb,
+            fromChainId,
+            maxFiatLoss,
+        };
+
+        const response = await this.requestWorker<SubmitterRelayResponse>(chainId, worker, request);
+        return response ?? {
+            type: SubmitterWorkerMessageType.RelayResponse,
+            messageId: request.messageId,
+            accepted: false,
+            reason: `The submitter worker did not respond in time.`,
+        };
+    }
+
+    // Post a request to the given worker. Returns `null` if the worker does not respond in time.
+    private async requestWorker<T extends SubmitterWorkerResponse>(
+        chainId: string,
+        worker: Worker,
+        request: SubmitterWorkerRequest,
+    ): Promise<T | null> {
+        return new Promise<T | null>((resolve) => {
+            const timeout = setTimeout(() => {
+                worker.off('message', listener);
+                this.loggerService.warn(
+                    { chainId, type: request.type },
+                    `Submitter worker request timed out.`,
+                );
+                resolve(null);
+            }, WORKER_REQUEST_TIMEOUT);
+
+            const listener = (data: SubmitterWorkerResponse) => {
+                if (data.messageId === request.messageId) {
+                    clearTimeout(timeout);
+                    worker.off('message', listener);
+                    resolve(data as T);
+                }
+            };
+            worker.on('message', listener);
+
+            worker.postMessage(request);
+        });
+    }
 }
@@ -1,25 +1,50 @@
 import { BytesLike, TransactionReceipt, TransactionRequest, TransactionResponse } from 'ethers6';
+import { RelayStateIndex } from 'src/store/store.types';
+import { EvaluateAckResponseMessage, EvaluateDeliveryResponseMessage } from 'src/evaluator/evaluator.types';
 
 export interface Order {
     amb: string;
     fromChainId: string;
+    fromIncentivesAddress?: string;
     messageIdentifier: string;
     message: BytesLike;
     messageCtx: BytesLike;
     incentivesPayload?: BytesLike;
+    streamEntryId?: string;     // Acknowledged once the order is finished (see 'STORE_CHANNEL_MODE').
 }
 
 export interface EvalOrder extends Order {
     priority: boolean;
     evaluationDeadline: number;
     retryEvaluation?: boolean;
+    forceSubmit?: boolean;      // Skip the profitability check (see `maxFiatLoss`).
+    maxFiatLoss?: number;       // The maximum loss accepted for forced orders (unbounded if not set).
 }
 
+export type DeliveryEvaluation = NonNullable<EvaluateDeliveryResponseMessage['evaluation']>;
+export type AckEvaluation = NonNullable<EvaluateAckResponseMessage['evaluation']>;
+
+// Forced orders are only evaluated if a `maxFiatLoss` is set.
+export interface ForcedEvaluationDetails {
+    forced: true;
+    fiatLoss?: number;
+    maxFiatLoss?: number;
+}
+
+export type SubmitOrderEvaluation = DeliveryEvaluation
+    | AckEvaluation
+    | ForcedEvaluationDetails
+    | (DeliveryEvaluation & ForcedEvaluationDetails)
+    | (AckEvaluation & ForcedEvaluationDetails);
+
 export interface SubmitOrder extends Order {
+    relayStateIndex: RelayStateIndex;
     isDelivery: boolean;
     priority: boolean;
     transactionRequest: TransactionRequest;
+    gasEstimate: bigint;        // The gas estimate on which the evaluation of the order is based.
     requeueCount?: number;
+    evaluation?: SubmitOrderEvaluation;     // The evaluator output (not set for priority orders).
 }
 
 export interface SubmitOrderResult extends SubmitOrder {
@@ -33,10 +58,7 @@ export interface PendingOrder<OrderType> {
 }
 
 
-export interface Bounty {
-    messageIdentifier: string;
-
-    fromChainId: string;
+export interface Bounty extends RelayStateIndex {
 
     maxGasDelivery: bigint;
     maxGasAck: bigint;
@@ -47,3 +69,86 @@ export interface Bounty {
 
     deliveryGasCost?: bigint;
 }
+
+
+export type SubmitterQueueName = 'pending' | 'eval' | 'submit';
+
+export type SubmitterQueueOrderState = 'queued' | 'processing' | 'retry';
+
+// Position of an order of a message on the queues of a submitter worker.
+export interface SubmitterQueueEntry {
+    chainId: string;            // The chain of the submitter worker.
+    queue: SubmitterQueueName;
+    state: SubmitterQueueOrderState;
+
+    amb: string;
+    fromChainId: string;
+    priority: boolean;
+    isDelivery?: boolean;       // Only known once evaluated (i.e. for 'submit' orders).
+    retryCount?: number;
+    processAt?: number;         // Timestamp at which the order is next processed (if scheduled).
+}
+
+
+
+// Submitter worker messages
+// ************************************************************************************************
+
+export enum SubmitterWorkerMessageType {
+    QueueStateRequest,
+    QueueStateResponse,
+    RelayRequest,
+    RelayResponse,
+}
+
+export type SubmitterWorkerRequest = SubmitterQueueStateRequest | SubmitterRelayRequest;
+
+export type SubmitterWorkerResponse = SubmitterQueueStateResponse | SubmitterRelayResponse;
+
+export interface SubmitterQueueStateRequest {
+    type: SubmitterWorkerMessageType.QueueStateRequest;
+    messageId: number;
+    messageIdentifier: string;
+}
+
+export interface SubmitterQueueStateResponse {
+    type: SubmitterWorkerMessageType.QueueStateResponse;
+    messageId: number;
+    entries: SubmitterQueueEntry[];
+}
+
+// 'reevaluate': evaluate the message immediately.
+// 'force': submit the message skipping the profitability check.
+export type SubmitterRelayRequestMode = 'reevaluate' | 'force';
+
+// Manual relay request of the message of the given AMB proof (i.e. of the AMB message sent from
+// `fromChainId` to the chain of the submitter worker).
+export interface SubmitterRelayRequest {
+    type: SubmitterWorkerMessageType.RelayRequest;
+    messageId: number;
+    mode: SubmitterRelayRequestMode;
+    messageIdentifier: string;
+    amb: string;
+    fromChainId: string;
+    maxFiatLoss?: number;
+}
+
+export interface SubmitterRelayResponse {
+    type: SubmitterWorkerMessageType.RelayResponse;
+    messageId: number;
+    accepted: boolean;
+    reason?: string;            // The reason for which the request was not accepted.
+}
+
+
+
+// Controller Types
+// ************************************************************************************************
+
+export interface RelayMessageBody {
+    messageIdentifier: string;
+    amb: string;
+    sourceChainId: string;
+    destinationChainId: string;
+    maxFiatLoss?: number;
+}
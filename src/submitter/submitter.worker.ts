@@ -1,17 +1,24 @@
 import { BytesLike, JsonRpcProvider } from 'ethers6';
 import pino, { LoggerOptions } from 'pino';
 import { Store } from 'src/store/store.lib';
-import { workerData } from 'worker_threads';
+import { parentPort, workerData } from 'worker_threads';
 import { AMBProof } from 'src/store/store.types';
 import { STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
-import { EvalOrder, PendingOrder } from './submitter.types';
+import { EvalOrder, Order, PendingOrder, SubmitOrder, SubmitterQueueEntry, SubmitterQueueName, SubmitterQueueStateResponse, SubmitterRelayRequest, SubmitterRelayResponse, SubmitterWorkerMessageType, SubmitterWorkerRequest } from './submitter.types';
 import { EvalQueue } from './queues/eval-queue';
 import { SubmitQueue } from './queues/submit-queue';
-import { wait } from 'src/common/utils';
+import { tryErrorToString, wait } from 'src/common/utils';
 import { SubmitterWorkerData } from './submitter.service';
 import { WalletInterface } from 'src/wallet/wallet.interface';
 import { Resolver, loadResolver } from 'src/resolvers/resolver';
 import { EvaluatorInterface } from 'src/evaluator/evaluator.interface';
+import { PricingInterface } from 'src/pricing/pricing.interface';
+import { ProcessingQueue } from 'src/processing-queue/processing-queue';
+import { HealthInterface } from 'src/health/health.interface';
+import { MetricsInterface } from 'src/metrics/metrics.interface';
+
+const SUBMITTER_STREAM_GROUP = 'submitter';
+const SUBMITTER_STREAM_CONSUMER = Store.getStreamConsumer('submitter');
 
 class SubmitterWorker {
     private readonly store: Store;
@@ -27,6 +34,9 @@ class SubmitterWorker {
 
     private readonly evaluator: EvaluatorInterface;
     private readonly wallet: WalletInterface;
+    private readonly pricing: PricingInterface;
+    private readonly health: HealthInterface;
+    private readonly metrics: MetricsInterface;
 
     private readonly pendingQueue: PendingOrder<EvalOrder>[] = [];
     private readonly evalQueue: EvalQueue;
@@ -56,6 +66,9 @@ class SubmitterWorker {
 
         this.evaluator = new EvaluatorInterface(this.config.evaluatorPort);
         this.wallet = new WalletInterface(this.config.walletPort);
+        this.pricing = new PricingInterface(this.config.pricingPort);
+        this.health = new HealthInterface(this.config.healthPort);
+        this.metrics = new MetricsInterface(this.config.metricsPort, { chain_id: this.chainId });
 
         [this.evalQueue, this.submitQueue] =
             this.initializeQueues(
@@ -70,6 +83,8 @@ class SubmitterWorker {
                 this.evaluator,
                 this.provider,
                 this.wallet,
+                this.pricing,
+                this.metrics,
                 this.logger,
             );
 
@@ -100,6 +115,8 @@ class SubmitterWorker {
         evaluator: EvaluatorInterface,
         provider: JsonRpcProvider,
         wallet: WalletInterface,
+        pricing: PricingInterface,
+        metrics: MetricsInterface,
         logger: pino.Logger,
     ): [EvalQueue, SubmitQueue] {
         const evalQueue = new EvalQueue(
@@ -112,6 +129,7 @@ class SubmitterWorker {
             packetCosts,
             chainId,
             evaluator,
+            metrics,
             logger,
         );
 
@@ -122,6 +140,8 @@ class SubmitterWorker {
             chainId,
             provider,
             wallet,
+            pricing,
+            metrics,
             logger,
         );
 
@@ -158,28 +178,52 @@ class SubmitterWorker {
         await this.evalQueue.init();
         await this.submitQueue.init();
 
-        // Start listener.
+        // Start listeners.
+        this.listenForServiceRequests();
         await this.listenForOrders();
 
         while (true) {
+            this.health.reportActivity();
+
             const evalOrders = await this.processPendingQueue();
 
             await this.evalQueue.addOrders(...evalOrders);
             await this.evalQueue.processOrders();
 
-            const [newSubmitOrders, noSubmitEvalOrders,] = this.evalQueue.getFinishedOrders();
+            const [newSubmitOrders, noSubmitEvalOrders, rejectedEvalOrders] =
+                this.evalQueue.getFinishedOrders();
             this.processNoSubmitEvalOrders(noSubmitEvalOrders);
+            this.acknowledgeOrders(rejectedEvalOrders);
             await this.submitQueue.addOrders(...newSubmitOrders);
             await this.submitQueue.processOrders();
 
             //TODO process failed submissions in any way?
 
-            this.submitQueue.getFinishedOrders(); // Flush the internal queues
+            const [submittedOrders, skippedSubmitOrders, rejectedSubmitOrders] =
+                this.submitQueue.getFinishedOrders();
+            this.acknowledgeOrders(submittedOrders, skippedSubmitOrders, rejectedSubmitOrders);
+
+            this.reportQueueMetrics();
 
             await wait(this.config.processingInterval);
         }
     }
 
+    private reportQueueMetrics(): void {
+        this.metrics.set(
+            'relayer_queue_size',
+            { worker: 'submitter', queue: 'pending' },
+            this.pendingQueue.length,
+        );
+
+        const queues = { eval: this.evalQueue, submit: this.submitQueue };
+        for (const [queueName, queue] of Object.entries(queues)) {
+            const labels = { worker: 'submitter', queue: queueName };
+            this.metrics.set('relayer_queue_size', labels, queue.size);
+            this.metrics.set('relayer_queue_retries_total', labels, queue.retries);
+        }
+    }
+
     private processNoSubmitEvalOrders(evalOrders: EvalOrder[]): void {
         for (const order of evalOrders) {
             if (order.retryEvaluation) {
@@ -197,6 +241,7 @@ class SubmitterWorker {
                         },
                         'Dropping evaluation order.'
                     );
+                    this.acknowledgeOrders([order]);
                 }
                 else {
                     this.logger.info(
@@ -209,14 +254,60 @@ class SubmitterWorker {
                     );
                     this.addPendingOrder(nextEvaluationTime, order);
                 }
+            } else {
+                this.acknowledgeOrders([order]);
             }
         }
     }
 
+    // Acknowledge the stream entries of the given finished orders (i.e. orders that have been
+    // submitted or dropped), so that they are not replayed.
+    private acknowledgeOrders(...orderGroups: Order[][]): void {
+        for (const order of orderGroups.flat()) {
+            if (order.streamEntryId == undefined) {
+                continue;
+            }
+
+            this.store.ackStreamMessage(
+                Store.getAMBProofStream(this.chainId),
+                SUBMITTER_STREAM_GROUP,
+                order.streamEntryId,
+            ).catch((error) => {
+                this.logger.warn(
+                    {
+                        messageIdentifier: order.messageIdentifier,
+                        streamEntryId: order.streamEntryId,
+                        error: tryErrorToString(error),
+                    },
+                    `Failed to acknowledge the stream entry of the order.`,
+                );
+            });
+        }
+    }
+
     /**
      * Subscribe to the Store to listen for relevant payloads to submit.
      */
     private async listenForOrders(): Promise<void> {
+        if (this.store.channelMode == 'stream') {
+            const ambProofStream = Store.getAMBProofStream(this.chainId);
+            this.logger.info(
+                { stream: ambProofStream },
+                `Listing for messages to submit.`,
+            );
+
+            // The stream entries are acknowledged once the orders are finished (see
+            // 'acknowledgeOrders'), so that the orders are replayed if the relayer stops.
+            await this.store.onStream<AMBProof>(
+                ambProofStream,
+                SUBMITTER_STREAM_GROUP,
+                SUBMITTER_STREAM_CONSUMER,
+                (ambProof, entryId) => this.onAMBProof(ambProof, entryId),
+                true,
+            );
+            return;
+        }
+
         const onAMBProofChannel = Store.getOnAMBProofChannel(this.chainId);
         this.logger.info(
             { channel: onAMBProofChannel },
@@ -224,43 +315,48 @@ class SubmitterWorker {
         );
 
         await this.store.on(onAMBProofChannel, (event: any) => {
+            void this.onAMBProof(event as AMBProof);
+        });
+    }
 
-            const ambProof = event as AMBProof;
+    private async onAMBProof(ambProof: AMBProof, streamEntryId?: string): Promise<void> {
+        const ambMessage = await this.store.getAMBMessage(
+            ambProof.fromChainId,
+            ambProof.messageIdentifier
+        );
 
-            void this.store.getAMBMessage(
-                ambProof.fromChainId,
-                ambProof.messageIdentifier
-            ).then(ambMessage => {
-                if (ambMessage == null) {
-                    this.logger.warn(
-                        {
-                            messageIdentifier: ambProof.messageIdentifier,
-                        },
-                        `AMB message not found on submit order. Submission evaluation will be less accurate.`
-                    );
-                }
+        if (ambMessage == null) {
+            this.logger.warn(
+                {
+                    messageIdentifier: ambProof.messageIdentifier,
+                },
+                `AMB message not found on submit order. Submission evaluation will be less accurate.`
+            );
+        }
 
-                return this.addSubmitOrder(
-                    ambProof.amb,
-                    ambProof.fromChainId,
-                    ambProof.messageIdentifier,
-                    ambProof.message,
-                    ambProof.messageCtx ?? '0x',
-                    ambMessage?.priority ?? false,
-                    ambMessage?.incentivesPayload,
-                );
-            });
-        });
+        await this.addSubmitOrder(
+            ambProof.amb,
+            ambProof.fromChainId,
+            ambMessage?.fromIncentivesAddress,
+            ambProof.messageIdentifier,
+            ambProof.message,
+            ambProof.messageCtx ?? '0x',
+            ambMessage?.priority ?? false,
+            ambMessage?.incentivesPayload,
+            streamEntryId,
+        );
     }
 
     private async addSubmitOrder(
         amb: string,
         fromChainId: string,
+        fromIncentivesAddress: string | undefined,
         messageIdentifier: string,
         message: BytesLike,
         messageCtx: BytesLike,
         priority: boolean,
         incentivesPayload?: BytesLike,
+        streamEntryId?: string,
     ) {
         this.logger.info(
             { messageIdentifier, priority },
@@ -271,12 +367,14 @@ class SubmitterWorker {
             await this.evalQueue.addOrders({
                 amb,
                 fromChainId,
+                fromIncentivesAddress,
                 messageIdentifier,
                 message,
                 messageCtx,
                 priority: true,
                 evaluationDeadline: Date.now() + this.config.maxEvaluationDuration,
                 incentivesPayload,
+                streamEntryId,
             });
         } else {
             // Push into the pending queue
@@ -285,17 +383,227 @@ class SubmitterWorker {
                 {
                     amb,
                     fromChainId,
+                    fromIncentivesAddress,
                     messageIdentifier,
                     message,
                     messageCtx,
                     priority: false,
                     evaluationDeadline: Date.now() + this.config.maxEvaluationDuration,
                     incentivesPayload,
+                    streamEntryId,
                 },
             );
         }
     }
 
+    /***************  Service Requests  ***************/
+
+    /**
+     * Listen for the requests of the submitter service (queue state and manual relay requests).
+     */
+    private listenForServiceRequests(): void {
+        parentPort!.on('message', (request: SubmitterWorkerRequest) => {
+            switch (request.type) {
+                case SubmitterWorkerMessageType.QueueStateRequest: {
+                    const response: SubmitterQueueStateResponse = {
+                        type: SubmitterWorkerMessageType.QueueStateResponse,
+                        messageId: request.messageId,
+                        entries: this.getMessageQueueState(request.messageIdentifier),
+                    };
+                    parentPort!.postMessage(response);
+                    break;
+                }
+                case SubmitterWorkerMessageType.RelayRequest:
+                    void this.processRelayRequest(request).then((response) => {
+                        parentPort!.postMessage(response);
+                    });
+                    break;
+                default:
+                    this.logger.warn(
+                        { request },
+                        `Unknown submitter service request received.`,
+                    );
+            }
+        });
+    }
+
+    /***************  Manual Relay Requests  ***************/
+
+    /**
+     * Queue the message of the given relay request for (forced) evaluation. Any order of the
+     * message that is awaiting re-evaluation is replaced, as the request resets the evaluation
+     * deadline of the message (i.e. messages that have been dropped may be requested again).
+     */
+    private async processRelayRequest(
+        request: SubmitterRelayRequest,
+    ): Promise<SubmitterRelayResponse> {
+        const response: SubmitterRelayResponse = {
+            type: SubmitterWorkerMessageType.RelayResponse,
+            messageId: request.messageId,
+            accepted: false,
+        };
+
+        try {
+            const ambProof = await this.store.getAMBProof(this.chainId, request.messageIdentifier);
+            if (
+                ambProof == null
+                || ambProof.amb != request.amb
+                || ambProof.fromChainId != request.fromChainId
+            ) {
+                response.reason = `The AMB proof of the message has not been collected.`;
+                return response;
+            }
+
+            const isRequestOrder = (order: EvalOrder) => {
+                return order.messageIdentifier.toLowerCase() == request.messageIdentifier.toLowerCase()
+                    && order.amb == request.amb
+                    && order.fromChainId == request.fromChainId;
+            };
+
+            // Orders that are already being evaluated/submitted cannot be replaced.
+            const isInProgress = this.getMessageQueueState(request.messageIdentifier).some(
+                (entry) => entry.queue != 'pending'
+                    && entry.amb == request.amb
+                    && entry.fromChainId == request.fromChainId
+            );
+            if (isInProgress) {
+                response.reason = `The message is already being evaluated or submitted.`;
+                return response;
+            }
+
+            const replacedOrders: EvalOrder[] = [];
+            for (let i = this.pendingQueue.length - 1; i >= 0; i--) {
+                if (isRequestOrder(this.pendingQueue[i]!.order)) {
+                    replacedOrders.push(...this.pendingQueue.splice(i, 1).map(({ order }) => order));
+                }
+            }
+
+            // The requested order takes over the stream entry of the replaced order (if any).
+            const [replacedOrder, ...supersededOrders] = replacedOrders;
+            this.acknowledgeOrders(supersededOrders);
+
+            const ambMessage = await this.store.getAMBMessage(
+                ambProof.fromChainId,
+                ambProof.messageIdentifier
+            );
+
+            const forceSubmit = request.mode == 'force';
+            this.logger.info(
+                {
+                    messageIdentifier: request.messageIdentifier,
+                    mode: request.mode,
+                    maxFiatLoss: request.maxFiatLoss,
+                },
+                `Manual relay request received.`,
+            );
+
+            await this.evalQueue.addOrders({
+                amb: ambProof.amb,
+                fromChainId: ambProof.fromChainId,
+                fromIncentivesAddress: ambMessage?.fromIncentivesAddress,
+                messageIdentifier: ambProof.messageIdentifier,
+                message: ambProof.message,
+                messageCtx: ambProof.messageCtx ?? '0x',
+                priority: ambMessage?.priority ?? false,
+                evaluationDeadline: Date.now() + this.config.maxEvaluationDuration,
+                incentivesPayload: ambMessage?.incentivesPayload,
+                forceSubmit: forceSubmit || undefined,
+                maxFiatLoss: forceSubmit ? request.maxFiatLoss : undefined,
+                streamEntryId: replacedOrder?.streamEntryId,
+            });
+
+            response.accepted = true;
+        } catch (error) {
+            this.logger.warn(
+                {
+                    messageIdentifier: request.messageIdentifier,
+                    error: tryErrorToString(error),
+                },
+                `Failed to process the manual relay request.`,
+            );
+            response.reason = `Failed to process the request.`;
+        }
+
+        return response;
+    }
+
+    /***************  Queue State  ***************/
+
+    /**
+     * Get the orders of the given message held on the submitter queues.
+     */
+    private getMessageQueueState(messageIdentifier: string): SubmitterQueueEntry[] {
+        const isMessageOrder = (order: Order) => {
+            return order.messageIdentifier.toLowerCase() == messageIdentifier.toLowerCase();
+        };
+
+        const entries: SubmitterQueueEntry[] = [];
+
+        for (const pendingOrder of this.pendingQueue) {
+            if (isMessageOrder(pendingOrder.order)) {
+                entries.push({
+                    ...this.getQueueEntryDetails(pendingOrder.order),
+                    queue: 'pending',
+                    state: 'queued',
+                    processAt: pendingOrder.processAt,
+                });
+            }
+        }
+
+        const queues: [SubmitterQueueName, ProcessingQueue<EvalOrder | SubmitOrder, any>][] = [
+            ['eval', this.evalQueue],
+            ['submit', this.submitQueue],
+        ];
+        for (const [queue, processingQueue] of queues) {
+            for (const order of processingQueue.newQueue) {
+                if (isMessageOrder(order)) {
+                    entries.push({
+                        ...this.getQueueEntryDetails(order),
+                        queue,
+                        state: 'queued',
+                    });
+                }
+            }
+
+            for (const processOrder of processingQueue.pendingOrders) {
+                if (isMessageOrder(processOrder.order)) {
+                    entries.push({
+                        ...this.getQueueEntryDetails(processOrder.order),
+                        queue,
+                        state: 'processing',
+                        retryCount: processOrder.retryCount,
+                    });
+                }
+            }
+
+            for (const processOrder of processingQueue.retryQueue) {
+                if (isMessageOrder(processOrder.order)) {
+                    entries.push({
+                        ...this.getQueueEntryDetails(processOrder.order),
+                        queue,
+                        state: 'retry',
+                        retryCount: processOrder.retryCount,
+                        processAt: processOrder.retryAtTimestamp,
+                    });
+                }
+            }
+        }
+
+        return entries;
+    }
+
+    private getQueueEntryDetails(
+        order: EvalOrder | SubmitOrder
+    ): Omit<SubmitterQueueEntry, 'queue' | 'state'> {
+        return {
+            chainId: this.chainId,
+            amb: order.amb,
+            fromChainId: order.fromChainId,
+            priority: order.priority,
+            isDelivery: 'isDelivery' in order ? order.isDelivery : undefined,
+        };
+    }
+
     /***************  Pending Orders Queue  ***************/
 
     private addPendingOrder(processAt: number, order: EvalOrder): void {
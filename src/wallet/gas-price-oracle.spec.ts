@@ -0,0 +1,120 @@
+import { JsonRpcProvider, toQuantity } from 'ethers6';
+import pino from 'pino';
+import { GasPriceOracle } from './gas-price-oracle';
+import { FeeHistoryConfig } from './wallet.types';
+
+const FEE_HISTORY_CONFIG: FeeHistoryConfig = {
+    blockCount: 2,
+    rewardPercentile: 50,
+    cacheDuration: 10_000,
+};
+
+// Build an 'eth_feeHistory' result. The `baseFees` include the base fee of the next block.
+function getFeeHistoryResult(baseFees: bigint[], tips: bigint[]) {
+    return {
+        oldestBlock: toQuantity(100),
+        baseFeePerGas: baseFees.map((baseFee) => toQuantity(baseFee)),
+        reward: tips.map((tip) => [toQuantity(tip)]),
+    };
+}
+
+describe('GasPriceOracle', () => {
+    let send: jest.Mock;
+    let oracle: GasPriceOracle;
+
+    beforeEach(() => {
+        // The base fee doubles on every block.
+        send = jest.fn().mockResolvedValue(getFeeHistoryResult([100n, 200n, 400n], [10n, 30n]));
+        oracle = new GasPriceOracle(
+            FEE_HISTORY_CONFIG,
+            { send } as unknown as JsonRpcProvider,
+            pino({ level: 'silent' }),
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('percentile estimates', () => {
+        // The gas prices of the sampled blocks are 110 and 230.
+        it.each([
+            [0, 110n],
+            [50, 110n],
+            [51, 230n],
+            [100, 230n],
+        ])('uses the nearest-rank percentile (%d)', async (percentile, expectedGasPrice) => {
+            expect(await oracle.getGasPriceEstimate({ percentile })).toBe(expectedGasPrice);
+        });
+    });
+
+    describe('forecast estimates', () => {
+        it('extrapolates the base fee trend plus the median tip', async () => {
+            // The `horizon` is counted from the latest sampled block (i.e. horizon 1 is the next
+            // block, whose base fee is known).
+            expect(await oracle.getGasPriceEstimate({ horizon: 1 })).toBe(400n + 10n);
+            expect(await oracle.getGasPriceEstimate({ horizon: 3 })).toBe(1600n + 10n);
+        });
+
+        it('forecasts a constant base fee if there is no base fee trend', async () => {
+            send.mockResolvedValue(getFeeHistoryResult([0n, 100n, 300n], [10n, 30n]));
+
+            expect(await oracle.getGasPriceEstimate({ horizon: 5 })).toBe(300n + 10n);
+        });
+
+        it('forecasts decreasing base fees', async () => {
+            send.mockResolvedValue(getFeeHistoryResult([400n, 200n, 100n], [10n, 30n]));
+
+            expect(await oracle.getGasPriceEstimate({ horizon: 2 })).toBe(50n + 10n);
+        });
+    });
+
+    it('uses the largest estimate if both a percentile and a horizon are given', async () => {
+        expect(await oracle.getGasPriceEstimate({ percentile: 100, horizon: 1 })).toBe(410n);
+        expect(await oracle.getGasPriceEstimate({ percentile: 100, horizon: 0 })).toBe(230n);
+    });
+
+    it('returns no estimate if none is configured', async () => {
+        expect(await oracle.getGasPriceEstimate({})).toBeUndefined();
+    });
+
+    it('queries the fee history once per cache duration', async () => {
+        await Promise.all([
+            oracle.getGasPriceEstimate({ percentile: 50 }),
+            oracle.getGasPriceEstimate({ horizon: 1 }),
+        ]);
+        await oracle.getGasPriceEstimate({ percentile: 50 });
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith('eth_feeHistory', [
+            toQuantity(FEE_HISTORY_CONFIG.blockCount),
+            'latest',
+            [FEE_HISTORY_CONFIG.rewardPercentile],
+        ]);
+
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + FEE_HISTORY_CONFIG.cacheDuration);
+        await oracle.getGasPriceEstimate({ percentile: 50 });
+
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('uses the stale fee history if the query fails', async () => {
+        expect(await oracle.getGasPriceEstimate({ percentile: 100 })).toBe(230n);
+
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + FEE_HISTORY_CONFIG.cacheDuration);
+        send.mockRejectedValueOnce(new Error('rpc failure'));
+        expect(await oracle.getGasPriceEstimate({ percentile: 100 })).toBe(230n);
+
+        // Invalid results are ignored as well.
+        send.mockResolvedValueOnce(getFeeHistoryResult([100n], [10n, 30n]));
+        expect(await oracle.getGasPriceEstimate({ percentile: 100 })).toBe(230n);
+    });
+
+    it('returns no estimate if the fee history is not available', async () => {
+        send.mockRejectedValue(new Error('rpc failure'));
+
+        expect(await oracle.getGasPriceEstimate({ percentile: 50 })).toBeUndefined();
+    });
+});
@@ -0,0 +1,144 @@
+import { JsonRpcProvider, toQuantity } from 'ethers6';
+import pino from 'pino';
+import { GasPriceEstimateConfig } from 'src/config/config.types';
+import { tryErrorToString } from 'src/common/utils';
+import { FeeHistoryConfig } from './wallet.types';
+
+const DECIMAL_BASE = 10000;
+const DECIMAL_BASE_BIG_INT = BigInt(DECIMAL_BASE);
+
+interface FeeHistory {
+    baseFees: bigint[];     // The base fees of the sampled blocks plus the one of the next block.
+    tips: bigint[];         // The priority fees (at the configured percentile) of the sampled blocks.
+    timestamp: number;
+}
+
+// Gas price estimates based on the recent fee history of the chain (sampled via 'eth_feeHistory').
+// ! The fee history is only sampled on demand, and it is reused for the configured 'cacheDuration'.
+export class GasPriceOracle {
+    private feeHistory: FeeHistory | undefined;
+    private feeHistoryQuery: Promise<FeeHistory | undefined> | undefined;
+
+    constructor(
+        private readonly config: FeeHistoryConfig,
+        private readonly provider: JsonRpcProvider,
+        private readonly logger: pino.Logger,
+    ) {}
+
+    // Returns 'undefined' if the fee history is not available.
+    async getGasPriceEstimate(
+        estimate: GasPriceEstimateConfig,
+    ): Promise<bigint | undefined> {
+        const feeHistory = await this.getFeeHistory();
+        if (feeHistory == undefined) {
+            return undefined;
+        }
+
+        const estimates: bigint[] = [];
+        if (estimate.percentile != undefined) {
+            estimates.push(this.getPercentileGasPrice(feeHistory, estimate.percentile));
+        }
+        if (estimate.horizon != undefined) {
+            estimates.push(this.getForecastGasPrice(feeHistory, estimate.horizon));
+        }
+
+        return estimates.reduce<bigint | undefined>(
+            (max, gasPrice) => max == undefined || gasPrice > max ? gasPrice : max,
+            undefined,
+        );
+    }
+
+    private getPercentileGasPrice(
+        feeHistory: FeeHistory,
+        percentile: number,
+    ): bigint {
+        const gasPrices = feeHistory.tips.map((tip, index) => feeHistory.baseFees[index]! + tip);
+        return this.getPercentile(gasPrices, percentile);
+    }
+
+    // Extrapolate the base fee trend of the sampled blocks `horizon` blocks ahead (of the latest
+    // sampled block), plus the median tip.
+    private getForecastGasPrice(
+        feeHistory: FeeHistory,
+        horizon: number,
+    ): bigint {
+        const firstBaseFee = feeHistory.baseFees[0]!;
+        const nextBaseFee = feeHistory.baseFees[feeHistory.baseFees.length - 1]!;
+        const sampledBlocks = feeHistory.baseFees.length - 1;
+
+        const blockTrend = firstBaseFee == 0n
+            ? 1
+            : Math.pow(Number(nextBaseFee) / Number(firstBaseFee), 1 / sampledBlocks);
+
+        const forecastFactor = Math.pow(blockTrend, horizon - 1);
+        const forecastBaseFee = nextBaseFee
+            * BigInt(Math.round(forecastFactor * DECIMAL_BASE))
+            / DECIMAL_BASE_BIG_INT;
+
+        return forecastBaseFee + this.getPercentile(feeHistory.tips, 50);
+    }
+
+    private getPercentile(values: bigint[], percentile: number): bigint {
+        const sortedValues = [...values].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+
+        // Nearest-rank percentile.
+        const rank = Math.ceil(percentile / 100 * sortedValues.length);
+        return sortedValues[Math.min(Math.max(rank - 1, 0), sortedValues.length - 1)]!;
+    }
+
+    private async getFeeHistory(): Promise<FeeHistory | undefined> {
+        if (
+            this.feeHistory != undefined
+            && Date.now() - this.feeHistory.timestamp < this.config.cacheDuration
+        ) {
+            return this.feeHistory;
+        }
+
+        // Share the query among concurrent requests.
+        this.feeHistoryQuery ??= this.queryFeeHistory().finally(() => {
+            this.feeHistoryQuery = undefined;
+        });
+
+        return this.feeHistoryQuery;
+    }
+
+    private async queryFeeHistory(): Promise<FeeHistory | undefined> {
+        try {
+            const result = await this.provider.send('eth_feeHistory', [
+                toQuantity(this.config.blockCount),
+                'latest',
+                [this.config.rewardPercentile],
+            ]);
+
+            const baseFees: bigint[] = (result.baseFeePerGas ?? []).map(
+                (baseFee: string) => BigInt(baseFee)
+            );
+            const tips: bigint[] = (result.reward ?? []).map(
+                (blockRewards: string[]) => BigInt(blockRewards[0] ?? 0)
+            );
+
+            if (tips.length == 0 || baseFees.length != tips.length + 1) {
+                this.logger.warn(
+                    { result },
+                    `Invalid fee history returned by the rpc.`,
+                );
+                return this.feeHistory;
+            }
+
+            this.feeHistory = {
+                baseFees,
+                tips,
+                timestamp: Date.now(),
+            };
+        }
+        catch (error) {
+            // Continue with the stale fee history (if any).
+            this.logger.warn(
+                { error: tryErrorToString(error) },
+                `Failed to query the fee history.`,
+            );
+        }
+
+        return this.feeHistory;
+    }
+}
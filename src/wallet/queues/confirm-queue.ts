@@ -4,6 +4,8 @@ import pino from 'pino';
 import { TransactionHelper } from '../transaction-helper';
 import { ConfirmedTransaction, PendingTransaction } from '../wallet.types';
 import { tryErrorToString } from 'src/common/utils';
+import { Store } from 'src/store/store.lib';
+import { MessageTimelineEvent } from 'src/store/store.types';
 
 
 export class ConfirmQueue extends ProcessingQueue<PendingTransaction, ConfirmedTransaction> {
@@ -16,6 +18,8 @@ export class ConfirmQueue extends ProcessingQueue<PendingTransaction, ConfirmedT
         private readonly confirmationTimeout: number,
         private readonly provider: AbstractProvider,
         private readonly wallet: Wallet,
+        private readonly chainId: string,
+        private readonly store: Store,
         private readonly logger: pino.Logger,
     ) {
         super(
@@ -80,6 +84,15 @@ export class ConfirmQueue extends ProcessingQueue<PendingTransaction, ConfirmedT
                 value: originalTx.value,
                 ...increasedFeeConfig,
             });
+
+            void this.registerTimelineEvent(order, {
+                type: 'repriced',
+                transactionHash: order.txReplacement.hash,
+                details: {
+                    originalTransactionHash: originalTx.hash,
+                    ...increasedFeeConfig,
+                },
+            });
         }
 
         // Wait for either the original or the replace transaction to fulfill
@@ -201,7 +214,7 @@ export class ConfirmQueue extends ProcessingQueue<PendingTransaction, ConfirmedT
     protected override async onOrderCompletion(
         order: PendingTransaction,
         success: boolean,
-        result: null,
+        result: ConfirmedTransaction | null,
         retryCount: number,
     ): Promise<void> {
         const orderDescription = {
@@ -212,8 +225,51 @@ export class ConfirmQueue extends ProcessingQueue<PendingTransaction, ConfirmedT
 
         if (success) {
             this.logger.info(orderDescription, `Transaction confirmed.`);
+
+            void this.registerTimelineEvent(order, {
+                type: 'confirmed',
+                transactionHash: result?.txReceipt.hash ?? order.tx.hash,
+                details: {
+                    blockNumber: result?.txReceipt.blockNumber,
+                    gasUsed: result?.txReceipt.gasUsed,
+                    gasPrice: result?.txReceipt.gasPrice,
+                    status: result?.txReceipt.status,
+                },
+            });
         } else {
             this.logger.error(orderDescription, `Transaction not confirmed.`);
+
+            void this.registerTimelineEvent(order, {
+                type: 'failed',
+                transactionHash: order.txReplacement?.hash ?? order.tx.hash,
+                details: {
+                    stage: 'confirmation',
+                    error: tryErrorToString(order.confirmationError),
+                },
+            });
+        }
+    }
+
+    private async registerTimelineEvent(
+        order: PendingTransaction,
+        event: Omit<MessageTimelineEvent, 'timestamp' | 'source' | 'chainId'>,
+    ): Promise<void> {
+        const relayStateIndex = order.options.timelineRelayStateIndex;
+        if (relayStateIndex == undefined) {
+            return;
+        }
+
+        try {
+            await this.store.addMessageTimelineEvent(relayStateIndex, {
+                ...event,
+                source: 'wallet',
+                chainId: this.chainId,
+            });
+        } catch (error) {
+            this.logger.warn(
+                { messageIdentifier: relayStateIndex.messageIdentifier, error: tryErrorToString(error) },
+                `Failed to register the message timeline event.`,
+            );
         }
     }
 }
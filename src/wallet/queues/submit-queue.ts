@@ -4,6 +4,8 @@ import { HandleOrderResult, ProcessingQueue } from "src/processing-queue/process
 import { PendingTransaction, WalletTransactionRequest } from "../wallet.types";
 import { TransactionHelper } from "../transaction-helper";
 import { tryErrorToString } from "src/common/utils";
+import { Store } from "src/store/store.lib";
+import { MessageTimelineEvent } from "src/store/store.types";
 
 export class SubmitQueue extends ProcessingQueue<WalletTransactionRequest, PendingTransaction> {
 
@@ -12,6 +14,8 @@ export class SubmitQueue extends ProcessingQueue<WalletTransactionRequest, Pendi
         maxTries: number,
         private readonly transactionHelper: TransactionHelper,
         private readonly signer: Wallet,
+        private readonly chainId: string,
+        private readonly store: Store,
         private readonly logger: pino.Logger
     ) {
         super(
@@ -112,6 +116,18 @@ export class SubmitQueue extends ProcessingQueue<WalletTransactionRequest, Pendi
                     orderDescription,
                     `Successful transaction processing: transaction submitted.`,
                 );
+
+                void this.registerTimelineEvent(order, {
+                    type: 'submitted',
+                    transactionHash: result.tx.hash,
+                    details: {
+                        nonce: result.tx.nonce,
+                        gasLimit: result.tx.gasLimit,
+                        gasPrice: result.tx.gasPrice,
+                        maxFeePerGas: result.tx.maxFeePerGas,
+                        maxPriorityFeePerGas: result.tx.maxPriorityFeePerGas,
+                    },
+                });
             } else {
                 this.logger.info(
                     orderDescription,
@@ -123,6 +139,37 @@ export class SubmitQueue extends ProcessingQueue<WalletTransactionRequest, Pendi
                 orderDescription,
                 `Unsuccessful transaction processing.`,
             );
+
+            void this.registerTimelineEvent(order, {
+                type: 'failed',
+                details: {
+                    stage: 'submission',
+                    error: tryErrorToString(order.submissionError),
+                },
+            });
+        }
+    }
+
+    private async registerTimelineEvent(
+        order: WalletTransactionRequest,
+        event: Omit<MessageTimelineEvent, 'timestamp' | 'source' | 'chainId'>,
+    ): Promise<void> {
+        const relayStateIndex = order.options.timelineRelayStateIndex;
+        if (relayStateIndex == undefined) {
+            return;
+        }
+
+        try {
+            await this.store.addMessageTimelineEvent(relayStateIndex, {
+                ...event,
+                source: 'wallet',
+                chainId: this.chainId,
+            });
+        } catch (error) {
+            this.logger.warn(
+                { messageIdentifier: relayStateIndex.messageIdentifier, error: tryErrorToString(error) },
+                `Failed to register the message timeline event.`,
+            );
         }
     }
 }
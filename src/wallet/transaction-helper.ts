@@ -149,6 +149,10 @@ export class TransactionHelper {
         this.transactionNonce++;
     }
 
+    getWalletBalance(): bigint {
+        return this.walletBalance;
+    }
+
     async registerBalanceUse(amount: bigint): Promise<void> {
         this.transactionsSinceLastBalanceUpdate++;
 
@@ -1,6 +1,7 @@
 import { FeeData, TransactionReceipt, TransactionRequest, TransactionResponse } from 'ethers6';
 import { MessagePort } from 'worker_threads';
-import { WALLET_WORKER_CRASHED_MESSAGE_ID, WalletFeeDataMessage, WalletGetFeeDataMessage, WalletMessageType, WalletPortData, WalletTransactionOptions, WalletTransactionRequestMessage, WalletTransactionRequestResponseMessage } from './wallet.types';
+import { GasPriceEstimateConfig } from 'src/config/config.types';
+import { WALLET_WORKER_CRASHED_MESSAGE_ID, WalletFeeDataMessage, WalletGasPriceEstimateMessage, WalletGetFeeDataMessage, WalletGetGasPriceEstimateMessage, WalletMessageType, WalletPortData, WalletTransactionOptions, WalletTransactionRequestMessage, WalletTransactionRequestResponseMessage } from './wallet.types';
 
 export interface TransactionResult<T = any> {
     txRequest: TransactionRequest;
@@ -127,4 +128,46 @@ export class WalletInterface {
 
         return resultPromise;
     }
+
+    // Get a gas price estimate based on the recent fee history of the chain. Returns 'undefined'
+    // if the fee history is not available.
+    async getGasPriceEstimate(
+        chainId: string,
+        estimate: GasPriceEstimateConfig,
+    ): Promise<bigint | undefined> {
+
+        const messageId = this.getNextPortMessageId();
+
+        const resultPromise = new Promise<bigint | undefined>(resolve => {
+            const listener = (data: WalletPortData) => {
+                if (data.messageId === messageId) {
+                    this.port.off("message", listener);
+
+                    const walletResponse = data.message as WalletGasPriceEstimateMessage;
+                    resolve(walletResponse.gasPrice);
+                } else if (
+                    data.messageId === WALLET_WORKER_CRASHED_MESSAGE_ID
+                    && data.chainId == chainId
+                ) {
+                    this.port.off("message", listener);
+                    resolve(undefined);
+                }
+            };
+            this.port.on("message", listener);
+
+            const message: WalletGetGasPriceEstimateMessage = {
+                type: WalletMessageType.GetGasPriceEstimate,
+                estimate,
+            };
+
+            const portData: WalletPortData = {
+                chainId,
+                messageId,
+                message,
+            }
+            this.port.postMessage(portData);
+        });
+
+        return resultPromise;
+    }
 }
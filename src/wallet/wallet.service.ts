@@ -7,6 +7,8 @@ import { LoggerService, STATUS_LOG_INTERVAL } from 'src/logger/logger.service';
 import { WALLET_WORKER_CRASHED_MESSAGE_ID, WalletCrashedMessage, WalletMessageType, WalletPortData, WalletServiceRoutingData } from './wallet.types';
 import { Wallet } from 'ethers6';
 import { tryErrorToString } from 'src/common/utils';
+import { HealthService } from 'src/health/health.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 const DEFAULT_WALLET_RETRY_INTERVAL = 30000;
 const DEFAULT_WALLET_PROCESSING_INTERVAL = 100;
@@ -15,6 +17,9 @@ const DEFAULT_WALLET_MAX_PENDING_TRANSACTIONS = 50;
 const DEFAULT_WALLET_CONFIRMATIONS = 1;
 const DEFAULT_WALLET_CONFIRMATION_TIMEOUT = 60000;
 const DEFAULT_WALLET_BALANCE_UPDATE_INTERVAL = 50;
+const DEFAULT_WALLET_FEE_HISTORY_BLOCK_COUNT = 20;
+const DEFAULT_WALLET_FEE_HISTORY_REWARD_PERCENTILE = 50;
+const DEFAULT_WALLET_FEE_HISTORY_CACHE_DURATION = 10000;
 
 interface DefaultWalletWorkerData {
     retryInterval: number;
@@ -31,6 +36,9 @@ interface DefaultWalletWorkerData {
     maxAllowedGasPrice?: bigint;
     gasPriceAdjustmentFactor?: number;
     priorityAdjustmentFactor?: number;
+    feeHistoryBlockCount: number;
+    feeHistoryRewardPercentile: number;
+    feeHistoryCacheDuration: number;
 }
 
 export interface WalletWorkerData {
@@ -52,6 +60,11 @@ export interface WalletWorkerData {
     maxAllowedGasPrice?: bigint;
     gasPriceAdjustmentFactor?: number;
     priorityAdjustmentFactor?: number;
+    feeHistoryBlockCount: number;
+    feeHistoryRewardPercentile: number;
+    feeHistoryCacheDuration: number;
+    healthPort: MessagePort;
+    metricsPort: MessagePort;
     loggerOptions: LoggerOptions;
 
 }
@@ -71,6 +84,8 @@ export class WalletService implements OnModuleInit {
 
     constructor(
         private readonly configService: ConfigService,
+        private readonly healthService: HealthService,
+        private readonly metricsService: MetricsService,
         private readonly loggerService: LoggerService,
     ) {
         this.defaultWorkerConfig = this.loadDefaultWorkerConfig();
@@ -120,6 +135,10 @@ export class WalletService implements OnModuleInit {
         const gasPriceAdjustmentFactor = globalWalletConfig.gasPriceAdjustmentFactor;
         const priorityAdjustmentFactor = globalWalletConfig.priorityAdjustmentFactor;
 
+        const feeHistoryBlockCount = globalWalletConfig.feeHistoryBlockCount ?? DEFAULT_WALLET_FEE_HISTORY_BLOCK_COUNT;
+        const feeHistoryRewardPercentile = globalWalletConfig.feeHistoryRewardPercentile ?? DEFAULT_WALLET_FEE_HISTORY_REWARD_PERCENTILE;
+        const feeHistoryCacheDuration = globalWalletConfig.feeHistoryCacheDuration ?? DEFAULT_WALLET_FEE_HISTORY_CACHE_DURATION;
+
         return {
             retryInterval,
             processingInterval,
@@ -135,6 +154,9 @@ export class WalletService implements OnModuleInit {
             maxAllowedGasPrice,
             gasPriceAdjustmentFactor,
             priorityAdjustmentFactor,
+            feeHistoryBlockCount,
+            feeHistoryRewardPercentile,
+            feeHistoryCacheDuration,
         }
     }
 
@@ -200,6 +222,20 @@ export class WalletService implements OnModuleInit {
                 chainWalletConfig.priorityAdjustmentFactor ??
                 defaultConfig.priorityAdjustmentFactor,
 
+            feeHistoryBlockCount:
+                chainWalletConfig.feeHistoryBlockCount ??
+                defaultConfig.feeHistoryBlockCount,
+
+            feeHistoryRewardPercentile:
+                chainWalletConfig.feeHistoryRewardPercentile ??
+                defaultConfig.feeHistoryRewardPercentile,
+
+            feeHistoryCacheDuration:
+                chainWalletConfig.feeHistoryCacheDuration ??
+                defaultConfig.feeHistoryCacheDuration,
+
+            healthPort: this.healthService.attachToHealth({ type: 'wallet', chainId }),
+            metricsPort: this.metricsService.attachToMetrics(),
             loggerOptions: this.loggerService.loggerOptions
         };
     }
@@ -217,9 +253,11 @@ export class WalletService implements OnModuleInit {
         );
 
         const worker = new Worker(join(__dirname, 'wallet.worker.js'), {
-            workerData
+            workerData,
+            transferList: [workerData.healthPort, workerData.metricsPort]
         });
         this.workers[chainId] = worker;
+        this.healthService.registerWorker({ type: 'wallet', chainId }, worker);
 
         worker.on('error', (error) =>
             this.loggerService.error(
@@ -1,4 +1,6 @@
 import { TransactionRequest, TransactionReceipt, TransactionResponse } from "ethers6";
+import { GasPriceEstimateConfig } from "src/config/config.types";
+import { RelayStateIndex } from "src/store/store.types";
 
 
 
@@ -24,6 +26,8 @@ export enum WalletMessageType {
     TransactionRequestResponse,
     GetFeeData,
     FeeData,
+    GetGasPriceEstimate,
+    GasPriceEstimate,
     WalletCrashed,
 }
 
@@ -31,6 +35,8 @@ export type WalletMessage = WalletTransactionRequestMessage
     | WalletTransactionRequestResponseMessage
     | WalletGetFeeDataMessage
     | WalletFeeDataMessage
+    | WalletGetGasPriceEstimateMessage
+    | WalletGasPriceEstimateMessage
     | WalletCrashedMessage;
 
 
@@ -65,6 +71,16 @@ export interface WalletFeeDataMessage {
     maxPriorityFeePerGas?: bigint;
 }
 
+export interface WalletGetGasPriceEstimateMessage {
+    type: WalletMessageType.GetGasPriceEstimate,
+    estimate: GasPriceEstimateConfig,
+}
+
+export interface WalletGasPriceEstimateMessage {
+    type: WalletMessageType.GasPriceEstimate,
+    gasPrice?: bigint;          // Not set if the fee history is not available.
+}
+
 export interface WalletCrashedMessage {
     type: WalletMessageType.WalletCrashed,
 }
@@ -76,6 +92,7 @@ export interface WalletCrashedMessage {
 export interface WalletTransactionOptions {
     retryOnNonceConfirmationError?: boolean;    // Default: true, NOTE: this will cause the transaction to be executed out of order
     deadline?: number;                          // Default: undefined (i.e. no deadline)
+    timelineRelayStateIndex?: RelayStateIndex;  // Relay on which timeline to register the transaction lifecycle events
 }
 
 export interface WalletTransactionRequest<T = any> {
@@ -122,4 +139,10 @@ export interface GasFeeConfig {
 export interface BalanceConfig {
     lowBalanceWarning: bigint | undefined;
     balanceUpdateInterval: number;
+}
+
+export interface FeeHistoryConfig {
+    blockCount: number;
+    rewardPercentile: number;
+    cacheDuration: number;
 }
\ No newline at end of file
@@ -6,8 +6,13 @@ import { STATUS_LOG_INTERVAL } from "src/logger/logger.service";
 import { TransactionHelper } from "./transaction-helper";
 import { ConfirmQueue } from "./queues/confirm-queue";
 import { WalletWorkerData } from "./wallet.service";
-import { ConfirmedTransaction, GasFeeConfig, PendingTransaction, WalletTransactionOptions, WalletTransactionRequest, WalletTransactionRequestResponseMessage, BalanceConfig, WalletServiceRoutingData, WalletMessageType, WalletFeeDataMessage } from "./wallet.types";
+import { ConfirmedTransaction, GasFeeConfig, PendingTransaction, WalletTransactionOptions, WalletTransactionRequest, WalletTransactionRequestResponseMessage, BalanceConfig, WalletServiceRoutingData, WalletMessageType, WalletFeeDataMessage, FeeHistoryConfig, WalletGasPriceEstimateMessage } from "./wallet.types";
 import { SubmitQueue } from "./queues/submit-queue";
+import { Store } from "src/store/store.lib";
+import { HealthInterface } from "src/health/health.interface";
+import { MetricsInterface } from "src/metrics/metrics.interface";
+import { GasPriceOracle } from "./gas-price-oracle";
+import { GasPriceEstimateConfig } from "src/config/config.types";
 
 
 class WalletWorker {
@@ -22,11 +27,17 @@ class WalletWorker {
     private readonly chainName: string;
 
     private readonly transactionHelper: TransactionHelper;
+    private readonly gasPriceOracle: GasPriceOracle;
+
+    private readonly store: Store;
 
     private readonly submitQueue: SubmitQueue;
     private readonly confirmQueue: ConfirmQueue;
     private readonly newRequestsQueue: WalletTransactionRequest[] = [];
 
+    private readonly health: HealthInterface;
+    private readonly metrics: MetricsInterface;
+
     private isStalled = false;
 
     private portsCount = 0;
@@ -46,6 +57,8 @@ class WalletWorker {
         this.provider = this.initializeProvider(this.config.rpc);
         this.signer = this.initializeSigner(this.config.privateKey, this.provider);
 
+        this.store = new Store();
+
         this.transactionHelper = new TransactionHelper(
             this.getGasFeeConfig(this.config),
             this.getBalanceConfig(this.config),
@@ -55,6 +68,12 @@ class WalletWorker {
             this.logger,
         );
 
+        this.gasPriceOracle = new GasPriceOracle(
+            this.getFeeHistoryConfig(this.config),
+            this.provider,
+            this.logger,
+        );
+
         [this.submitQueue, this.confirmQueue] = this.initializeQueues(
             this.config.retryInterval,
             this.config.maxTries,
@@ -63,9 +82,14 @@ class WalletWorker {
             this.transactionHelper,
             this.provider,
             this.signer,
+            this.chainId,
+            this.store,
             this.logger
         );
 
+        this.health = new HealthInterface(this.config.healthPort);
+        this.metrics = new MetricsInterface(this.config.metricsPort, { chain_id: this.chainId });
+
         this.initializePort();
 
         this.initiateIntervalStatusLog();
@@ -106,6 +130,8 @@ class WalletWorker {
         transactionHelper: TransactionHelper,
         provider: AbstractProvider,
         signer: Wallet,
+        chainId: string,
+        store: Store,
         logger: pino.Logger,
     ): [SubmitQueue, ConfirmQueue] {
 
@@ -114,6 +140,8 @@ class WalletWorker {
             maxTries,
             transactionHelper,
             signer,
+            chainId,
+            store,
             logger
         );
 
@@ -125,6 +153,8 @@ class WalletWorker {
             confirmationTimeout,
             provider,
             signer,
+            chainId,
+            store,
             logger,
         );
 
@@ -149,6 +179,14 @@ class WalletWorker {
         };
     }
 
+    private getFeeHistoryConfig(config: WalletWorkerData): FeeHistoryConfig {
+        return {
+            blockCount: config.feeHistoryBlockCount,
+            rewardPercentile: config.feeHistoryRewardPercentile,
+            cacheDuration: config.feeHistoryCacheDuration,
+        };
+    }
+
     private initializePort(): void {
         parentPort!.on('message', (message: WalletServiceRoutingData) => {
             this.processRequest(message);
@@ -174,6 +212,13 @@ class WalletWorker {
                     data.message.priority,
                 );
                 break;
+            case WalletMessageType.GetGasPriceEstimate:
+                void this.handleGetGasPriceEstimateRequest(
+                    data.portId,
+                    data.messageId,
+                    data.message.estimate,
+                );
+                break;
             default:
                 this.logger.error(
                     data,
@@ -227,6 +272,27 @@ class WalletWorker {
         parentPort!.postMessage(routingResponse);
     }
 
+    private async handleGetGasPriceEstimateRequest(
+        portId: number,
+        messageId: number,
+        estimate: GasPriceEstimateConfig,
+    ): Promise<void> {
+        const gasPrice = await this.gasPriceOracle.getGasPriceEstimate(estimate);
+
+        const gasPriceEstimateMessage: WalletGasPriceEstimateMessage = {
+            type: WalletMessageType.GasPriceEstimate,
+            gasPrice,
+        };
+
+        const routingResponse: WalletServiceRoutingData = {
+            portId,
+            messageId,
+            message: gasPriceEstimateMessage,
+        };
+
+        parentPort!.postMessage(routingResponse);
+    }
+
     private initiateIntervalStatusLog(): void {
         const logStatus = () => {
             const status = {
@@ -255,6 +321,8 @@ class WalletWorker {
         await this.confirmQueue.init();
 
         while (true) {
+            this.health.reportActivity();
+
             const newOrders = await this.processNewRequestsQueue();
 
             await this.submitQueue.addOrders(...newOrders);
@@ -279,10 +347,33 @@ class WalletWorker {
             await this.handleRejectedTransactions(rejectedTransactions);
             await this.handleUnconfirmedTransactions(unconfirmedTransactions);
 
+            this.reportMetrics();
+
             await wait(this.config.processingInterval);
         }
     }
 
+    private reportMetrics(): void {
+        this.metrics.set(
+            'relayer_wallet_balance_wei',
+            {},
+            Number(this.transactionHelper.getWalletBalance()),
+        );
+
+        this.metrics.set(
+            'relayer_queue_size',
+            { worker: 'wallet', queue: 'requests' },
+            this.newRequestsQueue.length,
+        );
+
+        const queues = { submit: this.submitQueue, confirm: this.confirmQueue };
+        for (const [queueName, queue] of Object.entries(queues)) {
+            const labels = { worker: 'wallet', queue: queueName };
+            this.metrics.set('relayer_queue_size', labels, queue.size);
+            this.metrics.set('relayer_queue_retries_total', labels, queue.retries);
+        }
+    }
+
     private async processNewRequestsQueue(): Promise<WalletTransactionRequest[]> {
         const capacity = this.getWalletCapacity();
 
@@ -341,6 +432,7 @@ class WalletWorker {
             const txReceipt = transaction.txReceipt;
             const gasCost = txReceipt.gasUsed * txReceipt.gasPrice;
             await this.transactionHelper.registerBalanceUse(gasCost);
+            this.metrics.increment('relayer_gas_spent_wei_total', {}, Number(gasCost));
 
             const logDescription = {
                 txHash: transaction.txReceipt.hash,